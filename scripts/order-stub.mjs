@@ -0,0 +1,81 @@
+// Local stand-in for the order endpoint, for trying the offline outbox:
+//   npm run stub:orders        (PORT=8787, FAIL_FIRST=0; PORT=0 for any free port)
+// then set <meta name="order-endpoint" content="http://localhost:8787/orders"> in index.html.
+// POST /orders records an order once per Idempotency-Key; GET /orders lists what was recorded.
+// FAIL_FIRST=n answers the first n submissions with 503, to watch the outbox retry.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 8787);
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+// Idempotency-Key -> { body, orderId }, and order id -> Idempotency-Key
+const byKey = new Map();
+const keyByOrderId = new Map();
+
+const cors = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Accept, Idempotency-Key'
+};
+
+function send(res, status, payload, headers = {}) {
+    res.writeHead(status, { ...cors, 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(payload));
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+const server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? '/', `http://localhost:${port}`).pathname;
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, cors);
+        return res.end();
+    }
+    if (path !== '/orders') return send(res, 404, { error: 'not found' });
+    if (req.method === 'GET') {
+        return send(res, 200, { orders: Array.from(byKey.values(), (record) => JSON.parse(record.body)) });
+    }
+    if (req.method !== 'POST') return send(res, 405, { error: 'method not allowed' });
+
+    const key = req.headers['idempotency-key'];
+    const body = await readBody(req);
+    if (typeof key !== 'string' || key === '') return send(res, 400, { error: 'Idempotency-Key header is required' });
+
+    let orderId;
+    try {
+        orderId = JSON.parse(body).order.id;
+    } catch {
+        return send(res, 400, { error: 'body must be an order submission' });
+    }
+
+    if (failuresLeft > 0) {
+        failuresLeft -= 1;
+        console.log(`503 ${orderId} (${key}), ${failuresLeft} failures left`);
+        return send(res, 503, { error: 'temporarily unavailable' });
+    }
+
+    const previous = byKey.get(key);
+    if (previous) {
+        // A retry: same key, same order
+        if (previous.body !== body) return send(res, 422, { error: 'Idempotency-Key was already used for a different request' });
+        console.log(`200 ${orderId} (${key}) replayed`);
+        return send(res, 200, { id: orderId }, { 'Idempotent-Replayed': 'true' });
+    }
+    if (keyByOrderId.has(orderId)) return send(res, 409, { error: `order ${orderId} was already submitted under another key` });
+
+    byKey.set(key, { body, orderId });
+    keyByOrderId.set(orderId, key);
+    console.log(`201 ${orderId} (${key})`);
+    return send(res, 201, { id: orderId });
+});
+
+// PORT=0 picks a free port, so print the one actually bound
+server.listen(port, () => console.log(`Order stub listening on http://localhost:${server.address().port}/orders`));
@@ -0,0 +1,147 @@
+// Undo/redo over a cart's event log
+import { CartEvent, CartMutation } from '../types/index.js';
+import { applyCartMutation, copyCartItem, invertCartEvent, isCartMutation } from '../utils/cartFunctions.js';
+import { ShoppingCart } from './ShoppingCart.js';
+
+const CART_HISTORY_LIMIT = 50;
+
+/**
+ * Append-only log of a cart's mutations with bounded undo/redo on top.
+ * Undoing applies the inverse event, so past entries are never rewritten and
+ * ShoppingCart.fromEvents(history.getLog()) always rebuilds the live cart.
+ * The log is bounded like the stacks: once it passes `limit` entries it is folded into
+ * a snapshot of the live cart, which rebuilds to the same thing.
+ * The mutations of one batch (e.g. assigning a line to someone) make a single step.
+ * Wholesale replacements (restoring a saved cart, catalog updates) can't be undone
+ * and reset the undo/redo stacks, since earlier steps may no longer apply.
+ * Changes made in another tab (while `isRemote` says so) are logged but aren't this tab's to undo;
+ * a step they have made impossible, such as changing the quantity of a line since removed there,
+ * is dropped instead of being half applied.
+ */
+export class CartHistory {
+    private log: CartMutation[] = [];
+    private undoStack: CartMutation[][] = [];
+    private redoStack: CartMutation[][] = [];
+    // Mutations of the batch in progress, recorded as one step when it ends
+    private pending: CartMutation[] | null = null;
+    private applying = false;
+
+    constructor(
+        private cart: ShoppingCart,
+        private isRemote: () => boolean = () => false,
+        private limit: number = CART_HISTORY_LIMIT
+    ) {
+        cart.subscribe((event) => this.record(event));
+    }
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Reverse the most recent change. Returns the events that were undone, if any.
+     */
+    undo(): CartMutation[] | undefined {
+        const step = this.undoStack[this.undoStack.length - 1];
+        if (!step) return undefined;
+        const inverse = [...step].reverse().map(invertCartEvent);
+        if (!this.applies(inverse)) {
+            this.undoStack.pop();
+            return undefined;
+        }
+        this.apply(inverse);
+        this.undoStack.pop();
+        this.redoStack.push(step);
+        return step;
+    }
+
+    /**
+     * Re-apply the most recently undone change. Returns the events that were redone, if any.
+     */
+    redo(): CartMutation[] | undefined {
+        const step = this.redoStack[this.redoStack.length - 1];
+        if (!step) return undefined;
+        if (!this.applies(step)) {
+            this.redoStack.pop();
+            return undefined;
+        }
+        this.apply(step);
+        this.redoStack.pop();
+        this.undoStack.push(step);
+        return step;
+    }
+
+    /**
+     * Forget undo/redo steps, e.g. once the cart has been turned into an order; the log is kept
+     */
+    reset(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    getLog(): CartMutation[] {
+        return [...this.log];
+    }
+
+    /**
+     * Whether every event still finds the lines it expects
+     */
+    private applies(events: CartMutation[]): boolean {
+        try {
+            events.reduce((items, event) => applyCartMutation(items, event), this.cart.getItems());
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private apply(events: CartMutation[]): void {
+        this.applying = true;
+        try {
+            events.forEach((event) => this.cart.applyEvent(event));
+        } finally {
+            this.applying = false;
+        }
+    }
+
+    private record(event: CartEvent): void {
+        if (event.type === 'batch-started') {
+            this.pending = [];
+            return;
+        }
+        if (event.type === 'batch-ended') {
+            const step = this.pending;
+            this.pending = null;
+            if (step && step.length > 0) this.push(step);
+            return;
+        }
+        if (!isCartMutation(event)) return;
+        this.log.push(event);
+        if (this.log.length > this.limit) this.compact();
+        if (this.applying || this.isRemote()) return;
+        if (event.type === 'items-replaced') return this.reset();
+
+        if (this.pending) this.pending.push(event);
+        else this.push([event]);
+    }
+
+    /**
+     * Replace the log with the events that rebuild the cart as it is now
+     */
+    private compact(): void {
+        this.log = [
+            { type: 'group-changed', group: this.cart.getGroup(), previous: null },
+            { type: 'items-replaced', items: this.cart.getItems().map(copyCartItem), promoCodes: this.cart.getPromoCodes(), previousItems: [], previousPromoCodes: [] }
+        ];
+    }
+
+    private push(step: CartMutation[]): void {
+        this.undoStack.push(step);
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+        this.redoStack = [];
+    }
+}
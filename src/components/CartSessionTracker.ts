@@ -0,0 +1,99 @@
+// Cart sessions derived from the cart's event stream, kept for abandonment analytics
+import { CartEvent, CartSession, StorageAdapter } from '../types/index.js';
+import { isRecord } from '../utils/guards.js';
+import { isCartMutation } from '../utils/cartFunctions.js';
+import { ABANDON_AFTER_MS } from '../utils/analytics.js';
+
+const CART_SESSIONS_KEY = 'dessert-shop:cart-sessions';
+const MAX_CART_SESSIONS = 500;
+
+function reviveCartSession(value: unknown): CartSession | null {
+    if (!isRecord(value) || typeof value.id !== 'string') return null;
+    const startedAt = new Date(String(value.startedAt));
+    const lastActivityAt = new Date(String(value.lastActivityAt));
+    if (Number.isNaN(startedAt.getTime()) || Number.isNaN(lastActivityAt.getTime())) return null;
+    const session: CartSession = { id: value.id, startedAt, lastActivityAt };
+    if (typeof value.orderId === 'string') session.orderId = value.orderId;
+    return session;
+}
+
+/**
+ * Follows a cart's mutations to record shopping sessions: one starts when an empty cart gets its
+ * first item and ends when an order is created from it. A session left idle for `abandonAfterMs`
+ * is over as well (see classifyCartSession), so the next change starts a new one.
+ * Sessions are stored under their own key, shared by every tab of the shop.
+ */
+export class CartSessionTracker {
+    private sessions: CartSession[];
+
+    constructor(
+        private storage: StorageAdapter,
+        private abandonAfterMs: number = ABANDON_AFTER_MS,
+        private now: () => Date = () => new Date()
+    ) {
+        this.sessions = this.read();
+    }
+
+    record(event: CartEvent): void {
+        // Restores and catalog updates replace the items without the customer doing anything
+        if (!isCartMutation(event) || event.type === 'items-replaced') return;
+        const at = this.now();
+        const session = this.openSession(at);
+        if (session) {
+            session.lastActivityAt = at;
+        } else {
+            // Only adding something starts a session
+            if (event.type !== 'item-added') return;
+            this.sessions.push({ id: `session-${at.getTime()}-${Math.random().toString(36).slice(2, 8)}`, startedAt: at, lastActivityAt: at });
+        }
+        this.write();
+    }
+
+    /**
+     * Close the open session as converted into `orderId`
+     */
+    recordOrder(orderId: string): void {
+        const at = this.now();
+        const session = this.openSession(at);
+        if (session) {
+            session.orderId = orderId;
+            session.lastActivityAt = at;
+        } else {
+            this.sessions.push({ id: `session-${at.getTime()}-${Math.random().toString(36).slice(2, 8)}`, startedAt: at, lastActivityAt: at, orderId });
+        }
+        this.write();
+    }
+
+    getSessions(): CartSession[] {
+        // Other tabs may have recorded sessions since this one loaded
+        this.sessions = this.read();
+        return this.sessions.map((session) => ({ ...session }));
+    }
+
+    /**
+     * The latest session, unless it already ended in an order or went idle
+     */
+    private openSession(at: Date): CartSession | undefined {
+        this.sessions = this.read();
+        const last = this.sessions[this.sessions.length - 1];
+        if (!last || last.orderId !== undefined) return undefined;
+        return at.getTime() - last.lastActivityAt.getTime() < this.abandonAfterMs ? last : undefined;
+    }
+
+    private read(): CartSession[] {
+        const raw = this.storage.getItem(CART_SESSIONS_KEY);
+        if (!raw) return [];
+        try {
+            const parsed: unknown = JSON.parse(raw);
+            if (!Array.isArray(parsed)) return [];
+            return parsed.map(reviveCartSession).filter((session): session is CartSession => session !== null);
+        } catch {
+            return [];
+        }
+    }
+
+    private write(): void {
+        this.sessions = this.sessions.slice(-MAX_CART_SESSIONS);
+        this.storage.setItem(CART_SESSIONS_KEY, JSON.stringify(this.sessions));
+    }
+}
@@ -0,0 +1,307 @@
+// Keeps carts in step across browser tabs
+import { CartEvent, CartItem, CartLineState, CartSyncEvent, CartSyncMessage, Dessert, DessertId, GroupOrder, Logger, SyncStamp, SyncTransport } from '../types/index.js';
+import { asArray, asNumber, asOneOf, asRecord, asString } from '../utils/guards.js';
+import { CART_MUTATIONS, copyGroupOrder, copyOptions, isCartMutation } from '../utils/cartFunctions.js';
+import { cartLineId } from '../utils/options.js';
+import { silentLogger } from '../utils/logger.js';
+import { ShoppingCart } from './ShoppingCart.js';
+import { reviveGroup, reviveOptions } from './StatePersistence.js';
+
+const SYNC_CHANNEL = 'dessert-shop:sync';
+const GROUP_KEY = 'group';
+
+/**
+ * Carries sync messages between tabs via BroadcastChannel
+ */
+export class BroadcastChannelTransport implements SyncTransport {
+    private channel: BroadcastChannel;
+
+    constructor(name: string = SYNC_CHANNEL) {
+        this.channel = new BroadcastChannel(name);
+    }
+
+    post(message: string): void {
+        this.channel.postMessage(message);
+    }
+
+    subscribe(listener: (message: string) => void): () => void {
+        const handler = (event: MessageEvent) => {
+            if (typeof event.data === 'string') listener(event.data);
+        };
+        this.channel.addEventListener('message', handler);
+        return () => this.channel.removeEventListener('message', handler);
+    }
+
+    close(): void {
+        this.channel.close();
+    }
+}
+
+/**
+ * Fallback for browsers without BroadcastChannel: writing a key fires `storage` events in the other tabs
+ */
+export class StorageEventTransport implements SyncTransport {
+    constructor(private key: string = SYNC_CHANNEL) {}
+
+    post(message: string): void {
+        window.localStorage.setItem(this.key, message);
+    }
+
+    subscribe(listener: (message: string) => void): () => void {
+        const handler = (event: StorageEvent) => {
+            if (event.key === this.key && event.newValue) listener(event.newValue);
+        };
+        window.addEventListener('storage', handler);
+        return () => window.removeEventListener('storage', handler);
+    }
+
+    close(): void {}
+}
+
+export function createSyncTransport(): SyncTransport | null {
+    if (typeof BroadcastChannel !== 'undefined') return new BroadcastChannelTransport();
+    try {
+        return typeof window !== 'undefined' && window.localStorage ? new StorageEventTransport() : null;
+    } catch {
+        return null;
+    }
+}
+
+function reviveLineState(value: unknown): CartLineState {
+    const line = asRecord(value, 'lines[]');
+    const addedAt = asString(line.addedAt, 'lines[].addedAt');
+    if (Number.isNaN(new Date(addedAt).getTime())) throw new Error('Invalid date in "lines[].addedAt"');
+    const revived: CartLineState = {
+        dessertId: asString(line.dessertId, 'lines[].dessertId'),
+        options: reviveOptions(line.options, 'lines[].options'),
+        quantity: asNumber(line.quantity, 'lines[].quantity'),
+        addedAt
+    };
+    if (line.participantId !== undefined) revived.participantId = asString(line.participantId, 'lines[].participantId');
+    return revived;
+}
+
+/**
+ * A message from another tab, checked before any of it reaches the cart; throws when it isn't one
+ * this build understands
+ */
+function reviveSyncMessage(value: unknown): CartSyncMessage {
+    const message = asRecord(value, 'message');
+    const stamp: SyncStamp = { clock: asNumber(message.clock, 'clock'), origin: asString(message.origin, 'origin') };
+    if (message.type === 'order-confirmed') return { type: 'order-confirmed', ...stamp, orderId: asString(message.orderId, 'orderId') };
+    if (message.type !== 'cart-changed') throw new Error(`Unknown value ${JSON.stringify(message.type)} in "type"`);
+
+    const promoCodes = asArray(message.promoCodes, 'promoCodes').map((raw) => {
+        const promo = asRecord(raw, 'promoCodes[]');
+        if (typeof promo.applied !== 'boolean') throw new Error('Expected "promoCodes[].applied" to be a boolean');
+        return { code: asString(promo.code, 'promoCodes[].code'), applied: promo.applied };
+    });
+    const revived: Extract<CartSyncMessage, { type: 'cart-changed' }> = {
+        type: 'cart-changed',
+        ...stamp,
+        cause: asOneOf(message.cause, CART_MUTATIONS, 'cause'),
+        lines: asArray(message.lines, 'lines').map(reviveLineState),
+        promoCodes
+    };
+    if (message.group !== undefined) revived.group = reviveGroup(message.group);
+    return revived;
+}
+
+export function compareSyncStamps(a: SyncStamp, b: SyncStamp): number {
+    if (a.clock !== b.clock) return a.clock - b.clock;
+    return a.origin < b.origin ? -1 : a.origin > b.origin ? 1 : 0;
+}
+
+/**
+ * Keeps a cart in step with the same shop open in other tabs.
+ * Local mutations are broadcast as the resulting state of the lines and promo codes they touched,
+ * stamped with a Lamport clock and tab id. Each line and code, and the group order as a whole,
+ * is last-writer-wins on that stamp,
+ * so tabs editing the same dessert concurrently settle on the same result whatever order messages
+ * arrive in. Remote changes are applied without being broadcast again, and messages that don't
+ * check out are dropped.
+ */
+export class CartSync {
+    readonly tabId = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    private clock = 0;
+    private lastWrites: Map<string, SyncStamp> = new Map();
+    private applyingRemote = false;
+    private listeners: Set<(event: CartSyncEvent) => void> = new Set();
+    private unsubscribers: (() => void)[] = [];
+
+    constructor(
+        private cart: ShoppingCart,
+        private transport: SyncTransport,
+        private resolveDessert: (dessertId: DessertId) => Dessert | undefined,
+        private logger: Logger = silentLogger
+    ) {
+        this.unsubscribers.push(
+            cart.subscribe((event) => this.handleLocalEvent(event)),
+            transport.subscribe((raw) => this.handleMessage(raw))
+        );
+    }
+
+    /**
+     * Tell other tabs an order was confirmed from this cart, so they clear theirs
+     */
+    announceOrderConfirmed(orderId: string): void {
+        this.send({ type: 'order-confirmed', ...this.nextStamp(), orderId });
+    }
+
+    /**
+     * True while cart events are being caused by another tab's change
+     */
+    get isApplyingRemote(): boolean {
+        return this.applyingRemote;
+    }
+
+    subscribe(listener: (event: CartSyncEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    close(): void {
+        this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+        this.transport.close();
+    }
+
+    private handleLocalEvent(event: CartEvent): void {
+        if (this.applyingRemote || !isCartMutation(event)) return;
+
+        let lines: CartLineState[] = [];
+        let promoCodes: { code: string; applied: boolean }[] = [];
+        let group: GroupOrder | null | undefined;
+        switch (event.type) {
+            case 'item-added':
+                lines = [this.lineState(event.item)];
+                break;
+            case 'quantity-updated': {
+                const item = this.cart.getItem(event.lineId);
+                if (item) lines = [this.lineState(item)];
+                break;
+            }
+            case 'item-removed':
+                lines = [{ ...this.lineState(event.item), quantity: 0 }];
+                break;
+            case 'cart-cleared':
+                lines = event.items.map((item) => ({ ...this.lineState(item), quantity: 0 }));
+                promoCodes = event.promoCodes.map((code) => ({ code, applied: false }));
+                break;
+            case 'promo-applied':
+            case 'promo-removed':
+                promoCodes = [{ code: event.code, applied: event.type === 'promo-applied' }];
+                break;
+            case 'group-changed':
+                group = copyGroupOrder(event.group);
+                break;
+            case 'items-replaced':
+                // Restores and catalog updates happen in every tab on their own
+                return;
+        }
+
+        const stamp = this.nextStamp();
+        lines.forEach((line) => this.lastWrites.set(cartLineId(line.dessertId, line.options, line.participantId), stamp));
+        promoCodes.forEach((promo) => this.lastWrites.set(`promo:${promo.code}`, stamp));
+        if (group !== undefined) {
+            this.lastWrites.set(GROUP_KEY, stamp);
+            this.send({ type: 'cart-changed', ...stamp, cause: event.type, lines, promoCodes, group });
+        } else {
+            this.send({ type: 'cart-changed', ...stamp, cause: event.type, lines, promoCodes });
+        }
+    }
+
+    private handleMessage(raw: string): void {
+        let message: CartSyncMessage;
+        try {
+            message = reviveSyncMessage(JSON.parse(raw));
+        } catch (error) {
+            this.logger.warn('Dropping a sync message from another tab', error);
+            return;
+        }
+        // Our own message, echoed back by a transport that also delivers to the sender
+        if (message.origin === this.tabId) return;
+        this.clock = Math.max(this.clock, message.clock);
+
+        this.applyingRemote = true;
+        try {
+            if (message.type === 'cart-changed') {
+                if (message.group !== undefined) this.applyGroup(message.group, message);
+                message.lines.forEach((line) => this.applyLine(line, message));
+                message.promoCodes.forEach((promo) => this.applyPromo(promo.code, promo.applied, message));
+                this.emit({ type: 'remote-cart-changed', cause: message.cause });
+            } else if (message.type === 'order-confirmed') {
+                // Listeners hear first so they can reload shared state before the cart change is saved
+                this.emit({ type: 'remote-order-confirmed', orderId: message.orderId });
+                this.cart.clear();
+                this.lastWrites.clear();
+                this.emit({ type: 'remote-cart-changed', cause: 'cart-cleared' });
+            }
+        } finally {
+            this.applyingRemote = false;
+        }
+    }
+
+    /**
+     * Bring one cart line to the state another tab wrote, unless this tab has seen a later write
+     */
+    private applyLine(line: CartLineState, stamp: SyncStamp): void {
+        const lineId = cartLineId(line.dessertId, line.options, line.participantId);
+        if (!this.isNewer(lineId, stamp)) return;
+
+        const current = this.cart.getItem(lineId);
+        try {
+            if (line.quantity <= 0) {
+                if (current) this.cart.removeItem(lineId);
+            } else if (current) {
+                if (current.quantity !== line.quantity) this.cart.updateQuantity(lineId, line.quantity);
+            } else {
+                const dessert = this.resolveDessert(line.dessertId);
+                if (!dessert) return;
+                const item: CartItem = { dessert, options: copyOptions(line.options), quantity: line.quantity, addedAt: new Date(line.addedAt) };
+                if (line.participantId !== undefined) item.participantId = line.participantId;
+                this.cart.applyEvent({ type: 'item-added', item, position: this.cart.size });
+            }
+        } catch (error) {
+            // This tab's view of stock can lag behind; the next write to the line will try again
+            this.logger.warn(`Could not sync ${lineId} from another tab`, error);
+        }
+    }
+
+    private applyGroup(group: GroupOrder | null, stamp: SyncStamp): void {
+        if (!this.isNewer(GROUP_KEY, stamp)) return;
+        this.cart.applyEvent({ type: 'group-changed', group: copyGroupOrder(group), previous: this.cart.getGroup() });
+    }
+
+    private applyPromo(code: string, applied: boolean, stamp: SyncStamp): void {
+        if (!this.isNewer(`promo:${code}`, stamp)) return;
+        const present = this.cart.getPromoCodes().includes(code);
+        if (applied && !present) this.cart.applyEvent({ type: 'promo-applied', code });
+        if (!applied && present) this.cart.removePromoCode(code);
+    }
+
+    private isNewer(key: string, stamp: SyncStamp): boolean {
+        const last = this.lastWrites.get(key);
+        if (last && compareSyncStamps(last, stamp) >= 0) return false;
+        this.lastWrites.set(key, { clock: stamp.clock, origin: stamp.origin });
+        return true;
+    }
+
+    private lineState(item: CartItem): CartLineState {
+        const line: CartLineState = { dessertId: item.dessert.id, options: copyOptions(item.options), quantity: item.quantity, addedAt: new Date(item.addedAt).toISOString() };
+        if (item.participantId !== undefined) line.participantId = item.participantId;
+        return line;
+    }
+
+    private nextStamp(): SyncStamp {
+        this.clock += 1;
+        return { clock: this.clock, origin: this.tabId };
+    }
+
+    private send(message: CartSyncMessage): void {
+        this.transport.post(JSON.stringify(message));
+    }
+
+    private emit(event: CartSyncEvent): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+}
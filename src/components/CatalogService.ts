@@ -0,0 +1,396 @@
+// Catalog validation, providers and cached loading
+import { Allergen, CatalogCacheEntry, CatalogFetchResult, CatalogIssue, CatalogLoadResult, CatalogProvider, Dessert, DessertCategory, DessertId, DessertImageSet, DessertOption, DessertOptionGroup, DessertTranslation, DietaryTag, Logger, StorageAdapter } from '../types/index.js';
+import { usd } from '../utils/money.js';
+import { IMAGE_VARIANTS, imageSetFromPath } from '../utils/images.js';
+import { isRecord } from '../utils/guards.js';
+import { silentLogger } from '../utils/logger.js';
+
+const CATALOG_CACHE_KEY = 'dessert-shop:catalog';
+const CATALOG_MAX_AGE_MS = 5 * 60 * 1000;
+
+// Catalogs (and saved orders) from before categories had stable keys name them by their English label
+const LEGACY_CATEGORY_LABELS: Record<string, DessertCategory> = {
+    Waffle: DessertCategory.Waffle,
+    'Crème Brûlée': DessertCategory.CremeBrulee,
+    Macaron: DessertCategory.Macaron,
+    Tiramisu: DessertCategory.Tiramisu,
+    Baklava: DessertCategory.Baklava,
+    Pie: DessertCategory.Pie,
+    Cake: DessertCategory.Cake,
+    Brownie: DessertCategory.Brownie,
+    'Panna Cotta': DessertCategory.PannaCotta
+};
+
+export class CatalogLoadError extends Error {
+    constructor(message: string, public readonly issues: CatalogIssue[] = []) {
+        super(message);
+        this.name = 'CatalogLoadError';
+    }
+}
+
+/**
+ * A category key, also accepting the English labels older catalogs used
+ */
+export function parseCategory(value: unknown): DessertCategory | undefined {
+    if (typeof value !== 'string') return undefined;
+    if ((Object.values(DessertCategory) as string[]).includes(value)) return value as DessertCategory;
+    return LEGACY_CATEGORY_LABELS[value];
+}
+
+/**
+ * Check one raw catalog row against the Dessert shape, converting the price to Money.
+ * Collects every problem in the row rather than stopping at the first.
+ */
+export function validateDessertRecord(value: unknown, row: number): { dessert?: Dessert; issues: CatalogIssue[] } {
+    const issues: CatalogIssue[] = [];
+    if (!isRecord(value)) {
+        return { issues: [{ row, field: '', message: `expected an object, got ${describeValue(value)}` }] };
+    }
+
+    const id = typeof value.id === 'string' ? value.id : undefined;
+    const issue = (field: string, expected: string) =>
+        issues.push({ row, id, field, message: `expected ${expected}, got ${describeValue(value[field])}` });
+
+    if (!id || id.trim() === '') issue('id', 'a non-empty string');
+    if (typeof value.name !== 'string' || value.name.trim() === '') issue('name', 'a non-empty string');
+    const category = parseCategory(value.category);
+    if (!category) issue('category', `one of ${Object.values(DessertCategory).join(', ')}`);
+    if (typeof value.price !== 'number' || !Number.isFinite(value.price) || value.price < 0) issue('price', 'a non-negative number');
+    const image = parseImageSet(value.image);
+    if (!image) issue('image', `an image path or an object with ${IMAGE_VARIANTS.join(', ')} paths`);
+    if (value.description !== undefined && typeof value.description !== 'string') issue('description', 'a string');
+    if (typeof value.inStock !== 'boolean') issue('inStock', 'a boolean');
+    const optionGroups = value.optionGroups === undefined ? undefined : parseOptionGroups(value.optionGroups, row, id, issues);
+    const translations = value.translations === undefined ? undefined : parseTranslations(value.translations, row, id, issues);
+    const allergens = value.allergens === undefined ? undefined : parseTags(value.allergens, Object.values(Allergen), 'allergens', row, id, issues);
+    const dietary = value.dietary === undefined ? undefined : parseTags(value.dietary, Object.values(DietaryTag), 'dietary', row, id, issues);
+
+    if (issues.length > 0) return { issues };
+
+    const dessert: Dessert = {
+        id: value.id as DessertId,
+        name: value.name as string,
+        category: category as DessertCategory,
+        price: usd(value.price as number),
+        image: image as DessertImageSet,
+        inStock: value.inStock as boolean
+    };
+    if (typeof value.description === 'string') dessert.description = value.description;
+    if (optionGroups && optionGroups.length > 0) dessert.optionGroups = optionGroups;
+    if (translations && Object.keys(translations).length > 0) dessert.translations = translations;
+    if (allergens) dessert.allergens = allergens;
+    if (dietary && dietary.length > 0) dessert.dietary = dietary;
+    return { dessert, issues };
+}
+
+/**
+ * Check a row's translated text: an object of locales, each with an optional name and description
+ */
+function parseTranslations(value: unknown, row: number, id: string | undefined, issues: CatalogIssue[]): Record<string, DessertTranslation> | undefined {
+    const issue = (field: string, expected: string, actual: unknown) =>
+        issues.push({ row, id, field, message: `expected ${expected}, got ${describeValue(actual)}` });
+    if (!isRecord(value)) {
+        issue('translations', 'an object keyed by locale', value);
+        return undefined;
+    }
+
+    const before = issues.length;
+    const translations: Record<string, DessertTranslation> = {};
+    Object.entries(value).forEach(([locale, raw]) => {
+        const path = `translations.${locale}`;
+        if (!isRecord(raw)) {
+            issue(path, 'an object', raw);
+            return;
+        }
+        const translation: DessertTranslation = {};
+        (['name', 'description'] as const).forEach((field) => {
+            const text = raw[field];
+            if (text === undefined) return;
+            if (typeof text !== 'string' || text.trim() === '') issue(`${path}.${field}`, 'a non-empty string', text);
+            else translation[field] = text;
+        });
+        translations[locale] = translation;
+    });
+    return issues.length > before ? undefined : translations;
+}
+
+/**
+ * Check a list of tags against the known values, dropping repeats
+ */
+function parseTags<T extends string>(value: unknown, known: T[], field: string, row: number, id: string | undefined, issues: CatalogIssue[]): T[] | undefined {
+    if (!Array.isArray(value)) {
+        issues.push({ row, id, field, message: `expected an array of ${known.join(', ')}, got ${describeValue(value)}` });
+        return undefined;
+    }
+    const before = issues.length;
+    value.forEach((tag, i) => {
+        if (!known.includes(tag as T)) issues.push({ row, id, field: `${field}[${i}]`, message: `expected one of ${known.join(', ')}, got ${describeValue(tag)}` });
+    });
+    return issues.length > before ? undefined : Array.from(new Set(value as T[]));
+}
+
+function isCount(value: unknown, min: number): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= min;
+}
+
+/**
+ * Check a row's option groups, filling in the rules a group leaves out (optional, at most one choice,
+ * no price change) and converting price deltas to Money. Problems are added to `issues`.
+ */
+function parseOptionGroups(value: unknown, row: number, id: string | undefined, issues: CatalogIssue[]): DessertOptionGroup[] | undefined {
+    const issue = (field: string, expected: string, actual: unknown) =>
+        issues.push({ row, id, field, message: `expected ${expected}, got ${describeValue(actual)}` });
+    if (!Array.isArray(value)) {
+        issue('optionGroups', 'an array of option groups', value);
+        return undefined;
+    }
+
+    const before = issues.length;
+    const groupIds: Set<string> = new Set();
+    const groups = value.map((raw, g): DessertOptionGroup | undefined => {
+        const path = `optionGroups[${g}]`;
+        if (!isRecord(raw)) {
+            issue(path, 'an object', raw);
+            return undefined;
+        }
+
+        if (typeof raw.id !== 'string' || raw.id.trim() === '') issue(`${path}.id`, 'a non-empty string', raw.id);
+        else if (groupIds.has(raw.id)) issues.push({ row, id, field: `${path}.id`, message: `duplicate option group "${raw.id}"` });
+        else groupIds.add(raw.id);
+        if (typeof raw.name !== 'string' || raw.name.trim() === '') issue(`${path}.name`, 'a non-empty string', raw.name);
+        if (raw.required !== undefined && typeof raw.required !== 'boolean') issue(`${path}.required`, 'a boolean', raw.required);
+
+        const required = raw.required === true;
+        const minSelections = raw.minSelections ?? (required ? 1 : 0);
+        const maxSelections = raw.maxSelections ?? Math.max(1, isCount(minSelections, 0) ? minSelections : 1);
+        if (!isCount(minSelections, 0)) issue(`${path}.minSelections`, 'a whole number of at least 0', raw.minSelections);
+        if (!isCount(maxSelections, 1)) issue(`${path}.maxSelections`, 'a whole number of at least 1', raw.maxSelections);
+        else if (isCount(minSelections, 0) && minSelections > maxSelections) issue(`${path}.maxSelections`, `at least minSelections (${minSelections})`, raw.maxSelections);
+
+        if (!Array.isArray(raw.options) || raw.options.length === 0) {
+            issue(`${path}.options`, 'a non-empty array of options', raw.options);
+            return undefined;
+        }
+        const optionIds: Set<string> = new Set();
+        const options = raw.options.map((rawOption, o): DessertOption | undefined => {
+            const optionPath = `${path}.options[${o}]`;
+            if (!isRecord(rawOption)) {
+                issue(optionPath, 'an object', rawOption);
+                return undefined;
+            }
+            const valid = issues.length;
+            if (typeof rawOption.id !== 'string' || rawOption.id.trim() === '') issue(`${optionPath}.id`, 'a non-empty string', rawOption.id);
+            else if (optionIds.has(rawOption.id)) issues.push({ row, id, field: `${optionPath}.id`, message: `duplicate option "${rawOption.id}"` });
+            else optionIds.add(rawOption.id);
+            if (typeof rawOption.name !== 'string' || rawOption.name.trim() === '') issue(`${optionPath}.name`, 'a non-empty string', rawOption.name);
+            const priceDelta = rawOption.priceDelta ?? 0;
+            if (typeof priceDelta !== 'number' || !Number.isFinite(priceDelta)) issue(`${optionPath}.priceDelta`, 'a number', rawOption.priceDelta);
+            const allergens = rawOption.allergens === undefined ? undefined : parseTags(rawOption.allergens, Object.values(Allergen), `${optionPath}.allergens`, row, id, issues);
+            if (issues.length > valid) return undefined;
+            const option: DessertOption = { id: rawOption.id as string, name: rawOption.name as string, priceDelta: usd(priceDelta as number) };
+            if (allergens && allergens.length > 0) option.allergens = allergens;
+            return option;
+        });
+        if (isCount(maxSelections, 1) && maxSelections > raw.options.length) {
+            issue(`${path}.maxSelections`, `at most the number of options (${raw.options.length})`, raw.maxSelections);
+        }
+
+        return {
+            id: raw.id as string,
+            name: raw.name as string,
+            required,
+            minSelections: minSelections as number,
+            maxSelections: maxSelections as number,
+            options: options as DessertOption[]
+        };
+    });
+    return issues.length > before ? undefined : (groups as DessertOptionGroup[]);
+}
+
+export function parseImageSet(value: unknown): DessertImageSet | undefined {
+    if (typeof value === 'string') return value === '' ? undefined : imageSetFromPath(value);
+    if (!isRecord(value)) return undefined;
+    const path = (size: keyof DessertImageSet) => {
+        const text = value[size];
+        return typeof text === 'string' ? text : '';
+    };
+    const images: DessertImageSet = { thumbnail: path('thumbnail'), mobile: path('mobile'), tablet: path('tablet'), desktop: path('desktop') };
+    return IMAGE_VARIANTS.every((size) => images[size] !== '') ? images : undefined;
+}
+
+export function formatCatalogIssue(issue: CatalogIssue): string {
+    const row = issue.id ? `rows[${issue.row}] (${issue.id})` : `rows[${issue.row}]`;
+    return issue.field ? `${row}.${issue.field}: ${issue.message}` : `${row}: ${issue.message}`;
+}
+
+function describeValue(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'an array';
+    return typeof value === 'string' ? JSON.stringify(value) : typeof value === 'object' ? 'an object' : String(value);
+}
+
+/**
+ * Validate a whole catalog: invalid rows and repeated ids are reported and skipped
+ */
+export function validateCatalog(records: unknown): { desserts: Dessert[]; issues: CatalogIssue[] } {
+    if (!Array.isArray(records)) {
+        throw new CatalogLoadError(`Catalog must be an array of desserts, got ${describeValue(records)}`);
+    }
+
+    const desserts: Dessert[] = [];
+    const issues: CatalogIssue[] = [];
+    const seen: Set<DessertId> = new Set();
+    records.forEach((record, row) => {
+        const result = validateDessertRecord(record, row);
+        issues.push(...result.issues);
+        if (!result.dessert) return;
+        if (seen.has(result.dessert.id)) {
+            issues.push({ row, id: result.dessert.id, field: 'id', message: `duplicate id "${result.dessert.id}"` });
+            return;
+        }
+        seen.add(result.dessert.id);
+        desserts.push(result.dessert);
+    });
+    return { desserts, issues };
+}
+
+/**
+ * Validate a catalog that is about to be used, which needs at least one good row when any are bad
+ */
+function checkCatalog(records: unknown): { desserts: Dessert[]; issues: CatalogIssue[] } {
+    const validated = validateCatalog(records);
+    if (validated.desserts.length === 0 && validated.issues.length > 0) {
+        throw new CatalogLoadError('Every row in the catalog is invalid', validated.issues);
+    }
+    return validated;
+}
+
+export class StaticCatalogProvider implements CatalogProvider {
+    constructor(private records: unknown) {}
+
+    async fetchCatalog(): Promise<CatalogFetchResult> {
+        return { records: this.records };
+    }
+}
+
+/**
+ * Loads the catalog from a JSON endpoint, using ETags for cheap revalidation
+ */
+export class HttpCatalogProvider implements CatalogProvider {
+    constructor(private url: string, private fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {}
+
+    async fetchCatalog(etag?: string): Promise<CatalogFetchResult> {
+        const headers: Record<string, string> = { Accept: 'application/json' };
+        if (etag) headers['If-None-Match'] = etag;
+
+        const response = await this.fetchImpl(this.url, { headers });
+        if (response.status === 304) return { notModified: true };
+        if (!response.ok) throw new CatalogLoadError(`Catalog request failed: ${response.status} ${response.statusText}`);
+
+        let records: unknown;
+        try {
+            records = await response.json();
+        } catch {
+            throw new CatalogLoadError('Catalog response is not valid JSON');
+        }
+        return { records, etag: response.headers.get('ETag') ?? undefined };
+    }
+}
+
+/**
+ * Stale-while-revalidate catalog cache in front of a provider.
+ * load() answers from the cache when it has one and refreshes it in the background
+ * once it is older than maxAgeMs; subscribers hear about catalogs that changed.
+ * A cache whose records no longer validate is ignored as if there were none.
+ * The fallback provider (e.g. the bundled catalog) is used when nothing else works.
+ */
+export class CatalogService {
+    private listeners: Set<(result: CatalogLoadResult) => void> = new Set();
+    private revalidating: Promise<void> | null = null;
+
+    constructor(
+        private provider: CatalogProvider,
+        private storage: StorageAdapter,
+        private fallback?: CatalogProvider,
+        private maxAgeMs: number = CATALOG_MAX_AGE_MS,
+        private logger: Logger = silentLogger
+    ) {}
+
+    async load(now: Date = new Date()): Promise<CatalogLoadResult> {
+        const cached = this.readCache();
+        if (cached) {
+            if (now.getTime() - cached.fetchedAt > this.maxAgeMs) void this.revalidate();
+            return { ...checkCatalog(cached.records), source: 'cache' };
+        }
+
+        try {
+            return await this.fetchFresh();
+        } catch (error) {
+            if (!this.fallback) throw error;
+            this.logger.warn('Falling back to the bundled catalog', error);
+            const result = await this.fallback.fetchCatalog();
+            if ('notModified' in result) throw error;
+            return { ...validateCatalog(result.records), source: 'fallback' };
+        }
+    }
+
+    /**
+     * Refresh the cache from the provider and notify subscribers if the catalog changed
+     */
+    revalidate(): Promise<void> {
+        if (!this.revalidating) {
+            const previous = this.readCache();
+            this.revalidating = this.fetchFresh(previous?.etag)
+                .then((result) => {
+                    if (result && JSON.stringify(this.readCache()?.records) !== JSON.stringify(previous?.records)) {
+                        this.listeners.forEach((listener) => listener(result));
+                    }
+                })
+                .catch((error) => this.logger.warn('Catalog revalidation failed', error))
+                .finally(() => (this.revalidating = null));
+        }
+        return this.revalidating;
+    }
+
+    subscribe(listener: (result: CatalogLoadResult) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private async fetchFresh(etag?: string): Promise<CatalogLoadResult> {
+        const result = await this.provider.fetchCatalog(etag);
+        const cached = this.readCache();
+        if ('notModified' in result) {
+            if (!cached) throw new CatalogLoadError('Catalog was not modified but nothing is cached');
+            this.writeCache({ ...cached, fetchedAt: Date.now() });
+            return { ...checkCatalog(cached.records), source: 'network' };
+        }
+
+        const validated = checkCatalog(result.records);
+        this.writeCache({ records: result.records, etag: result.etag, fetchedAt: Date.now() });
+        return { ...validated, source: 'network' };
+    }
+
+    /**
+     * The cached catalog, or null when there is none or it no longer validates (a bad write, or an
+     * entry left by a build with a different catalog format); the next fetch replaces it either way
+     */
+    private readCache(): CatalogCacheEntry | null {
+        const raw = this.storage.getItem(CATALOG_CACHE_KEY);
+        if (!raw) return null;
+        try {
+            const entry: unknown = JSON.parse(raw);
+            if (!isRecord(entry) || typeof entry.fetchedAt !== 'number') return null;
+            checkCatalog(entry.records);
+            return { records: entry.records, fetchedAt: entry.fetchedAt, ...(typeof entry.etag === 'string' ? { etag: entry.etag } : {}) };
+        } catch (error) {
+            this.logger.warn('Ignoring the cached catalog', error);
+            return null;
+        }
+    }
+
+    private writeCache(entry: CatalogCacheEntry): void {
+        this.storage.setItem(CATALOG_CACHE_KEY, JSON.stringify(entry));
+    }
+}
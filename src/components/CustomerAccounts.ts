@@ -0,0 +1,227 @@
+// Local customer accounts: who is signed in, their order history and their loyalty points
+import { AccountEvent, AccountEventListener, CustomerAccount, LoyaltyConfig, Order, OrderEvent, PointsLedgerEntry, PointsLedgerReason, SignInErrors, StorageAdapter } from '../types/index.js';
+import { Money } from '../utils/money.js';
+import { isRecord } from '../utils/guards.js';
+import { isValidEmail } from '../utils/checkout.js';
+import { amountDue, pointsEarned, redeemablePoints } from '../utils/loyalty.js';
+import { i18nConfig, loyaltyConfig } from '../data/config.js';
+import { reviveOrder } from './StatePersistence.js';
+import { PricingContext } from './PricingContext.js';
+import { Translator } from './Translator.js';
+
+const ACCOUNTS_KEY = 'dessert-shop:accounts';
+const LEDGER_REASONS: PointsLedgerReason[] = ['earned', 'redeemed', 'reversed', 'returned'];
+
+interface AccountStore {
+    activeAccountId: string | null;
+    accounts: CustomerAccount[];
+}
+
+export class AccountNotFoundError extends Error {
+    constructor(public readonly email: string) {
+        super(`No account for ${email}`);
+        this.name = 'AccountNotFoundError';
+    }
+}
+
+function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * Field errors for the sign-in form; `isNew` asks for a name as well, since that creates the account
+ */
+export function validateSignIn(email: string, name: string, isNew: boolean, translator: Translator = new Translator(i18nConfig)): SignInErrors {
+    const errors: SignInErrors = {};
+    if (email.trim() === '') errors.email = translator.t('checkout.error.emailRequired');
+    else if (!isValidEmail(email)) errors.email = translator.t('checkout.error.emailInvalid');
+    if (isNew && name.trim() === '') errors.name = translator.t('checkout.error.name');
+    return errors;
+}
+
+export function pointsBalance(account: CustomerAccount): number {
+    return account.pointsLedger.reduce((sum, entry) => sum + entry.points, 0);
+}
+
+function reviveLedgerEntry(value: unknown): PointsLedgerEntry | null {
+    if (!isRecord(value) || typeof value.orderId !== 'string' || typeof value.points !== 'number') return null;
+    if (!LEDGER_REASONS.includes(value.reason as PointsLedgerReason)) return null;
+    const at = new Date(String(value.at));
+    if (Number.isNaN(at.getTime())) return null;
+    return { orderId: value.orderId, reason: value.reason as PointsLedgerReason, points: value.points, at };
+}
+
+function reviveAccount(value: unknown): CustomerAccount | null {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || typeof value.email !== 'string') return null;
+    const createdAt = new Date(String(value.createdAt));
+    if (Number.isNaN(createdAt.getTime())) return null;
+    const orders = (Array.isArray(value.orders) ? value.orders : []).flatMap((raw) => {
+        try {
+            return [reviveOrder(raw)];
+        } catch {
+            return [];
+        }
+    });
+    const pointsLedger = (Array.isArray(value.pointsLedger) ? value.pointsLedger : [])
+        .map(reviveLedgerEntry)
+        .filter((entry): entry is PointsLedgerEntry => entry !== null);
+    return { id: value.id, name: value.name, email: value.email, createdAt, orders, pointsLedger };
+}
+
+/**
+ * Customer accounts kept on this device, stored under their own key and shared by every tab of the shop.
+ * Signing in by email stands in for authentication. Fed the order manager's events, the signed-in
+ * account keeps a copy of each order it confirms, earns points on the amount due (what points didn't
+ * pay for), and gets its points back (and loses those earned) when the order is cancelled or fully refunded.
+ * A balance can drop below zero when points earned on a refunded order were already spent.
+ */
+export class CustomerAccounts {
+    private listeners: Set<AccountEventListener> = new Set();
+
+    constructor(
+        private storage: StorageAdapter,
+        private pricing: PricingContext,
+        private config: LoyaltyConfig = loyaltyConfig,
+        private now: () => Date = () => new Date()
+    ) {}
+
+    get active(): CustomerAccount | null {
+        const store = this.read();
+        return store.accounts.find((account) => account.id === store.activeAccountId) ?? null;
+    }
+
+    get loyalty(): LoyaltyConfig {
+        return this.config;
+    }
+
+    hasAccount(email: string): boolean {
+        return this.read().accounts.some((account) => account.email === normalizeEmail(email));
+    }
+
+    /**
+     * Sign in to the account for `email`, creating it when a name is given for a new email.
+     * Throws AccountNotFoundError for an unknown email without a name.
+     */
+    signIn(email: string, name?: string): CustomerAccount {
+        const store = this.read();
+        let account = store.accounts.find((existing) => existing.email === normalizeEmail(email));
+        if (!account) {
+            if (!name?.trim()) throw new AccountNotFoundError(email);
+            const at = this.now();
+            account = {
+                id: `account-${at.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+                name: name.trim(),
+                email: normalizeEmail(email),
+                createdAt: at,
+                orders: [],
+                pointsLedger: []
+            };
+            store.accounts.push(account);
+        }
+        store.activeAccountId = account.id;
+        this.write(store);
+        this.emit({ type: 'account-changed', account });
+        return account;
+    }
+
+    signOut(): void {
+        const store = this.read();
+        if (store.activeAccountId === null) return;
+        store.activeAccountId = null;
+        this.write(store);
+        this.emit({ type: 'account-changed', account: null });
+    }
+
+    /**
+     * The signed-in account's points, or 0 when nobody is signed in
+     */
+    getBalance(): number {
+        const account = this.active;
+        return account ? pointsBalance(account) : 0;
+    }
+
+    /**
+     * How many points the signed-in account can put towards `total`
+     */
+    getRedeemablePoints(total: Money): number {
+        return redeemablePoints(this.getBalance(), total, this.pricing, this.config);
+    }
+
+    pointsFor(total: Money): number {
+        return pointsEarned(total, this.pricing, this.config);
+    }
+
+    /**
+     * Keep the ordering account's history and points in step with the order manager
+     */
+    handleOrderEvent(event: OrderEvent): void {
+        if (event.type !== 'order-status-changed') return;
+        const { order, change } = event;
+        const store = this.read();
+        const account = store.accounts.find((existing) => existing.id === order.details.accountId);
+        if (!account) return;
+
+        const index = account.orders.findIndex((existing) => existing.id === order.id);
+        const entries: PointsLedgerEntry[] = [];
+        if (change.to === 'confirmed') {
+            if (index >= 0) return;
+            account.orders.push(order);
+            if (order.details.pointsPayment) {
+                entries.push({ orderId: order.id, reason: 'redeemed', points: -order.details.pointsPayment.points, at: change.at });
+            }
+            const earned = this.pointsFor(amountDue(order.details));
+            if (earned > 0) entries.push({ orderId: order.id, reason: 'earned', points: earned, at: change.at });
+        } else {
+            if (index < 0) return;
+            account.orders[index] = order;
+            if (change.to === 'cancelled' || change.to === 'refunded') entries.push(...this.undoPoints(account, order, change.at));
+        }
+        account.pointsLedger.push(...entries);
+        this.write(store);
+        entries.forEach((entry) => this.emit({ type: 'points-changed', account, entry }));
+    }
+
+    subscribe(listener: AccountEventListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Ledger entries taking back what an order earned and giving back what it redeemed, once each
+     */
+    private undoPoints(account: CustomerAccount, order: Order, at: Date): PointsLedgerEntry[] {
+        const total = (reason: PointsLedgerReason) => account.pointsLedger
+            .filter((entry) => entry.orderId === order.id && entry.reason === reason)
+            .reduce((sum, entry) => sum + entry.points, 0);
+        const entries: PointsLedgerEntry[] = [];
+        const returned = -total('redeemed') - total('returned');
+        const reversed = total('earned') + total('reversed');
+        if (returned > 0) entries.push({ orderId: order.id, reason: 'returned', points: returned, at });
+        if (reversed > 0) entries.push({ orderId: order.id, reason: 'reversed', points: -reversed, at });
+        return entries;
+    }
+
+    private emit(event: AccountEvent): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+
+    private read(): AccountStore {
+        const raw = this.storage.getItem(ACCOUNTS_KEY);
+        if (!raw) return { activeAccountId: null, accounts: [] };
+        try {
+            const parsed: unknown = JSON.parse(raw);
+            if (!isRecord(parsed)) return { activeAccountId: null, accounts: [] };
+            const accounts = (Array.isArray(parsed.accounts) ? parsed.accounts : [])
+                .map(reviveAccount)
+                .filter((account): account is CustomerAccount => account !== null);
+            const activeAccountId = accounts.some((account) => account.id === parsed.activeAccountId) ? parsed.activeAccountId as string : null;
+            return { activeAccountId, accounts };
+        } catch {
+            return { activeAccountId: null, accounts: [] };
+        }
+    }
+
+    private write(store: AccountStore): void {
+        this.storage.setItem(ACCOUNTS_KEY, JSON.stringify(store));
+    }
+}
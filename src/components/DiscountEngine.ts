@@ -0,0 +1,187 @@
+// Promo code validation and discount calculation
+import { AppliedDiscount, CartItem, CartLineId, DiscountResult, DiscountRule, PromoCode, PromoRejectionReason, RejectedPromo } from '../types/index.js';
+import { Money, usd } from '../utils/money.js';
+import { lineIdOf } from '../utils/options.js';
+import { i18nConfig } from '../data/config.js';
+import { PricingContext } from './PricingContext.js';
+import { Translator } from './Translator.js';
+
+// Item-level promotions are applied first, then order-level percentages, then fixed amounts,
+// each on what is left after the previous step, so stacked codes never discount below zero
+const DISCOUNT_PRECEDENCE: Record<DiscountRule['kind'], number> = {
+    'buy-x-get-y': 0,
+    'category-percentage': 1,
+    percentage: 2,
+    fixed: 3
+};
+
+export class PromoCodeError extends Error {
+    constructor(public readonly code: string, public readonly reason: PromoRejectionReason, message: string) {
+        super(message);
+        this.name = 'PromoCodeError';
+    }
+}
+
+export class DiscountEngine {
+    private codes: Map<string, PromoCode> = new Map();
+    private usage: Map<string, number> = new Map();
+
+    constructor(promoCodes: PromoCode[], private pricing: PricingContext) {
+        promoCodes.forEach((promo) => this.codes.set(this.normalize(promo.code), promo));
+    }
+
+    normalize(code: string): string {
+        return code.trim().toUpperCase();
+    }
+
+    find(code: string): PromoCode | undefined {
+        return this.codes.get(this.normalize(code));
+    }
+
+    /**
+     * Check whether a code can be added on top of the already applied codes.
+     * Returns the rejection reason, or null when the code is accepted.
+     */
+    validate(code: string, items: CartItem[], applied: string[], now: Date = new Date()): PromoRejectionReason | null {
+        const promo = this.find(code);
+        if (!promo) return 'unknown-code';
+        if (applied.some((c) => this.normalize(c) === this.normalize(code))) return 'already-applied';
+
+        const others = applied.map((c) => this.find(c)).filter((p): p is PromoCode => !!p);
+        if (others.length > 0 && (!promo.stackable || others.some((p) => !p.stackable))) return 'not-stackable';
+
+        return this.eligibility(promo, items, now);
+    }
+
+    calculate(items: CartItem[], codes: string[], now: Date = new Date()): DiscountResult {
+        const rejected: RejectedPromo[] = [];
+        const eligible: PromoCode[] = [];
+        codes.forEach((code) => {
+            const promo = this.find(code);
+            const reason = promo ? this.eligibility(promo, items, now) : 'unknown-code';
+            if (promo && !reason) eligible.push(promo);
+            else rejected.push({ code: this.normalize(code), reason: reason ?? 'unknown-code' });
+        });
+        eligible.sort((a, b) => DISCOUNT_PRECEDENCE[a.rule.kind] - DISCOUNT_PRECEDENCE[b.rule.kind]);
+
+        const currency = this.pricing.currency;
+        const lines: Map<CartLineId, Money> = new Map();
+        items.forEach((item) => lines.set(lineIdOf(item), (lines.get(lineIdOf(item)) ?? Money.zero(currency)).add(this.pricing.lineTotal(item))));
+
+        const discounts: AppliedDiscount[] = [];
+        eligible.forEach((promo) => {
+            const amount = this.apply(promo.rule, items, lines);
+            if (amount.isPositive()) discounts.push({ code: promo.code, description: promo.description, amount });
+        });
+
+        const discountTotal = Money.sum(discounts.map((d) => d.amount), currency);
+        return { discounts, discountTotal, rejected, netLines: Object.fromEntries(lines) };
+    }
+
+    describeRejection(code: string, reason: PromoRejectionReason, translator: Translator = new Translator(i18nConfig)): string {
+        const minSpend = this.find(code)?.minSpend ?? usd(0);
+        return translator.t(`promo.rejected.${reason}`, {
+            code: this.normalize(code),
+            amount: this.pricing.format(this.pricing.fromBase(minSpend))
+        });
+    }
+
+    recordUsage(codes: string[]): void {
+        codes.forEach((code) => {
+            const key = this.normalize(code);
+            this.usage.set(key, (this.usage.get(key) ?? 0) + 1);
+        });
+    }
+
+    releaseUsage(codes: string[]): void {
+        codes.forEach((code) => {
+            const key = this.normalize(code);
+            const used = this.usage.get(key) ?? 0;
+            if (used > 1) this.usage.set(key, used - 1);
+            else this.usage.delete(key);
+        });
+    }
+
+    getUsage(): Record<string, number> {
+        return Object.fromEntries(this.usage);
+    }
+
+    restoreUsage(usage: Record<string, number>): void {
+        this.usage = new Map(Object.entries(usage));
+    }
+
+    private eligibility(promo: PromoCode, items: CartItem[], now: Date): PromoRejectionReason | null {
+        if (promo.startsAt && now < promo.startsAt) return 'not-yet-active';
+        if (promo.expiresAt && now > promo.expiresAt) return 'expired';
+        if (promo.usageLimit !== undefined && (this.usage.get(this.normalize(promo.code)) ?? 0) >= promo.usageLimit) {
+            return 'usage-limit-reached';
+        }
+
+        if (promo.minSpend !== undefined && this.pricing.subtotal(items).lessThan(this.pricing.fromBase(promo.minSpend))) {
+            return 'min-spend-not-met';
+        }
+
+        const rule = promo.rule;
+        if (rule.kind === 'buy-x-get-y') {
+            const quantity = items.filter((i) => i.dessert.id === rule.dessertId).reduce((sum, i) => sum + i.quantity, 0);
+            if (quantity < rule.buy + rule.free) return 'not-applicable';
+        } else if (rule.kind === 'category-percentage') {
+            if (!items.some((i) => i.dessert.category === rule.category)) return 'not-applicable';
+        } else if (items.length === 0) {
+            return 'not-applicable';
+        }
+        return null;
+    }
+
+    /**
+     * Compute one rule's discount against the remaining line amounts, deducting it from them
+     */
+    private apply(rule: DiscountRule, items: CartItem[], lines: Map<CartLineId, Money>): Money {
+        const currency = this.pricing.currency;
+        const mode = this.pricing.roundingMode;
+        const deduct = (lineId: CartLineId, amount: Money): Money => {
+            const remaining = lines.get(lineId) ?? Money.zero(currency);
+            const applied = Money.min(remaining, amount);
+            lines.set(lineId, remaining.subtract(applied));
+            return applied;
+        };
+
+        switch (rule.kind) {
+            case 'buy-x-get-y': {
+                // Units count across every variant of the dessert; the free ones are the cheapest
+                const matching = items.filter((item) => item.dessert.id === rule.dessertId);
+                let free = Math.floor(matching.reduce((sum, item) => sum + item.quantity, 0) / (rule.buy + rule.free)) * rule.free;
+                const cheapestFirst = matching
+                    .map((item) => ({ item, unitPrice: this.pricing.unitPrice(item.dessert, item.options) }))
+                    .sort((a, b) => a.unitPrice.minor - b.unitPrice.minor);
+                return Money.sum(
+                    cheapestFirst.map(({ item, unitPrice }) => {
+                        const units = Math.min(free, item.quantity);
+                        free -= units;
+                        return deduct(lineIdOf(item), unitPrice.multiply(units));
+                    }),
+                    currency
+                );
+            }
+            case 'category-percentage':
+                return Money.sum(
+                    items
+                        .filter((item) => item.dessert.category === rule.category)
+                        .map((item) => deduct(lineIdOf(item), (lines.get(lineIdOf(item)) ?? Money.zero(currency)).multiply(rule.percent / 100, mode))),
+                    currency
+                );
+            case 'percentage':
+            case 'fixed': {
+                // Order-level: spread the discount across lines in proportion to what remains on each
+                const ids = Array.from(lines.keys());
+                const remaining = ids.map((id) => lines.get(id) ?? Money.zero(currency));
+                const total = Money.sum(remaining, currency);
+                if (!total.isPositive()) return Money.zero(currency);
+                const requested = rule.kind === 'fixed' ? this.pricing.fromBase(rule.amount) : total.multiply(rule.percent / 100, mode);
+                const target = Money.min(total, requested);
+                target.allocate(remaining.map((line) => Math.max(line.minor, 0))).forEach((share, index) => deduct(ids[index], share));
+                return target;
+            }
+        }
+    }
+}
@@ -0,0 +1,165 @@
+// Stock levels and per-cart reservations
+import { DessertId, InventoryEvent, InventoryEventListener, StockLine, StockReservation, StockShortage } from '../types/index.js';
+
+export class InsufficientStockError extends Error {
+    constructor(public readonly dessertId: DessertId, public readonly requested: number, public readonly available: number) {
+        super(available > 0 ? `Only ${available} of ${dessertId} left, requested ${requested}` : `${dessertId} is sold out`);
+        this.name = 'InsufficientStockError';
+    }
+}
+
+export class OrderNotFulfillableError extends Error {
+    constructor(public readonly orderId: string, public readonly shortages: StockShortage[]) {
+        super(`Order ${orderId} cannot be fulfilled: ${shortages.map((s) => `${s.dessertId} (${s.available} of ${s.requested} available)`).join(', ')}`);
+        this.name = 'OrderNotFulfillableError';
+    }
+}
+
+/**
+ * Tracks quantity on hand per dessert and the stock held by open carts.
+ * Desserts without a stock entry are treated as unlimited. Reservations are
+ * absolute quantities per holder (cart) and lapse after the reservation TTL
+ * unless the holder touches its cart again.
+ */
+export class InventoryService {
+    private onHand: Map<DessertId, number>;
+    private reservations: Map<string, Map<DessertId, StockReservation>> = new Map();
+    private listeners: Set<InventoryEventListener> = new Set();
+
+    constructor(stock: Record<DessertId, number>, private reservationTtlMs: number = 15 * 60 * 1000) {
+        this.onHand = new Map(Object.entries(stock));
+    }
+
+    isTracked(dessertId: DessertId): boolean {
+        return this.onHand.has(dessertId);
+    }
+
+    getOnHand(dessertId: DessertId): number {
+        return this.onHand.get(dessertId) ?? Number.POSITIVE_INFINITY;
+    }
+
+    /**
+     * Quantity the given holder could hold in total: on hand minus what other holders reserved
+     */
+    getAvailable(dessertId: DessertId, holderId?: string): number {
+        let reservedByOthers = 0;
+        this.reservations.forEach((held, holder) => {
+            if (holder !== holderId) reservedByOthers += held.get(dessertId)?.quantity ?? 0;
+        });
+        return Math.max(0, this.getOnHand(dessertId) - reservedByOthers);
+    }
+
+    getReserved(holderId: string, dessertId: DessertId): number {
+        return this.reservations.get(holderId)?.get(dessertId)?.quantity ?? 0;
+    }
+
+    /**
+     * Set the quantity a holder reserves for a dessert, refreshing all of its reservations
+     */
+    reserve(holderId: string, dessertId: DessertId, quantity: number, now: Date = new Date()): void {
+        if (quantity <= 0) return this.release(holderId, dessertId);
+
+        const available = this.getAvailable(dessertId, holderId);
+        if (quantity > available) throw new InsufficientStockError(dessertId, quantity, available);
+
+        const held = this.reservations.get(holderId) ?? new Map<DessertId, StockReservation>();
+        const expiresAt = new Date(now.getTime() + this.reservationTtlMs);
+        held.set(dessertId, { quantity, expiresAt });
+        held.forEach((reservation) => (reservation.expiresAt = expiresAt));
+        this.reservations.set(holderId, held);
+        this.emit({ type: 'stock-changed', dessertId });
+    }
+
+    release(holderId: string, dessertId: DessertId): void {
+        const held = this.reservations.get(holderId);
+        if (!held || !held.delete(dessertId)) return;
+        if (held.size === 0) this.reservations.delete(holderId);
+        this.emit({ type: 'stock-changed', dessertId });
+    }
+
+    releaseAll(holderId: string): void {
+        const held = this.reservations.get(holderId);
+        if (!held) return;
+        this.reservations.delete(holderId);
+        held.forEach((_, dessertId) => this.emit({ type: 'stock-changed', dessertId }));
+    }
+
+    /**
+     * Lines that can't be fulfilled from stock, counting the holder's own reservations as available
+     */
+    shortages(lines: StockLine[], holderId?: string): StockShortage[] {
+        const requested: Map<DessertId, number> = new Map();
+        lines.forEach((line) => requested.set(line.dessertId, (requested.get(line.dessertId) ?? 0) + line.quantity));
+
+        const shortages: StockShortage[] = [];
+        requested.forEach((quantity, dessertId) => {
+            const available = this.getAvailable(dessertId, holderId);
+            if (quantity > available) shortages.push({ dessertId, requested: quantity, available });
+        });
+        return shortages;
+    }
+
+    /**
+     * Take confirmed lines out of stock and drop the holder's reservations
+     */
+    commit(lines: StockLine[], holderId?: string): void {
+        const shortages = this.shortages(lines, holderId);
+        if (shortages.length > 0) {
+            const [first] = shortages;
+            throw new InsufficientStockError(first.dessertId, first.requested, first.available);
+        }
+        if (holderId) this.releaseAll(holderId);
+        lines.forEach((line) => this.adjust(line.dessertId, -line.quantity));
+    }
+
+    restock(lines: StockLine[]): void {
+        lines.forEach((line) => this.adjust(line.dessertId, line.quantity));
+    }
+
+    /**
+     * Drop reservations past their expiry; returns how many were released
+     */
+    expireReservations(now: Date = new Date()): number {
+        let expired = 0;
+        this.reservations.forEach((held, holderId) => {
+            held.forEach((reservation, dessertId) => {
+                if (reservation.expiresAt > now) return;
+                held.delete(dessertId);
+                expired += 1;
+                this.emit({ type: 'reservation-expired', holderId, dessertId, quantity: reservation.quantity });
+                this.emit({ type: 'stock-changed', dessertId });
+            });
+            if (held.size === 0) this.reservations.delete(holderId);
+        });
+        return expired;
+    }
+
+    snapshot(): Record<DessertId, number> {
+        return Object.fromEntries(this.onHand);
+    }
+
+    /**
+     * Overwrite on-hand quantities for desserts that are tracked
+     */
+    restore(stock: Record<DessertId, number>): void {
+        Object.entries(stock).forEach(([dessertId, quantity]) => {
+            if (this.onHand.has(dessertId)) this.onHand.set(dessertId, Math.max(0, quantity));
+        });
+    }
+
+    subscribe(listener: InventoryEventListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private adjust(dessertId: DessertId, delta: number): void {
+        const current = this.onHand.get(dessertId);
+        if (current === undefined) return;
+        this.onHand.set(dessertId, Math.max(0, current + delta));
+        this.emit({ type: 'stock-changed', dessertId });
+    }
+
+    private emit(event: InventoryEvent): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+}
@@ -0,0 +1,293 @@
+// Order creation and lifecycle
+import { CartItem, CheckoutDetails, DessertId, Order, OrderDetails, OrderEvent, OrderEventListener, OrderExportFormat, OrderQuery, OrderStatus, OrderStatusChange, OrderSyncStatus, ReceiptOptions, StockLine } from '../types/index.js';
+import { Money } from '../utils/money.js';
+import { copyOptions } from '../utils/cartFunctions.js';
+import { amountDue } from '../utils/loyalty.js';
+import { splitBill } from '../utils/split.js';
+import { exportOrders, renderReceiptHtml } from '../utils/receipts.js';
+import { pricingConfig } from '../data/config.js';
+import { PricingContext } from './PricingContext.js';
+import { DiscountEngine } from './DiscountEngine.js';
+import { InventoryService, OrderNotFulfillableError } from './InventoryService.js';
+
+export const ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'cancelled', 'completed', 'partially-refunded', 'refunded'];
+
+// Orders that went through: cancelled and fully refunded ones don't count towards sales
+export const SOLD_ORDER_STATUSES: OrderStatus[] = ['confirmed', 'completed', 'partially-refunded'];
+
+const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['confirmed', 'cancelled'],
+    confirmed: ['completed', 'cancelled'],
+    completed: ['partially-refunded', 'refunded'],
+    'partially-refunded': ['partially-refunded', 'refunded'],
+    cancelled: [],
+    refunded: []
+};
+
+export class OrderNotFoundError extends Error {
+    constructor(public readonly orderId: string) {
+        super(`Order not found: ${orderId}`);
+        this.name = 'OrderNotFoundError';
+    }
+}
+
+export class InvalidOrderTransitionError extends Error {
+    constructor(public readonly orderId: string, public readonly from: OrderStatus, public readonly to: OrderStatus) {
+        super(`Order ${orderId} cannot move from ${from} to ${to}`);
+        this.name = 'InvalidOrderTransitionError';
+    }
+}
+
+export class InvalidRefundError extends Error {
+    constructor(public readonly orderId: string, message: string) {
+        super(`Cannot refund order ${orderId}: ${message}`);
+        this.name = 'InvalidRefundError';
+    }
+}
+
+export class OrderManager {
+    private orders: Map<string, Order> = new Map();
+    private orderCounter = 0;
+    private listeners: Set<OrderEventListener> = new Set();
+
+    constructor(
+        private pricing: PricingContext = new PricingContext(pricingConfig),
+        private discounts: DiscountEngine = new DiscountEngine([], pricing),
+        private inventory?: InventoryService
+    ) {}
+
+    createOrder(cartItems: CartItem[], promoCodes: string[] = [], reservationHolder?: string, checkout?: CheckoutDetails): Order {
+        if (cartItems.length === 0) throw new Error('Cannot create order with empty cart');
+        const discountResult = this.discounts.calculate(cartItems, promoCodes);
+        this.orderCounter += 1;
+        const id = `ORD-${Date.now()}-${this.orderCounter}`;
+        const details: OrderDetails = {
+            ...this.pricing.totals(cartItems, discountResult, checkout?.fulfilment.method),
+            items: cartItems.map((c) => ({
+                ...c,
+                options: copyOptions(c.options),
+                addedAt: new Date(c.addedAt),
+                unitPrice: this.pricing.unitPrice(c.dessert, c.options),
+                lineTotal: this.pricing.lineTotal(c)
+            })),
+            discounts: discountResult.discounts,
+            createdAt: new Date()
+        };
+        if (checkout) {
+            details.contact = { ...checkout.contact };
+            details.fulfilment = checkout.fulfilment;
+            if (checkout.dietaryCheck) details.dietaryCheck = checkout.dietaryCheck;
+            if (checkout.accountId) details.accountId = checkout.accountId;
+            if (checkout.pointsPayment) {
+                const { amount } = checkout.pointsPayment;
+                if (amount.currency !== details.currency || amount.greaterThan(details.total)) {
+                    throw new Error(`Points payment of ${this.pricing.format(amount)} cannot go towards ${this.pricing.format(details.total)}`);
+                }
+                details.pointsPayment = { ...checkout.pointsPayment };
+            }
+            if (checkout.group && checkout.group.participants.length > 0) {
+                details.split = splitBill(cartItems, details, discountResult.netLines, checkout.group, this.pricing);
+            }
+        }
+        const order: Order = {
+            id,
+            details,
+            status: 'pending',
+            refundedAmount: Money.zero(details.currency),
+            history: [{ from: null, to: 'pending', at: details.createdAt }]
+        };
+        if (reservationHolder !== undefined) order.reservationHolder = reservationHolder;
+        this.orders.set(id, order);
+        this.emit({ type: 'order-created', order });
+        return order;
+    }
+
+    /**
+     * Confirm a pending order, taking its items out of stock.
+     * Throws OrderNotFulfillableError if stock ran out since the order was created.
+     */
+    confirmOrder(orderId: string): Order {
+        const order = this.require(orderId);
+        this.assertTransition(order, 'confirmed');
+        if (this.inventory) {
+            const shortages = this.inventory.shortages(this.stockLines(order), order.reservationHolder);
+            if (shortages.length > 0) throw new OrderNotFulfillableError(orderId, shortages);
+        }
+
+        this.inventory?.commit(this.stockLines(order), order.reservationHolder);
+        this.transition(order, 'confirmed');
+        this.discounts.recordUsage(order.details.discounts.map((d) => d.code));
+        return order;
+    }
+
+    cancelOrder(orderId: string, reason?: string): Order {
+        const order = this.require(orderId);
+        const wasConfirmed = order.status === 'confirmed';
+        this.transition(order, 'cancelled', reason);
+        if (wasConfirmed) {
+            this.inventory?.restock(this.stockLines(order));
+            this.discounts.releaseUsage(order.details.discounts.map((d) => d.code));
+        }
+        return order;
+    }
+
+    completeOrder(orderId: string): Order {
+        const order = this.require(orderId);
+        this.transition(order, 'completed');
+        return order;
+    }
+
+    /**
+     * Refund a completed order. Omitting the amount refunds the remaining balance;
+     * a smaller amount leaves the order partially refunded. Only what was paid beyond points is
+     * refundable; points come back to the account when the order is fully refunded.
+     */
+    refundOrder(orderId: string, amount?: Money, reason?: string): Order {
+        const order = this.require(orderId);
+        const remaining = amountDue(order.details).subtract(order.refundedAmount);
+        const refund = amount ?? remaining;
+        if (refund.currency !== remaining.currency) throw new InvalidRefundError(orderId, `amount must be in ${remaining.currency}`);
+        // An order paid entirely with points is refunded by giving the points back
+        const pointsOnly = amount === undefined && remaining.isZero() && !!order.details.pointsPayment;
+        if (!refund.isPositive() && !pointsOnly) throw new InvalidRefundError(orderId, 'amount must be greater than 0');
+        if (refund.greaterThan(remaining)) {
+            throw new InvalidRefundError(orderId, `amount ${this.pricing.format(refund)} exceeds refundable balance ${this.pricing.format(remaining)}`);
+        }
+
+        const next: OrderStatus = refund.equals(remaining) ? 'refunded' : 'partially-refunded';
+        this.assertTransition(order, next);
+        order.refundedAmount = order.refundedAmount.add(refund);
+        this.transition(order, next, reason, refund);
+        return order;
+    }
+
+    /**
+     * Record how far the order has got towards the order endpoint
+     */
+    setSyncStatus(orderId: string, syncStatus: OrderSyncStatus): Order {
+        const order = this.require(orderId);
+        if (order.syncStatus === syncStatus) return order;
+        order.syncStatus = syncStatus;
+        this.emit({ type: 'order-sync-changed', order });
+        return order;
+    }
+
+    canTransition(orderId: string, to: OrderStatus): boolean {
+        const order = this.orders.get(orderId);
+        return !!order && ORDER_TRANSITIONS[order.status].includes(to);
+    }
+
+    getOrder(orderId: string): Order | undefined {
+        return this.orders.get(orderId);
+    }
+
+    getAllOrders(): Order[] {
+        return Array.from(this.orders.values());
+    }
+
+    getOrdersByStatus(status: OrderStatus): Order[] {
+        return this.queryOrders({ status });
+    }
+
+    /**
+     * List orders matching every given criterion, oldest first.
+     * Date bounds apply to the creation date and are inclusive, as are the total bounds;
+     * a total bound only matches orders in its own currency.
+     */
+    queryOrders(query: OrderQuery = {}): Order[] {
+        const statuses = query.status === undefined ? undefined : ([] as OrderStatus[]).concat(query.status);
+        return this.getAllOrders()
+            .filter((order) => {
+                const createdAt = order.details.createdAt.getTime();
+                const total = order.details.total;
+                if (statuses && !statuses.includes(order.status)) return false;
+                if (query.currency && order.details.currency !== query.currency) return false;
+                if (query.createdFrom && createdAt < query.createdFrom.getTime()) return false;
+                if (query.createdTo && createdAt > query.createdTo.getTime()) return false;
+                if (query.minTotal && (total.currency !== query.minTotal.currency || total.lessThan(query.minTotal))) return false;
+                if (query.maxTotal && (total.currency !== query.maxTotal.currency || total.greaterThan(query.maxTotal))) return false;
+                return true;
+            })
+            .sort((a, b) => a.details.createdAt.getTime() - b.details.createdAt.getTime());
+    }
+
+    /**
+     * Units sold per dessert across orders that went through (cancelled and fully refunded ones excluded)
+     */
+    getUnitsSold(): Record<DessertId, number> {
+        const sold: Record<DessertId, number> = {};
+        this.queryOrders({ status: SOLD_ORDER_STATUSES }).forEach((order) => {
+            order.details.items.forEach((item) => {
+                sold[item.dessert.id] = (sold[item.dessert.id] ?? 0) + item.quantity;
+            });
+        });
+        return sold;
+    }
+
+    /**
+     * Export the orders matching `query` (every order by default), oldest first
+     */
+    exportOrders(format: OrderExportFormat, query: OrderQuery = {}): string {
+        return exportOrders(this.queryOrders(query), format);
+    }
+
+    /**
+     * Print-ready HTML receipt for an order
+     */
+    getReceipt(orderId: string, options?: Partial<ReceiptOptions>): string {
+        return renderReceiptHtml(this.require(orderId), this.pricing, options);
+    }
+
+    subscribe(listener: OrderEventListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    get counter(): number {
+        return this.orderCounter;
+    }
+
+    restore(orders: Order[], orderCounter: number): void {
+        this.orders.clear();
+        orders.forEach((order) => this.orders.set(order.id, order));
+        this.orderCounter = Math.max(orderCounter, orders.length);
+    }
+
+    clearAll(): void {
+        this.orders.clear();
+        this.orderCounter = 0;
+        this.emit({ type: 'orders-cleared' });
+    }
+
+    private stockLines(order: Order): StockLine[] {
+        return order.details.items.map((item) => ({ dessertId: item.dessert.id, quantity: item.quantity }));
+    }
+
+    private require(orderId: string): Order {
+        const order = this.orders.get(orderId);
+        if (!order) throw new OrderNotFoundError(orderId);
+        return order;
+    }
+
+    private assertTransition(order: Order, to: OrderStatus): void {
+        if (!ORDER_TRANSITIONS[order.status].includes(to)) {
+            throw new InvalidOrderTransitionError(order.id, order.status, to);
+        }
+    }
+
+    private transition(order: Order, to: OrderStatus, reason?: string, amount?: Money): void {
+        this.assertTransition(order, to);
+        const change: OrderStatusChange = { from: order.status, to, at: new Date() };
+        if (reason !== undefined) change.reason = reason;
+        if (amount !== undefined) change.amount = amount;
+
+        order.status = to;
+        if (to === 'confirmed') order.confirmedAt = change.at;
+        order.history.push(change);
+        this.emit({ type: 'order-status-changed', order, change });
+    }
+
+    private emit(event: OrderEvent): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+}
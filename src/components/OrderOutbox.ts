@@ -0,0 +1,258 @@
+// Orders waiting to reach the order endpoint, retried until they get there
+import { Order, OrderExport, OrderSubmission, OrderSubmitter, OutboxEntry, OutboxEvent, OutboxEventListener, StorageAdapter } from '../types/index.js';
+import { CURRENCY_MINOR_UNITS } from '../utils/money.js';
+import { isOneOf, isRecord } from '../utils/guards.js';
+import { toOrderExport } from '../utils/receipts.js';
+import { ORDER_STATUSES } from './OrderManager.js';
+
+const OUTBOX_KEY = 'dessert-shop:order-outbox';
+// Retry delays double from the first to the last, then stay there
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+export class OrderSubmissionError extends Error {
+    constructor(message: string, public readonly retryable: boolean) {
+        super(message);
+        this.name = 'OrderSubmissionError';
+    }
+}
+
+/**
+ * The plain JSON an order is submitted as
+ */
+export function toOrderSubmission(order: Order): OrderSubmission {
+    const { contact, fulfilment } = order.details;
+    return {
+        order: toOrderExport(order),
+        contact: contact ? { ...contact } : null,
+        pickup: fulfilment?.method === 'pickup' ? { start: fulfilment.slot.start.toISOString(), end: fulfilment.slot.end.toISOString() } : null,
+        delivery: fulfilment?.method === 'delivery' ? { ...fulfilment.address } : null
+    };
+}
+
+/**
+ * A random key naming one submission; crypto.randomUUID is missing outside secure contexts (e.g. plain http on a LAN)
+ */
+export function createIdempotencyKey(): string {
+    if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+}
+
+function hasStrings(value: Record<string, unknown>, keys: string[]): boolean {
+    return keys.every((key) => typeof value[key] === 'string');
+}
+
+function isExportLine(value: unknown): value is OrderExport['items'][number] {
+    return isRecord(value) && hasStrings(value, ['dessertId', 'name', 'options', 'unitPrice', 'lineTotal'])
+        && typeof value.quantity === 'number' && (value.participant === null || typeof value.participant === 'string');
+}
+
+function isOrderExport(value: unknown): value is OrderExport {
+    if (!isRecord(value)) return false;
+    return hasStrings(value, ['id', 'createdAt', 'region', 'subtotal', 'discountTotal', 'tax', 'taxLabel', 'deliveryFee', 'total', 'refundedAmount', 'pointsAmount', 'amountDue'])
+        && isOneOf(value.status, ORDER_STATUSES)
+        && isOneOf(value.currency, Object.keys(CURRENCY_MINOR_UNITS))
+        && (value.confirmedAt === null || typeof value.confirmedAt === 'string')
+        && typeof value.taxRate === 'number' && typeof value.taxInclusive === 'boolean' && typeof value.pointsRedeemed === 'number'
+        && Array.isArray(value.items) && value.items.every(isExportLine)
+        && Array.isArray(value.discounts) && value.discounts.every((discount) => isRecord(discount) && hasStrings(discount, ['code', 'description', 'amount']))
+        && (value.fulfilment === null || isOneOf(value.fulfilment, ['pickup', 'delivery']))
+        && (value.dietaryCheck === null || isRecord(value.dietaryCheck))
+        && (value.split === null || (isRecord(value.split) && Array.isArray(value.split.shares)));
+}
+
+/**
+ * The body saved with a queued order, checked before it is sent again; null when it isn't one
+ */
+function reviveSubmission(value: unknown): OrderSubmission | null {
+    if (!isRecord(value) || !isOrderExport(value.order)) return null;
+    const { contact, pickup, delivery } = value;
+    if (contact !== null && !(isRecord(contact) && hasStrings(contact, ['name', 'email', 'phone']))) return null;
+    if (pickup !== null && !(isRecord(pickup) && hasStrings(pickup, ['start', 'end']))) return null;
+    if (delivery !== null && !(isRecord(delivery) && hasStrings(delivery, ['line1', 'city', 'postcode']))) return null;
+    return {
+        order: value.order,
+        contact: contact && { name: String(contact.name), email: String(contact.email), phone: String(contact.phone) },
+        pickup: pickup && { start: String(pickup.start), end: String(pickup.end) },
+        delivery: delivery && {
+            line1: String(delivery.line1),
+            city: String(delivery.city),
+            postcode: String(delivery.postcode),
+            ...(typeof delivery.line2 === 'string' ? { line2: delivery.line2 } : {}),
+            ...(typeof delivery.instructions === 'string' ? { instructions: delivery.instructions } : {})
+        }
+    };
+}
+
+function reviveOutboxEntry(value: unknown): OutboxEntry | null {
+    if (!isRecord(value) || typeof value.orderId !== 'string' || typeof value.idempotencyKey !== 'string') return null;
+    const submission = reviveSubmission(value.submission);
+    if (!submission) return null;
+    const queuedAt = new Date(String(value.queuedAt));
+    const nextAttemptAt = new Date(String(value.nextAttemptAt));
+    if (Number.isNaN(queuedAt.getTime()) || Number.isNaN(nextAttemptAt.getTime())) return null;
+    const entry: OutboxEntry = {
+        orderId: value.orderId,
+        idempotencyKey: value.idempotencyKey,
+        submission,
+        queuedAt,
+        attempts: typeof value.attempts === 'number' ? value.attempts : 0,
+        nextAttemptAt
+    };
+    if (typeof value.lastError === 'string') entry.lastError = value.lastError;
+    return entry;
+}
+
+/**
+ * POSTs orders as JSON with an Idempotency-Key header. Network failures, timeouts (408), rate limits (429)
+ * and server errors are worth retrying; any other refusal is final.
+ */
+export class HttpOrderSubmitter implements OrderSubmitter {
+    constructor(private url: string, private fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {}
+
+    async submit(submission: OrderSubmission, idempotencyKey: string): Promise<void> {
+        let response: Response;
+        try {
+            response = await this.fetchImpl(this.url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Accept: 'application/json', 'Idempotency-Key': idempotencyKey },
+                body: JSON.stringify(submission)
+            });
+        } catch (error) {
+            throw new OrderSubmissionError(`Order endpoint unreachable: ${error instanceof Error ? error.message : String(error)}`, true);
+        }
+        if (response.ok) return;
+
+        const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+        throw new OrderSubmissionError(`Order endpoint refused the order: ${response.status} ${response.statusText}`, retryable);
+    }
+}
+
+/**
+ * Queue of orders for the order endpoint. Each order is queued once with a fixed idempotency key and body,
+ * then sent by flush() until the endpoint accepts it, backing off between failed attempts.
+ * The queue is stored under its own key and shared by every tab of the shop; if two tabs send the same
+ * order, the shared key lets the endpoint keep just one.
+ */
+export class OrderOutbox {
+    private listeners: Set<OutboxEventListener> = new Set();
+    private flushing: Promise<void> | null = null;
+
+    constructor(
+        private submitter: OrderSubmitter,
+        private storage: StorageAdapter,
+        private now: () => Date = () => new Date()
+    ) {}
+
+    /**
+     * Queue an order; queueing it again keeps the original entry and key
+     */
+    enqueue(order: Order): OutboxEntry {
+        const entries = this.read();
+        const existing = entries.find((entry) => entry.orderId === order.id);
+        if (existing) return existing;
+
+        const at = this.now();
+        const entry: OutboxEntry = {
+            orderId: order.id,
+            idempotencyKey: createIdempotencyKey(),
+            submission: toOrderSubmission(order),
+            queuedAt: at,
+            attempts: 0,
+            nextAttemptAt: at
+        };
+        this.write([...entries, entry]);
+        this.emit({ type: 'order-queued', entry });
+        return entry;
+    }
+
+    getEntries(): OutboxEntry[] {
+        return this.read().map((entry) => ({ ...entry }));
+    }
+
+    has(orderId: string): boolean {
+        return this.read().some((entry) => entry.orderId === orderId);
+    }
+
+    get size(): number {
+        return this.read().length;
+    }
+
+    /**
+     * Send every entry that is due, one at a time in queue order. `force` ignores the backoff,
+     * e.g. when the connection has just come back.
+     */
+    flush(force: boolean = false): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.sendDue(force).finally(() => (this.flushing = null));
+        }
+        return this.flushing;
+    }
+
+    subscribe(listener: OutboxEventListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private async sendDue(force: boolean): Promise<void> {
+        const due = this.read().filter((entry) => force || entry.nextAttemptAt.getTime() <= this.now().getTime());
+        for (const entry of due) {
+            // Another tab may have sent it in the meantime
+            if (!this.has(entry.orderId)) continue;
+            try {
+                await this.submitter.submit(entry.submission, entry.idempotencyKey);
+            } catch (error) {
+                if (error instanceof OrderSubmissionError && !error.retryable) {
+                    this.remove(entry.orderId);
+                    this.emit({ type: 'order-rejected', orderId: entry.orderId, error: error.message });
+                    continue;
+                }
+                const attempts = entry.attempts + 1;
+                const retry: OutboxEntry = {
+                    ...entry,
+                    attempts,
+                    nextAttemptAt: new Date(this.now().getTime() + retryDelay(attempts)),
+                    lastError: error instanceof Error ? error.message : String(error)
+                };
+                this.update(retry);
+                this.emit({ type: 'order-retry-scheduled', entry: retry });
+                // The endpoint is down or out of reach; the rest would fail the same way
+                return;
+            }
+            this.remove(entry.orderId);
+            this.emit({ type: 'order-submitted', orderId: entry.orderId });
+        }
+    }
+
+    private update(entry: OutboxEntry): void {
+        this.write(this.read().map((existing) => (existing.orderId === entry.orderId ? entry : existing)));
+    }
+
+    private remove(orderId: string): void {
+        this.write(this.read().filter((entry) => entry.orderId !== orderId));
+    }
+
+    private read(): OutboxEntry[] {
+        const raw = this.storage.getItem(OUTBOX_KEY);
+        if (!raw) return [];
+        try {
+            const parsed: unknown = JSON.parse(raw);
+            if (!Array.isArray(parsed)) return [];
+            return parsed.map(reviveOutboxEntry).filter((entry): entry is OutboxEntry => entry !== null);
+        } catch {
+            return [];
+        }
+    }
+
+    private write(entries: OutboxEntry[]): void {
+        this.storage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    }
+
+    private emit(event: OutboxEvent): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+}
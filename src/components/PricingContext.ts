@@ -0,0 +1,146 @@
+// Regional pricing: currency conversion, tax and delivery fees
+import { CartItem, CurrencyCode, Dessert, DiscountResult, FulfilmentMethod, PriceTotals, PricingConfig, Region, RoundingMode, SelectedOptions, TaxRule } from '../types/index.js';
+import { CURRENCY_MINOR_UNITS, Money, roundMinor } from '../utils/money.js';
+import { lineIdOf, optionsPrice } from '../utils/options.js';
+import { i18nConfig } from '../data/config.js';
+import { Translator } from './Translator.js';
+
+export class PricingContext {
+    private region: Region;
+    private formatters: Map<CurrencyCode, Intl.NumberFormat> = new Map();
+
+    constructor(private config: PricingConfig, regionId: string = config.defaultRegion) {
+        this.region = this.findRegion(regionId);
+    }
+
+    get currency(): CurrencyCode {
+        return this.region.currency;
+    }
+
+    get regionId(): string {
+        return this.region.id;
+    }
+
+    get taxRule(): TaxRule {
+        return this.region.tax;
+    }
+
+    get roundingMode(): RoundingMode {
+        return this.config.roundingMode;
+    }
+
+    getRegions(): Region[] {
+        return [...this.config.regions];
+    }
+
+    hasRegion(regionId: string): boolean {
+        return this.config.regions.some((r) => r.id === regionId);
+    }
+
+    setRegion(regionId: string): void {
+        this.region = this.findRegion(regionId);
+    }
+
+    /**
+     * Convert an amount into another currency using the locally configured rates
+     */
+    convert<T extends CurrencyCode>(amount: Money, to: T): Money<T> {
+        if ((amount.currency as CurrencyCode) === to) return amount as Money<CurrencyCode> as Money<T>;
+        const rates = this.config.exchangeRates;
+        const scale = Math.pow(10, CURRENCY_MINOR_UNITS[to] - CURRENCY_MINOR_UNITS[amount.currency]);
+        return Money.fromMinor(roundMinor((amount.minor / rates[amount.currency]) * rates[to] * scale, this.config.roundingMode), to);
+    }
+
+    /**
+     * Convert a catalog (base currency) amount into the active currency
+     */
+    fromBase(amount: Money<'USD'>): Money {
+        return this.convert(amount, this.currency);
+    }
+
+    /**
+     * Price of one unit with the given options, their deltas added before conversion
+     */
+    unitPrice(dessert: Dessert, options: SelectedOptions = {}): Money {
+        return this.fromBase(dessert.price.add(optionsPrice(dessert, options)));
+    }
+
+    lineTotal(item: CartItem): Money {
+        return this.unitPrice(item.dessert, item.options).multiply(item.quantity);
+    }
+
+    subtotal(items: CartItem[]): Money {
+        return Money.sum(items.map((item) => this.lineTotal(item)), this.currency);
+    }
+
+    /**
+     * Delivery charge for an order whose discounted subtotal is `discounted`; pickup is free
+     */
+    deliveryFee(method: FulfilmentMethod | undefined, discounted: Money): Money {
+        const { fee, freeFrom } = this.config.delivery;
+        if (method !== 'delivery') return Money.zero(this.currency);
+        if (freeFrom && !discounted.lessThan(this.fromBase(freeFrom))) return Money.zero(this.currency);
+        return this.fromBase(fee);
+    }
+
+    /**
+     * Subtotal, tax and total for the given items after discounts.
+     * Tax is charged on each line's discounted amount, skipping exempt categories, and is
+     * rounded either per line or once for the order depending on the region's tax rule.
+     */
+    totals(items: CartItem[], discounts: DiscountResult, method?: FulfilmentMethod): PriceTotals {
+        const rule = this.region.tax;
+        const subtotal = this.subtotal(items);
+        const discounted = subtotal.subtract(discounts.discountTotal);
+        // Inclusive prices already contain the tax: extract rate / (1 + rate) of the amount
+        const factor = rule.inclusive ? rule.rate / (1 + rule.rate) : rule.rate;
+
+        const taxable = items
+            .filter((item) => !rule.exemptCategories.includes(item.dessert.category))
+            .map((item) => discounts.netLines[lineIdOf(item)] ?? this.lineTotal(item));
+        const tax = rule.rounding === 'per-line'
+            ? Money.sum(taxable.map((net) => net.multiply(factor, this.config.roundingMode)), this.currency)
+            : Money.sum(taxable, this.currency).multiply(factor, this.config.roundingMode);
+        // Delivery is charged on top and is not taxed
+        const deliveryFee = this.deliveryFee(method, discounted);
+
+        return {
+            currency: this.currency,
+            region: this.region.id,
+            subtotal,
+            discountTotal: discounts.discountTotal,
+            taxLabel: rule.label,
+            taxRate: rule.rate,
+            taxInclusive: rule.inclusive,
+            tax,
+            deliveryFee,
+            total: (rule.inclusive ? discounted : discounted.add(tax)).add(deliveryFee)
+        };
+    }
+
+    format(amount: Money): string {
+        let formatter = this.formatters.get(amount.currency);
+        if (!formatter) {
+            const digits = CURRENCY_MINOR_UNITS[amount.currency];
+            formatter = new Intl.NumberFormat(this.config.locales[amount.currency], {
+                style: 'currency',
+                currency: amount.currency,
+                minimumFractionDigits: digits,
+                maximumFractionDigits: digits
+            });
+            this.formatters.set(amount.currency, formatter);
+        }
+        return formatter.format(amount.toMajor());
+    }
+
+    describeTax(totals: Pick<PriceTotals, 'taxLabel' | 'taxRate' | 'taxInclusive'>, translator: Translator = new Translator(i18nConfig)): string {
+        const rate = `${Math.round(totals.taxRate * 1000) / 10}%`;
+        return translator.t(totals.taxInclusive ? 'totals.taxIncluded' : 'totals.taxAdded', { label: totals.taxLabel, rate });
+    }
+
+    private findRegion(regionId: string): Region {
+        const region = this.config.regions.find((r) => r.id === regionId);
+        if (!region) throw new Error(`Unknown pricing region: ${regionId}`);
+        return region;
+    }
+}
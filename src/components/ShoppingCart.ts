@@ -0,0 +1,460 @@
+// Event-emitting shopping cart
+import { CartEvent, CartEventListener, CartItem, CartLineId, CartMutation, CartSnapshotEntry, CartSummary, CatalogPriceChange, Dessert, DessertId, DroppedCartItem, FulfilmentMethod, GroupOrder, Order, Participant, ParticipantId, RejectedPromo, ReorderChange, SelectedOptions, SplitMode } from '../types/index.js';
+import { Money } from '../utils/money.js';
+import { applyCartMutation, copyCartItem, copyGroupOrder, copyOptions, getItemCount } from '../utils/cartFunctions.js';
+import { InvalidOptionsError, lineIdOf, normalizeOptions, optionsPrice, validateOptions } from '../utils/options.js';
+import { planReorder } from '../utils/reorder.js';
+import { createParticipant, splitBill, UnknownParticipantError } from '../utils/split.js';
+import { pricingConfig } from '../data/config.js';
+import { PricingContext } from './PricingContext.js';
+import { DiscountEngine, PromoCodeError } from './DiscountEngine.js';
+import { InventoryService } from './InventoryService.js';
+import { Translator } from './Translator.js';
+
+export class ShoppingCart {
+    private items: Map<CartLineId, CartItem> = new Map();
+    private listeners: Set<CartEventListener> = new Set();
+    private promoCodes: string[] = [];
+    private group: GroupOrder | null = null;
+    private batchDepth = 0;
+
+    constructor(
+        private pricing: PricingContext = new PricingContext(pricingConfig),
+        private discounts: DiscountEngine = new DiscountEngine([], pricing),
+        private inventory?: InventoryService,
+        readonly id: string = `cart-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    ) {}
+
+    /**
+     * Add a dessert with the chosen options; the same dessert and selection share one line.
+     * In a group order the line belongs to `participantId`, or is shared when none is given.
+     * Throws InvalidOptionsError when the selection doesn't satisfy the dessert's option groups,
+     * and UnknownParticipantError for someone who isn't in the group order.
+     */
+    addItem(dessert: Dessert, quantity: number = 1, options: SelectedOptions = {}, participantId?: ParticipantId): void {
+        if (quantity <= 0) throw new Error('Quantity must be greater than 0');
+        if (!dessert.inStock) throw new Error('Dessert is not in stock');
+        const errors = validateOptions(dessert, options);
+        if (Object.keys(errors).length > 0) throw new InvalidOptionsError(dessert.id, errors);
+        this.assertParticipant(participantId);
+
+        const selected = normalizeOptions(dessert, options);
+        const lineId = lineIdOf({ dessert, options: selected, participantId });
+        const existing = this.items.get(lineId);
+        this.inventory?.reserve(this.id, dessert.id, this.getDessertQuantity(dessert.id) + quantity);
+        if (existing) {
+            existing.quantity += quantity;
+            this.emit({ type: 'quantity-updated', lineId, newQuantity: existing.quantity, previousQuantity: existing.quantity - quantity });
+        } else {
+            const item: CartItem = { dessert, options: selected, quantity, addedAt: new Date() };
+            if (participantId !== undefined) item.participantId = participantId;
+            this.items.set(lineId, item);
+            this.emit({ type: 'item-added', item: copyCartItem(item), position: this.items.size - 1 });
+        }
+        this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+    }
+
+    removeItem(lineId: CartLineId): void {
+        const item = this.items.get(lineId);
+        if (item) {
+            const position = Array.from(this.items.keys()).indexOf(lineId);
+            this.items.delete(lineId);
+            this.reserveDessert(item.dessert.id);
+            this.emit({ type: 'item-removed', lineId, item: copyCartItem(item), position });
+            this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+        }
+    }
+
+    updateQuantity(lineId: CartLineId, newQuantity: number): void {
+        if (newQuantity <= 0) return this.removeItem(lineId);
+        const item = this.items.get(lineId);
+        if (item) {
+            if (newQuantity > item.quantity && !item.dessert.inStock) throw new Error('Dessert is not in stock');
+            const dessertId = item.dessert.id;
+            this.inventory?.reserve(this.id, dessertId, this.getDessertQuantity(dessertId) - item.quantity + newQuantity);
+            const previousQuantity = item.quantity;
+            item.quantity = newQuantity;
+            this.emit({ type: 'quantity-updated', lineId, newQuantity, previousQuantity });
+            this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+        }
+    }
+
+    incrementItem(lineId: CartLineId): void {
+        const item = this.items.get(lineId);
+        if (item) this.updateQuantity(lineId, item.quantity + 1);
+    }
+
+    decrementItem(lineId: CartLineId): void {
+        const item = this.items.get(lineId);
+        if (item) this.updateQuantity(lineId, item.quantity - 1);
+    }
+
+    /**
+     * Units of a dessert across all of its lines
+     */
+    getDessertQuantity(dessertId: DessertId): number {
+        return getItemCount(this.getItems().filter((item) => item.dessert.id === dessertId));
+    }
+
+    getTotal(): Money {
+        return this.pricing.subtotal(this.getItems());
+    }
+
+    getItemCount(): number {
+        return getItemCount(this.getItems());
+    }
+
+    getItems(): CartItem[] {
+        return Array.from(this.items.values());
+    }
+
+    applyPromoCode(code: string): void {
+        const reason = this.discounts.validate(code, this.getItems(), this.promoCodes);
+        if (reason) throw new PromoCodeError(code, reason, this.discounts.describeRejection(code, reason));
+        const normalized = this.discounts.normalize(code);
+        this.promoCodes.push(normalized);
+        this.emit({ type: 'promo-applied', code: normalized });
+        this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+    }
+
+    removePromoCode(code: string): void {
+        const normalized = this.discounts.normalize(code);
+        const index = this.promoCodes.indexOf(normalized);
+        if (index === -1) return;
+        this.promoCodes.splice(index, 1);
+        this.emit({ type: 'promo-removed', code: normalized });
+        this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+    }
+
+    getPromoCodes(): string[] {
+        return [...this.promoCodes];
+    }
+
+    describePromoRejection(rejected: RejectedPromo, translator?: Translator): string {
+        return this.discounts.describeRejection(rejected.code, rejected.reason, translator);
+    }
+
+    getGroup(): GroupOrder | null {
+        return copyGroupOrder(this.group);
+    }
+
+    /**
+     * Start taking a group order; lines already in the cart are shared until someone claims them
+     */
+    startGroupOrder(split: SplitMode = 'by-item'): void {
+        if (this.group) return;
+        this.setGroup({ participants: [], split });
+    }
+
+    addParticipant(name: string): Participant {
+        if (!this.group) throw new Error('Start a group order before adding participants');
+        if (name.trim() === '') throw new Error('A participant needs a name');
+        const participant = createParticipant(name);
+        this.setGroup({ ...this.group, participants: [...this.group.participants, participant] });
+        return participant;
+    }
+
+    /**
+     * Take someone out of the group order; their lines stay in the cart as shared lines
+     */
+    removeParticipant(participantId: ParticipantId): void {
+        const group = this.group;
+        if (!group?.participants.some((participant) => participant.id === participantId)) return;
+        this.batch(() => {
+            this.getItems().filter((item) => item.participantId === participantId).forEach((item) => this.assignItem(lineIdOf(item), undefined));
+            this.setGroup({ ...group, participants: group.participants.filter((participant) => participant.id !== participantId) });
+        });
+    }
+
+    setSplitMode(split: SplitMode): void {
+        if (!this.group || this.group.split === split) return;
+        this.setGroup({ ...this.group, split });
+    }
+
+    /**
+     * Go back to an ordinary cart, merging everyone's lines
+     */
+    endGroupOrder(): void {
+        if (!this.group) return;
+        this.batch(() => {
+            this.getItems().filter((item) => item.participantId !== undefined).forEach((item) => this.assignItem(lineIdOf(item), undefined));
+            this.setGroup(null);
+        });
+    }
+
+    /**
+     * Move a line to someone else in the group order, or make it shared (`participantId` undefined).
+     * It keeps its place, or merges into that person's line for the same dessert and options.
+     * Stock is untouched: the cart holds the same units either way.
+     * The removal and re-add are emitted as one batch, so a single undo puts the line back.
+     */
+    assignItem(lineId: CartLineId, participantId?: ParticipantId): void {
+        const item = this.items.get(lineId);
+        if (!item || item.participantId === participantId) return;
+        this.assertParticipant(participantId);
+
+        this.batch(() => {
+            const position = Array.from(this.items.keys()).indexOf(lineId);
+            this.items.delete(lineId);
+            this.emit({ type: 'item-removed', lineId, item: copyCartItem(item), position });
+
+            const moved = copyCartItem(item);
+            delete moved.participantId;
+            if (participantId !== undefined) moved.participantId = participantId;
+            const targetId = lineIdOf(moved);
+            const existing = this.items.get(targetId);
+            if (existing) {
+                existing.quantity += moved.quantity;
+                this.emit({ type: 'quantity-updated', lineId: targetId, newQuantity: existing.quantity, previousQuantity: existing.quantity - moved.quantity });
+            } else {
+                const entries = Array.from(this.items.entries());
+                entries.splice(position, 0, [targetId, moved]);
+                this.items = new Map(entries);
+                this.emit({ type: 'item-added', item: copyCartItem(moved), position });
+            }
+            this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+        });
+    }
+
+    /**
+     * How many more units of a dessert this cart could take; Infinity when stock isn't tracked
+     */
+    getRemainingStock(dessert: Dessert): number {
+        if (!dessert.inStock) return 0;
+        if (!this.inventory) return Number.POSITIVE_INFINITY;
+        return Math.max(0, this.inventory.getAvailable(dessert.id, this.id) - this.getDessertQuantity(dessert.id));
+    }
+
+    clear(): void {
+        const items = this.getItems().map(copyCartItem);
+        const promoCodes = this.promoCodes;
+        this.items.clear();
+        this.inventory?.releaseAll(this.id);
+        this.promoCodes = [];
+        this.emit({ type: 'cart-cleared', items, promoCodes });
+        this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+    }
+
+    get isEmpty(): boolean {
+        return this.items.size === 0;
+    }
+
+    hasItem(lineId: CartLineId): boolean {
+        return this.items.has(lineId);
+    }
+
+    getItem(lineId: CartLineId): CartItem | undefined {
+        return this.items.get(lineId);
+    }
+
+    get size(): number {
+        return this.items.size;
+    }
+
+    snapshot(): CartSnapshotEntry[] {
+        return this.getItems().map((item) => {
+            const entry: CartSnapshotEntry = { dessertId: item.dessert.id, options: copyOptions(item.options), quantity: item.quantity, addedAt: new Date(item.addedAt) };
+            if (item.participantId !== undefined) entry.participantId = item.participantId;
+            return entry;
+        });
+    }
+
+    /**
+     * Replace the cart contents with a persisted snapshot, resolving each entry against the
+     * current catalog. Entries that no longer exist, are out of stock or whose options no longer fit
+     * are dropped and reported. Entries for someone who isn't in `group` become shared.
+     */
+    restore(entries: CartSnapshotEntry[], catalog: Dessert[], promoCodes: string[] = [], group: GroupOrder | null = this.group): void {
+        const previousItems = this.getItems().map(copyCartItem);
+        const previousPromoCodes = this.promoCodes;
+        this.items.clear();
+        this.group = copyGroupOrder(group);
+        this.inventory?.releaseAll(this.id);
+        this.promoCodes = promoCodes.filter((code) => !!this.discounts.find(code)).map((code) => this.discounts.normalize(code));
+        const dropped: DroppedCartItem[] = [];
+        entries.forEach((entry) => {
+            const dessert = catalog.find((d) => d.id === entry.dessertId);
+            if (!dessert) {
+                dropped.push({ dessertId: entry.dessertId, quantity: entry.quantity, reason: 'not-found' });
+            } else if (!dessert.inStock) {
+                dropped.push({ dessertId: entry.dessertId, quantity: entry.quantity, reason: 'out-of-stock' });
+            } else if (Object.keys(validateOptions(dessert, entry.options)).length > 0) {
+                dropped.push({ dessertId: entry.dessertId, quantity: entry.quantity, reason: 'options-unavailable' });
+            } else if (entry.quantity > 0) {
+                const options = normalizeOptions(dessert, entry.options);
+                const participantId = this.group?.participants.some((participant) => participant.id === entry.participantId) ? entry.participantId : undefined;
+                const lineId = lineIdOf({ dessert, options, participantId });
+                const existing = this.items.get(lineId);
+                const held = this.getDessertQuantity(dessert.id) - (existing?.quantity ?? 0);
+                const wanted = (existing?.quantity ?? 0) + entry.quantity;
+                const quantity = this.inventory ? Math.min(wanted, this.inventory.getAvailable(dessert.id, this.id) - held) : wanted;
+                if (quantity < wanted) {
+                    const reason = quantity <= 0 ? 'out-of-stock' : 'insufficient-stock';
+                    dropped.push({ dessertId: entry.dessertId, quantity: wanted - Math.max(quantity, 0), reason });
+                }
+                if (quantity <= 0) return;
+                this.inventory?.reserve(this.id, dessert.id, held + quantity);
+                if (existing) existing.quantity = quantity;
+                else this.items.set(lineId, { dessert, options, quantity, addedAt: new Date(entry.addedAt), ...(participantId !== undefined ? { participantId } : {}) });
+            }
+        });
+        this.emit({ type: 'items-replaced', items: this.getItems().map(copyCartItem), promoCodes: [...this.promoCodes], previousItems, previousPromoCodes });
+        if (dropped.length > 0) this.emit({ type: 'stale-items-dropped', items: dropped });
+        this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+    }
+
+    /**
+     * Replace the cart contents with a past order's lines, as far as today's catalog and stock allow
+     * (see planReorder), keeping the promo codes already applied. Returns how the cart differs from the order.
+     */
+    reorder(order: Order, catalog: Dessert[], accept?: (dessert: Dessert) => boolean): ReorderChange[] {
+        const available = (dessertId: DessertId) => (this.inventory ? this.inventory.getAvailable(dessertId, this.id) : Infinity);
+        const plan = planReorder(order, catalog, available, accept);
+        this.restore(plan.entries, catalog, this.promoCodes);
+        return plan.changes;
+    }
+
+    /**
+     * Bring cart lines up to date with a freshly loaded catalog: lines for desserts that disappeared,
+     * went out of stock or no longer offer the chosen options are dropped, the rest pick up the new
+     * dessert details. A price change covers the base price and the chosen options' deltas.
+     * Nothing is emitted when the catalog leaves every line as it was.
+     */
+    reconcile(catalog: Dessert[]): void {
+        const previousItems = this.getItems().map(copyCartItem);
+        const dropped: DroppedCartItem[] = [];
+        const changes: CatalogPriceChange[] = [];
+        let updated = false;
+        this.items.forEach((item, lineId) => {
+            const id = item.dessert.id;
+            const dessert = catalog.find((d) => d.id === id);
+            const reason = !dessert ? 'not-found' : !dessert.inStock ? 'out-of-stock' : Object.keys(validateOptions(dessert, item.options)).length > 0 ? 'options-unavailable' : null;
+            if (!dessert || reason) {
+                dropped.push({ dessertId: id, quantity: item.quantity, reason: reason ?? 'not-found' });
+                this.items.delete(lineId);
+                this.reserveDessert(id);
+                return;
+            }
+            const previous = item.dessert.price.add(optionsPrice(item.dessert, item.options));
+            const current = dessert.price.add(optionsPrice(dessert, item.options));
+            if (!previous.equals(current) && !changes.some((change) => change.dessertId === id)) {
+                changes.push({ dessertId: id, previous, current });
+            }
+            if (JSON.stringify(item.dessert) !== JSON.stringify(dessert)) updated = true;
+            item.dessert = dessert;
+        });
+        if (dropped.length === 0 && !updated) return;
+
+        const promoCodes = [...this.promoCodes];
+        this.emit({ type: 'items-replaced', items: this.getItems().map(copyCartItem), promoCodes, previousItems, previousPromoCodes: promoCodes });
+        if (dropped.length > 0) this.emit({ type: 'stale-items-dropped', items: dropped });
+        if (changes.length > 0) this.emit({ type: 'prices-changed', changes });
+        if (dropped.length > 0 || changes.length > 0) this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+    }
+
+    /**
+     * Apply a logged mutation as if it had just happened, re-emitting it.
+     * Used to rebuild a cart from its event log and to undo/redo.
+     */
+    applyEvent(event: CartMutation): void {
+        const items = applyCartMutation(this.getItems(), event);
+        const dessertUnits = (dessertId: DessertId) => getItemCount(items.filter((item) => item.dessert.id === dessertId));
+        switch (event.type) {
+            case 'item-added':
+                this.inventory?.reserve(this.id, event.item.dessert.id, dessertUnits(event.item.dessert.id));
+                break;
+            case 'item-removed':
+                this.inventory?.reserve(this.id, event.item.dessert.id, dessertUnits(event.item.dessert.id));
+                break;
+            case 'quantity-updated': {
+                const dessertId = this.items.get(event.lineId)?.dessert.id;
+                if (dessertId) this.inventory?.reserve(this.id, dessertId, dessertUnits(dessertId));
+                break;
+            }
+            case 'cart-cleared':
+                this.inventory?.releaseAll(this.id);
+                this.promoCodes = [];
+                break;
+            case 'items-replaced':
+                this.inventory?.releaseAll(this.id);
+                new Set(items.map((item) => item.dessert.id)).forEach((dessertId) => this.inventory?.reserve(this.id, dessertId, dessertUnits(dessertId)));
+                this.promoCodes = [...event.promoCodes];
+                break;
+            case 'promo-applied':
+                if (!this.promoCodes.includes(event.code)) this.promoCodes.push(event.code);
+                break;
+            case 'promo-removed':
+                this.promoCodes = this.promoCodes.filter((code) => code !== event.code);
+                break;
+            case 'group-changed':
+                this.group = copyGroupOrder(event.group);
+                break;
+        }
+        this.items = new Map(items.map((item) => [lineIdOf(item), item]));
+        this.emit(event);
+        this.emit({ type: 'cart-total-changed', total: this.getTotal() });
+    }
+
+    /**
+     * Rebuild a cart by replaying an event log from an empty cart
+     */
+    static fromEvents(events: CartMutation[], pricing?: PricingContext, discounts?: DiscountEngine, id?: string): ShoppingCart {
+        const cart = new ShoppingCart(pricing, discounts, undefined, id);
+        events.forEach((event) => cart.applyEvent(event));
+        return cart;
+    }
+
+    private setGroup(group: GroupOrder | null): void {
+        const previous = copyGroupOrder(this.group);
+        this.group = copyGroupOrder(group);
+        this.emit({ type: 'group-changed', group: copyGroupOrder(group), previous });
+    }
+
+    private assertParticipant(participantId: ParticipantId | undefined): void {
+        if (participantId === undefined) return;
+        if (!this.group?.participants.some((participant) => participant.id === participantId)) throw new UnknownParticipantError(participantId);
+    }
+
+    /**
+     * Hold as many units of a dessert as its lines add up to, releasing the hold when none are left
+     */
+    private reserveDessert(dessertId: DessertId): void {
+        this.inventory?.reserve(this.id, dessertId, this.getDessertQuantity(dessertId));
+    }
+
+    subscribe(listener: CartEventListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private emit(event: CartEvent): void {
+        this.listeners.forEach((listener) => listener(event));
+    }
+
+    /**
+     * Emit the mutations `run` makes between batch-started and batch-ended; nested batches join the outer one
+     */
+    private batch(run: () => void): void {
+        if (this.batchDepth++ === 0) this.emit({ type: 'batch-started' });
+        try {
+            run();
+        } finally {
+            if (--this.batchDepth === 0) this.emit({ type: 'batch-ended' });
+        }
+    }
+
+    getSummary(method?: FulfilmentMethod): CartSummary {
+        const items = this.getItems();
+        const discountResult = this.discounts.calculate(items, this.promoCodes);
+        const totals = this.pricing.totals(items, discountResult, method);
+        const summary: CartSummary = {
+            ...totals,
+            itemCount: this.getItemCount(),
+            discounts: discountResult.discounts,
+            rejectedPromos: discountResult.rejected,
+            items
+        };
+        if (this.group && this.group.participants.length > 0) summary.split = splitBill(items, totals, discountResult.netLines, this.group, this.pricing);
+        return summary;
+    }
+}
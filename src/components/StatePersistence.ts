@@ -0,0 +1,524 @@
+// Versioned storage of cart and order state
+import { Allergen, BillShare, BillSplit, CartSnapshotEntry, ContactDetails, CurrencyCode, DeliveryAddress, Dessert, DessertOption, DietaryCheck, DietaryProfile, DietaryTag, Fulfilment, GroupOrder, Logger, Order, OrderDetails, OrderLine, OrderStatusChange, OrderSyncStatus, PersistedState, PointsPayment, SelectedOptions, StorageAdapter } from '../types/index.js';
+import { CURRENCY_MINOR_UNITS, Money } from '../utils/money.js';
+import { imageSetFromPath } from '../utils/images.js';
+import { asArray, asNumber, asOneOf, asRecord, asString, isOneOf, isRecord } from '../utils/guards.js';
+import { i18nConfig, pricingConfig } from '../data/config.js';
+import { parseCategory, parseImageSet } from './CatalogService.js';
+import { ORDER_STATUSES } from './OrderManager.js';
+import { emptyDietaryProfile } from '../utils/dietary.js';
+import { silentLogger } from '../utils/logger.js';
+
+export class LocalStorageAdapter implements StorageAdapter {
+    constructor(private storage: Storage, private logger: Logger = silentLogger) {}
+
+    getItem(key: string): string | null {
+        try {
+            return this.storage.getItem(key);
+        } catch {
+            return null;
+        }
+    }
+
+    setItem(key: string, value: string): void {
+        try {
+            this.storage.setItem(key, value);
+        } catch (error) {
+            // Quota exceeded or storage disabled; keep running on in-memory state
+            this.logger.warn('Unable to persist state', error);
+        }
+    }
+
+    removeItem(key: string): void {
+        try {
+            this.storage.removeItem(key);
+        } catch {
+            // Ignore: nothing we can clean up
+        }
+    }
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+    private data: Map<string, string> = new Map();
+
+    getItem(key: string): string | null {
+        return this.data.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        this.data.set(key, value);
+    }
+
+    removeItem(key: string): void {
+        this.data.delete(key);
+    }
+}
+
+export function createDefaultStorageAdapter(logger: Logger = silentLogger): StorageAdapter {
+    try {
+        if (typeof window !== 'undefined' && window.localStorage) {
+            return new LocalStorageAdapter(window.localStorage, logger);
+        }
+    } catch {
+        // Accessing localStorage throws when it is blocked by the browser
+    }
+    return new MemoryStorageAdapter();
+}
+
+const CURRENCIES = Object.keys(CURRENCY_MINOR_UNITS) as CurrencyCode[];
+const SYNC_STATUSES: OrderSyncStatus[] = ['pending-sync', 'synced', 'rejected'];
+
+type SerializedState = Record<string, unknown>;
+type Migration = (state: SerializedState) => SerializedState;
+
+export const STORAGE_KEY = 'dessert-shop:state';
+export const SCHEMA_VERSION = 2;
+
+// Amounts in v1 were floats in US dollars
+function usdMinor(value: unknown): { minor: number; currency: CurrencyCode } {
+    return { minor: Math.round(Number(value) * 100), currency: 'USD' };
+}
+
+/**
+ * A v1 order line: the dessert as ordered, with its image as a single path and its category by English label
+ */
+function migrateV1OrderLine(value: unknown): unknown {
+    if (!isRecord(value) || !isRecord(value.dessert)) return value;
+    const dessert = value.dessert;
+    const price = Number(dessert.price);
+    return {
+        ...value,
+        dessert: {
+            ...dessert,
+            category: parseCategory(dessert.category) ?? dessert.category,
+            price: usdMinor(price),
+            image: imageSetFromPath(String(dessert.image))
+        },
+        options: {},
+        unitPrice: usdMinor(price),
+        lineTotal: usdMinor(price * Number(value.quantity))
+    };
+}
+
+/**
+ * A v1 order. Everything then was priced in USD at the flat 10% sales tax, with no discounts, options or
+ * delivery, and had a status but no history of it. Anything that isn't shaped like an order is passed
+ * through for revival to turn away.
+ */
+function migrateV1Order(value: unknown): unknown {
+    if (!isRecord(value) || !isRecord(value.details)) return value;
+    const details = value.details;
+    const history: Record<string, unknown>[] = [{ from: null, to: 'pending', at: details.createdAt }];
+    if (value.status !== 'pending') history.push({ from: 'pending', to: value.status, at: value.confirmedAt ?? details.createdAt });
+    return {
+        ...value,
+        refundedAmount: usdMinor(0),
+        history,
+        details: {
+            ...details,
+            currency: 'USD',
+            region: 'US',
+            taxLabel: 'Sales tax',
+            taxRate: 0.1,
+            taxInclusive: false,
+            subtotal: usdMinor(details.subtotal),
+            discounts: [],
+            discountTotal: usdMinor(0),
+            tax: usdMinor(details.tax),
+            deliveryFee: usdMinor(0),
+            total: usdMinor(details.total),
+            items: Array.isArray(details.items) ? details.items.map(migrateV1OrderLine) : details.items
+        }
+    };
+}
+
+// Keyed by the version a migration upgrades from; each returns the current shape.
+// v1 held just the cart ({ dessertId, quantity, addedAt } per line), the orders and the order counter.
+const migrations: Record<number, Migration> = {
+    1: (state) => ({
+        cart: Array.isArray(state.cart) ? state.cart.map((entry) => (isRecord(entry) ? { ...entry, options: {} } : entry)) : state.cart,
+        promoCodes: [],
+        promoUsage: {},
+        region: 'US',
+        locale: 'en',
+        dietaryProfile: emptyDietaryProfile(),
+        group: null,
+        stock: {},
+        orders: Array.isArray(state.orders) ? state.orders.map(migrateV1Order) : state.orders,
+        orderCounter: state.orderCounter
+    })
+};
+
+// Tags a later build dropped are skipped rather than failing the whole state
+function knownTags<T extends string>(value: unknown, known: readonly T[], field: string): T[] {
+    return asArray(value, field).filter((tag): tag is T => isOneOf(tag, known));
+}
+
+function reviveDate(value: unknown, field: string): Date {
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN);
+    if (Number.isNaN(date.getTime())) throw new Error(`Invalid date in "${field}"`);
+    return date;
+}
+
+export function reviveOptions(value: unknown, field: string): SelectedOptions {
+    const options = asRecord(value, field);
+    Object.entries(options).forEach(([groupId, ids]) => {
+        if (!asArray(ids, `${field}.${groupId}`).every((id) => typeof id === 'string')) throw new Error(`Expected "${field}.${groupId}" to list option ids`);
+    });
+    return options as SelectedOptions;
+}
+
+function reviveCartEntry(value: unknown): CartSnapshotEntry {
+    const entry = asRecord(value, 'cart[]');
+    if (typeof entry.dessertId !== 'string') throw new Error('Expected "cart[].dessertId" to be a string');
+    if (typeof entry.quantity !== 'number') throw new Error('Expected "cart[].quantity" to be a number');
+    return {
+        dessertId: entry.dessertId,
+        options: reviveOptions(entry.options, 'cart[].options'),
+        quantity: entry.quantity,
+        addedAt: reviveDate(entry.addedAt, 'cart[].addedAt'),
+        ...(typeof entry.participantId === 'string' ? { participantId: entry.participantId } : {})
+    };
+}
+
+export function reviveGroup(value: unknown): GroupOrder | null {
+    if (value === null) return null;
+    const group = asRecord(value, 'group');
+    const participants = asArray(group.participants, 'group.participants').map((raw) => {
+        const participant = asRecord(raw, 'group.participants[]');
+        if (typeof participant.id !== 'string' || typeof participant.name !== 'string') throw new Error('Expected "group.participants[]" to have an id and name');
+        return { id: participant.id, name: participant.name };
+    });
+    return { participants, split: group.split === 'equal' ? 'equal' : 'by-item' };
+}
+
+function reviveSplit(value: unknown): BillSplit {
+    const split = asRecord(value, 'orders[].details.split');
+    const shares = asArray(split.shares, 'orders[].details.split.shares').map((raw) => {
+        const share = asRecord(raw, 'orders[].details.split.shares[]');
+        const money = (field: keyof BillShare) => reviveMoney(share[field], `orders[].details.split.shares[].${field}`);
+        return {
+            participantId: String(share.participantId),
+            name: String(share.name),
+            subtotal: money('subtotal'),
+            discount: money('discount'),
+            tax: money('tax'),
+            deliveryFee: money('deliveryFee'),
+            total: money('total')
+        };
+    });
+    return { mode: split.mode === 'equal' ? 'equal' : 'by-item', shares };
+}
+
+function reviveDietaryProfile(value: unknown): DietaryProfile {
+    const profile = asRecord(value, 'dietaryProfile');
+    return {
+        avoid: knownTags(profile.avoid, Object.values(Allergen), 'dietaryProfile.avoid'),
+        diets: knownTags(profile.diets, Object.values(DietaryTag), 'dietaryProfile.diets'),
+        hideConflicts: profile.hideConflicts === true
+    };
+}
+
+function reviveMoney(value: unknown, field: string): Money {
+    const money = asRecord(value, field);
+    if (!isOneOf(money.currency, CURRENCIES)) throw new Error(`Unknown currency in "${field}"`);
+    if (typeof money.minor !== 'number') throw new Error(`Expected "${field}.minor" to be a number`);
+    return Money.fromMinor(money.minor, money.currency);
+}
+
+function reviveFulfilment(value: unknown): Fulfilment {
+    const fulfilment = asRecord(value, 'orders[].details.fulfilment');
+    if (fulfilment.method === 'delivery') {
+        const address = asRecord(fulfilment.address, 'orders[].details.fulfilment.address');
+        const line = (field: keyof DeliveryAddress) => asString(address[field], `orders[].details.fulfilment.address.${field}`);
+        return {
+            method: 'delivery',
+            address: {
+                line1: line('line1'),
+                city: line('city'),
+                postcode: line('postcode'),
+                ...(address.line2 === undefined ? {} : { line2: line('line2') }),
+                ...(address.instructions === undefined ? {} : { instructions: line('instructions') })
+            }
+        };
+    }
+    if (fulfilment.method !== 'pickup') throw new Error('Unknown method in "orders[].details.fulfilment"');
+    const slot = asRecord(fulfilment.slot, 'orders[].details.fulfilment.slot');
+    return {
+        method: 'pickup',
+        slot: {
+            start: reviveDate(slot.start, 'orders[].details.fulfilment.slot.start'),
+            end: reviveDate(slot.end, 'orders[].details.fulfilment.slot.end')
+        }
+    };
+}
+
+function revivePointsPayment(value: unknown): PointsPayment {
+    const payment = asRecord(value, 'orders[].details.pointsPayment');
+    if (typeof payment.points !== 'number') throw new Error('Expected "orders[].details.pointsPayment.points" to be a number');
+    return { points: payment.points, amount: reviveMoney(payment.amount, 'orders[].details.pointsPayment.amount') };
+}
+
+function reviveContact(value: unknown): ContactDetails {
+    const contact = asRecord(value, 'orders[].details.contact');
+    return {
+        name: asString(contact.name, 'orders[].details.contact.name'),
+        email: asString(contact.email, 'orders[].details.contact.email'),
+        phone: asString(contact.phone, 'orders[].details.contact.phone')
+    };
+}
+
+function reviveDietaryCheck(value: unknown): DietaryCheck {
+    const check = asRecord(value, 'orders[].details.dietaryCheck');
+    const allergens = (raw: unknown, field: string) => knownTags(raw, Object.values(Allergen), field);
+    const diets = (raw: unknown, field: string) => knownTags(raw, Object.values(DietaryTag), field);
+    const conflicts = asArray(check.conflicts, 'orders[].details.dietaryCheck.conflicts').map((raw) => {
+        const conflict = asRecord(raw, 'orders[].details.dietaryCheck.conflicts[]');
+        return {
+            dessertId: asString(conflict.dessertId, 'orders[].details.dietaryCheck.conflicts[].dessertId'),
+            name: asString(conflict.name, 'orders[].details.dietaryCheck.conflicts[].name'),
+            options: asString(conflict.options, 'orders[].details.dietaryCheck.conflicts[].options'),
+            quantity: asNumber(conflict.quantity, 'orders[].details.dietaryCheck.conflicts[].quantity'),
+            allergens: allergens(conflict.allergens, 'orders[].details.dietaryCheck.conflicts[].allergens'),
+            diets: diets(conflict.diets, 'orders[].details.dietaryCheck.conflicts[].diets'),
+            undeclared: conflict.undeclared === true
+        };
+    });
+    return {
+        avoid: allergens(check.avoid, 'orders[].details.dietaryCheck.avoid'),
+        diets: diets(check.diets, 'orders[].details.dietaryCheck.diets'),
+        conflicts
+    };
+}
+
+function reviveUsd(value: unknown, field: string): Money<'USD'> {
+    const money = reviveMoney(value, field);
+    if (money.currency !== 'USD') throw new Error(`Expected "${field}" to be in USD`);
+    return Money.fromMinor(money.minor, 'USD');
+}
+
+/**
+ * The dessert as it was when ordered, which may since have changed or left the catalog
+ */
+function reviveOrderedDessert(value: unknown): Dessert {
+    const dessert = asRecord(value, 'orders[].details.items[].dessert');
+    const category = parseCategory(dessert.category);
+    if (!category) throw new Error('Unknown category in "orders[].details.items[].dessert.category"');
+    const image = parseImageSet(dessert.image);
+    if (!image) throw new Error('Expected "orders[].details.items[].dessert.image" to be an image set');
+    const revived: Dessert = {
+        id: asString(dessert.id, 'orders[].details.items[].dessert.id'),
+        name: asString(dessert.name, 'orders[].details.items[].dessert.name'),
+        category,
+        price: reviveUsd(dessert.price, 'orders[].details.items[].dessert.price'),
+        image,
+        inStock: dessert.inStock !== false
+    };
+    if (typeof dessert.description === 'string') revived.description = dessert.description;
+    if (dessert.optionGroups !== undefined) {
+        revived.optionGroups = asArray(dessert.optionGroups, 'orders[].details.items[].dessert.optionGroups').map((rawGroup) => {
+            const group = asRecord(rawGroup, 'orders[].details.items[].dessert.optionGroups[]');
+            const options = asArray(group.options, 'orders[].details.items[].dessert.optionGroups[].options').map((rawOption) => {
+                const option = asRecord(rawOption, 'orders[].details.items[].dessert.optionGroups[].options[]');
+                const revivedOption: DessertOption = {
+                    id: asString(option.id, 'orders[].details.items[].dessert.optionGroups[].options[].id'),
+                    name: asString(option.name, 'orders[].details.items[].dessert.optionGroups[].options[].name'),
+                    priceDelta: reviveUsd(option.priceDelta, 'orders[].details.items[].dessert.optionGroups[].options[].priceDelta')
+                };
+                if (option.allergens !== undefined) revivedOption.allergens = knownTags(option.allergens, Object.values(Allergen), 'orders[].details.items[].dessert.optionGroups[].options[].allergens');
+                return revivedOption;
+            });
+            return {
+                id: asString(group.id, 'orders[].details.items[].dessert.optionGroups[].id'),
+                name: asString(group.name, 'orders[].details.items[].dessert.optionGroups[].name'),
+                required: group.required === true,
+                minSelections: asNumber(group.minSelections, 'orders[].details.items[].dessert.optionGroups[].minSelections'),
+                maxSelections: asNumber(group.maxSelections, 'orders[].details.items[].dessert.optionGroups[].maxSelections'),
+                options
+            };
+        });
+    }
+    if (isRecord(dessert.translations)) {
+        revived.translations = Object.fromEntries(Object.entries(dessert.translations).filter(([, text]) => isRecord(text)).map(([locale, text]) => {
+            const translation = asRecord(text, 'orders[].details.items[].dessert.translations');
+            return [locale, {
+                ...(typeof translation.name === 'string' ? { name: translation.name } : {}),
+                ...(typeof translation.description === 'string' ? { description: translation.description } : {})
+            }];
+        }));
+    }
+    if (dessert.allergens !== undefined) revived.allergens = knownTags(dessert.allergens, Object.values(Allergen), 'orders[].details.items[].dessert.allergens');
+    if (dessert.dietary !== undefined) revived.dietary = knownTags(dessert.dietary, Object.values(DietaryTag), 'orders[].details.items[].dessert.dietary');
+    return revived;
+}
+
+function reviveOrderLine(value: unknown): OrderLine {
+    const item = asRecord(value, 'orders[].details.items[]');
+    const line: OrderLine = {
+        dessert: reviveOrderedDessert(item.dessert),
+        options: reviveOptions(item.options, 'orders[].details.items[].options'),
+        quantity: asNumber(item.quantity, 'orders[].details.items[].quantity'),
+        addedAt: reviveDate(item.addedAt, 'orders[].details.items[].addedAt'),
+        unitPrice: reviveMoney(item.unitPrice, 'orders[].details.items[].unitPrice'),
+        lineTotal: reviveMoney(item.lineTotal, 'orders[].details.items[].lineTotal')
+    };
+    if (typeof item.participantId === 'string') line.participantId = item.participantId;
+    return line;
+}
+
+function reviveStatusChange(value: unknown): OrderStatusChange {
+    const change = asRecord(value, 'orders[].history[]');
+    const revived: OrderStatusChange = {
+        from: change.from === null ? null : asOneOf(change.from, ORDER_STATUSES, 'orders[].history[].from'),
+        to: asOneOf(change.to, ORDER_STATUSES, 'orders[].history[].to'),
+        at: reviveDate(change.at, 'orders[].history[].at')
+    };
+    if (typeof change.reason === 'string') revived.reason = change.reason;
+    if (change.amount !== undefined) revived.amount = reviveMoney(change.amount, 'orders[].history[].amount');
+    return revived;
+}
+
+export function reviveOrder(value: unknown): Order {
+    const order = asRecord(value, 'orders[]');
+    const details = asRecord(order.details, 'orders[].details');
+    const discounts = asArray(details.discounts, 'orders[].details.discounts').map((raw) => {
+        const discount = asRecord(raw, 'orders[].details.discounts[]');
+        return {
+            code: asString(discount.code, 'orders[].details.discounts[].code'),
+            description: asString(discount.description, 'orders[].details.discounts[].description'),
+            amount: reviveMoney(discount.amount, 'orders[].details.discounts[].amount')
+        };
+    });
+    const revivedDetails: OrderDetails = {
+        currency: asOneOf(details.currency, CURRENCIES, 'orders[].details.currency'),
+        region: asString(details.region, 'orders[].details.region'),
+        subtotal: reviveMoney(details.subtotal, 'orders[].details.subtotal'),
+        discountTotal: reviveMoney(details.discountTotal, 'orders[].details.discountTotal'),
+        taxLabel: asString(details.taxLabel, 'orders[].details.taxLabel'),
+        taxRate: asNumber(details.taxRate, 'orders[].details.taxRate'),
+        taxInclusive: details.taxInclusive === true,
+        tax: reviveMoney(details.tax, 'orders[].details.tax'),
+        deliveryFee: reviveMoney(details.deliveryFee, 'orders[].details.deliveryFee'),
+        total: reviveMoney(details.total, 'orders[].details.total'),
+        items: asArray(details.items, 'orders[].details.items').map(reviveOrderLine),
+        discounts,
+        createdAt: reviveDate(details.createdAt, 'orders[].details.createdAt')
+    };
+    if (details.contact !== undefined) revivedDetails.contact = reviveContact(details.contact);
+    if (details.fulfilment !== undefined) revivedDetails.fulfilment = reviveFulfilment(details.fulfilment);
+    if (details.dietaryCheck !== undefined) revivedDetails.dietaryCheck = reviveDietaryCheck(details.dietaryCheck);
+    if (typeof details.accountId === 'string') revivedDetails.accountId = details.accountId;
+    if (details.pointsPayment !== undefined) revivedDetails.pointsPayment = revivePointsPayment(details.pointsPayment);
+    if (details.split !== undefined) revivedDetails.split = reviveSplit(details.split);
+
+    const revived: Order = {
+        id: asString(order.id, 'orders[].id'),
+        details: revivedDetails,
+        status: asOneOf(order.status, ORDER_STATUSES, 'orders[].status'),
+        refundedAmount: reviveMoney(order.refundedAmount, 'orders[].refundedAmount'),
+        history: asArray(order.history, 'orders[].history').map(reviveStatusChange)
+    };
+    if (order.confirmedAt !== undefined) revived.confirmedAt = reviveDate(order.confirmedAt, 'orders[].confirmedAt');
+    if (typeof order.reservationHolder === 'string') revived.reservationHolder = order.reservationHolder;
+    if (order.syncStatus !== undefined) revived.syncStatus = asOneOf(order.syncStatus, SYNC_STATUSES, 'orders[].syncStatus');
+    return revived;
+}
+
+/**
+ * Versioned persistence for cart and order state.
+ * Dates are written as ISO strings by JSON.stringify and revived on load.
+ * Loading never changes what is stored: cart lines and orders that fail to revive are left out (and logged)
+ * one by one, and state that can't be read at all loads as nothing until the next save replaces it.
+ */
+export class StatePersistence {
+    constructor(private adapter: StorageAdapter, private logger: Logger = silentLogger, private key: string = STORAGE_KEY) {}
+
+    load(): PersistedState | null {
+        const raw = this.adapter.getItem(this.key);
+        if (raw === null) return null;
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(raw);
+        } catch (error) {
+            this.logger.warn('Ignoring unreadable saved state', error);
+            return null;
+        }
+
+        const version = isRecord(parsed) && typeof parsed.version === 'number' ? parsed.version : 0;
+        if (version > SCHEMA_VERSION) {
+            // Written by a newer build; leave it untouched rather than clobbering it
+            this.logger.warn(`Saved state has unsupported schema version ${version}`);
+            return null;
+        }
+
+        try {
+            return this.revive(this.migrate(asRecord(parsed, 'state'), version));
+        } catch (error) {
+            this.logger.warn('Ignoring invalid saved state', error);
+            return null;
+        }
+    }
+
+    save(state: PersistedState): void {
+        this.adapter.setItem(this.key, JSON.stringify({ version: SCHEMA_VERSION, ...state }));
+    }
+
+    clear(): void {
+        this.adapter.removeItem(this.key);
+    }
+
+    private migrate(state: SerializedState, fromVersion: number): SerializedState {
+        let current = state;
+        for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+            const migration = migrations[version];
+            if (!migration) throw new Error(`No migration from schema version ${version}`);
+            current = migration(current);
+        }
+        return current;
+    }
+
+    private revive(state: SerializedState): PersistedState {
+        return {
+            cart: this.reviveEach(state.cart, 'cart', reviveCartEntry),
+            promoCodes: this.reviveEach(state.promoCodes, 'promoCodes', (code) => asString(code, 'promoCodes[]')),
+            region: typeof state.region === 'string' ? state.region : pricingConfig.defaultRegion,
+            locale: typeof state.locale === 'string' ? state.locale : i18nConfig.defaultLocale,
+            dietaryProfile: this.reviveOr(state.dietaryProfile, 'dietaryProfile', reviveDietaryProfile, emptyDietaryProfile()),
+            group: this.reviveOr(state.group, 'group', reviveGroup, null),
+            stock: this.reviveCounts(state.stock, 'stock'),
+            promoUsage: this.reviveCounts(state.promoUsage, 'promoUsage'),
+            orders: this.reviveEach(state.orders, 'orders', reviveOrder),
+            orderCounter: typeof state.orderCounter === 'number' ? state.orderCounter : 0
+        };
+    }
+
+    /**
+     * Revive each record on its own, leaving out the ones that fail so one bad order doesn't cost the rest
+     */
+    private reviveEach<T>(value: unknown, field: string, revive: (record: unknown) => T): T[] {
+        return this.reviveOr(value, field, (records) => asArray(records, field), []).flatMap((record, index) => {
+            try {
+                return [revive(record)];
+            } catch (error) {
+                this.logger.warn(`Leaving out saved ${field}[${index}]`, error);
+                return [];
+            }
+        });
+    }
+
+    private reviveOr<T>(value: unknown, field: string, revive: (value: unknown) => T, fallback: T): T {
+        try {
+            return revive(value);
+        } catch (error) {
+            this.logger.warn(`Leaving out saved ${field}`, error);
+            return fallback;
+        }
+    }
+
+    // Counts keyed by dessert id or promo code; entries that aren't numbers are skipped
+    private reviveCounts(value: unknown, field: string): Record<string, number> {
+        const counts = this.reviveOr(value, field, (record) => asRecord(record, field), {});
+        return Object.fromEntries(Object.entries(counts).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+    }
+}
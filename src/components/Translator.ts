@@ -0,0 +1,67 @@
+// Shop language: message lookup and localized category and dessert text
+import { Allergen, Dessert, DessertCategory, DietaryTag, I18nConfig, LocaleCode, LocaleDefinition, MessageKey, MessageParams } from '../types/index.js';
+import { formatMessage, formatMessageParts } from '../utils/i18n.js';
+
+export class Translator {
+    private active: LocaleDefinition;
+
+    constructor(private config: I18nConfig, locale: LocaleCode = config.defaultLocale) {
+        this.active = this.findLocale(locale);
+    }
+
+    get locale(): LocaleCode {
+        return this.active.code;
+    }
+
+    getLocales(): LocaleDefinition[] {
+        return [...this.config.locales];
+    }
+
+    hasLocale(locale: string): locale is LocaleCode {
+        return this.config.locales.some((l) => l.code === locale);
+    }
+
+    setLocale(locale: LocaleCode): void {
+        this.active = this.findLocale(locale);
+    }
+
+    /**
+     * A message in the active language with its placeholders filled in
+     */
+    t(key: MessageKey, params: MessageParams = {}): string {
+        return formatMessage(this.active.messages[key], params, this.active.code);
+    }
+
+    /**
+     * Like t(), but parameters that aren't text (such as markup) are kept as separate pieces
+     */
+    parts<T>(key: MessageKey, params: Record<string, string | number | T>): (string | T)[] {
+        return formatMessageParts(this.active.messages[key], params, this.active.code);
+    }
+
+    category(category: DessertCategory): string {
+        return this.t(`category.${category}`);
+    }
+
+    allergen(allergen: Allergen): string {
+        return this.t(`allergen.${allergen}`);
+    }
+
+    diet(diet: DietaryTag): string {
+        return this.t(`diet.${diet}`);
+    }
+
+    dessertName(dessert: Dessert): string {
+        return dessert.translations?.[this.active.code]?.name ?? dessert.name;
+    }
+
+    dessertDescription(dessert: Dessert): string | undefined {
+        return dessert.translations?.[this.active.code]?.description ?? dessert.description;
+    }
+
+    private findLocale(locale: LocaleCode): LocaleDefinition {
+        const definition = this.config.locales.find((l) => l.code === locale);
+        if (!definition) throw new Error(`Unknown locale: ${locale}`);
+        return definition;
+    }
+}
@@ -0,0 +1,44 @@
+// Promo codes, regional pricing, pickup hours, loyalty points and UI languages
+import { DessertCategory, I18nConfig, LoyaltyConfig, PickupConfig, PricingConfig, PromoCode } from '../types/index.js';
+import { usd } from '../utils/money.js';
+import { en } from './locales/en.js';
+import { es } from './locales/es.js';
+import { fr } from './locales/fr.js';
+
+export const promoCodesData: PromoCode[] = [
+    { code: 'SWEET10', description: '10% off your order', rule: { kind: 'percentage', percent: 10 }, minSpend: usd(20), stackable: false },
+    { code: 'TREAT5', description: 'Money off orders over the minimum spend', rule: { kind: 'fixed', amount: usd(5) }, minSpend: usd(30), usageLimit: 100, expiresAt: new Date('2027-12-31T23:59:59Z'), stackable: true },
+    { code: 'MACARON3', description: 'Macaron Mix: buy 2, get 1 free', rule: { kind: 'buy-x-get-y', dessertId: 'macaron-mix', buy: 2, free: 1 }, stackable: true },
+    { code: 'CAKEDAY', description: '20% off cakes', rule: { kind: 'category-percentage', category: DessertCategory.Cake, percent: 20 }, stackable: true },
+    { code: 'SUMMER24', description: '15% off summer treats', rule: { kind: 'percentage', percent: 15 }, expiresAt: new Date('2024-09-01T00:00:00Z'), stackable: false }
+];
+
+export const pricingConfig: PricingConfig = {
+    baseCurrency: 'USD',
+    locales: { USD: 'en-US', EUR: 'de-DE', GBP: 'en-GB', JPY: 'ja-JP' },
+    roundingMode: 'half-even',
+    exchangeRates: { USD: 1, EUR: 0.92, GBP: 0.79, JPY: 150 },
+    regions: [
+        { id: 'US', name: 'United States', currency: 'USD', tax: { label: 'Sales tax', rate: 0.1, inclusive: false, exemptCategories: [], rounding: 'per-order' } },
+        { id: 'EU', name: 'Eurozone', currency: 'EUR', tax: { label: 'VAT', rate: 0.2, inclusive: true, exemptCategories: [], rounding: 'per-line' } },
+        // Cakes and pastries are zero-rated for VAT in the UK
+        { id: 'UK', name: 'United Kingdom', currency: 'GBP', tax: { label: 'VAT', rate: 0.2, inclusive: true, exemptCategories: [DessertCategory.Cake, DessertCategory.Baklava], rounding: 'per-line' } },
+        { id: 'JP', name: 'Japan', currency: 'JPY', tax: { label: 'Consumption tax', rate: 0.08, inclusive: true, exemptCategories: [], rounding: 'per-order' } }
+    ],
+    defaultRegion: 'US',
+    delivery: { fee: usd(4.99), freeFrom: usd(40) }
+};
+
+export const pickupConfig: PickupConfig = { opensAt: 10, closesAt: 18, slotMinutes: 30, leadMinutes: 30, daysAhead: 3 };
+
+// A point per dollar spent; 100 points take $5 off
+export const loyaltyConfig: LoyaltyConfig = { pointsPerUnit: 1, pointValue: usd(0.05), redeemStep: 100 };
+
+export const i18nConfig: I18nConfig = {
+    defaultLocale: 'en',
+    locales: [
+        { code: 'en', name: 'English', messages: en },
+        { code: 'fr', name: 'Français', messages: fr },
+        { code: 'es', name: 'Español', messages: es }
+    ]
+};
@@ -0,0 +1,114 @@
+// Bundled catalog and opening stock
+import { Allergen, DessertCategory, DessertId, DessertImageSet, DessertOptionGroupRecord, DessertRecord, DessertTranslation, DietaryTag } from '../types/index.js';
+import { imageSetFromPath } from '../utils/images.js';
+
+function dessertImages(name: string): DessertImageSet {
+    return imageSetFromPath(`images/image-${name}-desktop.jpg`);
+}
+
+const waffleOptions: DessertOptionGroupRecord[] = [
+    {
+        id: 'toppings',
+        name: 'Extra toppings',
+        maxSelections: 3,
+        options: [
+            { id: 'whipped-cream', name: 'Whipped cream', priceDelta: 0.75, allergens: [Allergen.Dairy] },
+            { id: 'chocolate-sauce', name: 'Chocolate sauce', priceDelta: 0.5, allergens: [Allergen.Dairy, Allergen.Soy] },
+            { id: 'banana', name: 'Banana slices', priceDelta: 1 }
+        ]
+    }
+];
+
+const macaronOptions: DessertOptionGroupRecord[] = [
+    {
+        id: 'box',
+        name: 'Flavor box',
+        required: true,
+        options: [
+            { id: 'classic', name: 'Classic (vanilla, chocolate, pistachio, raspberry, lemon)' },
+            { id: 'fruity', name: 'Fruity (raspberry, lemon, passion fruit, blackcurrant, mango)' },
+            { id: 'chocolate', name: 'Chocolate lovers', priceDelta: 1, allergens: [Allergen.Dairy, Allergen.Soy] }
+        ]
+    }
+];
+
+// Dessert names and descriptions in the other shop languages
+const translations: Record<DessertId, Record<string, DessertTranslation>> = {
+    'waffle-berries': {
+        fr: { name: 'Gaufre aux fruits rouges', description: 'Gaufre fraîche garnie de fruits rouges et de sirop' },
+        es: { name: 'Gofre con frutos rojos', description: 'Gofre recién hecho con frutos rojos y sirope' }
+    },
+    'creme-brulee': {
+        fr: { name: 'Crème brûlée à la vanille', description: 'Grand classique français à la croûte de sucre caramélisé' },
+        es: { name: 'Crema catalana de vainilla', description: 'Clásico postre francés con costra de azúcar caramelizado' }
+    },
+    'macaron-mix': {
+        fr: { name: 'Assortiment de cinq macarons', description: 'Cinq macarons français aux couleurs variées' },
+        es: { name: 'Surtido de cinco macarons', description: 'Cinco coloridos macarons franceses' }
+    },
+    tiramisu: {
+        fr: { name: 'Tiramisu classique', description: 'Dessert italien traditionnel au café' },
+        es: { name: 'Tiramisú clásico', description: 'Postre italiano tradicional con sabor a café' }
+    },
+    baklava: {
+        fr: { name: 'Baklava à la pistache', description: 'Pâtisserie sucrée aux pistaches' },
+        es: { name: 'Baklava de pistacho', description: 'Hojaldre dulce con pistachos' }
+    },
+    'pie-lemon': {
+        fr: { name: 'Tarte au citron meringuée', description: 'Crème de citron acidulée sous une meringue légère' },
+        es: { name: 'Tarta de limón y merengue', description: 'Relleno de limón ácido cubierto de merengue esponjoso' }
+    },
+    'cake-red-velvet': {
+        fr: { name: 'Gâteau red velvet', description: 'Gâteau red velvet fondant au glaçage au cream cheese' },
+        es: { name: 'Pastel red velvet', description: 'Jugoso pastel red velvet con cobertura de queso crema' }
+    },
+    'brownie-salted-caramel': {
+        fr: { name: 'Brownie au caramel salé', description: 'Brownie fondant nappé de caramel salé' },
+        es: { name: 'Brownie de caramelo salado', description: 'Brownie denso con un hilo de caramelo salado' }
+    },
+    'panna-cotta': {
+        fr: { name: 'Panna cotta à la vanille', description: 'Dessert italien onctueux à la gousse de vanille' },
+        es: { name: 'Panna cotta de vainilla', description: 'Cremoso postre italiano con vaina de vainilla' }
+    }
+};
+
+// What each dessert contains before any options, and the diets it suits
+const dietaryInfo: Record<DessertId, Pick<DessertRecord, 'allergens' | 'dietary'>> = {
+    'waffle-berries': { allergens: [Allergen.Gluten, Allergen.Dairy, Allergen.Egg], dietary: [DietaryTag.Vegetarian] },
+    'creme-brulee': { allergens: [Allergen.Dairy, Allergen.Egg], dietary: [DietaryTag.Vegetarian, DietaryTag.GlutenFree] },
+    // Almond shells; the classic box also has a pistachio filling
+    'macaron-mix': { allergens: [Allergen.Nuts, Allergen.Egg], dietary: [DietaryTag.Vegetarian, DietaryTag.GlutenFree] },
+    tiramisu: { allergens: [Allergen.Gluten, Allergen.Dairy, Allergen.Egg, Allergen.Caffeine], dietary: [DietaryTag.Vegetarian] },
+    baklava: { allergens: [Allergen.Gluten, Allergen.Nuts, Allergen.Dairy], dietary: [DietaryTag.Vegetarian] },
+    'pie-lemon': { allergens: [Allergen.Gluten, Allergen.Dairy, Allergen.Egg], dietary: [DietaryTag.Vegetarian] },
+    'cake-red-velvet': { allergens: [Allergen.Gluten, Allergen.Dairy, Allergen.Egg], dietary: [DietaryTag.Vegetarian] },
+    'brownie-salted-caramel': { allergens: [Allergen.Gluten, Allergen.Dairy, Allergen.Egg, Allergen.Soy], dietary: [DietaryTag.Vegetarian] },
+    // Set with gelatin, so not vegetarian
+    'panna-cotta': { allergens: [Allergen.Dairy], dietary: [DietaryTag.GlutenFree] }
+};
+
+// Bundled copy of data/catalog.json, used when the catalog can't be fetched
+export const dessertsData: DessertRecord[] = [
+    { id: 'waffle-berries', name: 'Waffle with Berries', category: DessertCategory.Waffle, price: 6.5, image: dessertImages('waffle'), description: 'Fresh waffle topped with mixed berries and syrup', inStock: true, optionGroups: waffleOptions, translations: translations['waffle-berries'], ...dietaryInfo['waffle-berries'] },
+    { id: 'creme-brulee', name: 'Vanilla Bean Crème Brûlée', category: DessertCategory.CremeBrulee, price: 7.0, image: dessertImages('creme-brulee'), description: 'Classic French dessert with caramelized sugar top', inStock: true, translations: translations['creme-brulee'], ...dietaryInfo['creme-brulee'] },
+    { id: 'macaron-mix', name: 'Macaron Mix of Five', category: DessertCategory.Macaron, price: 8.0, image: dessertImages('macaron'), description: 'Assortment of five colorful French macarons', inStock: true, optionGroups: macaronOptions, translations: translations['macaron-mix'], ...dietaryInfo['macaron-mix'] },
+    { id: 'tiramisu', name: 'Classic Tiramisu', category: DessertCategory.Tiramisu, price: 5.5, image: dessertImages('tiramisu'), description: 'Traditional Italian coffee-flavored dessert', inStock: true, translations: translations['tiramisu'], ...dietaryInfo['tiramisu'] },
+    { id: 'baklava', name: 'Pistachio Baklava', category: DessertCategory.Baklava, price: 4.0, image: dessertImages('baklava'), description: 'Sweet pastry with pistachios', inStock: true, translations: translations['baklava'], ...dietaryInfo['baklava'] },
+    { id: 'pie-lemon', name: 'Lemon Meringue Pie', category: DessertCategory.Pie, price: 5.0, image: dessertImages('meringue'), description: 'Tangy lemon filling topped with fluffy meringue', inStock: true, translations: translations['pie-lemon'], ...dietaryInfo['pie-lemon'] },
+    { id: 'cake-red-velvet', name: 'Red Velvet Cake', category: DessertCategory.Cake, price: 4.5, image: dessertImages('cake'), description: 'Rich red velvet cake with cream cheese frosting', inStock: true, translations: translations['cake-red-velvet'], ...dietaryInfo['cake-red-velvet'] },
+    { id: 'brownie-salted-caramel', name: 'Salted Caramel Brownie', category: DessertCategory.Brownie, price: 5.5, image: dessertImages('brownie'), description: 'Fudgy brownie with salted caramel drizzle', inStock: true, translations: translations['brownie-salted-caramel'], ...dietaryInfo['brownie-salted-caramel'] },
+    { id: 'panna-cotta', name: 'Vanilla Panna Cotta', category: DessertCategory.PannaCotta, price: 6.5, image: dessertImages('panna-cotta'), description: 'Creamy Italian dessert with vanilla bean', inStock: true, translations: translations['panna-cotta'], ...dietaryInfo['panna-cotta'] }
+];
+
+// Units on hand at opening; desserts missing here are not stock-tracked
+export const inventoryData: Record<DessertId, number> = {
+    'waffle-berries': 20,
+    'creme-brulee': 12,
+    'macaron-mix': 8,
+    tiramisu: 15,
+    baklava: 3,
+    'pie-lemon': 10,
+    'cake-red-velvet': 6,
+    'brownie-salted-caramel': 25,
+    'panna-cotta': 4
+};
@@ -0,0 +1,235 @@
+// English UI messages: the reference catalog whose keys every other locale has to translate
+
+export const en = {
+    'app.title': 'Desserts - Shopping Cart',
+    'app.skipToCart': 'Skip to cart',
+    'app.language': 'Language',
+    'app.region': 'Region',
+    'app.offline': "You're offline. Orders are saved on this device and sent to the shop when the connection returns.",
+
+    'category.waffle': 'Waffle',
+    'category.creme-brulee': 'Crème Brûlée',
+    'category.macaron': 'Macaron',
+    'category.tiramisu': 'Tiramisu',
+    'category.baklava': 'Baklava',
+    'category.pie': 'Pie',
+    'category.cake': 'Cake',
+    'category.brownie': 'Brownie',
+    'category.panna-cotta': 'Panna Cotta',
+
+    'catalog.title': 'Desserts',
+    'catalog.search': 'Search desserts',
+    'catalog.categories': 'Categories',
+    'catalog.minPrice': 'Min',
+    'catalog.maxPrice': 'Max',
+    'catalog.inStockOnly': 'In stock only',
+    'catalog.sort': 'Sort desserts',
+    'catalog.sort.featured': 'Featured',
+    'catalog.sort.popularity': 'Most popular',
+    'catalog.sort.price-asc': 'Price: low to high',
+    'catalog.sort.price-desc': 'Price: high to low',
+    'catalog.sort.name-asc': 'Name: A to Z',
+    'catalog.sort.name-desc': 'Name: Z to A',
+    'catalog.clearFilters': 'Clear',
+    'catalog.loading': 'Loading desserts…',
+    'catalog.loadFailed': "We couldn't load the desserts. Check your connection and try again.",
+    'catalog.retry': 'Try again',
+    'catalog.unavailable': 'No desserts are available right now.',
+    'catalog.noMatches': 'No desserts match your search.',
+
+    'card.addToCart': 'Add to Cart',
+    'card.addLabel': 'Add {name} to cart',
+    'card.quantityLabel': '{name} quantity',
+    'card.decrementLabel': 'Remove one {name}',
+    'card.incrementLabel': 'Add one more {name}',
+    'card.soldOut': 'Sold out',
+    'card.lowStock': 'Only {count} left',
+
+    'allergen.gluten': 'Gluten',
+    'allergen.dairy': 'Dairy',
+    'allergen.egg': 'Egg',
+    'allergen.nuts': 'Tree nuts',
+    'allergen.peanuts': 'Peanuts',
+    'allergen.soy': 'Soy',
+    'allergen.sesame': 'Sesame',
+    'allergen.caffeine': 'Caffeine',
+    'diet.vegetarian': 'Vegetarian',
+    'diet.vegan': 'Vegan',
+    'diet.gluten-free': 'Gluten-free',
+
+    'dietary.title': '{count, plural, =0 {Allergies & diet} other {Allergies & diet (#)}}',
+    'dietary.avoid': 'I avoid',
+    'dietary.diets': 'I only eat',
+    'dietary.hide': "Hide desserts that don't suit me",
+    'dietary.disclaimer': 'Allergen information comes from our kitchen, where every dessert is made side by side. If you have a severe allergy, please ask a member of staff.',
+    'dietary.contains': 'Contains: {allergens}',
+    'dietary.notDiet': 'Not marked as: {diets}',
+    'dietary.undeclared': 'Allergens not listed',
+    'dietary.warningTitle': 'Please check these items',
+    'dietary.warningIntro': "They don't suit the allergies and diet you told us about:",
+    'dietary.warningLine': '{quantity} × {name}: {reason}',
+    'dietary.acknowledge': 'I understand and want to order them anyway',
+    'dietary.acknowledgeRequired': 'Tick the box to order these items, or go back and change your cart',
+
+    'account.signedOut': 'Sign in to earn points',
+    'account.summary': '{name} · {count, plural, one {# point} other {# points}}',
+    'account.intro': 'Sign in with your email to keep your past orders and earn a point for every dollar you spend. Your account stays on this device.',
+    'account.name': 'Name (new accounts only)',
+    'account.signIn': 'Sign in',
+    'account.signOut': 'Sign out',
+    'account.balance': '{count, plural, =0 {You have no points yet} one {You have # point, worth {amount}} other {You have # points, worth {amount}}}',
+    'account.pastOrders': 'Past orders',
+    'account.noOrders': "You haven't ordered while signed in yet",
+    'account.orderSummary': '{date} · {count, plural, one {# item} other {# items}} · {total}',
+    'account.reorder': 'Reorder',
+    'account.usePoints': 'Pay {amount} with {points} points',
+    'account.pointsPaid': '{count, plural, one {Paid with # point} other {Paid with # points}}',
+    'account.amountDue': 'Amount due',
+    'account.earned': '{count, plural, =0 {This order earned no points} one {You earned # point with this order} other {You earned # points with this order}}',
+
+    'group.title': 'Ordering for a group?',
+    'group.summary': '{count, plural, =0 {Group order: add who is ordering} one {Group order for # person} other {Group order for # people}}',
+    'group.intro': 'Start a group order to add items for each person and see what everyone owes.',
+    'group.start': 'Start a group order',
+    'group.end': 'End group order',
+    'group.name': 'Name',
+    'group.add': 'Add',
+    'group.nameRequired': 'Enter a name',
+    'group.addingFor': 'Adding items for',
+    'group.shared': 'Shared',
+    'group.remove': 'Remove {name}',
+    'group.split': 'Split the bill',
+    'group.split.byItem': 'By item',
+    'group.split.equal': 'Equally',
+    'group.lineLabel': 'Who is {name} for?',
+    'group.shares.equal': 'Split equally',
+    'group.shares.byItem': 'Split by item',
+    'group.share.items': 'items {amount}',
+    'group.share.discount': 'discount -{amount}',
+    'group.share.tax': 'tax {amount}',
+    'group.share.delivery': 'delivery {amount}',
+
+    'options.title': 'Choose options',
+    'options.price': 'Price',
+    'options.cancel': 'Cancel',
+    'options.required': 'Required',
+    'options.optional': 'Optional',
+    'options.limit.exactly': 'choose {count}',
+    'options.limit.range': 'choose {min} to {max}',
+    'options.limit.upTo': 'choose up to {max}',
+    'options.error.unknownGroup': '{dessert} has no "{group}" options',
+    'options.error.unknownOption': '{group} has no option "{option}"',
+    'options.error.duplicate': '{group} lists an option twice',
+    'options.error.chooseOne': 'Choose one: {group}',
+    'options.error.limits': '{group}: {limits}',
+
+    'cart.title': 'Your Cart ({count})',
+    'cart.titleLabel': 'Your Cart, {count, plural, =0 {no items} one {# item} other {# items}}',
+    'cart.empty': 'Your added items will appear here',
+    'cart.removeLabel': 'Remove {name} from cart',
+    'cart.promoCode': 'Promo code',
+    'cart.applyPromo': 'Apply',
+    'cart.removePromo': 'Remove',
+    'cart.orderTotal': 'Order Total',
+    'cart.carbonNeutral': 'This is a {emphasis} delivery',
+    'cart.carbonNeutralEmphasis': 'carbon-neutral',
+    'cart.confirmOrder': 'Confirm Order',
+    'cart.undo': 'Undo',
+    'cart.itemRemoved': '{name} removed',
+
+    'totals.subtotal': 'Subtotal',
+    'totals.delivery': 'Delivery',
+    'totals.free': 'Free',
+    'totals.taxIncluded': 'Includes {label} ({rate})',
+    'totals.taxAdded': '{label} ({rate})',
+
+    'promo.rejected.unknown-code': '"{code}" is not a valid code',
+    'promo.rejected.not-yet-active': 'This code is not active yet',
+    'promo.rejected.expired': 'This code has expired',
+    'promo.rejected.usage-limit-reached': 'This code has reached its usage limit',
+    'promo.rejected.min-spend-not-met': 'Spend at least {amount} to use this code',
+    'promo.rejected.not-applicable': 'No items in your cart qualify for this code',
+    'promo.rejected.already-applied': 'This code is already applied',
+    'promo.rejected.not-stackable': 'This code cannot be combined with other codes',
+
+    'notice.remoteOrder': 'Your order was placed in another tab',
+    'notice.reservationExpired': 'Your cart has been idle for a while, so its items are no longer held for you',
+    'notice.stockLeft': 'Only {count} {name} left',
+    'notice.soldOut': '{name} is sold out',
+    'notice.shortages': 'Please update your cart before ordering: {items}',
+    'notice.shortageLeft': '{name} (only {count} left)',
+    'notice.shortageSoldOut': '{name} (sold out)',
+    'notice.dropped': 'Removed from your saved cart: {items}',
+    'notice.dropped.not-found': '{name} (no longer available)',
+    'notice.dropped.out-of-stock': '{name} (sold out)',
+    'notice.dropped.insufficient-stock': '{quantity} × {name} (not enough left)',
+    'notice.dropped.options-unavailable': '{name} (options no longer offered)',
+    'notice.pricesChanged': 'Prices have changed: {items}',
+    'notice.priceChange': '{name} ({previous} → {current})',
+    'notice.orderSynced': 'Order {id} has now reached the shop',
+    'notice.orderRejected': 'The shop could not accept order {id}. Please ask a member of staff for help.',
+    'notice.reordered': 'Your past order is back in your cart',
+    'notice.reorderChanges': 'Your past order is back in your cart, with changes: {items}',
+    'notice.reorder.substituted': '{name} swapped for {quantity} × {substitute}',
+    'notice.reorder.reduced': '{name} ({quantity} of {requested}, not enough left)',
+
+    'announce.added': '{name} added to cart',
+    'announce.removed': '{name} removed from cart',
+    'announce.quantity': '{name} quantity {quantity}',
+    'announce.cleared': 'Cart emptied',
+    'announce.promoApplied': 'Promo code {code} applied',
+    'announce.promoRemoved': 'Promo code {code} removed',
+    'announce.summary': '{message}. {count, plural, one {# item} other {# items}} in cart, total {total}',
+
+    'checkout.title': 'Checkout',
+    'checkout.steps': 'Checkout steps',
+    'checkout.step.contact': 'Contact',
+    'checkout.step.fulfilment': 'Pickup or delivery',
+    'checkout.step.review': 'Review',
+    'checkout.contactDetails': 'Contact details',
+    'checkout.name': 'Name',
+    'checkout.email': 'Email',
+    'checkout.phone': 'Phone',
+    'checkout.fulfilmentQuestion': 'How would you like your order?',
+    'checkout.pickup': 'Pickup',
+    'checkout.delivery': 'Delivery',
+    'checkout.pickupTime': 'Pickup time',
+    'checkout.chooseTime': 'Choose a time',
+    'checkout.line1': 'Street address',
+    'checkout.line2': 'Apartment, suite, etc. (optional)',
+    'checkout.city': 'Town or city',
+    'checkout.postcode': 'Postcode',
+    'checkout.instructions': 'Delivery instructions (optional)',
+    'checkout.reviewOrder': 'Review your order',
+    'checkout.backToCart': 'Back to cart',
+    'checkout.back': 'Back',
+    'checkout.continue': 'Continue',
+    'checkout.placeOrder': 'Place Order',
+    'checkout.deliveryTo': 'Delivery to',
+    'checkout.note': 'Note: {note}',
+    'checkout.error.name': 'Enter your name',
+    'checkout.error.emailRequired': 'Enter your email address',
+    'checkout.error.emailInvalid': 'Enter an email address like name@example.com',
+    'checkout.error.phoneRequired': 'Enter a phone number',
+    'checkout.error.phoneInvalid': 'Enter a phone number of 7 to 15 digits',
+    'checkout.error.pickupSlotRequired': 'Choose a pickup time',
+    'checkout.error.pickupSlotUnavailable': 'That pickup time is no longer available, please choose another',
+    'checkout.error.line1': 'Enter the street address',
+    'checkout.error.city': 'Enter the town or city',
+    'checkout.error.postcodeRequired': 'Enter the postcode',
+    'checkout.error.postcodeInvalid': 'Enter a valid postcode',
+
+    'order.confirmed': 'Order Confirmed',
+    'order.enjoy': 'We hope you enjoy your food!',
+    'order.number': 'Order {id}',
+    'order.pendingSync': "Saved on this device. We'll send it to the shop as soon as there's a connection.",
+    'order.syncRejected': 'The shop could not accept this order. Please ask a member of staff for help.',
+    'order.printReceipt': 'Print receipt',
+    'order.downloadFormat': 'Download format',
+    'order.format.html': 'Receipt (HTML)',
+    'order.format.json': 'Order data (JSON)',
+    'order.format.csv': 'Order lines (CSV)',
+    'order.download': 'Download',
+    'order.receipt': 'Receipt',
+    'order.startNew': 'Start New Order'
+};
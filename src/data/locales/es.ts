@@ -0,0 +1,236 @@
+// Spanish UI messages
+import { MessageCatalog } from '../../types/index.js';
+
+export const es: MessageCatalog = {
+    'app.title': 'Postres - Carrito',
+    'app.skipToCart': 'Ir al carrito',
+    'app.language': 'Idioma',
+    'app.region': 'Región',
+    'app.offline': 'Estás sin conexión. Los pedidos se guardan en este dispositivo y se envían a la tienda cuando vuelve la conexión.',
+
+    'category.waffle': 'Gofre',
+    'category.creme-brulee': 'Crema catalana',
+    'category.macaron': 'Macaron',
+    'category.tiramisu': 'Tiramisú',
+    'category.baklava': 'Baklava',
+    'category.pie': 'Tarta',
+    'category.cake': 'Pastel',
+    'category.brownie': 'Brownie',
+    'category.panna-cotta': 'Panna cotta',
+
+    'catalog.title': 'Postres',
+    'catalog.search': 'Buscar postres',
+    'catalog.categories': 'Categorías',
+    'catalog.minPrice': 'Mín.',
+    'catalog.maxPrice': 'Máx.',
+    'catalog.inStockOnly': 'Solo disponibles',
+    'catalog.sort': 'Ordenar postres',
+    'catalog.sort.featured': 'Destacados',
+    'catalog.sort.popularity': 'Más populares',
+    'catalog.sort.price-asc': 'Precio: de menor a mayor',
+    'catalog.sort.price-desc': 'Precio: de mayor a menor',
+    'catalog.sort.name-asc': 'Nombre: de la A a la Z',
+    'catalog.sort.name-desc': 'Nombre: de la Z a la A',
+    'catalog.clearFilters': 'Borrar',
+    'catalog.loading': 'Cargando postres…',
+    'catalog.loadFailed': 'No hemos podido cargar los postres. Comprueba tu conexión e inténtalo de nuevo.',
+    'catalog.retry': 'Reintentar',
+    'catalog.unavailable': 'Ahora mismo no hay postres disponibles.',
+    'catalog.noMatches': 'Ningún postre coincide con tu búsqueda.',
+
+    'card.addToCart': 'Añadir al carrito',
+    'card.addLabel': 'Añadir {name} al carrito',
+    'card.quantityLabel': 'Cantidad de {name}',
+    'card.decrementLabel': 'Quitar un {name}',
+    'card.incrementLabel': 'Añadir otro {name}',
+    'card.soldOut': 'Agotado',
+    'card.lowStock': '{count, plural, one {Solo queda #} other {Solo quedan #}}',
+
+    'allergen.gluten': 'Gluten',
+    'allergen.dairy': 'Lácteos',
+    'allergen.egg': 'Huevo',
+    'allergen.nuts': 'Frutos de cáscara',
+    'allergen.peanuts': 'Cacahuetes',
+    'allergen.soy': 'Soja',
+    'allergen.sesame': 'Sésamo',
+    'allergen.caffeine': 'Cafeína',
+    'diet.vegetarian': 'Vegetariano',
+    'diet.vegan': 'Vegano',
+    'diet.gluten-free': 'Sin gluten',
+
+    'dietary.title': '{count, plural, =0 {Alergias y dieta} other {Alergias y dieta (#)}}',
+    'dietary.avoid': 'Evito',
+    'dietary.diets': 'Solo como',
+    'dietary.hide': 'Ocultar los postres que no me convienen',
+    'dietary.disclaimer': 'La información sobre alérgenos procede de nuestra cocina, donde todos los postres se preparan juntos. Si tienes una alergia grave, consulta a nuestro personal.',
+    'dietary.contains': 'Contiene: {allergens}',
+    'dietary.notDiet': 'No indicado como: {diets}',
+    'dietary.undeclared': 'Alérgenos no indicados',
+    'dietary.warningTitle': 'Revisa estos artículos',
+    'dietary.warningIntro': 'No se ajustan a las alergias y la dieta que nos indicaste:',
+    'dietary.warningLine': '{quantity} × {name}: {reason}',
+    'dietary.acknowledge': 'Lo entiendo y quiero pedirlos de todos modos',
+    'dietary.acknowledgeRequired': 'Marca la casilla para pedir estos artículos o vuelve a cambiar tu carrito',
+
+    'account.signedOut': 'Inicia sesión para ganar puntos',
+    'account.summary': '{name} · {count, plural, one {# punto} other {# puntos}}',
+    'account.intro': 'Inicia sesión con tu correo para guardar tus pedidos y ganar un punto por cada dólar que gastes. Tu cuenta se queda en este dispositivo.',
+    'account.name': 'Nombre (solo cuentas nuevas)',
+    'account.signIn': 'Iniciar sesión',
+    'account.signOut': 'Cerrar sesión',
+    'account.balance': '{count, plural, =0 {Aún no tienes puntos} one {Tienes # punto, que vale {amount}} other {Tienes # puntos, que valen {amount}}}',
+    'account.pastOrders': 'Pedidos anteriores',
+    'account.noOrders': 'Aún no has hecho pedidos con la sesión iniciada',
+    'account.orderSummary': '{date} · {count, plural, one {# artículo} other {# artículos}} · {total}',
+    'account.reorder': 'Volver a pedir',
+    'account.usePoints': 'Pagar {amount} con {points} puntos',
+    'account.pointsPaid': '{count, plural, one {Pagado con # punto} other {Pagado con # puntos}}',
+    'account.amountDue': 'Importe a pagar',
+    'account.earned': '{count, plural, =0 {Este pedido no suma puntos} one {Has ganado # punto con este pedido} other {Has ganado # puntos con este pedido}}',
+
+    'group.title': '¿Pides en grupo?',
+    'group.summary': '{count, plural, =0 {Pedido en grupo: añade quién pide} one {Pedido en grupo para # persona} other {Pedido en grupo para # personas}}',
+    'group.intro': 'Empieza un pedido en grupo para añadir artículos para cada persona y ver lo que debe cada uno.',
+    'group.start': 'Empezar un pedido en grupo',
+    'group.end': 'Terminar el pedido en grupo',
+    'group.name': 'Nombre',
+    'group.add': 'Añadir',
+    'group.nameRequired': 'Escribe un nombre',
+    'group.addingFor': 'Añadiendo artículos para',
+    'group.shared': 'Compartido',
+    'group.remove': 'Quitar a {name}',
+    'group.split': 'Dividir la cuenta',
+    'group.split.byItem': 'Por artículo',
+    'group.split.equal': 'A partes iguales',
+    'group.lineLabel': '¿Para quién es {name}?',
+    'group.shares.equal': 'División a partes iguales',
+    'group.shares.byItem': 'División por artículo',
+    'group.share.items': 'artículos {amount}',
+    'group.share.discount': 'descuento -{amount}',
+    'group.share.tax': 'impuesto {amount}',
+    'group.share.delivery': 'envío {amount}',
+
+    'options.title': 'Elegir opciones',
+    'options.price': 'Precio',
+    'options.cancel': 'Cancelar',
+    'options.required': 'Obligatorio',
+    'options.optional': 'Opcional',
+    'options.limit.exactly': 'elige {count}',
+    'options.limit.range': 'elige de {min} a {max}',
+    'options.limit.upTo': 'elige hasta {max}',
+    'options.error.unknownGroup': '{dessert} no tiene opciones de «{group}»',
+    'options.error.unknownOption': '{group} no tiene la opción «{option}»',
+    'options.error.duplicate': '{group} incluye una opción dos veces',
+    'options.error.chooseOne': 'Elige una opción: {group}',
+    'options.error.limits': '{group}: {limits}',
+
+    'cart.title': 'Tu carrito ({count})',
+    'cart.titleLabel': 'Tu carrito, {count, plural, =0 {sin artículos} one {# artículo} other {# artículos}}',
+    'cart.empty': 'Los artículos que añadas aparecerán aquí',
+    'cart.removeLabel': 'Quitar {name} del carrito',
+    'cart.promoCode': 'Código promocional',
+    'cart.applyPromo': 'Aplicar',
+    'cart.removePromo': 'Quitar',
+    'cart.orderTotal': 'Total del pedido',
+    'cart.carbonNeutral': 'Esta entrega es {emphasis}',
+    'cart.carbonNeutralEmphasis': 'neutra en carbono',
+    'cart.confirmOrder': 'Confirmar pedido',
+    'cart.undo': 'Deshacer',
+    'cart.itemRemoved': '{name} quitado',
+
+    'totals.subtotal': 'Subtotal',
+    'totals.delivery': 'Envío',
+    'totals.free': 'Gratis',
+    'totals.taxIncluded': '{label} incluido ({rate})',
+    'totals.taxAdded': '{label} ({rate})',
+
+    'promo.rejected.unknown-code': '«{code}» no es un código válido',
+    'promo.rejected.not-yet-active': 'Este código aún no está activo',
+    'promo.rejected.expired': 'Este código ha caducado',
+    'promo.rejected.usage-limit-reached': 'Este código ha alcanzado su límite de uso',
+    'promo.rejected.min-spend-not-met': 'Gasta al menos {amount} para usar este código',
+    'promo.rejected.not-applicable': 'Ningún artículo del carrito cumple las condiciones de este código',
+    'promo.rejected.already-applied': 'Este código ya está aplicado',
+    'promo.rejected.not-stackable': 'Este código no se puede combinar con otros',
+
+    'notice.remoteOrder': 'Tu pedido se ha realizado en otra pestaña',
+    'notice.reservationExpired': 'Tu carrito ha estado inactivo un tiempo, así que ya no te reservamos sus artículos',
+    'notice.stockLeft': 'Solo quedan {count} {name}',
+    'notice.soldOut': '{name} está agotado',
+    'notice.shortages': 'Actualiza tu carrito antes de hacer el pedido: {items}',
+    'notice.shortageLeft': '{name} (solo quedan {count})',
+    'notice.shortageSoldOut': '{name} (agotado)',
+    'notice.dropped': 'Quitado de tu carrito guardado: {items}',
+    'notice.dropped.not-found': '{name} (ya no está disponible)',
+    'notice.dropped.out-of-stock': '{name} (agotado)',
+    'notice.dropped.insufficient-stock': '{quantity} × {name} (no quedan suficientes)',
+    'notice.dropped.options-unavailable': '{name} (opciones ya no disponibles)',
+    'notice.pricesChanged': 'Los precios han cambiado: {items}',
+    'notice.priceChange': '{name} ({previous} → {current})',
+    'notice.orderSynced': 'El pedido {id} ya ha llegado a la tienda',
+    'notice.orderRejected': 'La tienda no ha podido aceptar el pedido {id}. Pide ayuda a un miembro del personal.',
+    'notice.reordered': 'Tu pedido anterior está de nuevo en tu carrito',
+    'notice.reorderChanges': 'Tu pedido anterior está de nuevo en tu carrito, con cambios: {items}',
+    'notice.reorder.substituted': '{name} cambiado por {quantity} × {substitute}',
+    'notice.reorder.reduced': '{name} ({quantity} de {requested}, no quedan suficientes)',
+
+    'announce.added': '{name} añadido al carrito',
+    'announce.removed': '{name} quitado del carrito',
+    'announce.quantity': '{name}, cantidad {quantity}',
+    'announce.cleared': 'Carrito vaciado',
+    'announce.promoApplied': 'Código promocional {code} aplicado',
+    'announce.promoRemoved': 'Código promocional {code} quitado',
+    'announce.summary': '{message}. {count, plural, one {# artículo} other {# artículos}} en el carrito, total {total}',
+
+    'checkout.title': 'Pago',
+    'checkout.steps': 'Pasos del pago',
+    'checkout.step.contact': 'Contacto',
+    'checkout.step.fulfilment': 'Recogida o envío',
+    'checkout.step.review': 'Revisión',
+    'checkout.contactDetails': 'Datos de contacto',
+    'checkout.name': 'Nombre',
+    'checkout.email': 'Correo electrónico',
+    'checkout.phone': 'Teléfono',
+    'checkout.fulfilmentQuestion': '¿Cómo quieres recibir tu pedido?',
+    'checkout.pickup': 'Recogida',
+    'checkout.delivery': 'Envío',
+    'checkout.pickupTime': 'Hora de recogida',
+    'checkout.chooseTime': 'Elige una hora',
+    'checkout.line1': 'Dirección',
+    'checkout.line2': 'Piso, puerta, etc. (opcional)',
+    'checkout.city': 'Ciudad',
+    'checkout.postcode': 'Código postal',
+    'checkout.instructions': 'Instrucciones de entrega (opcional)',
+    'checkout.reviewOrder': 'Revisa tu pedido',
+    'checkout.backToCart': 'Volver al carrito',
+    'checkout.back': 'Atrás',
+    'checkout.continue': 'Continuar',
+    'checkout.placeOrder': 'Realizar pedido',
+    'checkout.deliveryTo': 'Envío a',
+    'checkout.note': 'Nota: {note}',
+    'checkout.error.name': 'Introduce tu nombre',
+    'checkout.error.emailRequired': 'Introduce tu correo electrónico',
+    'checkout.error.emailInvalid': 'Introduce un correo como nombre@ejemplo.com',
+    'checkout.error.phoneRequired': 'Introduce un número de teléfono',
+    'checkout.error.phoneInvalid': 'Introduce un teléfono de 7 a 15 dígitos',
+    'checkout.error.pickupSlotRequired': 'Elige una hora de recogida',
+    'checkout.error.pickupSlotUnavailable': 'Esa hora de recogida ya no está disponible, elige otra',
+    'checkout.error.line1': 'Introduce la dirección',
+    'checkout.error.city': 'Introduce la ciudad',
+    'checkout.error.postcodeRequired': 'Introduce el código postal',
+    'checkout.error.postcodeInvalid': 'Introduce un código postal válido',
+
+    'order.confirmed': 'Pedido confirmado',
+    'order.enjoy': '¡Esperamos que lo disfrutes!',
+    'order.number': 'Pedido {id}',
+    'order.pendingSync': 'Guardado en este dispositivo. Lo enviaremos a la tienda en cuanto haya conexión.',
+    'order.syncRejected': 'La tienda no ha podido aceptar este pedido. Pide ayuda a un miembro del personal.',
+    'order.printReceipt': 'Imprimir recibo',
+    'order.downloadFormat': 'Formato de descarga',
+    'order.format.html': 'Recibo (HTML)',
+    'order.format.json': 'Datos del pedido (JSON)',
+    'order.format.csv': 'Líneas del pedido (CSV)',
+    'order.download': 'Descargar',
+    'order.receipt': 'Recibo',
+    'order.startNew': 'Nuevo pedido'
+};
@@ -0,0 +1,236 @@
+// French UI messages
+import { MessageCatalog } from '../../types/index.js';
+
+export const fr: MessageCatalog = {
+    'app.title': 'Desserts - Panier',
+    'app.skipToCart': 'Aller au panier',
+    'app.language': 'Langue',
+    'app.region': 'Région',
+    'app.offline': 'Vous êtes hors ligne. Les commandes sont enregistrées sur cet appareil et envoyées à la boutique dès le retour de la connexion.',
+
+    'category.waffle': 'Gaufre',
+    'category.creme-brulee': 'Crème brûlée',
+    'category.macaron': 'Macaron',
+    'category.tiramisu': 'Tiramisu',
+    'category.baklava': 'Baklava',
+    'category.pie': 'Tarte',
+    'category.cake': 'Gâteau',
+    'category.brownie': 'Brownie',
+    'category.panna-cotta': 'Panna cotta',
+
+    'catalog.title': 'Desserts',
+    'catalog.search': 'Rechercher un dessert',
+    'catalog.categories': 'Catégories',
+    'catalog.minPrice': 'Min',
+    'catalog.maxPrice': 'Max',
+    'catalog.inStockOnly': 'En stock uniquement',
+    'catalog.sort': 'Trier les desserts',
+    'catalog.sort.featured': 'Sélection',
+    'catalog.sort.popularity': 'Les plus populaires',
+    'catalog.sort.price-asc': 'Prix croissant',
+    'catalog.sort.price-desc': 'Prix décroissant',
+    'catalog.sort.name-asc': 'Nom : de A à Z',
+    'catalog.sort.name-desc': 'Nom : de Z à A',
+    'catalog.clearFilters': 'Effacer',
+    'catalog.loading': 'Chargement des desserts…',
+    'catalog.loadFailed': 'Impossible de charger les desserts. Vérifiez votre connexion et réessayez.',
+    'catalog.retry': 'Réessayer',
+    'catalog.unavailable': 'Aucun dessert n’est disponible pour le moment.',
+    'catalog.noMatches': 'Aucun dessert ne correspond à votre recherche.',
+
+    'card.addToCart': 'Ajouter au panier',
+    'card.addLabel': 'Ajouter {name} au panier',
+    'card.quantityLabel': 'Quantité de {name}',
+    'card.decrementLabel': 'Retirer un {name}',
+    'card.incrementLabel': 'Ajouter un {name} de plus',
+    'card.soldOut': 'Épuisé',
+    'card.lowStock': '{count, plural, one {Plus que # en stock} other {Plus que # en stock}}',
+
+    'allergen.gluten': 'Gluten',
+    'allergen.dairy': 'Lait',
+    'allergen.egg': 'Œuf',
+    'allergen.nuts': 'Fruits à coque',
+    'allergen.peanuts': 'Arachides',
+    'allergen.soy': 'Soja',
+    'allergen.sesame': 'Sésame',
+    'allergen.caffeine': 'Caféine',
+    'diet.vegetarian': 'Végétarien',
+    'diet.vegan': 'Végan',
+    'diet.gluten-free': 'Sans gluten',
+
+    'dietary.title': '{count, plural, =0 {Allergies et régime} other {Allergies et régime (#)}}',
+    'dietary.avoid': 'J’évite',
+    'dietary.diets': 'Je ne mange que',
+    'dietary.hide': 'Masquer les desserts qui ne me conviennent pas',
+    'dietary.disclaimer': 'Les informations sur les allergènes viennent de notre cuisine, où tous les desserts sont préparés côte à côte. En cas d’allergie sévère, demandez conseil à notre équipe.',
+    'dietary.contains': 'Contient : {allergens}',
+    'dietary.notDiet': 'Non indiqué comme : {diets}',
+    'dietary.undeclared': 'Allergènes non indiqués',
+    'dietary.warningTitle': 'Vérifiez ces articles',
+    'dietary.warningIntro': 'Ils ne conviennent pas aux allergies et au régime que vous nous avez indiqués :',
+    'dietary.warningLine': '{quantity} × {name} : {reason}',
+    'dietary.acknowledge': 'J’ai compris et je souhaite quand même les commander',
+    'dietary.acknowledgeRequired': 'Cochez la case pour commander ces articles, ou revenez modifier votre panier',
+
+    'account.signedOut': 'Connectez-vous pour gagner des points',
+    'account.summary': '{name} · {count, plural, one {# point} other {# points}}',
+    'account.intro': 'Connectez-vous avec votre e-mail pour retrouver vos commandes et gagner un point par dollar dépensé. Votre compte reste sur cet appareil.',
+    'account.name': 'Nom (nouveaux comptes uniquement)',
+    'account.signIn': 'Se connecter',
+    'account.signOut': 'Se déconnecter',
+    'account.balance': '{count, plural, =0 {Vous n’avez pas encore de points} one {Vous avez # point, soit {amount}} other {Vous avez # points, soit {amount}}}',
+    'account.pastOrders': 'Commandes passées',
+    'account.noOrders': 'Vous n’avez pas encore commandé en étant connecté',
+    'account.orderSummary': '{date} · {count, plural, one {# article} other {# articles}} · {total}',
+    'account.reorder': 'Commander à nouveau',
+    'account.usePoints': 'Payer {amount} avec {points} points',
+    'account.pointsPaid': '{count, plural, one {Payé avec # point} other {Payé avec # points}}',
+    'account.amountDue': 'Reste à payer',
+    'account.earned': '{count, plural, =0 {Cette commande ne rapporte aucun point} one {Cette commande vous rapporte # point} other {Cette commande vous rapporte # points}}',
+
+    'group.title': 'Vous commandez en groupe ?',
+    'group.summary': '{count, plural, =0 {Commande groupée : ajoutez les participants} one {Commande groupée pour # personne} other {Commande groupée pour # personnes}}',
+    'group.intro': 'Lancez une commande groupée pour ajouter des articles pour chacun et voir ce que chacun doit.',
+    'group.start': 'Lancer une commande groupée',
+    'group.end': 'Terminer la commande groupée',
+    'group.name': 'Nom',
+    'group.add': 'Ajouter',
+    'group.nameRequired': 'Saisissez un nom',
+    'group.addingFor': 'Articles ajoutés pour',
+    'group.shared': 'Partagé',
+    'group.remove': 'Retirer {name}',
+    'group.split': 'Partager l’addition',
+    'group.split.byItem': 'Par article',
+    'group.split.equal': 'À parts égales',
+    'group.lineLabel': 'Pour qui est {name} ?',
+    'group.shares.equal': 'Partage à parts égales',
+    'group.shares.byItem': 'Partage par article',
+    'group.share.items': 'articles {amount}',
+    'group.share.discount': 'remise -{amount}',
+    'group.share.tax': 'taxe {amount}',
+    'group.share.delivery': 'livraison {amount}',
+
+    'options.title': 'Choisir les options',
+    'options.price': 'Prix',
+    'options.cancel': 'Annuler',
+    'options.required': 'Obligatoire',
+    'options.optional': 'Facultatif',
+    'options.limit.exactly': 'choisissez-en {count}',
+    'options.limit.range': 'choisissez-en de {min} à {max}',
+    'options.limit.upTo': 'jusqu’à {max} au choix',
+    'options.error.unknownGroup': '{dessert} n’a pas d’options « {group} »',
+    'options.error.unknownOption': '{group} n’a pas d’option « {option} »',
+    'options.error.duplicate': '{group} contient deux fois la même option',
+    'options.error.chooseOne': 'Faites un choix : {group}',
+    'options.error.limits': '{group} : {limits}',
+
+    'cart.title': 'Votre panier ({count})',
+    'cart.titleLabel': 'Votre panier, {count, plural, =0 {aucun article} one {# article} other {# articles}}',
+    'cart.empty': 'Les articles ajoutés apparaîtront ici',
+    'cart.removeLabel': 'Retirer {name} du panier',
+    'cart.promoCode': 'Code promo',
+    'cart.applyPromo': 'Appliquer',
+    'cart.removePromo': 'Retirer',
+    'cart.orderTotal': 'Total de la commande',
+    'cart.carbonNeutral': 'Cette livraison est {emphasis}',
+    'cart.carbonNeutralEmphasis': 'neutre en carbone',
+    'cart.confirmOrder': 'Valider la commande',
+    'cart.undo': 'Annuler',
+    'cart.itemRemoved': '{name} retiré',
+
+    'totals.subtotal': 'Sous-total',
+    'totals.delivery': 'Livraison',
+    'totals.free': 'Gratuite',
+    'totals.taxIncluded': 'Dont {label} ({rate})',
+    'totals.taxAdded': '{label} ({rate})',
+
+    'promo.rejected.unknown-code': '« {code} » n’est pas un code valide',
+    'promo.rejected.not-yet-active': 'Ce code n’est pas encore actif',
+    'promo.rejected.expired': 'Ce code a expiré',
+    'promo.rejected.usage-limit-reached': 'Ce code a atteint sa limite d’utilisation',
+    'promo.rejected.min-spend-not-met': 'Dépensez au moins {amount} pour utiliser ce code',
+    'promo.rejected.not-applicable': 'Aucun article de votre panier ne bénéficie de ce code',
+    'promo.rejected.already-applied': 'Ce code est déjà appliqué',
+    'promo.rejected.not-stackable': 'Ce code ne peut pas être combiné avec d’autres codes',
+
+    'notice.remoteOrder': 'Votre commande a été passée dans un autre onglet',
+    'notice.reservationExpired': 'Votre panier est resté inactif un moment : ses articles ne vous sont plus réservés',
+    'notice.stockLeft': 'Plus que {count} {name}',
+    'notice.soldOut': '{name} est épuisé',
+    'notice.shortages': 'Veuillez mettre à jour votre panier avant de commander : {items}',
+    'notice.shortageLeft': '{name} (plus que {count})',
+    'notice.shortageSoldOut': '{name} (épuisé)',
+    'notice.dropped': 'Retiré de votre panier enregistré : {items}',
+    'notice.dropped.not-found': '{name} (plus disponible)',
+    'notice.dropped.out-of-stock': '{name} (épuisé)',
+    'notice.dropped.insufficient-stock': '{quantity} × {name} (stock insuffisant)',
+    'notice.dropped.options-unavailable': '{name} (options plus proposées)',
+    'notice.pricesChanged': 'Les prix ont changé : {items}',
+    'notice.priceChange': '{name} ({previous} → {current})',
+    'notice.orderSynced': 'La commande {id} est bien arrivée à la boutique',
+    'notice.orderRejected': 'La boutique n’a pas pu accepter la commande {id}. Veuillez demander de l’aide à un membre du personnel.',
+    'notice.reordered': 'Votre commande passée est de retour dans votre panier',
+    'notice.reorderChanges': 'Votre commande passée est de retour dans votre panier, avec des changements : {items}',
+    'notice.reorder.substituted': '{name} remplacé par {quantity} × {substitute}',
+    'notice.reorder.reduced': '{name} ({quantity} sur {requested}, stock insuffisant)',
+
+    'announce.added': '{name} ajouté au panier',
+    'announce.removed': '{name} retiré du panier',
+    'announce.quantity': '{name}, quantité {quantity}',
+    'announce.cleared': 'Panier vidé',
+    'announce.promoApplied': 'Code promo {code} appliqué',
+    'announce.promoRemoved': 'Code promo {code} retiré',
+    'announce.summary': '{message}. {count, plural, one {# article} other {# articles}} dans le panier, total {total}',
+
+    'checkout.title': 'Commande',
+    'checkout.steps': 'Étapes de la commande',
+    'checkout.step.contact': 'Coordonnées',
+    'checkout.step.fulfilment': 'Retrait ou livraison',
+    'checkout.step.review': 'Récapitulatif',
+    'checkout.contactDetails': 'Vos coordonnées',
+    'checkout.name': 'Nom',
+    'checkout.email': 'E-mail',
+    'checkout.phone': 'Téléphone',
+    'checkout.fulfilmentQuestion': 'Comment souhaitez-vous recevoir votre commande ?',
+    'checkout.pickup': 'Retrait',
+    'checkout.delivery': 'Livraison',
+    'checkout.pickupTime': 'Heure de retrait',
+    'checkout.chooseTime': 'Choisissez une heure',
+    'checkout.line1': 'Adresse',
+    'checkout.line2': 'Appartement, étage, etc. (facultatif)',
+    'checkout.city': 'Ville',
+    'checkout.postcode': 'Code postal',
+    'checkout.instructions': 'Instructions de livraison (facultatif)',
+    'checkout.reviewOrder': 'Vérifiez votre commande',
+    'checkout.backToCart': 'Retour au panier',
+    'checkout.back': 'Retour',
+    'checkout.continue': 'Continuer',
+    'checkout.placeOrder': 'Commander',
+    'checkout.deliveryTo': 'Livraison à',
+    'checkout.note': 'Remarque : {note}',
+    'checkout.error.name': 'Saisissez votre nom',
+    'checkout.error.emailRequired': 'Saisissez votre adresse e-mail',
+    'checkout.error.emailInvalid': 'Saisissez une adresse e-mail comme nom@exemple.fr',
+    'checkout.error.phoneRequired': 'Saisissez un numéro de téléphone',
+    'checkout.error.phoneInvalid': 'Saisissez un numéro de téléphone de 7 à 15 chiffres',
+    'checkout.error.pickupSlotRequired': 'Choisissez une heure de retrait',
+    'checkout.error.pickupSlotUnavailable': 'Cette heure de retrait n’est plus disponible, choisissez-en une autre',
+    'checkout.error.line1': 'Saisissez l’adresse',
+    'checkout.error.city': 'Saisissez la ville',
+    'checkout.error.postcodeRequired': 'Saisissez le code postal',
+    'checkout.error.postcodeInvalid': 'Saisissez un code postal valide',
+
+    'order.confirmed': 'Commande confirmée',
+    'order.enjoy': 'Nous espérons que vous vous régalerez !',
+    'order.number': 'Commande {id}',
+    'order.pendingSync': 'Enregistrée sur cet appareil. Nous l’enverrons à la boutique dès que la connexion sera rétablie.',
+    'order.syncRejected': 'La boutique n’a pas pu accepter cette commande. Veuillez demander de l’aide à un membre du personnel.',
+    'order.printReceipt': 'Imprimer le reçu',
+    'order.downloadFormat': 'Format de téléchargement',
+    'order.format.html': 'Reçu (HTML)',
+    'order.format.json': 'Données de commande (JSON)',
+    'order.format.csv': 'Lignes de commande (CSV)',
+    'order.download': 'Télécharger',
+    'order.receipt': 'Reçu',
+    'order.startNew': 'Nouvelle commande'
+};
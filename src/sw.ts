@@ -0,0 +1,118 @@
+// Service worker: precaches the shop so it opens and takes orders without a connection.
+// Built on its own by tsconfig.sw.json into /sw.js, so its scope covers the whole site.
+
+const worker = self as unknown as ServiceWorkerGlobalScope;
+
+// Bump to drop every cached file on the next visit
+const SHELL_CACHE = 'dessert-shop-shell-v1';
+const ENTRY_MODULE = 'dist/index.js';
+const CATALOG_URL = 'data/catalog.json';
+const SHELL_FILES = [
+    './',
+    'index.html',
+    'manifest.webmanifest',
+    'styles/styles.css',
+    CATALOG_URL,
+    'images/favicon-32x32.png',
+    'images/icon-app.svg',
+    'images/illustration-empty-cart.svg'
+];
+// Relative import specifiers in the compiled modules, e.g. `from './ui/UIController.js'`
+const MODULE_IMPORT = /(?:import|export)\s[^'"]*?from\s*['"](\.{1,2}\/[^'"]+)['"]/g;
+
+/**
+ * Every module reachable from the entry point, so the compiled bundle is cached without a hand-kept list
+ */
+async function moduleGraph(entry: string): Promise<string[]> {
+    const found = new Set<string>();
+    const pending = [new URL(entry, worker.registration.scope).href];
+    while (pending.length > 0) {
+        const url = pending.pop() as string;
+        if (found.has(url)) continue;
+        found.add(url);
+        const response = await fetch(url, { cache: 'no-cache' });
+        if (!response.ok) throw new Error(`Could not precache ${url}: ${response.status}`);
+        const source = await response.text();
+        for (const match of source.matchAll(MODULE_IMPORT)) pending.push(new URL(match[1], url).href);
+    }
+    return Array.from(found);
+}
+
+/**
+ * Every image path named in the catalog: thumbnails and each responsive size
+ */
+async function catalogImages(): Promise<string[]> {
+    const response = await fetch(CATALOG_URL, { cache: 'no-cache' });
+    if (!response.ok) return [];
+    const rows: unknown = await response.json();
+    if (!Array.isArray(rows)) return [];
+    const images = new Set<string>();
+    rows.forEach((row) => {
+        const image = (row as { image?: Record<string, unknown> } | null)?.image;
+        if (!image) return;
+        Object.values(image).forEach((path) => {
+            if (typeof path === 'string') images.add(path);
+        });
+    });
+    return Array.from(images);
+}
+
+worker.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        const [modules, images] = await Promise.all([moduleGraph(ENTRY_MODULE), catalogImages()]);
+        await cache.addAll([...SHELL_FILES, ...modules, ...images]);
+        await worker.skipWaiting();
+    })());
+});
+
+worker.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter((name) => name.startsWith('dessert-shop-') && name !== SHELL_CACHE).map((name) => caches.delete(name)));
+        await worker.clients.claim();
+    })());
+});
+
+/**
+ * Answer from the cache and refresh it in the background, so a new build shows up on the next visit
+ */
+async function staleWhileRevalidate(event: FetchEvent): Promise<Response> {
+    const cache = await caches.open(SHELL_CACHE);
+    const cached = await cache.match(event.request);
+    const refresh = fetch(event.request).then(async (response) => {
+        if (response.ok) await cache.put(event.request, response.clone());
+        return response;
+    });
+    if (!cached) return refresh;
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+}
+
+/**
+ * The network's answer when there is one (kept for next time), otherwise the cached `fallback`
+ */
+async function networkFirst(request: Request, fallback: RequestInfo): Promise<Response> {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok && request.mode !== 'navigate') await cache.put(request, response.clone());
+        return response;
+    } catch (error) {
+        const cached = await cache.match(fallback);
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+worker.addEventListener('fetch', (event) => {
+    const { request } = event;
+    // Order submissions and other cross-origin calls go straight to the network; the page's outbox retries them
+    if (request.method !== 'GET' || new URL(request.url).origin !== worker.location.origin) return;
+
+    // Any page falls back to the cached shell, as the SPA redirect would serve it (e.g. /admin);
+    // the catalog is fetched fresh when possible so prices don't lag a visit behind
+    if (request.mode === 'navigate') event.respondWith(networkFirst(request, 'index.html'));
+    else if (new URL(request.url).pathname.endsWith(`/${CATALOG_URL}`)) event.respondWith(networkFirst(request, CATALOG_URL));
+    else event.respondWith(staleWhileRevalidate(event));
+});
@@ -0,0 +1,821 @@
+// Shared types for the dessert shop domain and UI
+import { Money } from '../utils/money.js';
+import type { en } from '../data/locales/en.js';
+
+// Stable keys, also used in catalog URLs; display names come from the message catalogs
+export enum DessertCategory {
+    Waffle = 'waffle',
+    CremeBrulee = 'creme-brulee',
+    Macaron = 'macaron',
+    Tiramisu = 'tiramisu',
+    Baklava = 'baklava',
+    Pie = 'pie',
+    Cake = 'cake',
+    Brownie = 'brownie',
+    PannaCotta = 'panna-cotta'
+}
+
+// Allergens declared on desserts and their options; display names come from the message catalogs
+export enum Allergen {
+    Gluten = 'gluten',
+    Dairy = 'dairy',
+    Egg = 'egg',
+    Nuts = 'nuts',
+    Peanuts = 'peanuts',
+    Soy = 'soy',
+    Sesame = 'sesame',
+    Caffeine = 'caffeine'
+}
+
+// Diets a dessert as a whole is suitable for
+export enum DietaryTag {
+    Vegetarian = 'vegetarian',
+    Vegan = 'vegan',
+    GlutenFree = 'gluten-free'
+}
+
+export type DessertId = string;
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'JPY';
+
+export type RoundingMode = 'half-even' | 'half-up';
+
+export type OrderStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'partially-refunded' | 'refunded';
+
+// Paths to each size of a dessert photo
+export interface DessertImageSet {
+    thumbnail: string;
+    mobile: string;
+    tablet: string;
+    desktop: string;
+}
+
+// One choice in an option group; its delta is added to the dessert's base price
+export interface DessertOption {
+    id: string;
+    name: string;
+    priceDelta: Money<'USD'>;
+    // Allergens the option adds to the dessert, e.g. a whipped cream topping adds dairy
+    allergens?: Allergen[];
+}
+
+// A set of choices such as a size, a flavor or add-ons. A group with maxSelections 1 is a single choice.
+export interface DessertOptionGroup {
+    id: string;
+    name: string;
+    required: boolean;
+    // Bounds on how many options may be picked when the group is used at all
+    minSelections: number;
+    maxSelections: number;
+    options: DessertOption[];
+}
+
+export interface Dessert {
+    id: DessertId;
+    name: string;
+    category: DessertCategory;
+    price: Money<'USD'>;
+    image: DessertImageSet;
+    description?: string;
+    inStock: boolean;
+    optionGroups?: DessertOptionGroup[];
+    // Name and description in other languages, keyed by locale; missing text falls back to the above
+    translations?: Record<string, DessertTranslation>;
+    // Left out when the kitchen hasn't declared them, which is not the same as an empty list
+    allergens?: Allergen[];
+    dietary?: DietaryTag[];
+}
+
+export interface DessertTranslation {
+    name?: string;
+    description?: string;
+}
+
+// Ids of the options picked in each group, keyed by group id
+export type SelectedOptions = Record<string, string[]>;
+
+// Identifies a cart line: the dessert id for a dessert without options, otherwise the id plus the selection
+export type CartLineId = string;
+
+// Problems with an option selection, keyed by group id
+export type OptionSelectionErrors = Record<string, string>;
+
+export interface CartItem {
+    dessert: Dessert;
+    options: SelectedOptions;
+    quantity: number;
+    addedAt: Date;
+    // Who the line is for in a group order; absent for a shared line or outside group orders
+    participantId?: ParticipantId;
+}
+
+export type ParticipantId = string;
+
+export interface Participant {
+    id: ParticipantId;
+    name: string;
+}
+
+// by-item: everyone pays for their own lines, with shared lines split evenly; equal: everyone pays the same
+export type SplitMode = 'by-item' | 'equal';
+
+// Several people ordering into one cart
+export interface GroupOrder {
+    participants: Participant[];
+    split: SplitMode;
+}
+
+// One person's part of the bill. Each amount across all shares adds up to the order's, to the minor unit.
+export interface BillShare {
+    participantId: ParticipantId;
+    name: string;
+    subtotal: Money;
+    discount: Money;
+    tax: Money;
+    deliveryFee: Money;
+    total: Money;
+}
+
+export interface BillSplit {
+    mode: SplitMode;
+    shares: BillShare[];
+}
+
+export type DiscountRule =
+    | { kind: 'percentage'; percent: number }
+    | { kind: 'fixed'; amount: Money<'USD'> }
+    | { kind: 'category-percentage'; category: DessertCategory; percent: number }
+    | { kind: 'buy-x-get-y'; dessertId: DessertId; buy: number; free: number };
+
+export interface PromoCode {
+    code: string;
+    description: string;
+    rule: DiscountRule;
+    minSpend?: Money<'USD'>;
+    startsAt?: Date;
+    expiresAt?: Date;
+    usageLimit?: number;
+    stackable: boolean;
+}
+
+export type PromoRejectionReason =
+    | 'unknown-code'
+    | 'not-yet-active'
+    | 'expired'
+    | 'usage-limit-reached'
+    | 'min-spend-not-met'
+    | 'not-applicable'
+    | 'already-applied'
+    | 'not-stackable';
+
+export interface AppliedDiscount {
+    code: string;
+    description: string;
+    amount: Money;
+}
+
+export interface RejectedPromo {
+    code: string;
+    reason: PromoRejectionReason;
+}
+
+export interface DiscountResult {
+    discounts: AppliedDiscount[];
+    discountTotal: Money;
+    rejected: RejectedPromo[];
+    // Amount left on each line after discounts, used as the tax base
+    netLines: Record<CartLineId, Money>;
+}
+
+export interface TaxRule {
+    label: string;
+    rate: number;
+    inclusive: boolean;
+    exemptCategories: DessertCategory[];
+    rounding: 'per-line' | 'per-order';
+}
+
+export interface Region {
+    id: string;
+    name: string;
+    currency: CurrencyCode;
+    tax: TaxRule;
+}
+
+export interface PricingConfig {
+    baseCurrency: 'USD';
+    // Locale used to format each currency
+    locales: Record<CurrencyCode, string>;
+    // Applied wherever an amount has to be rounded to minor units: tax, percentages, conversion
+    roundingMode: RoundingMode;
+    // Units of each currency per one unit of the base currency
+    exchangeRates: Record<CurrencyCode, number>;
+    regions: Region[];
+    defaultRegion: string;
+    delivery: DeliveryConfig;
+}
+
+export interface DeliveryConfig {
+    fee: Money<'USD'>;
+    // Orders whose discounted subtotal reaches this amount are delivered free
+    freeFrom?: Money<'USD'>;
+}
+
+export interface PriceTotals {
+    currency: CurrencyCode;
+    region: string;
+    subtotal: Money;
+    discountTotal: Money;
+    taxLabel: string;
+    taxRate: number;
+    taxInclusive: boolean;
+    tax: Money;
+    deliveryFee: Money;
+    total: Money;
+}
+
+export interface CartSummary extends PriceTotals {
+    itemCount: number;
+    discounts: AppliedDiscount[];
+    rejectedPromos: RejectedPromo[];
+    items: CartItem[];
+    // Each person's part during a group order with participants
+    split?: BillSplit;
+}
+
+export interface OrderLine extends CartItem {
+    unitPrice: Money;
+    lineTotal: Money;
+}
+
+export interface OrderDetails extends PriceTotals {
+    items: OrderLine[];
+    discounts: AppliedDiscount[];
+    createdAt: Date;
+    // Absent on orders placed before checkout collected customer details
+    contact?: ContactDetails;
+    fulfilment?: Fulfilment;
+    // Lines the customer ordered despite a dietary warning; absent when they declared no dietary needs
+    dietaryCheck?: DietaryCheck;
+    // The customer account the order was placed from, and the part of the total paid with its points
+    accountId?: string;
+    pointsPayment?: PointsPayment;
+    // Who pays what, for a group order
+    split?: BillSplit;
+}
+
+// Loyalty points put towards an order; the rest of the total is paid on pickup or delivery
+export interface PointsPayment {
+    points: number;
+    // What the points are worth in the order's currency
+    amount: Money;
+}
+
+export type FulfilmentMethod = 'pickup' | 'delivery';
+
+export interface ContactDetails {
+    name: string;
+    email: string;
+    phone: string;
+}
+
+export interface DeliveryAddress {
+    line1: string;
+    line2?: string;
+    city: string;
+    postcode: string;
+    instructions?: string;
+}
+
+export interface PickupSlot {
+    start: Date;
+    end: Date;
+}
+
+export type Fulfilment =
+    | { method: 'pickup'; slot: PickupSlot }
+    | { method: 'delivery'; address: DeliveryAddress };
+
+export interface CheckoutDetails {
+    contact: ContactDetails;
+    fulfilment: Fulfilment;
+    dietaryCheck?: DietaryCheck;
+    accountId?: string;
+    pointsPayment?: PointsPayment;
+    group?: GroupOrder;
+}
+
+// What a customer needs to avoid, kept on their device
+export interface DietaryProfile {
+    avoid: Allergen[];
+    // Diets every dessert must be marked as, e.g. vegan
+    diets: DietaryTag[];
+    // Hide desserts that don't suit the profile rather than flagging them
+    hideConflicts: boolean;
+}
+
+// Why a dessert or cart line doesn't suit a dietary profile
+export interface DietaryConflict {
+    // Avoided allergens it contains
+    allergens: Allergen[];
+    // Required diets it isn't marked as
+    diets: DietaryTag[];
+    // Its allergens aren't declared, so it can't be cleared for anyone avoiding some
+    undeclared: boolean;
+}
+
+export interface DietaryConflictLine extends DietaryConflict {
+    dessertId: DessertId;
+    name: string;
+    // The selection as shown to the customer, e.g. "Extra toppings: Whipped cream"
+    options: string;
+    quantity: number;
+}
+
+// The profile an order was checked against and the lines the customer confirmed despite the warning
+export interface DietaryCheck {
+    avoid: Allergen[];
+    diets: DietaryTag[];
+    conflicts: DietaryConflictLine[];
+}
+
+export type CheckoutStep = 'contact' | 'fulfilment' | 'review';
+
+// The checkout form exactly as typed, so nothing is lost while moving between steps
+export interface CheckoutForm {
+    name: string;
+    email: string;
+    phone: string;
+    method: FulfilmentMethod;
+    // ISO start time of the chosen pickup slot
+    pickupSlot: string;
+    line1: string;
+    line2: string;
+    city: string;
+    postcode: string;
+    instructions: string;
+}
+
+export type CheckoutField = keyof CheckoutForm;
+
+export type CheckoutErrors = Partial<Record<CheckoutField, string>>;
+
+export interface PickupConfig {
+    // Opening hours as hours of the day, local time
+    opensAt: number;
+    closesAt: number;
+    slotMinutes: number;
+    // Minimum notice before a slot can be booked
+    leadMinutes: number;
+    daysAhead: number;
+}
+
+export interface OrderStatusChange {
+    from: OrderStatus | null;
+    to: OrderStatus;
+    at: Date;
+    reason?: string;
+    amount?: Money;
+}
+
+export interface Order {
+    id: string;
+    details: OrderDetails;
+    status: OrderStatus;
+    confirmedAt?: Date;
+    refundedAmount: Money;
+    history: OrderStatusChange[];
+    // Cart whose stock reservations back this order until it is confirmed
+    reservationHolder?: string;
+    // Whether the order has reached the order endpoint; absent when the shop has none
+    syncStatus?: OrderSyncStatus;
+}
+
+export type OrderSyncStatus = 'pending-sync' | 'synced' | 'rejected';
+
+// A customer account kept on this device. Signing in by email alone stands in for real authentication.
+export interface CustomerAccount {
+    id: string;
+    name: string;
+    email: string;
+    createdAt: Date;
+    // Copies of the orders confirmed while signed in, oldest first; they outlive OrderManager.clearAll
+    orders: Order[];
+    // Every change to the points balance, oldest first; the balance is their sum
+    pointsLedger: PointsLedgerEntry[];
+}
+
+export type SignInErrors = Partial<Record<'email' | 'name', string>>;
+
+// earned: on confirmation; redeemed: paid towards an order; reversed and returned undo those when the
+// order is cancelled or fully refunded
+export type PointsLedgerReason = 'earned' | 'redeemed' | 'reversed' | 'returned';
+
+export interface PointsLedgerEntry {
+    orderId: string;
+    reason: PointsLedgerReason;
+    // Positive when points are added, negative when they are taken away
+    points: number;
+    at: Date;
+}
+
+export interface LoyaltyConfig {
+    // Points per unit of the base currency in an order's total, rounded down
+    pointsPerUnit: number;
+    // What one point is worth when redeemed
+    pointValue: Money<'USD'>;
+    // Points are redeemed in whole multiples of this
+    redeemStep: number;
+}
+
+export type AccountEvent =
+    | { type: 'account-changed'; account: CustomerAccount | null }
+    | { type: 'points-changed'; account: CustomerAccount; entry: PointsLedgerEntry };
+
+export type AccountEventListener = (event: AccountEvent) => void;
+
+// Why a past order's line couldn't be added again as it was
+export type ReorderChange =
+    | { kind: 'substituted'; dessert: Dessert; substitute: Dessert; quantity: number; reason: DroppedCartItemReason }
+    | { kind: 'skipped'; dessert: Dessert; quantity: number; reason: DroppedCartItemReason }
+    | { kind: 'reduced'; dessert: Dessert; requested: number; quantity: number }
+    | { kind: 'price-changed'; dessert: Dessert; previous: Money<'USD'>; current: Money<'USD'> };
+
+// The cart a past order rebuilds to, and how it differs from what was ordered
+export interface ReorderPlan {
+    entries: CartSnapshotEntry[];
+    changes: ReorderChange[];
+}
+
+// What the order endpoint receives: the exported order plus how to reach the customer
+export interface OrderSubmission {
+    order: OrderExport;
+    contact: ContactDetails | null;
+    pickup: { start: string; end: string } | null;
+    delivery: DeliveryAddress | null;
+}
+
+// An order waiting to reach the order endpoint. Its idempotency key and body are fixed when it is queued,
+// so the endpoint records the order once however many times it is retried.
+export interface OutboxEntry {
+    orderId: string;
+    idempotencyKey: string;
+    submission: OrderSubmission;
+    queuedAt: Date;
+    attempts: number;
+    nextAttemptAt: Date;
+    lastError?: string;
+}
+
+export interface OrderSubmitter {
+    submit(submission: OrderSubmission, idempotencyKey: string): Promise<void>;
+}
+
+export type OutboxEvent =
+    | { type: 'order-queued'; entry: OutboxEntry }
+    | { type: 'order-submitted'; orderId: string }
+    | { type: 'order-retry-scheduled'; entry: OutboxEntry }
+    | { type: 'order-rejected'; orderId: string; error: string };
+
+export type OutboxEventListener = (event: OutboxEvent) => void;
+
+// A shopper's cart from its first item until an order is placed from it (or it is left idle)
+export interface CartSession {
+    id: string;
+    startedAt: Date;
+    lastActivityAt: Date;
+    orderId?: string;
+}
+
+export type CartSessionOutcome = 'ordered' | 'abandoned' | 'active';
+
+export type SalesPeriod = 'day' | 'week';
+
+export interface RevenuePoint {
+    // YYYY-MM-DD: the day, or the Monday starting the week
+    period: string;
+    orders: number;
+    revenue: Money;
+}
+
+export interface SalesLine<K extends string = string> {
+    key: K;
+    label: string;
+    units: number;
+    revenue: Money;
+}
+
+export interface ProductPair {
+    dessertIds: [DessertId, DessertId];
+    names: [string, string];
+    orders: number;
+    // Fraction of counted orders containing both desserts
+    share: number;
+}
+
+export interface AbandonmentStats {
+    sessions: number;
+    ordered: number;
+    abandoned: number;
+    active: number;
+    // abandoned / (ordered + abandoned); sessions still in progress are left out
+    rate: number;
+}
+
+export interface SalesReportOptions {
+    currency: CurrencyCode;
+    timeZone: string;
+    now: Date;
+    // A cart untouched for this long without an order counts as abandoned
+    abandonAfterMs: number;
+    pairLimit: number;
+}
+
+export interface SalesReport {
+    currency: CurrencyCode;
+    orderCount: number;
+    revenue: Money;
+    averageOrderValue: Money;
+    revenueByDay: RevenuePoint[];
+    revenueByWeek: RevenuePoint[];
+    byCategory: SalesLine<DessertCategory>[];
+    byDessert: SalesLine<DessertId>[];
+    frequentPairs: ProductPair[];
+    abandonment: AbandonmentStats;
+}
+
+export interface ReceiptOptions {
+    shopName: string;
+    // Dates are formatted with these rather than the machine's defaults, so receipts are reproducible
+    locale: string;
+    timeZone: string;
+}
+
+export type OrderExportFormat = 'json' | 'csv';
+
+// An order as exported: ISO date strings and exact decimal amounts in the order's currency
+export interface OrderExport {
+    id: string;
+    status: OrderStatus;
+    createdAt: string;
+    confirmedAt: string | null;
+    currency: CurrencyCode;
+    region: string;
+    // options: the selection as shown to the customer, e.g. "Flavor box: Chocolate"
+    // participant: who the line was for in a group order, null when shared or not a group order
+    items: { dessertId: DessertId; name: string; options: string; participant: string | null; quantity: number; unitPrice: string; lineTotal: string }[];
+    discounts: { code: string; description: string; amount: string }[];
+    subtotal: string;
+    discountTotal: string;
+    tax: string;
+    taxLabel: string;
+    taxRate: number;
+    taxInclusive: boolean;
+    deliveryFee: string;
+    total: string;
+    refundedAmount: string;
+    fulfilment: FulfilmentMethod | null;
+    dietaryCheck: DietaryCheck | null;
+    pointsRedeemed: number;
+    pointsAmount: string;
+    // The total less what points paid
+    amountDue: string;
+    split: { mode: SplitMode; shares: { participant: string; subtotal: string; discount: string; tax: string; deliveryFee: string; total: string }[] } | null;
+}
+
+export interface OrderQuery {
+    status?: OrderStatus | OrderStatus[];
+    currency?: CurrencyCode;
+    createdFrom?: Date;
+    createdTo?: Date;
+    minTotal?: Money;
+    maxTotal?: Money;
+}
+
+export type OrderEvent =
+    | { type: 'order-created'; order: Order }
+    | { type: 'order-status-changed'; order: Order; change: OrderStatusChange }
+    | { type: 'order-sync-changed'; order: Order }
+    | { type: 'orders-cleared' };
+
+export type OrderEventListener = (event: OrderEvent) => void;
+
+export interface CartSnapshotEntry {
+    dessertId: DessertId;
+    options: SelectedOptions;
+    quantity: number;
+    addedAt: Date;
+    participantId?: ParticipantId;
+}
+
+// options-unavailable: the saved selection no longer fits the dessert's option groups
+export type DroppedCartItemReason = 'not-found' | 'out-of-stock' | 'insufficient-stock' | 'options-unavailable';
+
+export interface DroppedCartItem {
+    dessertId: DessertId;
+    quantity: number;
+    reason: DroppedCartItemReason;
+}
+
+// Mutation events carry copies of the lines they touch, enough to replay or reverse them
+export type CartEvent =
+    // position: where the line sat in the cart, so undoing a removal puts it back in place
+    | { type: 'item-added'; item: CartItem; position: number }
+    | { type: 'item-removed'; lineId: CartLineId; item: CartItem; position: number }
+    | { type: 'quantity-updated'; lineId: CartLineId; newQuantity: number; previousQuantity: number }
+    | { type: 'cart-cleared'; items: CartItem[]; promoCodes: string[] }
+    | { type: 'items-replaced'; items: CartItem[]; promoCodes: string[]; previousItems: CartItem[]; previousPromoCodes: string[] }
+    | { type: 'cart-total-changed'; total: Money }
+    | { type: 'promo-applied'; code: string }
+    | { type: 'promo-removed'; code: string }
+    | { type: 'group-changed'; group: GroupOrder | null; previous: GroupOrder | null }
+    | { type: 'stale-items-dropped'; items: DroppedCartItem[] }
+    | { type: 'prices-changed'; changes: CatalogPriceChange[] }
+    // Bracket the mutations of one change made in several steps (e.g. moving a line to someone else), so it is undone as one
+    | { type: 'batch-started' }
+    | { type: 'batch-ended' };
+
+export type CartEventListener = (event: CartEvent) => void;
+
+// The events that change cart contents; everything else is derived or informational
+export type CartMutation = Extract<CartEvent, { type: 'item-added' | 'item-removed' | 'quantity-updated' | 'cart-cleared' | 'items-replaced' | 'promo-applied' | 'promo-removed' | 'group-changed' }>;
+
+// Sync messages go between tabs as JSON, so lines are sent by id and resolved against each tab's catalog
+export interface CartLineState {
+    dessertId: DessertId;
+    options: SelectedOptions;
+    participantId?: ParticipantId;
+    // 0 when the line was removed
+    quantity: number;
+    addedAt: string;
+}
+
+// Lamport clock plus tab id: a total order every tab agrees on
+export interface SyncStamp {
+    clock: number;
+    origin: string;
+}
+
+export type CartSyncMessage =
+    // group: present when the group order changed, null once it ended
+    | (SyncStamp & { type: 'cart-changed'; cause: CartMutation['type']; lines: CartLineState[]; promoCodes: { code: string; applied: boolean }[]; group?: GroupOrder | null })
+    | (SyncStamp & { type: 'order-confirmed'; orderId: string });
+
+export type CartSyncEvent =
+    | { type: 'remote-cart-changed'; cause: CartMutation['type'] }
+    | { type: 'remote-order-confirmed'; orderId: string };
+
+export interface SyncTransport {
+    post(message: string): void;
+    subscribe(listener: (message: string) => void): () => void;
+    close(): void;
+}
+
+export interface StockLine {
+    dessertId: DessertId;
+    quantity: number;
+}
+
+export interface StockShortage {
+    dessertId: DessertId;
+    requested: number;
+    available: number;
+}
+
+export interface StockReservation {
+    quantity: number;
+    expiresAt: Date;
+}
+
+export type InventoryEvent =
+    | { type: 'stock-changed'; dessertId: DessertId }
+    | { type: 'reservation-expired'; holderId: string; dessertId: DessertId; quantity: number };
+
+export type InventoryEventListener = (event: InventoryEvent) => void;
+
+export type CatalogSort = 'featured' | 'price-asc' | 'price-desc' | 'name-asc' | 'name-desc' | 'popularity';
+
+export interface CatalogQuery {
+    search: string;
+    categories: DessertCategory[];
+    minPrice?: number;
+    maxPrice?: number;
+    inStockOnly: boolean;
+    sort: CatalogSort;
+}
+
+// A catalog row as it arrives from JSON, before validation
+export interface DessertRecord {
+    id: string;
+    name: string;
+    category: string;
+    price: number;
+    // A single path is accepted for older catalogs; the other sizes are derived from its name
+    image: DessertImageSet | string;
+    description?: string;
+    inStock: boolean;
+    optionGroups?: DessertOptionGroupRecord[];
+    translations?: Record<string, DessertTranslation>;
+    allergens?: string[];
+    dietary?: string[];
+}
+
+// An option group as it arrives from JSON: prices are plain numbers and the selection rules may be left out
+// (optional, at most one choice, no price change)
+export interface DessertOptionGroupRecord {
+    id: string;
+    name: string;
+    required?: boolean;
+    minSelections?: number;
+    maxSelections?: number;
+    options: { id: string; name: string; priceDelta?: number; allergens?: string[] }[];
+}
+
+export interface CatalogIssue {
+    row: number;
+    id?: DessertId;
+    field: string;
+    message: string;
+}
+
+export type CatalogFetchResult = { records: unknown; etag?: string } | { notModified: true };
+
+export interface CatalogProvider {
+    fetchCatalog(etag?: string): Promise<CatalogFetchResult>;
+}
+
+export interface CatalogLoadResult {
+    desserts: Dessert[];
+    issues: CatalogIssue[];
+    source: 'network' | 'cache' | 'fallback';
+}
+
+export interface CatalogCacheEntry {
+    records: unknown;
+    etag?: string;
+    fetchedAt: number;
+}
+
+export interface CatalogPriceChange {
+    dessertId: DessertId;
+    previous: Money<'USD'>;
+    current: Money<'USD'>;
+}
+
+export interface CatalogQueryContext {
+    price: (dessert: Dessert) => Money;
+    isAvailable: (dessert: Dessert) => boolean;
+    popularity: (dessertId: DessertId) => number;
+    // Text to search and sort by, in the shopper's language; the catalog's own text when left out
+    text?: (dessert: Dessert) => DessertText;
+}
+
+export interface DessertText {
+    name: string;
+    category: string;
+    description?: string;
+}
+
+
+export interface StorageAdapter {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+// Where components report trouble they recover from; the page passes the console
+export interface Logger {
+    warn(message: string, ...details: unknown[]): void;
+    error(message: string, ...details: unknown[]): void;
+}
+
+export interface PersistedState {
+    cart: CartSnapshotEntry[];
+    promoCodes: string[];
+    promoUsage: Record<string, number>;
+    region: string;
+    locale: string;
+    dietaryProfile: DietaryProfile;
+    group: GroupOrder | null;
+    stock: Record<DessertId, number>;
+    orders: Order[];
+    orderCounter: number;
+}
+
+export type LocaleCode = 'en' | 'fr' | 'es';
+
+// English is the reference catalog: every locale has to translate each of its keys, or the type check fails
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+export interface LocaleDefinition {
+    code: LocaleCode;
+    // The language's name in that language, as shown in the switcher
+    name: string;
+    messages: MessageCatalog;
+}
+
+export interface I18nConfig {
+    defaultLocale: LocaleCode;
+    locales: LocaleDefinition[];
+}
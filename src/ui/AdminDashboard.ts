@@ -0,0 +1,130 @@
+// Sales dashboard shown at /admin, built from the orders and cart sessions saved in this browser
+import { Logger, SalesLine, SalesPeriod, SalesReport, StorageAdapter } from '../types/index.js';
+import { pricingConfig } from '../data/config.js';
+import { PricingContext } from '../components/PricingContext.js';
+import { CartSessionTracker } from '../components/CartSessionTracker.js';
+import { createDefaultStorageAdapter, StatePersistence } from '../components/StatePersistence.js';
+import { buildSalesReport } from '../utils/analytics.js';
+import { Money } from '../utils/money.js';
+import { html } from '../utils/html.js';
+import { silentLogger } from '../utils/logger.js';
+import { barChart, ChartBar, columnChart } from './charts.js';
+import { createElement } from './render.js';
+
+// How far back the revenue chart reaches, in periods
+const REVENUE_CHART_POINTS: Record<SalesPeriod, number> = { day: 30, week: 26 };
+const TOP_DESSERTS = 8;
+
+export class AdminDashboard {
+    private pricing: PricingContext;
+    private report: SalesReport;
+    private period: SalesPeriod = 'day';
+
+    constructor(storage: StorageAdapter = createDefaultStorageAdapter(), logger: Logger = silentLogger) {
+        this.pricing = new PricingContext(pricingConfig);
+        const state = new StatePersistence(storage, logger).load();
+        if (state && this.pricing.hasRegion(state.region)) this.pricing.setRegion(state.region);
+
+        this.report = buildSalesReport(state?.orders ?? [], new CartSessionTracker(storage).getSessions(), this.pricing, {
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        });
+        this.init();
+    }
+
+    private init(): void {
+        // The shop's own markup stays in the page but out of sight
+        document.body.classList.add('admin-view');
+        document.getElementById('adminDashboard')?.classList.remove('hidden');
+        document.title = 'Desserts - Sales';
+
+        const periodSelect = document.getElementById('adminPeriod') as HTMLSelectElement | null;
+        if (periodSelect) {
+            periodSelect.value = this.period;
+            periodSelect.addEventListener('change', () => {
+                this.period = periodSelect.value === 'week' ? 'week' : 'day';
+                this.renderRevenue();
+            });
+        }
+        this.render();
+    }
+
+    private render(): void {
+        document.getElementById('adminEmpty')?.classList.toggle('hidden', this.report.orderCount > 0);
+        this.renderKpis();
+        this.renderRevenue();
+        this.renderChart('adminCategoryChart', this.salesBars(this.report.byCategory), 'Revenue by category');
+        this.renderChart('adminDessertChart', this.salesBars(this.report.byDessert.slice(0, TOP_DESSERTS)), 'Revenue by dessert, top sellers');
+        this.renderPairs();
+    }
+
+    private renderKpis(): void {
+        const container = document.getElementById('adminKpis');
+        if (!container) return;
+
+        const { abandonment } = this.report;
+        const percent = new Intl.NumberFormat(undefined, { style: 'percent', maximumFractionDigits: 1 });
+        const kpis = [
+            { label: 'Revenue', value: this.format(this.report.revenue) },
+            { label: 'Orders', value: String(this.report.orderCount) },
+            { label: 'Average order', value: this.format(this.report.averageOrderValue) },
+            {
+                label: 'Cart abandonment',
+                value: percent.format(abandonment.rate),
+                detail: `${abandonment.abandoned} of ${abandonment.ordered + abandonment.abandoned} finished carts`
+            }
+        ];
+        container.replaceChildren(...kpis.map((kpi) => createElement(html`
+            <div class="admin-kpi">
+                <dt class="admin-kpi-label">${kpi.label}</dt>
+                <dd class="admin-kpi-value">${kpi.value}</dd>
+                ${kpi.detail ? html`<dd class="admin-kpi-detail">${kpi.detail}</dd>` : null}
+            </div>
+        `)));
+    }
+
+    private renderRevenue(): void {
+        const series = this.period === 'day' ? this.report.revenueByDay : this.report.revenueByWeek;
+        // Periods are calendar dates, so they're labelled as such whatever the viewer's time zone
+        const dateFormat = new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+        const bars = series.slice(-REVENUE_CHART_POINTS[this.period]).map((point) => ({
+            label: `${this.period === 'week' ? 'Week of ' : ''}${dateFormat.format(new Date(`${point.period}T00:00:00Z`))}`,
+            value: point.revenue.minor,
+            display: `${this.format(point.revenue)} (${point.orders} ${point.orders === 1 ? 'order' : 'orders'})`
+        }));
+        const title = this.period === 'day' ? 'Revenue per day' : 'Revenue per week';
+        const container = document.getElementById('adminRevenueChart');
+        if (container) container.replaceChildren(createElement<SVGSVGElement>(columnChart(bars, title)));
+    }
+
+    private renderChart(containerId: string, bars: ChartBar[], title: string): void {
+        const container = document.getElementById(containerId);
+        if (container) container.replaceChildren(createElement<SVGSVGElement>(barChart(bars, title)));
+    }
+
+    private renderPairs(): void {
+        const list = document.getElementById('adminPairs');
+        if (!list) return;
+
+        const percent = new Intl.NumberFormat(undefined, { style: 'percent', maximumFractionDigits: 1 });
+        const pairs = this.report.frequentPairs;
+        list.replaceChildren(...pairs.map((pair) => createElement(html`
+            <li class="admin-pair">
+                <span class="admin-pair-names">${pair.names[0]} + ${pair.names[1]}</span>
+                <span class="admin-pair-count">${pair.orders} ${pair.orders === 1 ? 'order' : 'orders'} (${percent.format(pair.share)})</span>
+            </li>
+        `)));
+        document.getElementById('adminPairsEmpty')?.classList.toggle('hidden', pairs.length > 0);
+    }
+
+    private salesBars<K extends string>(lines: SalesLine<K>[]): ChartBar[] {
+        return lines.map((line) => ({
+            label: line.label,
+            value: line.revenue.minor,
+            display: `${this.format(line.revenue)} · ${line.units} sold`
+        }));
+    }
+
+    private format(amount: Money): string {
+        return this.pricing.format(amount);
+    }
+}
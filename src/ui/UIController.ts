@@ -0,0 +1,2435 @@
+// Connects the page to the cart, catalog and orders
+import { Allergen, AppliedDiscount, BillShare, BillSplit, CartEvent, CartItem, CartLineId, CartSummary, CatalogLoadResult, CatalogPriceChange, CatalogProvider, CatalogQuery, CatalogSort, CheckoutDetails, CheckoutErrors, CheckoutField, CheckoutForm, CheckoutStep, ContactDetails, CustomerAccount, Dessert, DessertCategory, DessertId, DessertOption, DessertOptionGroup, DietaryConflictLine, DietaryProfile, DietaryTag, DroppedCartItem, Fulfilment, FulfilmentMethod, Logger, MessageKey, OptionSelectionErrors, Order, OrderDetails, OrderExportFormat, OrderLine, OutboxEvent, Participant, ParticipantId, PersistedState, PickupSlot, PointsPayment, PriceTotals, ReceiptOptions, ReorderChange, SelectedOptions, SignInErrors, SplitMode, StockShortage, StorageAdapter } from '../types/index.js';
+import { dessertsData, inventoryData } from '../data/desserts.js';
+import { i18nConfig, pickupConfig, pricingConfig, promoCodesData } from '../data/config.js';
+import { PricingContext } from '../components/PricingContext.js';
+import { Translator } from '../components/Translator.js';
+import { DiscountEngine, PromoCodeError } from '../components/DiscountEngine.js';
+import { InsufficientStockError, InventoryService, OrderNotFulfillableError } from '../components/InventoryService.js';
+import { DEFAULT_CATALOG_QUERY, parseCatalogQuery, queryCatalog, serializeCatalogQuery } from '../utils/catalogQuery.js';
+import { CatalogService, formatCatalogIssue, HttpCatalogProvider, StaticCatalogProvider } from '../components/CatalogService.js';
+import { ShoppingCart } from '../components/ShoppingCart.js';
+import { CartHistory } from '../components/CartHistory.js';
+import { CartSync, createSyncTransport } from '../components/CartSync.js';
+import { OrderManager } from '../components/OrderManager.js';
+import { HttpOrderSubmitter, OrderOutbox } from '../components/OrderOutbox.js';
+import { CartSessionTracker } from '../components/CartSessionTracker.js';
+import { CustomerAccounts, pointsBalance, validateSignIn } from '../components/CustomerAccounts.js';
+import { buildCheckoutDetails, CHECKOUT_STEPS, CheckoutValidationError, emptyCheckoutForm, getPickupSlots, validateCheckoutStep } from '../utils/checkout.js';
+import { createDefaultStorageAdapter, StatePersistence } from '../components/StatePersistence.js';
+import { html, SafeHtml } from '../utils/html.js';
+import { silentLogger } from '../utils/logger.js';
+import { negotiateLocale } from '../utils/i18n.js';
+import { Money } from '../utils/money.js';
+import { exportOrders } from '../utils/receipts.js';
+import { amountDue, pointsValue } from '../utils/loyalty.js';
+import { describeDietaryConflict, dietaryConflict, emptyDietaryProfile, findDietaryConflicts, hasDietaryNeeds, lineAllergens, lineDiets } from '../utils/dietary.js';
+import { cartLineId, describeOptions, hasOptions, lineIdOf, selectionLimits, validateOptions } from '../utils/options.js';
+import { createElement, patchKeyedChildren, RenderScheduler, setAttribute, setText } from './render.js';
+
+// How often lapsed reservations are swept, and when a card starts warning about low stock
+const RESERVATION_SWEEP_INTERVAL_MS = 30 * 1000;
+const LOW_STOCK_THRESHOLD = 5;
+// Layout breakpoints in px; keep in step with the @media rules in styles.css
+const IMAGE_BREAKPOINTS = { mobile: 768, tablet: 1200 };
+const FALLBACK_IMAGE = 'images/illustration-empty-cart.svg';
+const UNDO_TOAST_MS = 6 * 1000;
+// How often queued orders are checked for a retry that has come due
+const OUTBOX_FLUSH_INTERVAL_MS = 15 * 1000;
+// Past orders listed in the account panel, newest first
+const ACCOUNT_ORDERS_SHOWN = 10;
+
+/**
+ * Main UI Controller Class
+ * Handles all DOM interactions and connects UI with business logic
+ */
+export class UIController {
+    private cart: ShoppingCart;
+    private history: CartHistory;
+    private sync: CartSync | null = null;
+    private sessions: CartSessionTracker;
+    private accounts: CustomerAccounts;
+    private signInErrors: SignInErrors = {};
+    // Who new items are for in a group order; undefined adds shared items
+    private activeParticipantId: ParticipantId | undefined;
+    // Whether the customer chose to put their points towards this order
+    private usePoints = false;
+    private activeDialog: HTMLElement | null = null;
+    private dialogReturnFocus: HTMLElement | null = null;
+    private undoToastTimer: number | undefined;
+    private orderManager: OrderManager;
+    private outbox: OrderOutbox | null;
+    // Queued orders that didn't go through at once; the customer hears when they finally do
+    private delayedOrders: Set<string> = new Set();
+    private persistence: StatePersistence;
+    private discounts: DiscountEngine;
+    private pricing: PricingContext;
+    private translator: Translator;
+    private inventory: InventoryService;
+    private catalogQuery: CatalogQuery = { ...DEFAULT_CATALOG_QUERY };
+    private dietaryProfile: DietaryProfile = emptyDietaryProfile();
+    // The conflicts last listed in the checkout warning, so a tick only covers the lines the customer saw
+    private dietaryWarningShown = '';
+    private catalogService: CatalogService;
+    private catalog: Dessert[] = [];
+    private catalogStatus: 'loading' | 'ready' | 'error' = 'loading';
+    // Saved cart waiting for the first catalog load, so it can be matched against real desserts
+    private pendingCart: Pick<PersistedState, 'cart' | 'promoCodes' | 'group'> | null = null;
+    private checkoutForm: CheckoutForm = emptyCheckoutForm();
+    private checkoutStep: CheckoutStep = 'contact';
+    private checkoutErrors: CheckoutErrors = {};
+    private pickupSlots: PickupSlot[] = [];
+    // Order shown in the confirmation modal, for its print and download actions
+    private receiptOrderId: string | null = null;
+    // Dessert whose options are being picked
+    private optionsDessertId: DessertId | null = null;
+    private renderer = new RenderScheduler();
+
+    constructor(
+        storage: StorageAdapter = createDefaultStorageAdapter(),
+        catalogProvider: CatalogProvider = createCatalogProvider(),
+        private logger: Logger = silentLogger
+    ) {
+        const pricing = new PricingContext(pricingConfig);
+        const discounts = new DiscountEngine(promoCodesData, pricing);
+        const inventory = new InventoryService(inventoryData);
+        this.cart = new ShoppingCart(pricing, discounts, inventory);
+        // Another tab's edits are logged but aren't ours to undo
+        this.history = new CartHistory(this.cart, () => this.sync?.isApplyingRemote === true);
+        this.orderManager = new OrderManager(pricing, discounts, inventory);
+        this.pricing = pricing;
+        const locales = i18nConfig.locales.map((locale) => locale.code);
+        this.translator = new Translator(i18nConfig, negotiateLocale(navigator.languages, locales) ?? i18nConfig.defaultLocale);
+        this.discounts = discounts;
+        this.inventory = inventory;
+        this.persistence = new StatePersistence(storage, this.logger);
+        this.sessions = new CartSessionTracker(storage);
+        this.accounts = new CustomerAccounts(storage, pricing);
+        this.outbox = createOrderOutbox(storage);
+        this.catalogService = new CatalogService(catalogProvider, storage, new StaticCatalogProvider(dessertsData), undefined, this.logger);
+        this.init();
+    }
+
+    /**
+     * Initialize the application
+     */
+    private init(): void {
+        this.setupCartEventListeners();
+        this.setupCheckout();
+        this.setupOptionPicker();
+        this.setupUndoShortcuts();
+        this.setupDialogKeyboard();
+        this.setupCartSync();
+        this.setupReceiptActions();
+        this.setupOrderOutbox();
+        this.restoreState();
+        this.applyStaticText();
+        this.renderLocaleSelect();
+        this.renderRegionSelect();
+        this.catalogQuery = parseCatalogQuery(window.location.search);
+        this.setupCatalogToolbar();
+        this.setupDietaryProfile();
+        this.setupAccount();
+        this.setupGroupOrder();
+        this.updateCartUI();
+        void this.loadCatalog();
+        // Orders queued on a previous visit
+        this.flushOutbox();
+
+        // Release cart reservations that have lapsed
+        window.setInterval(() => this.inventory.expireReservations(), RESERVATION_SWEEP_INTERVAL_MS);
+    }
+
+    /**
+     * Mirror cart changes to and from other tabs of the shop
+     */
+    private setupCartSync(): void {
+        const transport = createSyncTransport();
+        if (!transport) return;
+
+        this.sync = new CartSync(this.cart, transport, (dessertId) => this.catalog.find((d) => d.id === dessertId), this.logger);
+        this.sync.subscribe((event) => {
+            if (event.type === 'remote-order-confirmed') this.handleRemoteOrderConfirmed();
+        });
+    }
+
+    /**
+     * Another tab placed the order for this cart: pick up its orders and stock, and close anything
+     * that would let the customer act on the old cart
+     */
+    private handleRemoteOrderConfirmed(): void {
+        const state = this.persistence.load();
+        if (state) {
+            this.discounts.restoreUsage(state.promoUsage);
+            this.inventory.restore(state.stock);
+            this.orderManager.restore(state.orders, state.orderCounter);
+        }
+        // The cart became an order, as when it is confirmed here
+        this.history.reset();
+
+        this.closeCheckout();
+        this.hideUndoToast();
+        // The order went to the account signed in there, which this tab shares
+        this.renderAccount();
+        const orderModal = document.getElementById('orderModal');
+        if (orderModal) this.closeDialog(orderModal);
+        this.showNotice(this.translator.t('notice.remoteOrder'));
+    }
+
+    /**
+     * Show when the device is offline, and send queued orders when the connection returns
+     * and whenever a retry comes due
+     */
+    private setupOrderOutbox(): void {
+        const renderConnection = () => document.getElementById('connectionStatus')?.classList.toggle('hidden', navigator.onLine);
+        renderConnection();
+        window.addEventListener('offline', renderConnection);
+        window.addEventListener('online', () => {
+            renderConnection();
+            this.flushOutbox(true);
+        });
+
+        if (!this.outbox) return;
+        this.outbox.subscribe((event) => this.handleOutboxEvent(event));
+        window.setInterval(() => this.flushOutbox(), OUTBOX_FLUSH_INTERVAL_MS);
+    }
+
+    /**
+     * Try the queued orders, unless the browser knows there is no connection
+     */
+    private flushOutbox(force: boolean = false): void {
+        if (!this.outbox || !navigator.onLine) return;
+        void this.outbox.flush(force);
+    }
+
+    private handleOutboxEvent(event: OutboxEvent): void {
+        if (event.type === 'order-queued' || event.type === 'order-retry-scheduled') {
+            const orderId = event.entry.orderId;
+            if (event.type === 'order-retry-scheduled') this.delayedOrders.add(orderId);
+            if (this.orderManager.getOrder(orderId)) this.orderManager.setSyncStatus(orderId, 'pending-sync');
+        } else {
+            const { orderId } = event;
+            const delayed = this.delayedOrders.delete(orderId);
+            // The order may have been placed in another tab
+            if (this.orderManager.getOrder(orderId)) this.orderManager.setSyncStatus(orderId, event.type === 'order-submitted' ? 'synced' : 'rejected');
+            if (event.type === 'order-rejected') {
+                this.logger.warn(`Order ${orderId} was rejected by the order endpoint`, event.error);
+                this.showNotice(this.translator.t('notice.orderRejected', { id: orderId }));
+            } else if (delayed) {
+                this.showNotice(this.translator.t('notice.orderSynced', { id: orderId }));
+            }
+        }
+        this.renderOrderSyncStatus();
+    }
+
+    /**
+     * Tell the customer whether the order in the confirmation modal has reached the shop yet
+     */
+    private renderOrderSyncStatus(): void {
+        const status = document.getElementById('modalOrderSync');
+        if (!status) return;
+
+        const order = this.receiptOrderId ? this.orderManager.getOrder(this.receiptOrderId) : undefined;
+        let message = '';
+        if (order?.syncStatus === 'pending-sync') message = this.translator.t('order.pendingSync');
+        else if (order?.syncStatus === 'rejected') message = this.translator.t('order.syncRejected');
+        status.textContent = message;
+        status.classList.toggle('hidden', message === '');
+    }
+
+    /**
+     * Rehydrate cart and orders saved by a previous visit
+     */
+    private restoreState(): void {
+        const state = this.persistence.load();
+        if (!state) return;
+
+        if (this.pricing.hasRegion(state.region)) this.pricing.setRegion(state.region);
+        if (this.translator.hasLocale(state.locale)) this.translator.setLocale(state.locale);
+        this.dietaryProfile = state.dietaryProfile;
+        this.discounts.restoreUsage(state.promoUsage);
+        this.inventory.restore(state.stock);
+        this.orderManager.restore(state.orders, state.orderCounter);
+        this.pendingCart = { cart: state.cart, promoCodes: state.promoCodes, group: state.group };
+    }
+
+    /**
+     * Fetch the catalog, showing a loading state until it arrives and a retry prompt if it fails
+     */
+    private async loadCatalog(): Promise<void> {
+        this.catalogStatus = 'loading';
+        this.renderDesserts();
+        try {
+            this.applyCatalog(await this.catalogService.load());
+        } catch (error) {
+            this.logger.error('Failed to load the dessert catalog', error);
+            this.catalogStatus = 'error';
+            this.renderDesserts();
+        }
+    }
+
+    /**
+     * Swap in a newly loaded catalog and bring the cart in line with it
+     */
+    private applyCatalog(result: CatalogLoadResult): void {
+        if (result.issues.length > 0) {
+            this.logger.warn(`Skipped invalid catalog entries:\n${result.issues.map(formatCatalogIssue).join('\n')}`);
+        }
+
+        this.catalog = result.desserts;
+        this.catalogStatus = 'ready';
+        if (this.pendingCart) {
+            const saved = this.pendingCart;
+            this.pendingCart = null;
+            this.cart.restore(saved.cart, this.catalog, saved.promoCodes, saved.group);
+        } else {
+            this.cart.reconcile(this.catalog);
+        }
+        this.renderDesserts();
+    }
+
+    /**
+     * Save current cart and orders
+     */
+    private saveState(): void {
+        this.persistence.save({
+            cart: this.pendingCart ? this.pendingCart.cart : this.cart.snapshot(),
+            promoCodes: this.pendingCart ? this.pendingCart.promoCodes : this.cart.getPromoCodes(),
+            group: this.pendingCart ? this.pendingCart.group : this.cart.getGroup(),
+            promoUsage: this.discounts.getUsage(),
+            region: this.pricing.regionId,
+            locale: this.translator.locale,
+            dietaryProfile: this.dietaryProfile,
+            stock: this.inventory.snapshot(),
+            orders: this.orderManager.getAllOrders(),
+            orderCounter: this.orderManager.counter
+        });
+    }
+
+    /**
+     * Populate the region picker and switch pricing on change
+     */
+    private renderRegionSelect(): void {
+        const select = document.getElementById('regionSelect') as HTMLSelectElement | null;
+        if (!select) return;
+
+        select.replaceChildren();
+        this.pricing.getRegions().forEach((region) => {
+            const option = document.createElement('option');
+            option.value = region.id;
+            option.textContent = `${region.name} (${region.currency})`;
+            option.selected = region.id === this.pricing.regionId;
+            select.appendChild(option);
+        });
+
+        select.addEventListener('change', () => this.handleRegionChange(select.value));
+    }
+
+    /**
+     * Handle region change: reprice the catalog and cart in the new currency
+     */
+    private handleRegionChange(regionId: string): void {
+        this.pricing.setRegion(regionId);
+        this.renderAccount();
+        this.renderDesserts();
+        this.updateCartUI();
+        this.saveState();
+    }
+
+    /**
+     * Populate the language picker and switch the shop's language on change
+     */
+    private renderLocaleSelect(): void {
+        const select = document.getElementById('localeSelect') as HTMLSelectElement | null;
+        if (!select) return;
+
+        select.replaceChildren();
+        this.translator.getLocales().forEach((locale) => {
+            const option = document.createElement('option');
+            option.value = locale.code;
+            option.lang = locale.code;
+            option.textContent = locale.name;
+            option.selected = locale.code === this.translator.locale;
+            select.appendChild(option);
+        });
+
+        select.addEventListener('change', () => this.handleLocaleChange(select.value));
+    }
+
+    /**
+     * Handle language change: redraw everything with text in place, without reloading the page
+     */
+    private handleLocaleChange(locale: string): void {
+        if (!this.translator.hasLocale(locale)) return;
+        this.translator.setLocale(locale);
+        this.applyStaticText();
+        this.renderCategoryChips();
+        this.syncCatalogToolbar();
+        this.renderDietaryProfile();
+        this.renderAccount();
+        this.renderGroupOrder();
+        this.renderDesserts();
+        this.updateCartUI();
+        this.saveState();
+    }
+
+    /**
+     * Translate the page's fixed text: elements marked with data-i18n get their text, and
+     * data-i18n-placeholder and data-i18n-aria-label their attributes
+     */
+    private applyStaticText(): void {
+        const t = (key: string | undefined) => this.translator.t(key as MessageKey);
+        document.documentElement.lang = this.translator.locale;
+        document.title = t('app.title');
+
+        document.querySelectorAll('[data-i18n]').forEach((element) => {
+            element.textContent = t((element as HTMLElement).dataset.i18n);
+        });
+        document.querySelectorAll('[data-i18n-placeholder]').forEach((element) => {
+            element.setAttribute('placeholder', t((element as HTMLElement).dataset.i18nPlaceholder));
+        });
+        document.querySelectorAll('[data-i18n-aria-label]').forEach((element) => {
+            element.setAttribute('aria-label', t((element as HTMLElement).dataset.i18nAriaLabel));
+        });
+
+        // The emphasis sits in the middle of the sentence, wherever each language puts it
+        const carbonNeutral = document.getElementById('carbonNeutralText');
+        if (carbonNeutral) {
+            const emphasis = createElement(html`<strong>${t('cart.carbonNeutralEmphasis')}</strong>`);
+            carbonNeutral.replaceChildren(...this.translator.parts('cart.carbonNeutral', { emphasis }));
+        }
+    }
+
+    /**
+     * One chip per category, labelled in the current language
+     */
+    private renderCategoryChips(): void {
+        const categories = document.getElementById('categoryFilters');
+        if (!categories) return;
+
+        categories.replaceChildren();
+        Object.values(DessertCategory).forEach((category) => {
+            categories.appendChild(createElement(html`
+                <label class="category-chip">
+                    <input type="checkbox" value="${category}">
+                    <span>${this.translator.category(category)}</span>
+                </label>
+            `));
+        });
+    }
+
+    /**
+     * Build the category chips and wire the search, filter and sort controls
+     */
+    private setupCatalogToolbar(): void {
+        const search = document.getElementById('catalogSearch') as HTMLInputElement | null;
+        const categories = document.getElementById('categoryFilters');
+        const minPrice = document.getElementById('priceMin') as HTMLInputElement | null;
+        const maxPrice = document.getElementById('priceMax') as HTMLInputElement | null;
+        const inStockOnly = document.getElementById('inStockOnly') as HTMLInputElement | null;
+        const sort = document.getElementById('catalogSort') as HTMLSelectElement | null;
+        const clear = document.getElementById('clearFilters');
+
+        if (categories) {
+            this.renderCategoryChips();
+            categories.addEventListener('change', () => {
+                const checked = Array.from(categories.querySelectorAll('input:checked')) as HTMLInputElement[];
+                this.updateCatalogQuery({ categories: checked.map((input) => input.value as DessertCategory) });
+            });
+        }
+
+        const readPrice = (input: HTMLInputElement): number | undefined => {
+            const value = input.value === '' ? NaN : Number(input.value);
+            return Number.isFinite(value) && value >= 0 ? value : undefined;
+        };
+
+        search?.addEventListener('input', () => this.updateCatalogQuery({ search: search.value }));
+        minPrice?.addEventListener('change', () => this.updateCatalogQuery({ minPrice: readPrice(minPrice) }));
+        maxPrice?.addEventListener('change', () => this.updateCatalogQuery({ maxPrice: readPrice(maxPrice) }));
+        inStockOnly?.addEventListener('change', () => this.updateCatalogQuery({ inStockOnly: inStockOnly.checked }));
+        sort?.addEventListener('change', () => this.updateCatalogQuery({ sort: sort.value as CatalogSort }));
+        clear?.addEventListener('click', () => {
+            this.catalogQuery = { ...DEFAULT_CATALOG_QUERY };
+            this.syncCatalogToolbar();
+            this.commitCatalogQuery();
+        });
+
+        // Back/forward between filtered views
+        window.addEventListener('popstate', () => {
+            this.catalogQuery = parseCatalogQuery(window.location.search);
+            this.syncCatalogToolbar();
+            this.renderDesserts();
+        });
+
+        this.syncCatalogToolbar();
+    }
+
+    /**
+     * Reflect the active catalog query in the toolbar controls
+     */
+    private syncCatalogToolbar(): void {
+        const query = this.catalogQuery;
+        const search = document.getElementById('catalogSearch') as HTMLInputElement | null;
+        const minPrice = document.getElementById('priceMin') as HTMLInputElement | null;
+        const maxPrice = document.getElementById('priceMax') as HTMLInputElement | null;
+        const inStockOnly = document.getElementById('inStockOnly') as HTMLInputElement | null;
+        const sort = document.getElementById('catalogSort') as HTMLSelectElement | null;
+
+        if (search) search.value = query.search;
+        if (minPrice) minPrice.value = query.minPrice === undefined ? '' : String(query.minPrice);
+        if (maxPrice) maxPrice.value = query.maxPrice === undefined ? '' : String(query.maxPrice);
+        if (inStockOnly) inStockOnly.checked = query.inStockOnly;
+        if (sort) sort.value = query.sort;
+
+        const chips = Array.from(document.querySelectorAll('#categoryFilters input')) as HTMLInputElement[];
+        chips.forEach((input) => (input.checked = query.categories.includes(input.value as DessertCategory)));
+    }
+
+    /**
+     * Merge a change into the catalog query, then update the URL and grid
+     */
+    private updateCatalogQuery(change: Partial<CatalogQuery>): void {
+        const query: CatalogQuery = { ...this.catalogQuery, ...change };
+        if (query.minPrice === undefined) delete query.minPrice;
+        if (query.maxPrice === undefined) delete query.maxPrice;
+        this.catalogQuery = query;
+        this.commitCatalogQuery();
+    }
+
+    /**
+     * Write the catalog query to the URL so the view can be shared or reloaded, and re-render
+     */
+    private commitCatalogQuery(): void {
+        const url = `${window.location.pathname}${serializeCatalogQuery(this.catalogQuery)}${window.location.hash}`;
+        window.history.replaceState(null, '', url);
+        this.renderDesserts();
+    }
+
+    /**
+     * Wire the allergies and diet panel; a change re-checks the grid and the cart
+     */
+    private setupDietaryProfile(): void {
+        const avoid = document.getElementById('dietaryAvoid');
+        const diets = document.getElementById('dietaryDiets');
+        const hide = document.getElementById('dietaryHide') as HTMLInputElement | null;
+        if (!avoid || !diets || !hide) return;
+
+        const checked = (container: HTMLElement) =>
+            (Array.from(container.querySelectorAll('input:checked')) as HTMLInputElement[]).map((input) => input.value);
+        avoid.addEventListener('change', () => this.updateDietaryProfile({ avoid: checked(avoid) as Allergen[] }));
+        diets.addEventListener('change', () => this.updateDietaryProfile({ diets: checked(diets) as DietaryTag[] }));
+        hide.addEventListener('change', () => this.updateDietaryProfile({ hideConflicts: hide.checked }));
+
+        this.renderDietaryProfile();
+    }
+
+    /**
+     * One checkbox per allergen and diet, labelled in the current language and ticked from the profile
+     */
+    private renderDietaryProfile(): void {
+        const avoid = document.getElementById('dietaryAvoid');
+        const diets = document.getElementById('dietaryDiets');
+        const hide = document.getElementById('dietaryHide') as HTMLInputElement | null;
+        const profile = this.dietaryProfile;
+
+        this.renderDietarySummary();
+        avoid?.replaceChildren(...Object.values(Allergen).map((allergen) => this.createDietaryChip(allergen, this.translator.allergen(allergen), profile.avoid.includes(allergen))));
+        diets?.replaceChildren(...Object.values(DietaryTag).map((diet) => this.createDietaryChip(diet, this.translator.diet(diet), profile.diets.includes(diet))));
+        if (hide) hide.checked = profile.hideConflicts;
+    }
+
+    private createDietaryChip(value: string, label: string, checked: boolean): HTMLElement {
+        const chip = createElement(html`
+            <label class="category-chip">
+                <input type="checkbox" value="${value}">
+                <span>${label}</span>
+            </label>
+        `);
+        (chip.querySelector('input') as HTMLInputElement).checked = checked;
+        return chip;
+    }
+
+    /**
+     * The panel's heading, with how many needs are declared
+     */
+    private renderDietarySummary(): void {
+        const { avoid, diets } = this.dietaryProfile;
+        setText(document.getElementById('dietaryProfileSummary'), this.translator.t('dietary.title', { count: avoid.length + diets.length }));
+    }
+
+    /**
+     * Merge a change into the profile; the checkboxes already show it, so only the summary is redrawn
+     */
+    private updateDietaryProfile(change: Partial<DietaryProfile>): void {
+        this.dietaryProfile = { ...this.dietaryProfile, ...change };
+        this.renderDietarySummary();
+        this.renderDesserts();
+        this.updateCartUI();
+        this.saveState();
+    }
+
+    /**
+     * Wire the account panel: sign in and out, and rebuild the cart from a past order. Confirmed orders
+     * reach the signed-in account through the order manager's events.
+     */
+    private setupAccount(): void {
+        const form = document.getElementById('signInForm') as HTMLFormElement | null;
+        form?.addEventListener('submit', (event) => {
+            event.preventDefault();
+            this.handleSignIn(form);
+        });
+        form?.addEventListener('input', (event) => {
+            const field = (event.target as HTMLInputElement).name as keyof SignInErrors;
+            this.showSignInErrors(form, { ...this.signInErrors, [field]: undefined }, false);
+        });
+        document.getElementById('signOutBtn')?.addEventListener('click', () => this.accounts.signOut());
+        document.getElementById('accountOrders')?.addEventListener('click', (event) => {
+            const button = (event.target as HTMLElement).closest('.reorder-btn') as HTMLElement | null;
+            if (button?.dataset.orderId) this.handleReorder(button.dataset.orderId);
+        });
+
+        this.orderManager.subscribe((event) => this.accounts.handleOrderEvent(event));
+        this.accounts.subscribe(() => this.renderAccount());
+        this.renderAccount();
+    }
+
+    /**
+     * Sign in, or create the account when the email is new; the name is only needed then
+     */
+    private handleSignIn(form: HTMLFormElement): void {
+        const email = (form.elements.namedItem('email') as HTMLInputElement).value;
+        const name = (form.elements.namedItem('name') as HTMLInputElement).value;
+        const errors = validateSignIn(email, name, !this.accounts.hasAccount(email), this.translator);
+        if (this.showSignInErrors(form, errors, true)) return;
+
+        form.reset();
+        this.accounts.signIn(email, name);
+    }
+
+    private showSignInErrors(form: HTMLFormElement, errors: SignInErrors, focus: boolean): boolean {
+        this.signInErrors = errors;
+        let firstInvalid: HTMLElement | null = null;
+        form.querySelectorAll('[data-error-for]').forEach((element) => {
+            const message = errors[(element as HTMLElement).dataset.errorFor as keyof SignInErrors];
+            const label = element.closest('.checkout-field');
+            const input = label?.querySelector('input') as HTMLElement | null;
+
+            element.textContent = message ?? '';
+            label?.classList.toggle('invalid', !!message);
+            if (input) input.setAttribute('aria-invalid', String(!!message));
+            if (message && !firstInvalid) firstInvalid = input;
+        });
+
+        if (focus) (firstInvalid as HTMLElement | null)?.focus();
+        return Object.values(errors).some((message) => !!message);
+    }
+
+    /**
+     * The panel's heading, and either the sign-in form or the account's points and past orders
+     */
+    private renderAccount(): void {
+        const account = this.accounts.active;
+        const summary = account
+            ? this.translator.t('account.summary', { name: account.name, count: pointsBalance(account) })
+            : this.translator.t('account.signedOut');
+        setText(document.getElementById('accountSummary'), summary);
+        document.getElementById('signInForm')?.classList.toggle('hidden', !!account);
+        document.getElementById('accountDetails')?.classList.toggle('hidden', !account);
+        if (!account) return;
+
+        const balance = pointsBalance(account);
+        const worth = this.pricing.format(pointsValue(Math.max(0, balance), this.pricing, this.accounts.loyalty));
+        setText(document.getElementById('accountBalance'), this.translator.t('account.balance', { count: balance, amount: worth }));
+
+        const orders = [...account.orders].reverse().slice(0, ACCOUNT_ORDERS_SHOWN);
+        document.getElementById('accountNoOrders')?.classList.toggle('hidden', orders.length > 0);
+        document.getElementById('accountOrders')?.replaceChildren(...orders.map((order) => this.createAccountOrderElement(order)));
+    }
+
+    private createAccountOrderElement(order: Order): HTMLElement {
+        const date = new Intl.DateTimeFormat(this.translator.locale, { dateStyle: 'medium' }).format(order.details.createdAt);
+        const count = order.details.items.reduce((sum, item) => sum + item.quantity, 0);
+        const summary = this.translator.t('account.orderSummary', { date, count, total: this.pricing.format(order.details.total) });
+        return createElement(html`
+            <li class="account-order">
+                <span>${summary}</span>
+                <button type="button" class="reorder-btn" data-order-id="${order.id}" aria-label="${`${this.translator.t('account.reorder')}: ${summary}`}">${this.translator.t('account.reorder')}</button>
+            </li>
+        `);
+    }
+
+    /**
+     * Replace the cart with a past order, suggesting only substitutes that suit the dietary profile
+     */
+    private handleReorder(orderId: string): void {
+        const order = this.accounts.active?.orders.find((o) => o.id === orderId);
+        if (!order || this.catalogStatus !== 'ready') return;
+
+        const changes = this.cart.reorder(order, this.catalog, (dessert) => !dietaryConflict(dessert, this.dietaryProfile));
+        this.showReorderNotice(changes);
+        document.getElementById('cartTitle')?.focus();
+    }
+
+    /**
+     * Tell the customer how the rebuilt cart differs from the order they placed
+     */
+    private showReorderNotice(changes: ReorderChange[]): void {
+        if (changes.length === 0) {
+            this.showNotice(this.translator.t('notice.reordered'));
+            return;
+        }
+        const described = changes.map((change) => {
+            const name = this.translator.dessertName(change.dessert);
+            switch (change.kind) {
+                case 'substituted':
+                    return this.translator.t('notice.reorder.substituted', { name, substitute: this.translator.dessertName(change.substitute), quantity: change.quantity });
+                case 'skipped':
+                    return this.translator.t(`notice.dropped.${change.reason}`, { name, quantity: change.quantity });
+                case 'reduced':
+                    return this.translator.t('notice.reorder.reduced', { name, quantity: change.quantity, requested: change.requested });
+                case 'price-changed': {
+                    const previous = this.pricing.format(this.pricing.fromBase(change.previous));
+                    const current = this.pricing.format(this.pricing.fromBase(change.current));
+                    return this.translator.t('notice.priceChange', { name, previous, current });
+                }
+            }
+        });
+        this.showNotice(this.translator.t('notice.reorderChanges', { items: described.join(', ') }));
+    }
+
+    /**
+     * Wire the group order panel: who is ordering, who new items are for, and how the bill is split
+     */
+    private setupGroupOrder(): void {
+        document.getElementById('startGroupBtn')?.addEventListener('click', () => {
+            this.cart.startGroupOrder();
+            document.getElementById('participantName')?.focus();
+        });
+        document.getElementById('endGroupBtn')?.addEventListener('click', () => {
+            this.cart.endGroupOrder();
+            document.getElementById('startGroupBtn')?.focus();
+        });
+        const form = document.getElementById('participantForm');
+        form?.addEventListener('submit', (event) => {
+            event.preventDefault();
+            this.handleAddParticipant();
+        });
+
+        const chips = document.getElementById('participantChips');
+        chips?.addEventListener('change', (event) => {
+            const value = (event.target as HTMLInputElement).value;
+            this.activeParticipantId = value === '' ? undefined : value;
+            this.updateDessertCards();
+        });
+        chips?.addEventListener('click', (event) => {
+            const button = (event.target as HTMLElement).closest('.participant-remove-btn') as HTMLElement | null;
+            if (!button?.dataset.participantId) return;
+            this.cart.removeParticipant(button.dataset.participantId);
+            this.renderer.flush();
+            (chips.querySelector('input') as HTMLElement | null)?.focus();
+        });
+        document.getElementById('splitMode')?.addEventListener('change', (event) => {
+            this.cart.setSplitMode((event.target as HTMLInputElement).value as SplitMode);
+        });
+
+        this.renderGroupOrder();
+    }
+
+    /**
+     * Add someone to the group order; the items added next are theirs
+     */
+    private handleAddParticipant(): void {
+        const input = document.getElementById('participantName') as HTMLInputElement | null;
+        const error = document.getElementById('participantError');
+        if (!input || !error) return;
+
+        const name = input.value.trim();
+        error.textContent = name ? '' : this.translator.t('group.nameRequired');
+        error.classList.toggle('hidden', name !== '');
+        input.setAttribute('aria-invalid', String(name === ''));
+        if (!name) {
+            input.focus();
+            return;
+        }
+
+        const participant = this.cart.addParticipant(name);
+        this.activeParticipantId = participant.id;
+        input.value = '';
+        this.renderGroupOrder();
+        this.updateDessertCards();
+    }
+
+    /**
+     * The panel's heading, and either the offer to start a group order or its people and split mode
+     */
+    private renderGroupOrder(): void {
+        const group = this.cart.getGroup();
+        if (!group?.participants.some((participant) => participant.id === this.activeParticipantId)) this.activeParticipantId = undefined;
+        setText(document.getElementById('groupSummary'), group ? this.translator.t('group.summary', { count: group.participants.length }) : this.translator.t('group.title'));
+        document.getElementById('groupStart')?.classList.toggle('hidden', !!group);
+        document.getElementById('groupDetails')?.classList.toggle('hidden', !group);
+        if (!group) return;
+
+        const shared = this.createParticipantChip({ id: '', name: this.translator.t('group.shared') }, this.activeParticipantId === undefined, false);
+        const people = group.participants.map((participant) => this.createParticipantChip(participant, participant.id === this.activeParticipantId, true));
+        document.getElementById('participantChips')?.replaceChildren(shared, ...people);
+        document.querySelectorAll<HTMLInputElement>('#splitMode input').forEach((input) => (input.checked = input.value === group.split));
+    }
+
+    private createParticipantChip(participant: Participant, checked: boolean, removable: boolean): HTMLElement {
+        const chip = createElement(html`
+            <span class="category-chip participant-chip">
+                <label>
+                    <input type="radio" name="participant" value="${participant.id}">
+                    <span>${participant.name}</span>
+                </label>
+                ${removable
+                    ? html`<button type="button" class="participant-remove-btn" data-participant-id="${participant.id}" aria-label="${this.translator.t('group.remove', { name: participant.name })}">×</button>`
+                    : null}
+            </span>
+        `);
+        (chip.querySelector('input') as HTMLInputElement).checked = checked;
+        return chip;
+    }
+
+    /**
+     * Each person's share of a group order, or nothing when the order isn't split
+     */
+    private renderBillSplit(container: HTMLElement | null, split: BillSplit | undefined): void {
+        if (!container) return;
+        container.classList.toggle('hidden', !split);
+        if (!split) {
+            container.replaceChildren();
+            return;
+        }
+        const title = createElement(html`<h3 class="bill-split-title">${this.translator.t(split.mode === 'equal' ? 'group.shares.equal' : 'group.shares.byItem')}</h3>`);
+        container.replaceChildren(title, ...split.shares.map((share) => this.createBillShareElement(share)));
+    }
+
+    private createBillShareElement(share: BillShare): HTMLElement {
+        const t = this.translator;
+        const detail = [
+            t.t('group.share.items', { amount: this.pricing.format(share.subtotal) }),
+            share.discount.isZero() ? '' : t.t('group.share.discount', { amount: this.pricing.format(share.discount) }),
+            t.t('group.share.tax', { amount: this.pricing.format(share.tax) }),
+            share.deliveryFee.isZero() ? '' : t.t('group.share.delivery', { amount: this.pricing.format(share.deliveryFee) })
+        ].filter((part) => part !== '').join(', ');
+        return createElement(html`
+            <div class="bill-share">
+                <span>
+                    <span class="bill-share-name">${share.name}</span>
+                    <span class="bill-share-detail">${detail}</span>
+                </span>
+                <span class="bill-share-total">${this.pricing.format(share.total)}</span>
+            </div>
+        `);
+    }
+
+    /**
+     * Show the loading, error or empty-catalog message above the grid
+     */
+    private renderCatalogStatus(): void {
+        const status = document.getElementById('catalogStatus');
+        const text = document.getElementById('catalogStatusText');
+        const retry = document.getElementById('catalogRetry');
+        if (!status || !text) return;
+
+        const messages = {
+            loading: this.translator.t('catalog.loading'),
+            error: this.translator.t('catalog.loadFailed'),
+            ready: this.catalog.length === 0 ? this.translator.t('catalog.unavailable') : ''
+        };
+        text.textContent = messages[this.catalogStatus];
+        status.classList.toggle('hidden', messages[this.catalogStatus] === '');
+        status.classList.toggle('error', this.catalogStatus === 'error');
+        retry?.classList.toggle('hidden', this.catalogStatus !== 'error');
+    }
+
+    /**
+     * Render the dessert cards matching the active catalog query, reusing the cards already on screen
+     */
+    private renderDesserts(): void {
+        const grid = document.getElementById('dessertsGrid');
+        if (!grid) return;
+
+        this.renderCatalogStatus();
+
+        const unitsSold = this.orderManager.getUnitsSold();
+        const profile = this.dietaryProfile;
+        const desserts = queryCatalog(this.catalog, this.catalogQuery, {
+            price: (dessert) => this.pricing.unitPrice(dessert),
+            isAvailable: (dessert) => dessert.inStock && this.inventory.getAvailable(dessert.id, this.cart.id) > 0,
+            popularity: (dessertId) => unitsSold[dessertId] ?? 0,
+            text: (dessert) => ({
+                name: this.translator.dessertName(dessert),
+                category: this.translator.category(dessert.category),
+                description: this.translator.dessertDescription(dessert)
+            })
+        }).filter((dessert) => !(profile.hideConflicts && dietaryConflict(dessert, profile)));
+
+        patchKeyedChildren(
+            grid,
+            desserts,
+            (dessert) => dessert.id,
+            (dessert) => this.createDessertCard(dessert),
+            (card, dessert) => this.updateDessertCard(card, dessert)
+        );
+
+        const empty = document.getElementById('catalogEmpty');
+        if (empty) {
+            empty.classList.toggle('hidden', desserts.length > 0 || this.catalog.length === 0);
+        }
+
+        this.updateDessertCards();
+    }
+
+    /**
+     * Create a dessert card element; its cart and stock state is filled in by updateDessertCards
+     */
+    private createDessertCard(dessert: Dessert): HTMLElement {
+        const name = this.translator.dessertName(dessert);
+        const t = (key: MessageKey) => this.translator.t(key, { name });
+        const card = createElement(html`
+            <article class="dessert-card" data-dessert-id="${dessert.id}" aria-labelledby="dessert-name-${dessert.id}">
+                <div class="dessert-image-container">
+                    ${this.dessertPicture(dessert)}
+                    <button type="button" class="add-to-cart-btn" data-dessert-id="${dessert.id}" aria-label="${t('card.addLabel')}">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="21" height="20" fill="none" viewBox="0 0 21 20" aria-hidden="true" focusable="false">
+                            <g fill="#C73B0F" clip-path="url(#a)">
+                                <path d="M6.583 18.75a1.25 1.25 0 1 0 0-2.5 1.25 1.25 0 0 0 0 2.5ZM15.334 18.75a1.25 1.25 0 1 0 0-2.5 1.25 1.25 0 0 0 0 2.5ZM3.446 1.752a.625.625 0 0 0-.613-.502h-2.5V2.5h1.988l2.4 11.998a.625.625 0 0 0 .612.502h11.25v-1.25H5.847l-.5-2.5h11.238a.625.625 0 0 0 .61-.49l1.417-6.385h-1.28L16.083 10H5.096l-1.65-8.248Z"/>
+                                <path d="M11.584 3.75v-2.5h-1.25v2.5h-2.5V5h2.5v2.5h1.25V5h2.5V3.75h-2.5Z"/>
+                            </g>
+                            <defs>
+                                <clipPath id="a"><path fill="#fff" d="M.333 0h20v20h-20z"/></clipPath>
+                            </defs>
+                        </svg>
+                        <span class="add-to-cart-text">${t('card.addToCart')}</span>
+                    </button>
+                    <div class="quantity-control hidden" data-dessert-id="${dessert.id}" role="group" aria-label="${t('card.quantityLabel')}">
+                        <button type="button" class="quantity-btn decrement" data-action="decrement" data-dessert-id="${dessert.id}" aria-label="${t('card.decrementLabel')}">
+                            <svg xmlns="http://www.w3.org/2000/svg" width="10" height="2" fill="none" viewBox="0 0 10 2" aria-hidden="true" focusable="false">
+                                <path fill="currentColor" d="M0 .375h10v1.25H0V.375Z"/>
+                            </svg>
+                        </button>
+                        <span class="quantity-value">0</span>
+                        <button type="button" class="quantity-btn increment" data-action="increment" data-dessert-id="${dessert.id}" aria-label="${t('card.incrementLabel')}">
+                            <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" fill="none" viewBox="0 0 10 10" aria-hidden="true" focusable="false">
+                                <path fill="currentColor" d="M10 4.375H5.625V0h-1.25v4.375H0v1.25h4.375V10h1.25V5.625H10v-1.25Z"/>
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+                <div class="dessert-info">
+                    <p class="dessert-category">${this.translator.category(dessert.category)}</p>
+                    <h3 class="dessert-name" id="dessert-name-${dessert.id}">${name}</h3>
+                    <p class="dessert-price">${this.pricing.format(this.pricing.unitPrice(dessert))}</p>
+                    <p class="dessert-stock hidden"></p>
+                    <ul class="dessert-tags hidden"></ul>
+                    <p class="dessert-allergens hidden"></p>
+                    <p class="dessert-dietary-warning hidden"></p>
+                </div>
+            </article>
+        `);
+        this.renderDessertDietary(card, dessert);
+
+        // Cards outlive catalog refreshes, so handlers go by id rather than holding on to this dessert
+        const addToCartBtn = card.querySelector('.add-to-cart-btn') as HTMLButtonElement;
+        const decrementBtn = card.querySelector('.quantity-btn.decrement') as HTMLButtonElement;
+        const incrementBtn = card.querySelector('.quantity-btn.increment') as HTMLButtonElement;
+
+        if (addToCartBtn) {
+            addToCartBtn.addEventListener('click', () => this.handleAddToCart(dessert.id));
+        }
+
+        if (decrementBtn) {
+            decrementBtn.addEventListener('click', () => this.handleDecrement(dessert.id));
+        }
+
+        if (incrementBtn) {
+            incrementBtn.addEventListener('click', () => this.handleIncrement(dessert.id));
+        }
+
+        this.trackImageLoading(card.querySelector('.dessert-image'));
+        return card;
+    }
+
+    /**
+     * Responsive image for a dessert card
+     */
+    private dessertPicture(dessert: Dessert): SafeHtml {
+        return html`
+            <picture>
+                <source media="(max-width: ${IMAGE_BREAKPOINTS.mobile}px)" srcset="${dessert.image.mobile}">
+                <source media="(max-width: ${IMAGE_BREAKPOINTS.tablet}px)" srcset="${dessert.image.tablet}">
+                <img src="${dessert.image.desktop}" data-source="${dessert.image.desktop}" alt="${this.translator.dessertName(dessert)}" class="dessert-image" loading="lazy" decoding="async">
+            </picture>
+        `;
+    }
+
+    /**
+     * Bring a reused card in line with the current catalog entry and price, touching only what changed
+     */
+    private updateDessertCard(card: HTMLElement, dessert: Dessert): void {
+        const name = this.translator.dessertName(dessert);
+        const t = (key: MessageKey) => this.translator.t(key, { name });
+        setText(card.querySelector('.dessert-category'), this.translator.category(dessert.category));
+        setText(card.querySelector('.dessert-name'), name);
+        setText(card.querySelector('.dessert-price'), this.pricing.format(this.pricing.unitPrice(dessert)));
+        setText(card.querySelector('.add-to-cart-text'), t('card.addToCart'));
+        setAttribute(card.querySelector('.add-to-cart-btn'), 'aria-label', t('card.addLabel'));
+        setAttribute(card.querySelector('.quantity-control'), 'aria-label', t('card.quantityLabel'));
+        setAttribute(card.querySelector('.quantity-btn.decrement'), 'aria-label', t('card.decrementLabel'));
+        setAttribute(card.querySelector('.quantity-btn.increment'), 'aria-label', t('card.incrementLabel'));
+        this.renderDessertDietary(card, dessert);
+
+        const img = card.querySelector('.dessert-image') as HTMLImageElement | null;
+        if (img) setAttribute(img, 'alt', name);
+        // A new image set gets a fresh picture element rather than patched sources; data-source survives
+        // the fallback swap, so a failed image isn't retried on every render
+        if (img?.dataset.source !== dessert.image.desktop) {
+            const picture = createElement(this.dessertPicture(dessert));
+            card.querySelector('picture')?.replaceWith(picture);
+            this.trackImageLoading(picture.querySelector('.dessert-image'));
+        }
+    }
+
+    /**
+     * Diet badges, what the dessert contains, and a warning when it doesn't suit the customer's profile
+     */
+    private renderDessertDietary(card: HTMLElement, dessert: Dessert): void {
+        const tags = card.querySelector('.dessert-tags') as HTMLElement | null;
+        const contains = card.querySelector('.dessert-allergens');
+        const warning = card.querySelector('.dessert-dietary-warning');
+        if (!tags || !contains || !warning) return;
+
+        const diets = lineDiets(dessert);
+        patchKeyedChildren(
+            tags,
+            diets,
+            (diet) => diet,
+            (diet) => createElement(html`<li class="dessert-tag">${this.translator.diet(diet)}</li>`),
+            (element, diet) => setText(element, this.translator.diet(diet))
+        );
+        tags.classList.toggle('hidden', diets.length === 0);
+
+        const allergens = lineAllergens(dessert);
+        const text = allergens === undefined
+            ? this.translator.t('dietary.undeclared')
+            : allergens.length > 0 ? this.translator.t('dietary.contains', { allergens: allergens.map((allergen) => this.translator.allergen(allergen)).join(', ') }) : '';
+        setText(contains, text);
+        contains.classList.toggle('hidden', text === '');
+
+        const conflict = dietaryConflict(dessert, this.dietaryProfile);
+        card.classList.toggle('dietary-conflict', conflict !== null);
+        setText(warning, conflict ? describeDietaryConflict(conflict, this.translator) : '');
+        warning.classList.toggle('hidden', conflict === null);
+    }
+
+    /**
+     * Handle add to cart button click; desserts with options ask for a selection first
+     */
+    private handleAddToCart(dessertId: DessertId): void {
+        const dessert = this.catalog.find((d) => d.id === dessertId);
+        if (!dessert) return;
+        if (hasOptions(dessert)) {
+            this.openOptionPicker(dessert);
+            return;
+        }
+        try {
+            this.cart.addItem(dessert, 1, {}, this.activeParticipantId);
+        } catch (e) {
+            this.handleStockError(e);
+        }
+        // The button just hid itself; keep keyboard focus on the card
+        this.renderer.flush();
+        this.focusCardControl(dessert.id);
+    }
+
+    /**
+     * Focus the visible control on a dessert card: the increment button when the dessert is in the cart
+     * (or decrement at the stock limit), otherwise Add to Cart
+     */
+    private focusCardControl(dessertId: DessertId): void {
+        const card = this.findDessertCard(dessertId);
+        const dessert = this.catalog.find((d) => d.id === dessertId);
+        if (!card || !dessert) return;
+        const candidates = !hasOptions(dessert) && this.cart.hasItem(this.cardLineId(dessertId))
+            ? ['.quantity-btn.increment:not(:disabled)', '.quantity-btn.decrement']
+            : ['.add-to-cart-btn'];
+        for (const selector of candidates) {
+            const control = card.querySelector(selector) as HTMLButtonElement | null;
+            if (control) return control.focus();
+        }
+    }
+
+    /**
+     * The cart line a dessert card's quantity controls act on: the dessert without options,
+     * for whoever items are being added for
+     */
+    private cardLineId(dessertId: DessertId): CartLineId {
+        return cartLineId(dessertId, {}, this.activeParticipantId);
+    }
+
+    /**
+     * The card showing a dessert, if the current view includes it
+     */
+    private findDessertCard(dessertId: DessertId): HTMLElement | null {
+        const grid = document.getElementById('dessertsGrid');
+        if (!grid) return null;
+        return (Array.from(grid.children) as HTMLElement[]).find((card) => card.dataset.key === dessertId) ?? null;
+    }
+
+    /**
+     * Handle increment quantity; card controls only appear for desserts without options
+     */
+    private handleIncrement(dessertId: DessertId): void {
+        try {
+            this.cart.incrementItem(this.cardLineId(dessertId));
+        } catch (e) {
+            this.handleStockError(e);
+        }
+    }
+
+    /**
+     * Report a stock conflict (another cart took the last units) and refresh the cards
+     */
+    private handleStockError(error: unknown): void {
+        if (!(error instanceof InsufficientStockError)) throw error;
+        const name = this.dessertName(error.dessertId);
+        this.showNotice(error.available > 0
+            ? this.translator.t('notice.stockLeft', { count: error.available, name })
+            : this.translator.t('notice.soldOut', { name }));
+        this.updateDessertCards();
+    }
+
+    /**
+     * Handle decrement quantity
+     */
+    private handleDecrement(dessertId: DessertId): void {
+        this.cart.decrementItem(this.cardLineId(dessertId));
+        if (this.cart.hasItem(this.cardLineId(dessertId))) return;
+        this.renderer.flush();
+        this.focusCardControl(dessertId);
+    }
+
+    /**
+     * Handle remove item from cart
+     */
+    private handleRemoveItem(lineId: CartLineId): void {
+        const item = this.cart.getItem(lineId);
+        const position = this.cart.getItems().findIndex((i) => lineIdOf(i) === lineId);
+        this.cart.removeItem(lineId);
+        if (item) this.showUndoToast(this.translator.t('cart.itemRemoved', { name: this.translator.dessertName(item.dessert) }));
+
+        // The line's button is gone: move to the next line's, or to the cart heading
+        this.renderer.flush();
+        const buttons = document.querySelectorAll('#cartItems .remove-item-btn');
+        const next = (buttons[position] ?? buttons[buttons.length - 1]) as HTMLElement | undefined;
+        (next ?? document.getElementById('cartTitle'))?.focus();
+    }
+
+    /**
+     * Undo the last cart change; redo when `redo` is set
+     */
+    private handleUndo(redo: boolean = false): void {
+        this.hideUndoToast();
+        try {
+            if (redo) this.history.redo();
+            else this.history.undo();
+        } catch (error) {
+            // Stock may have gone since the change being restored
+            this.handleStockError(error);
+        }
+    }
+
+    /**
+     * Offer to undo a change for a few seconds
+     */
+    private showUndoToast(message: string): void {
+        const toast = document.getElementById('undoToast');
+        const text = document.getElementById('undoToastText');
+        if (!toast || !text) return;
+
+        text.textContent = message;
+        toast.classList.remove('hidden');
+        window.clearTimeout(this.undoToastTimer);
+        this.undoToastTimer = window.setTimeout(() => this.hideUndoToast(), UNDO_TOAST_MS);
+    }
+
+    private hideUndoToast(): void {
+        window.clearTimeout(this.undoToastTimer);
+        document.getElementById('undoToast')?.classList.add('hidden');
+    }
+
+    /**
+     * Ctrl+Z / Ctrl+Shift+Z (or Cmd on macOS, and Ctrl+Y) undo and redo cart changes,
+     * except while typing in a field or with a dialog open
+     */
+    private setupUndoShortcuts(): void {
+        document.getElementById('undoToastBtn')?.addEventListener('click', () => this.handleUndo());
+
+        document.addEventListener('keydown', (event) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+            const key = event.key.toLowerCase();
+            if (key !== 'z' && key !== 'y') return;
+
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+            if (document.querySelector('.modal:not(.hidden)')) return;
+
+            event.preventDefault();
+            this.handleUndo(key === 'y' || event.shiftKey);
+        });
+    }
+
+    /**
+     * Setup cart event listeners
+     */
+    private setupCartEventListeners(): void {
+        // Subscribe to cart changes
+        this.orderManager.subscribe(() => this.saveState());
+
+        this.inventory.subscribe((event) => {
+            if (event.type === 'reservation-expired' && event.holderId === this.cart.id) {
+                this.showNotice(this.translator.t('notice.reservationExpired'));
+            }
+            this.renderer.schedule('cards', () => this.updateDessertCards());
+        });
+
+        // A background catalog refresh found changes
+        this.catalogService.subscribe((result) => this.applyCatalog(result));
+
+        this.cart.subscribe((event) => {
+            this.announceCartEvent(event);
+            // The tab where the customer made the change records it for analytics
+            if (!this.sync?.isApplyingRemote) this.sessions.record(event);
+            if (event.type === 'stale-items-dropped') {
+                this.showDroppedItemsNotice(event.items);
+            } else if (event.type === 'prices-changed') {
+                this.showPriceChangesNotice(event.changes);
+            }
+            // Several events can arrive together (an undo, a remote change, a catalog reconcile); draw them once
+            if (event.type === 'group-changed' || event.type === 'items-replaced') {
+                this.renderer.schedule('group', () => this.renderGroupOrder());
+            }
+            this.renderer.schedule('cart', () => this.updateCartUI());
+            this.renderer.schedule('cards', () => this.updateDessertCards());
+            this.renderer.schedule('save', () => this.saveState());
+        });
+
+        const retryBtn = document.getElementById('catalogRetry');
+        if (retryBtn) {
+            retryBtn.addEventListener('click', () => void this.loadCatalog());
+        }
+
+        // Confirm order button
+        const confirmBtn = document.getElementById('confirmOrderBtn');
+        if (confirmBtn) {
+            confirmBtn.addEventListener('click', () => this.openCheckout());
+        }
+
+        // Promo code form
+        const promoForm = document.getElementById('promoForm');
+        if (promoForm) {
+            promoForm.addEventListener('submit', (event) => {
+                event.preventDefault();
+                this.handleApplyPromoCode();
+            });
+        }
+
+        // Start new order button
+        const startNewBtn = document.getElementById('startNewOrderBtn');
+        if (startNewBtn) {
+            startNewBtn.addEventListener('click', () => this.handleStartNewOrder());
+        }
+    }
+
+    /**
+     * Update cart UI
+     */
+    private updateCartUI(): void {
+        const cartTitle = document.getElementById('cartTitle');
+        const cartContent = document.getElementById('cartContent');
+        const cartItems = document.getElementById('cartItems');
+        const cartSummary = document.getElementById('cartSummary');
+        const totalAmount = document.getElementById('totalAmount');
+
+        if (!cartTitle || !cartContent || !cartItems || !cartSummary || !totalAmount) return;
+
+        const summary = this.cart.getSummary();
+        const isEmpty = this.cart.isEmpty;
+
+        // Update cart count
+        cartTitle.textContent = this.translator.t('cart.title', { count: summary.itemCount });
+        cartTitle.setAttribute('aria-label', this.translator.t('cart.titleLabel', { count: summary.itemCount }));
+
+        // Render cart items; an empty cart drops its lines too, so none linger while hidden
+        this.renderCartItems(cartItems);
+
+        // Show/hide empty cart message
+        if (isEmpty) {
+            cartContent.classList.remove('hidden');
+            cartItems.classList.add('hidden');
+            cartSummary.classList.add('hidden');
+        } else {
+            cartContent.classList.add('hidden');
+            cartItems.classList.remove('hidden');
+            cartSummary.classList.remove('hidden');
+
+            // Render subtotal, discount and tax lines
+            this.renderCartBreakdown(summary);
+
+            // Update total
+            totalAmount.textContent = this.pricing.format(summary.total);
+            this.renderBillSplit(document.getElementById('cartSplit'), summary.split);
+        }
+    }
+
+    /**
+     * Render subtotal, applied discounts, codes that currently don't apply, and tax
+     */
+    private renderCartBreakdown(summary: CartSummary): void {
+        const container = document.getElementById('cartBreakdown');
+        if (!container) return;
+
+        container.replaceChildren();
+        container.appendChild(this.createAmountLine('breakdown-line', this.translator.t('totals.subtotal'), this.pricing.format(summary.subtotal)));
+
+        summary.discounts.forEach((discount) => {
+            container.appendChild(this.createPromoLine(discount.code, discount.description, `-${this.pricing.format(discount.amount)}`));
+        });
+
+        summary.rejectedPromos.forEach((rejected) => {
+            const line = this.createPromoLine(rejected.code, this.cart.describePromoRejection(rejected, this.translator), '');
+            line.classList.add('inactive');
+            container.appendChild(line);
+        });
+
+        container.appendChild(this.createAmountLine('breakdown-line', this.pricing.describeTax(summary, this.translator), this.pricing.format(summary.tax)));
+    }
+
+    /**
+     * Create an applied promo code line with a remove button
+     */
+    private createPromoLine(code: string, description: string, amount: string): HTMLElement {
+        const element = createElement(html`
+            <div class="breakdown-line promo-line">
+                <span class="promo-label">
+                    <span class="promo-code">${code}</span>
+                    <span class="promo-description">${description}</span>
+                </span>
+                <span class="promo-amount">${amount}</span>
+                <button class="remove-promo-btn" type="button" data-code="${code}">${this.translator.t('cart.removePromo')}</button>
+            </div>
+        `);
+
+        const removeBtn = element.querySelector('.remove-promo-btn') as HTMLButtonElement;
+        if (removeBtn) {
+            removeBtn.addEventListener('click', () => this.cart.removePromoCode(code));
+        }
+
+        return element;
+    }
+
+    /**
+     * Handle promo code form submission
+     */
+    private handleApplyPromoCode(): void {
+        const input = document.getElementById('promoInput') as HTMLInputElement | null;
+        const error = document.getElementById('promoError');
+        if (!input || !error) return;
+
+        const code = input.value.trim();
+        if (!code) return;
+
+        try {
+            this.cart.applyPromoCode(code);
+            input.value = '';
+            error.textContent = '';
+            error.classList.add('hidden');
+        } catch (e) {
+            if (!(e instanceof PromoCodeError)) throw e;
+            error.textContent = this.discounts.describeRejection(e.code, e.reason, this.translator);
+            error.classList.remove('hidden');
+        }
+    }
+
+    /**
+     * Render cart items, patching the lines already shown
+     */
+    private renderCartItems(container: HTMLElement): void {
+        patchKeyedChildren(
+            container,
+            this.cart.getItems(),
+            (item) => lineIdOf(item),
+            (item) => this.createCartItemElement(item),
+            (element, item) => this.updateCartItemElement(element, item)
+        );
+    }
+
+    /**
+     * Create a cart item element
+     */
+    private createCartItemElement(item: CartItem): HTMLElement {
+        const element = createElement(html`
+            <div class="cart-item">
+                <img src="${item.dessert.image.thumbnail}" alt="" class="cart-item-image" loading="lazy" decoding="async" width="48" height="48">
+                <div class="cart-item-info">
+                    <p class="cart-item-name"></p>
+                    <p class="cart-item-options hidden"></p>
+                    <p class="cart-item-dietary hidden"></p>
+                    <select class="cart-item-participant hidden"></select>
+                    <div class="cart-item-details">
+                        <span class="cart-item-quantity"></span>
+                        <span class="cart-item-price"></span>
+                        <span class="cart-item-total"></span>
+                    </div>
+                </div>
+                <button type="button" class="remove-item-btn" data-dessert-id="${item.dessert.id}">
+                    <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" fill="none" viewBox="0 0 10 10" aria-hidden="true" focusable="false">
+                        <path fill="#CAAFA7" d="M8.375 9.375 5 6 1.625 9.375l-1-1L4 5 .625 1.625l1-1L5 4 8.375.625l1 1L6 5l3.375 3.375-1 1Z"/>
+                    </svg>
+                </button>
+            </div>
+        `);
+
+        this.trackImageLoading(element.querySelector('.cart-item-image'));
+
+        const lineId = lineIdOf(item);
+        const removeBtn = element.querySelector('.remove-item-btn') as HTMLButtonElement;
+        if (removeBtn) {
+            removeBtn.addEventListener('click', () => this.handleRemoveItem(lineId));
+        }
+        element.querySelector('.cart-item-participant')?.addEventListener('change', (event) => {
+            this.handleAssignItem(lineId, (event.target as HTMLSelectElement).value);
+        });
+
+        this.updateCartItemElement(element, item);
+        return element;
+    }
+
+    /**
+     * Fill in a cart line's name, options, quantity and prices
+     */
+    private updateCartItemElement(element: HTMLElement, item: CartItem): void {
+        const name = this.translator.dessertName(item.dessert);
+        const selection = describeOptions(item.dessert, item.options);
+        setText(element.querySelector('.cart-item-name'), name);
+        setText(element.querySelector('.cart-item-options'), selection);
+        element.querySelector('.cart-item-options')?.classList.toggle('hidden', selection === '');
+        const conflict = dietaryConflict(item.dessert, this.dietaryProfile, item.options);
+        setText(element.querySelector('.cart-item-dietary'), conflict ? describeDietaryConflict(conflict, this.translator) : '');
+        element.querySelector('.cart-item-dietary')?.classList.toggle('hidden', conflict === null);
+        setText(element.querySelector('.cart-item-quantity'), `${item.quantity}x`);
+        setText(element.querySelector('.cart-item-price'), `@ ${this.pricing.format(this.pricing.unitPrice(item.dessert, item.options))}`);
+        setText(element.querySelector('.cart-item-total'), this.pricing.format(this.pricing.lineTotal(item)));
+        setAttribute(element.querySelector('.remove-item-btn'), 'aria-label', this.translator.t('cart.removeLabel', { name }));
+        this.updateCartItemParticipant(element.querySelector('.cart-item-participant'), item, name);
+    }
+
+    /**
+     * In a group order, who a cart line is for: the choices are everyone in the group, or shared
+     */
+    private updateCartItemParticipant(select: HTMLSelectElement | null, item: CartItem, name: string): void {
+        if (!select) return;
+        const group = this.cart.getGroup();
+        const participants = group?.participants ?? [];
+        select.classList.toggle('hidden', participants.length === 0);
+        if (participants.length === 0) {
+            select.replaceChildren();
+            return;
+        }
+        const choices = [{ id: '', name: this.translator.t('group.shared') }, ...participants];
+        select.replaceChildren(...choices.map((participant) => createElement<HTMLOptionElement>(html`<option value="${participant.id}">${participant.name}</option>`)));
+        select.value = item.participantId ?? '';
+        setAttribute(select, 'aria-label', this.translator.t('group.lineLabel', { name }));
+    }
+
+    /**
+     * Move a cart line to someone else, keeping focus on the line's picker where it ended up
+     */
+    private handleAssignItem(lineId: CartLineId, value: string): void {
+        const item = this.cart.getItem(lineId);
+        if (!item) return;
+        const participantId = value === '' ? undefined : value;
+        this.cart.assignItem(lineId, participantId);
+
+        this.renderer.flush();
+        const target = lineIdOf({ ...item, participantId });
+        const line = (Array.from(document.getElementById('cartItems')?.children ?? []) as HTMLElement[]).find((element) => element.dataset.key === target);
+        (line?.querySelector('.cart-item-participant') as HTMLElement | null)?.focus();
+    }
+
+    /**
+     * Update dessert cards to reflect cart state
+     */
+    private updateDessertCards(): void {
+        this.catalog.forEach((dessert) => {
+            const card = this.findDessertCard(dessert.id);
+            if (!card) return;
+
+            // Desserts with options may sit on several lines; their cards keep Add to Cart for another variant
+            const configurable = hasOptions(dessert);
+            const inCart = this.cart.getDessertQuantity(dessert.id);
+            const isInCart = inCart > 0;
+            const cartItem = this.cart.getItem(this.cardLineId(dessert.id));
+
+            const addBtn = card.querySelector('.add-to-cart-btn') as HTMLButtonElement;
+            const quantityControl = card.querySelector('.quantity-control') as HTMLElement;
+            const quantityValue = card.querySelector('.quantity-value') as HTMLElement;
+            const incrementBtn = card.querySelector('.quantity-btn.increment') as HTMLButtonElement;
+            const stockLabel = card.querySelector('.dessert-stock') as HTMLElement;
+
+            // Stock state: what this cart can still add, and what's left for everyone
+            const remaining = this.cart.getRemainingStock(dessert);
+            const left = remaining + inCart;
+            const soldOut = !isInCart && remaining === 0;
+            card.classList.toggle('sold-out', soldOut);
+            if (addBtn) addBtn.disabled = configurable ? remaining === 0 : soldOut;
+            if (incrementBtn) incrementBtn.disabled = remaining === 0;
+            if (stockLabel) {
+                if (soldOut) stockLabel.textContent = this.translator.t('card.soldOut');
+                else if (left <= LOW_STOCK_THRESHOLD) stockLabel.textContent = this.translator.t('card.lowStock', { count: left });
+                stockLabel.classList.toggle('hidden', !soldOut && left > LOW_STOCK_THRESHOLD);
+            }
+
+            card.classList.toggle('in-cart', isInCart);
+            if (!configurable && cartItem) {
+                addBtn?.classList.add('hidden');
+                quantityControl?.classList.remove('hidden');
+                if (quantityValue) {
+                    quantityValue.textContent = cartItem.quantity.toString();
+                }
+            } else {
+                addBtn?.classList.remove('hidden');
+                quantityControl?.classList.add('hidden');
+            }
+        });
+    }
+
+    /**
+     * Handle confirm order
+     */
+    private handleConfirmOrder(): void {
+        if (this.cart.isEmpty) {
+            this.closeCheckout();
+            return;
+        }
+
+        // Slots may have passed while the customer was filling in the form
+        this.pickupSlots = getPickupSlots(pickupConfig);
+        let checkout: CheckoutDetails;
+        try {
+            checkout = buildCheckoutDetails(this.checkoutForm, this.pickupSlots, this.translator);
+        } catch (e) {
+            if (!(e instanceof CheckoutValidationError)) throw e;
+            this.renderPickupSlots();
+            this.showCheckoutStep(e.step);
+            this.showCheckoutErrors(e.errors, true);
+            return;
+        }
+
+        // Lines that don't suit the declared allergies and diet need the customer's go-ahead, which is kept on the order
+        const cartItems = this.cart.getItems();
+        const conflicts = findDietaryConflicts(cartItems, this.dietaryProfile);
+        const acknowledge = document.getElementById('dietaryAcknowledge') as HTMLInputElement | null;
+        if (conflicts.length > 0 && !(acknowledge?.checked && JSON.stringify(conflicts) === this.dietaryWarningShown)) {
+            this.showCheckoutStep('review');
+            setText(document.getElementById('dietaryAcknowledgeError'), this.translator.t('dietary.acknowledgeRequired'));
+            acknowledge?.focus();
+            return;
+        }
+        if (hasDietaryNeeds(this.dietaryProfile)) {
+            checkout.dietaryCheck = { avoid: [...this.dietaryProfile.avoid], diets: [...this.dietaryProfile.diets], conflicts };
+        }
+
+        // Orders placed while signed in join the account's history, earn points and may spend them
+        const account = this.accounts.active;
+        if (account) {
+            checkout.accountId = account.id;
+            const pointsPayment = this.pointsPayment(this.cart.getSummary(checkout.fulfilment.method).total);
+            if (pointsPayment) checkout.pointsPayment = pointsPayment;
+        }
+        const group = this.cart.getGroup();
+        if (group) checkout.group = group;
+
+        const order = this.orderManager.createOrder(cartItems, this.cart.getPromoCodes(), this.cart.id, checkout);
+        this.closeCheckout();
+        try {
+            this.orderManager.confirmOrder(order.id);
+        } catch (e) {
+            if (!(e instanceof OrderNotFulfillableError)) throw e;
+            this.orderManager.cancelOrder(order.id, 'Insufficient stock');
+            this.showShortagesNotice(e.shortages);
+            this.updateDessertCards();
+            return;
+        }
+
+        this.sessions.recordOrder(order.id);
+        // Kept on this device until the order endpoint has it, whether or not there is a connection
+        this.outbox?.enqueue(order);
+        // The lines are the order's now; a reload during the confirmation mustn't bring them back and hold their stock again
+        this.cart.clear();
+        this.history.reset();
+        // Save promo usage recorded on confirmation, and the empty cart, before other tabs reload them
+        this.saveState();
+        this.sync?.announceOrderConfirmed(order.id);
+
+        // Keep contact and address for next time, but a pickup slot and a points payment are only good once
+        this.checkoutForm.pickupSlot = '';
+        this.usePoints = false;
+        this.showOrderModal(order.id);
+        this.flushOutbox();
+    }
+
+    /**
+     * Wire the option picker: keep the price in step with the choices and add the line on submit
+     */
+    private setupOptionPicker(): void {
+        const form = document.getElementById('optionsForm');
+        if (!form) return;
+
+        form.addEventListener('change', () => this.syncOptionPicker());
+        form.addEventListener('submit', (event) => {
+            event.preventDefault();
+            this.handleAddWithOptions();
+        });
+        document.getElementById('optionsCancelBtn')?.addEventListener('click', () => this.closeOptionPicker());
+    }
+
+    private openOptionPicker(dessert: Dessert): void {
+        const modal = document.getElementById('optionsModal');
+        const groups = document.getElementById('optionsGroups');
+        if (!modal || !groups) return;
+
+        this.optionsDessertId = dessert.id;
+        setText(document.getElementById('optionsTitle'), this.translator.dessertName(dessert));
+        groups.replaceChildren(...(dessert.optionGroups ?? []).map((group) => this.createOptionGroupElement(group)));
+        this.syncOptionPicker();
+        this.openDialog(modal);
+    }
+
+    private closeOptionPicker(): void {
+        this.optionsDessertId = null;
+        const modal = document.getElementById('optionsModal');
+        if (modal) this.closeDialog(modal);
+    }
+
+    /**
+     * One option group: radios when a single choice is allowed, checkboxes otherwise
+     */
+    private createOptionGroupElement(group: DessertOptionGroup): HTMLElement {
+        const type = group.maxSelections === 1 ? 'radio' : 'checkbox';
+        const hint = group.maxSelections === 1 ? '' : `, ${selectionLimits(group, this.translator)}`;
+        return createElement(html`
+            <fieldset class="checkout-step option-group" data-group-id="${group.id}" aria-describedby="option-error-${group.id}">
+                <legend>${group.name} <small>${this.translator.t(group.required ? 'options.required' : 'options.optional')}${hint}</small></legend>
+                <div class="fulfilment-options option-choices">
+                    ${group.options.map((option) => html`
+                        <label class="fulfilment-option">
+                            <input type="${type}" name="option-${group.id}" value="${option.id}">
+                            <span>${option.name} ${option.priceDelta.isZero() ? null : html`<small>${this.formatPriceDelta(option.priceDelta)}</small>`} ${this.optionDietaryWarning(option)}</span>
+                        </label>
+                    `)}
+                </div>
+                <small class="field-error" id="option-error-${group.id}"></small>
+            </fieldset>
+        `);
+    }
+
+    /**
+     * What an option adds that the customer avoids, e.g. a dairy topping for someone avoiding dairy
+     */
+    private optionDietaryWarning(option: DessertOption): SafeHtml | null {
+        const avoided = (option.allergens ?? []).filter((allergen) => this.dietaryProfile.avoid.includes(allergen));
+        if (avoided.length === 0) return null;
+        const allergens = avoided.map((allergen) => this.translator.allergen(allergen)).join(', ');
+        return html`<small class="option-dietary-warning">${this.translator.t('dietary.contains', { allergens })}</small>`;
+    }
+
+    private formatPriceDelta(delta: Money<'USD'>): string {
+        const amount = this.pricing.fromBase(delta);
+        return amount.isPositive() ? `+${this.pricing.format(amount)}` : this.pricing.format(amount);
+    }
+
+    /**
+     * The choices currently ticked in the option picker, by group
+     */
+    private readOptionPicker(): SelectedOptions {
+        const options: SelectedOptions = {};
+        document.querySelectorAll('#optionsGroups .option-group').forEach((fieldset) => {
+            const groupId = (fieldset as HTMLElement).dataset.groupId ?? '';
+            options[groupId] = Array.from(fieldset.querySelectorAll('input:checked')).map((input) => (input as HTMLInputElement).value);
+        });
+        return options;
+    }
+
+    /**
+     * Refresh the picker's price, clear errors the new choices resolve and disable boxes past a group's maximum
+     */
+    private syncOptionPicker(): void {
+        const dessert = this.catalog.find((d) => d.id === this.optionsDessertId);
+        if (!dessert) return;
+
+        const options = this.readOptionPicker();
+        const errors = validateOptions(dessert, options, this.translator);
+        (dessert.optionGroups ?? []).forEach((group) => {
+            const fieldset = document.querySelector(`#optionsGroups [data-group-id="${group.id}"]`);
+            if (!fieldset) return;
+            const full = group.maxSelections > 1 && (options[group.id]?.length ?? 0) >= group.maxSelections;
+            fieldset.querySelectorAll('input').forEach((input) => (input.disabled = full && !input.checked));
+            if (!errors[group.id]) setText(fieldset.querySelector('.field-error'), '');
+        });
+        setText(document.getElementById('optionsPrice'), this.pricing.format(this.pricing.unitPrice(dessert, options)));
+    }
+
+    private showOptionErrors(errors: OptionSelectionErrors): void {
+        let firstInvalid: HTMLElement | null = null;
+        document.querySelectorAll('#optionsGroups .option-group').forEach((fieldset) => {
+            const message = errors[(fieldset as HTMLElement).dataset.groupId ?? ''];
+            setText(fieldset.querySelector('.field-error'), message ?? '');
+            if (message && !firstInvalid) firstInvalid = fieldset.querySelector('input:not(:disabled)');
+        });
+        (firstInvalid as HTMLElement | null)?.focus();
+    }
+
+    /**
+     * Add one of the dessert with the picked options, or point at what still needs choosing
+     */
+    private handleAddWithOptions(): void {
+        const dessert = this.catalog.find((d) => d.id === this.optionsDessertId);
+        if (!dessert) {
+            this.closeOptionPicker();
+            return;
+        }
+
+        const options = this.readOptionPicker();
+        const errors = validateOptions(dessert, options, this.translator);
+        if (Object.keys(errors).length > 0) {
+            this.showOptionErrors(errors);
+            return;
+        }
+
+        this.closeOptionPicker();
+        try {
+            this.cart.addItem(dessert, 1, options, this.activeParticipantId);
+        } catch (e) {
+            this.handleStockError(e);
+        }
+    }
+
+    /**
+     * Wire the checkout form: keep the form model in step with the inputs and move between steps
+     */
+    private setupCheckout(): void {
+        const form = document.getElementById('checkoutForm');
+        if (!form) return;
+
+        const readField = (event: Event) => {
+            const input = event.target as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+            if (!(input.name in this.checkoutForm)) return;
+            if (input.name === 'method') {
+                this.checkoutForm.method = input.value as FulfilmentMethod;
+                this.syncFulfilmentFields();
+                return;
+            }
+            const field = input.name as Exclude<CheckoutField, 'method'>;
+            this.checkoutForm[field] = input.value;
+            this.showCheckoutErrors({ ...this.checkoutErrors, [field]: undefined }, false);
+        };
+        form.addEventListener('input', readField);
+        form.addEventListener('change', readField);
+        form.addEventListener('submit', (event) => {
+            event.preventDefault();
+            this.handleCheckoutNext();
+        });
+
+        const backBtn = document.getElementById('checkoutBackBtn');
+        if (backBtn) {
+            backBtn.addEventListener('click', () => this.handleCheckoutBack());
+        }
+        document.getElementById('dietaryAcknowledge')?.addEventListener('change', () => setText(document.getElementById('dietaryAcknowledgeError'), ''));
+        const usePoints = document.getElementById('usePoints') as HTMLInputElement | null;
+        usePoints?.addEventListener('change', () => {
+            this.usePoints = usePoints.checked;
+            this.renderCheckoutReview();
+        });
+    }
+
+    /**
+     * Open checkout at the first step, with whatever the customer entered last time
+     */
+    private openCheckout(): void {
+        if (this.cart.isEmpty) return;
+
+        this.pickupSlots = getPickupSlots(pickupConfig);
+        this.renderPickupSlots();
+        this.prefillFromAccount(this.accounts.active);
+        this.syncCheckoutForm();
+        this.showCheckoutErrors({}, false);
+        const modal = document.getElementById('checkoutModal');
+        if (modal) this.openDialog(modal);
+        this.showCheckoutStep('contact');
+    }
+
+    /**
+     * Fill in whatever contact details the customer hasn't typed from their account
+     */
+    private prefillFromAccount(account: CustomerAccount | null): void {
+        if (!account) return;
+        if (this.checkoutForm.name.trim() === '') this.checkoutForm.name = account.name;
+        if (this.checkoutForm.email.trim() === '') this.checkoutForm.email = account.email;
+    }
+
+    private closeCheckout(): void {
+        const modal = document.getElementById('checkoutModal');
+        if (modal) this.closeDialog(modal);
+    }
+
+    /**
+     * Write the checkout form model into the inputs
+     */
+    private syncCheckoutForm(): void {
+        const form = document.getElementById('checkoutForm') as HTMLFormElement | null;
+        if (!form) return;
+
+        (Object.keys(this.checkoutForm) as CheckoutField[]).forEach((field) => {
+            const element = form.elements.namedItem(field) as HTMLInputElement | RadioNodeList | null;
+            if (element) element.value = this.checkoutForm[field];
+        });
+        this.syncFulfilmentFields();
+    }
+
+    /**
+     * Show the pickup or delivery fields for the chosen method and the current delivery charge
+     */
+    private syncFulfilmentFields(): void {
+        document.querySelectorAll('.fulfilment-fields').forEach((fields) => {
+            fields.classList.toggle('hidden', (fields as HTMLElement).dataset.method !== this.checkoutForm.method);
+        });
+
+        const feeLabel = document.getElementById('deliveryFeeLabel');
+        if (feeLabel) {
+            const fee = this.cart.getSummary('delivery').deliveryFee;
+            feeLabel.textContent = fee.isZero() ? this.translator.t('totals.free') : this.pricing.format(fee);
+        }
+    }
+
+    /**
+     * Offer the bookable pickup slots, grouped by day
+     */
+    private renderPickupSlots(): void {
+        const select = document.getElementById('pickupSlot') as HTMLSelectElement | null;
+        if (!select) return;
+
+        const dayFormat = new Intl.DateTimeFormat(this.translator.locale, { weekday: 'long', month: 'short', day: 'numeric' });
+        const timeFormat = new Intl.DateTimeFormat(this.translator.locale, { hour: 'numeric', minute: '2-digit' });
+
+        select.replaceChildren(new Option(this.translator.t('checkout.chooseTime'), ''));
+        const groups: Map<string, HTMLOptGroupElement> = new Map();
+        this.pickupSlots.forEach((slot) => {
+            const day = dayFormat.format(slot.start);
+            let group = groups.get(day);
+            if (!group) {
+                group = document.createElement('optgroup');
+                group.label = day;
+                groups.set(day, group);
+                select.appendChild(group);
+            }
+            const option = document.createElement('option');
+            option.value = slot.start.toISOString();
+            option.textContent = `${timeFormat.format(slot.start)} – ${timeFormat.format(slot.end)}`;
+            group.appendChild(option);
+        });
+        select.value = this.checkoutForm.pickupSlot;
+    }
+
+    /**
+     * Switch the checkout modal to a step, updating the progress list and buttons
+     */
+    private showCheckoutStep(step: CheckoutStep): void {
+        this.checkoutStep = step;
+        const index = CHECKOUT_STEPS.indexOf(step);
+
+        document.querySelectorAll('.checkout-step').forEach((fieldset) => {
+            fieldset.classList.toggle('hidden', (fieldset as HTMLElement).dataset.step !== step);
+        });
+        document.querySelectorAll('#checkoutProgress li').forEach((item) => {
+            const itemIndex = CHECKOUT_STEPS.indexOf((item as HTMLElement).dataset.step as CheckoutStep);
+            item.classList.toggle('active', itemIndex === index);
+            item.classList.toggle('done', itemIndex < index);
+        });
+
+        const backBtn = document.getElementById('checkoutBackBtn');
+        const nextBtn = document.getElementById('checkoutNextBtn');
+        if (backBtn) backBtn.textContent = this.translator.t(index === 0 ? 'checkout.backToCart' : 'checkout.back');
+        if (nextBtn) nextBtn.textContent = this.translator.t(step === 'review' ? 'checkout.placeOrder' : 'checkout.continue');
+
+        document.querySelectorAll('#checkoutProgress li').forEach((item) => {
+            if ((item as HTMLElement).dataset.step === step) item.setAttribute('aria-current', 'step');
+            else item.removeAttribute('aria-current');
+        });
+
+        if (step === 'review') this.renderCheckoutReview();
+
+        // Start keyboard users at the top of the new step
+        const fieldset = document.querySelector(`.checkout-step[data-step="${step}"]`) as HTMLElement | null;
+        if (fieldset && this.activeDialog) (this.getFocusable(fieldset)[0] ?? nextBtn)?.focus();
+    }
+
+    /**
+     * Validate the current step and move on, or place the order from the review step
+     */
+    private handleCheckoutNext(): void {
+        if (this.checkoutStep === 'review') {
+            this.handleConfirmOrder();
+            return;
+        }
+
+        const errors = validateCheckoutStep(this.checkoutStep, this.checkoutForm, this.pickupSlots, this.translator);
+        if (this.showCheckoutErrors(errors, true)) return;
+        this.showCheckoutStep(CHECKOUT_STEPS[CHECKOUT_STEPS.indexOf(this.checkoutStep) + 1]);
+    }
+
+    /**
+     * Go back a step, or close checkout from the first one; entered details are kept either way
+     */
+    private handleCheckoutBack(): void {
+        const index = CHECKOUT_STEPS.indexOf(this.checkoutStep);
+        if (index === 0) this.closeCheckout();
+        else this.showCheckoutStep(CHECKOUT_STEPS[index - 1]);
+    }
+
+    /**
+     * Show field errors under their inputs. Returns whether there were any.
+     */
+    private showCheckoutErrors(errors: CheckoutErrors, focus: boolean): boolean {
+        this.checkoutErrors = errors;
+        let firstInvalid: HTMLElement | null = null;
+
+        document.querySelectorAll('#checkoutForm [data-error-for]').forEach((element) => {
+            const field = (element as HTMLElement).dataset.errorFor as CheckoutField;
+            const message = errors[field];
+            const label = element.closest('.checkout-field');
+            const input = label?.querySelector('input, select, textarea') as HTMLElement | null;
+
+            element.textContent = message ?? '';
+            label?.classList.toggle('invalid', !!message);
+            if (input) input.setAttribute('aria-invalid', String(!!message));
+            if (message && !firstInvalid) firstInvalid = input;
+        });
+
+        if (focus) (firstInvalid as HTMLElement | null)?.focus();
+        return Object.values(errors).some((message) => !!message);
+    }
+
+    /**
+     * Summarise contact, fulfilment and totals (with any delivery fee) before the order is placed
+     */
+    private renderCheckoutReview(): void {
+        let checkout: CheckoutDetails;
+        try {
+            checkout = buildCheckoutDetails(this.checkoutForm, this.pickupSlots, this.translator);
+        } catch (e) {
+            if (!(e instanceof CheckoutValidationError)) throw e;
+            this.showCheckoutStep(e.step);
+            this.showCheckoutErrors(e.errors, true);
+            return;
+        }
+
+        const review = document.getElementById('checkoutReview');
+        if (review) this.renderCheckoutDetails(review, checkout.contact, checkout.fulfilment);
+        this.renderDietaryWarning(findDietaryConflicts(this.cart.getItems(), this.dietaryProfile));
+
+        const summary = this.cart.getSummary(checkout.fulfilment.method);
+        const breakdown = document.getElementById('checkoutBreakdown');
+        if (breakdown) this.renderOrderBreakdown(breakdown, summary, summary.discounts, checkout.fulfilment.method);
+
+        const total = document.getElementById('checkoutTotal');
+        if (total) total.textContent = this.pricing.format(summary.total);
+        this.renderPointsOption(summary.total);
+        this.renderBillSplit(document.getElementById('checkoutSplit'), summary.split);
+    }
+
+    /**
+     * Offer the signed-in customer's points towards the total, and show what is left to pay if they take it
+     */
+    private renderPointsOption(total: Money): void {
+        const option = document.getElementById('pointsOption');
+        const input = document.getElementById('usePoints') as HTMLInputElement | null;
+        const points = this.accounts.getRedeemablePoints(total);
+        option?.classList.toggle('hidden', points === 0);
+        if (input) input.checked = this.usePoints && points > 0;
+        const amount = this.pricing.format(pointsValue(points, this.pricing, this.accounts.loyalty));
+        setText(document.getElementById('usePointsLabel'), this.translator.t('account.usePoints', { amount, points }));
+
+        const container = document.getElementById('checkoutPoints');
+        if (container) this.renderPointsPayment(container, { total, pointsPayment: this.pointsPayment(total) });
+    }
+
+    /**
+     * The points the customer chose to pay with: as many whole steps as the balance and total allow
+     */
+    private pointsPayment(total: Money): PointsPayment | undefined {
+        if (!this.usePoints) return undefined;
+        const points = this.accounts.getRedeemablePoints(total);
+        return points > 0 ? { points, amount: pointsValue(points, this.pricing, this.accounts.loyalty) } : undefined;
+    }
+
+    /**
+     * What points paid and what is left to pay, or nothing when the order doesn't use points
+     */
+    private renderPointsPayment(container: HTMLElement, details: Pick<OrderDetails, 'total' | 'pointsPayment'>): void {
+        const { pointsPayment } = details;
+        container.classList.toggle('hidden', !pointsPayment);
+        if (!pointsPayment) {
+            container.replaceChildren();
+            return;
+        }
+        container.replaceChildren(
+            this.createAmountLine('modal-line', this.translator.t('account.pointsPaid', { count: pointsPayment.points }), `-${this.pricing.format(pointsPayment.amount)}`),
+            this.createAmountLine('modal-line', this.translator.t('account.amountDue'), this.pricing.format(amountDue(details)))
+        );
+    }
+
+    /**
+     * List the cart lines that don't suit the customer's profile, with a box to tick to order them anyway.
+     * A different set of lines clears the tick.
+     */
+    private renderDietaryWarning(conflicts: DietaryConflictLine[]): void {
+        const warning = document.getElementById('dietaryWarning');
+        const lines = document.getElementById('dietaryWarningLines');
+        const acknowledge = document.getElementById('dietaryAcknowledge') as HTMLInputElement | null;
+        if (!warning || !lines || !acknowledge) return;
+
+        const shown = JSON.stringify(conflicts);
+        if (shown !== this.dietaryWarningShown) acknowledge.checked = false;
+        this.dietaryWarningShown = shown;
+        setText(document.getElementById('dietaryAcknowledgeError'), '');
+        warning.classList.toggle('hidden', conflicts.length === 0);
+        lines.replaceChildren(...conflicts.map((line) => {
+            const dessert = this.cart.getItems().find((item) => item.dessert.id === line.dessertId)?.dessert;
+            const item = document.createElement('li');
+            item.textContent = this.translator.t('dietary.warningLine', {
+                quantity: line.quantity,
+                name: dessert ? this.translator.dessertName(dessert) : line.name,
+                reason: describeDietaryConflict(line, this.translator)
+            });
+            return item;
+        }));
+    }
+
+    /**
+     * List contact and pickup/delivery details; text is set rather than parsed since it is customer input
+     */
+    private renderCheckoutDetails(container: HTMLElement, contact?: ContactDetails, fulfilment?: Fulfilment): void {
+        container.replaceChildren();
+        const addLine = (text: string, className?: string) => {
+            const line = document.createElement('p');
+            if (className) line.className = className;
+            line.textContent = text;
+            container.appendChild(line);
+        };
+
+        if (contact) {
+            addLine(this.translator.t('checkout.step.contact'), 'checkout-review-heading');
+            addLine(contact.name);
+            addLine(`${contact.email} · ${contact.phone}`);
+        }
+
+        if (fulfilment?.method === 'pickup') {
+            addLine(this.translator.t('checkout.pickup'), 'checkout-review-heading');
+            addLine(this.formatPickupSlot(fulfilment.slot));
+        } else if (fulfilment?.method === 'delivery') {
+            const { address } = fulfilment;
+            addLine(this.translator.t('checkout.deliveryTo'), 'checkout-review-heading');
+            addLine(address.line1);
+            if (address.line2) addLine(address.line2);
+            addLine(`${address.city} ${address.postcode}`);
+            if (address.instructions) addLine(this.translator.t('checkout.note', { note: address.instructions }));
+        }
+    }
+
+    private formatPickupSlot(slot: PickupSlot): string {
+        const start = new Intl.DateTimeFormat(this.translator.locale, { weekday: 'long', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+        const end = new Intl.DateTimeFormat(this.translator.locale, { hour: 'numeric', minute: '2-digit' });
+        return `${start.format(slot.start)} – ${end.format(slot.end)}`;
+    }
+
+    /**
+     * Explain which cart lines can no longer be fulfilled
+     */
+    private showShortagesNotice(shortages: StockShortage[]): void {
+        const lines = shortages.map((shortage) => {
+            const name = this.dessertName(shortage.dessertId);
+            return shortage.available > 0
+                ? this.translator.t('notice.shortageLeft', { name, count: shortage.available })
+                : this.translator.t('notice.shortageSoldOut', { name });
+        });
+        this.showNotice(this.translator.t('notice.shortages', { items: lines.join(', ') }));
+    }
+
+    /**
+     * A dessert's name in the current language, or its id once it has left the catalog
+     */
+    private dessertName(dessertId: DessertId): string {
+        const dessert = this.catalog.find((d) => d.id === dessertId);
+        return dessert ? this.translator.dessertName(dessert) : dessertId;
+    }
+
+    /**
+     * Show a message above the cart
+     */
+    private showNotice(message: string): void {
+        const notice = document.getElementById('cartNotice');
+        if (!notice) return;
+
+        notice.textContent = message;
+        notice.classList.remove('hidden');
+    }
+
+    /**
+     * Tell the customer which saved cart items could not be restored
+     */
+    private showDroppedItemsNotice(items: DroppedCartItem[]): void {
+        const unavailable = items.map((item) => {
+            const name = this.dessertName(item.dessertId);
+            return this.translator.t(`notice.dropped.${item.reason}`, { name, quantity: item.quantity });
+        });
+
+        this.showNotice(this.translator.t('notice.dropped', { items: unavailable.join(', ') }));
+    }
+
+    /**
+     * Tell the customer that desserts in their cart now cost something different
+     */
+    private showPriceChangesNotice(changes: CatalogPriceChange[]): void {
+        const described = changes.map((change) => {
+            const previous = this.pricing.format(this.pricing.fromBase(change.previous));
+            const current = this.pricing.format(this.pricing.fromBase(change.current));
+            return this.translator.t('notice.priceChange', { name: this.dessertName(change.dessertId), previous, current });
+        });
+
+        this.showNotice(this.translator.t('notice.pricesChanged', { items: described.join(', ') }));
+    }
+
+    /**
+     * Show order confirmation modal
+     */
+    private showOrderModal(orderId: string): void {
+        const modal = document.getElementById('orderModal');
+        const modalOrderItems = document.getElementById('modalOrderItems');
+        const modalTotalAmount = document.getElementById('modalTotalAmount');
+
+        if (!modal || !modalOrderItems || !modalTotalAmount) return;
+
+        const order = this.orderManager.getOrder(orderId);
+        if (!order) return;
+
+        // Render order items
+        modalOrderItems.replaceChildren();
+        const { details } = order;
+        order.details.items.forEach((item) => {
+            const itemElement = this.createModalOrderItem(item);
+            modalOrderItems.appendChild(itemElement);
+        });
+
+        const modalFulfilment = document.getElementById('modalFulfilment');
+        if (modalFulfilment) this.renderCheckoutDetails(modalFulfilment, details.contact, details.fulfilment);
+
+        const modalBreakdown = document.getElementById('modalBreakdown');
+        if (modalBreakdown) this.renderOrderBreakdown(modalBreakdown, details, details.discounts, details.fulfilment?.method);
+
+        // Update modal total amount
+        modalTotalAmount.textContent = this.pricing.format(details.total);
+        const modalPoints = document.getElementById('modalPoints');
+        if (modalPoints) this.renderPointsPayment(modalPoints, details);
+        const pointsEarned = document.getElementById('modalPointsEarned');
+        pointsEarned?.classList.toggle('hidden', !details.accountId);
+        if (details.accountId) setText(pointsEarned, this.translator.t('account.earned', { count: this.accounts.pointsFor(amountDue(details)) }));
+        this.renderBillSplit(document.getElementById('modalSplit'), details.split);
+
+        this.receiptOrderId = order.id;
+        const orderNumber = document.getElementById('modalOrderNumber');
+        if (orderNumber) orderNumber.textContent = this.translator.t('order.number', { id: order.id });
+        this.renderOrderSyncStatus();
+
+        // Show modal, announcing its title
+        this.openDialog(modal, document.getElementById('orderModalTitle'));
+    }
+
+    /**
+     * Render subtotal, discount, tax and delivery lines for checkout review or a placed order
+     */
+    private renderOrderBreakdown(container: HTMLElement, totals: PriceTotals, discounts: AppliedDiscount[], method?: FulfilmentMethod): void {
+        container.replaceChildren();
+        container.appendChild(this.createAmountLine('modal-line', this.translator.t('totals.subtotal'), this.pricing.format(totals.subtotal)));
+        discounts.forEach((discount) => {
+            const amount = `-${this.pricing.format(discount.amount)}`;
+            container.appendChild(this.createAmountLine('modal-line', `${discount.description} (${discount.code})`, amount));
+        });
+        container.appendChild(this.createAmountLine('modal-line', this.pricing.describeTax(totals, this.translator), this.pricing.format(totals.tax)));
+        if (method === 'delivery') {
+            const fee = totals.deliveryFee.isZero() ? this.translator.t('totals.free') : this.pricing.format(totals.deliveryFee);
+            container.appendChild(this.createAmountLine('modal-line', this.translator.t('totals.delivery'), fee));
+        }
+    }
+
+    /**
+     * Create a label/amount line for the cart or modal breakdown
+     */
+    private createAmountLine(className: string, label: string, amount: string): HTMLElement {
+        return createElement(html`
+            <div class="${className}">
+                <span>${label}</span>
+                <span>${amount}</span>
+            </div>
+        `);
+    }
+
+    /**
+     * Create modal order item element
+     */
+    private createModalOrderItem(item: OrderLine): HTMLElement {
+        const name = this.translator.dessertName(item.dessert);
+        const selection = describeOptions(item.dessert, item.options);
+        const element = createElement(html`
+            <div class="modal-order-item">
+                <img src="${item.dessert.image.thumbnail}" alt="${name}" class="modal-item-image" loading="lazy" decoding="async" width="48" height="48">
+                <div class="modal-item-info">
+                    <p class="modal-item-name">${name}</p>
+                    ${selection && html`<p class="modal-item-options">${selection}</p>`}
+                    <div class="modal-item-details">
+                        <span class="modal-item-quantity">${item.quantity}x</span>
+                        <span class="modal-item-price">@ ${this.pricing.format(item.unitPrice)}</span>
+                    </div>
+                </div>
+                <span class="modal-item-total">${this.pricing.format(item.lineTotal)}</span>
+            </div>
+        `);
+
+        this.trackImageLoading(element.querySelector('.modal-item-image'));
+        return element;
+    }
+
+    /**
+     * Mark an image as loaded so its placeholder styling drops away, and swap in the
+     * fallback illustration (dropping any responsive sources) if it fails
+     */
+    private trackImageLoading(img: HTMLImageElement | null): void {
+        if (!img) return;
+
+        const markLoaded = () => img.classList.add('loaded');
+        if (img.complete && img.naturalWidth > 0) markLoaded();
+        img.addEventListener('load', markLoaded);
+        img.addEventListener('error', () => {
+            if (img.classList.contains('image-failed')) return;
+            img.classList.add('image-failed');
+            img.parentElement?.querySelectorAll('source').forEach((source) => source.remove());
+            img.src = FALLBACK_IMAGE;
+        });
+    }
+
+    /**
+     * Show a modal: focus moves into it, Tab cycles within it and the page behind becomes inert.
+     * Focus returns to where it was when the dialog closes.
+     */
+    private openDialog(modal: HTMLElement, initialFocus?: HTMLElement | null): void {
+        if (this.activeDialog !== modal) this.dialogReturnFocus = document.activeElement as HTMLElement | null;
+        this.activeDialog = modal;
+        modal.classList.remove('hidden');
+        document.querySelector('.container')?.setAttribute('inert', '');
+        (initialFocus ?? this.getFocusable(modal)[0])?.focus();
+    }
+
+    private closeDialog(modal: HTMLElement): void {
+        modal.classList.add('hidden');
+        if (this.activeDialog !== modal) return;
+
+        this.activeDialog = null;
+        document.querySelector('.container')?.removeAttribute('inert');
+        // The opener may have disappeared (e.g. Confirm Order once the cart is empty)
+        const target = this.dialogReturnFocus;
+        this.dialogReturnFocus = null;
+        if (target && target.isConnected && target.getClientRects().length > 0) target.focus();
+        else document.getElementById('cartTitle')?.focus();
+    }
+
+    private getFocusable(container: HTMLElement): HTMLElement[] {
+        const selector = 'a[href], button:not(:disabled), input:not(:disabled), select:not(:disabled), textarea:not(:disabled), [tabindex]:not([tabindex="-1"])';
+        return (Array.from(container.querySelectorAll(selector)) as HTMLElement[]).filter((element) => element.getClientRects().length > 0);
+    }
+
+    /**
+     * Escape and focus trapping for whichever dialog is open
+     */
+    private setupDialogKeyboard(): void {
+        document.addEventListener('keydown', (event) => {
+            const modal = this.activeDialog;
+            if (!modal) return;
+
+            if (event.key === 'Escape') {
+                event.preventDefault();
+                // Leaving the confirmation means moving on from the placed order
+                if (modal.id === 'orderModal') this.handleStartNewOrder();
+                else if (modal.id === 'optionsModal') this.closeOptionPicker();
+                else this.closeCheckout();
+                return;
+            }
+
+            if (event.key !== 'Tab') return;
+            const focusable = this.getFocusable(modal);
+            if (focusable.length === 0) return event.preventDefault();
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            const active = document.activeElement;
+            if (event.shiftKey && (active === first || !modal.contains(active))) {
+                event.preventDefault();
+                last.focus();
+            } else if (!event.shiftKey && (active === last || !modal.contains(active))) {
+                event.preventDefault();
+                first.focus();
+            }
+        });
+    }
+
+    /**
+     * Describe a cart change in the live region for screen reader users
+     */
+    private announceCartEvent(event: CartEvent): void {
+        const t = this.translator;
+        let message: string;
+        switch (event.type) {
+            case 'item-added':
+                message = t.t('announce.added', { name: t.dessertName(event.item.dessert) });
+                break;
+            case 'item-removed':
+                message = t.t('announce.removed', { name: t.dessertName(event.item.dessert) });
+                break;
+            case 'quantity-updated': {
+                const item = this.cart.getItem(event.lineId);
+                if (!item) return;
+                message = t.t('announce.quantity', { name: t.dessertName(item.dessert), quantity: event.newQuantity });
+                break;
+            }
+            case 'cart-cleared':
+                message = t.t('announce.cleared');
+                break;
+            case 'promo-applied':
+                message = t.t('announce.promoApplied', { code: event.code });
+                break;
+            case 'promo-removed':
+                message = t.t('announce.promoRemoved', { code: event.code });
+                break;
+            default:
+                return;
+        }
+
+        const summary = this.cart.getSummary();
+        this.announce(t.t('announce.summary', { message, count: summary.itemCount, total: this.pricing.format(summary.total) }));
+    }
+
+    private announce(message: string): void {
+        const region = document.getElementById('cartAnnouncer');
+        if (!region) return;
+        // Clear first so repeating the same message is still announced
+        region.textContent = '';
+        window.setTimeout(() => (region.textContent = message), 50);
+    }
+
+    /**
+     * Wire the confirmation modal's print and download buttons
+     */
+    private setupReceiptActions(): void {
+        document.getElementById('printReceiptBtn')?.addEventListener('click', () => this.handlePrintReceipt());
+        document.getElementById('downloadReceiptBtn')?.addEventListener('click', () => {
+            const select = document.getElementById('receiptFormat') as HTMLSelectElement | null;
+            this.handleDownloadReceipt((select?.value ?? 'html') as 'html' | OrderExportFormat);
+        });
+    }
+
+    /**
+     * Receipts show times in the shopper's own locale and time zone
+     */
+    private receiptOptions(): Partial<ReceiptOptions> {
+        const { locale, timeZone } = Intl.DateTimeFormat().resolvedOptions();
+        return { locale, timeZone };
+    }
+
+    /**
+     * Print the receipt from a hidden frame, so the print is the receipt rather than the page
+     */
+    private handlePrintReceipt(): void {
+        if (!this.receiptOrderId) return;
+        const receipt = this.orderManager.getReceipt(this.receiptOrderId, this.receiptOptions());
+
+        document.querySelector('.receipt-frame')?.remove();
+        const frame = document.createElement('iframe');
+        frame.className = 'receipt-frame';
+        frame.title = this.translator.t('order.receipt');
+        frame.tabIndex = -1;
+        frame.setAttribute('aria-hidden', 'true');
+        frame.addEventListener('load', () => frame.contentWindow?.print());
+        frame.srcdoc = receipt;
+        document.body.appendChild(frame);
+    }
+
+    /**
+     * Download the shown order as an HTML receipt, or as JSON or CSV data
+     */
+    private handleDownloadReceipt(format: 'html' | OrderExportFormat): void {
+        const order = this.receiptOrderId ? this.orderManager.getOrder(this.receiptOrderId) : undefined;
+        if (!order) return;
+
+        if (format === 'html') {
+            this.downloadFile(`receipt-${order.id}.html`, this.orderManager.getReceipt(order.id, this.receiptOptions()), 'text/html');
+        } else {
+            this.downloadFile(`order-${order.id}.${format}`, exportOrders([order], format), format === 'csv' ? 'text/csv' : 'application/json');
+        }
+    }
+
+    private downloadFile(name: string, content: string, type: string): void {
+        const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = name;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        // Give the browser a moment to start the download before the URL goes away
+        window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    /**
+     * Handle start new order
+     */
+    private handleStartNewOrder(): void {
+        this.receiptOrderId = null;
+
+        // The cart was emptied when the order was confirmed; draw that first, so focus doesn't go back to a control it hides
+        this.renderer.flush();
+
+        // Hide modal
+        const modal = document.getElementById('orderModal');
+        if (modal) {
+            this.closeDialog(modal);
+        }
+    }
+}
+
+
+/**
+ * Queue orders for the endpoint named in the page's order-endpoint meta tag; without one, orders stay on this device
+ */
+function createOrderOutbox(storage: StorageAdapter): OrderOutbox | null {
+    const url = document.querySelector('meta[name="order-endpoint"]')?.getAttribute('content');
+    return url ? new OrderOutbox(new HttpOrderSubmitter(url), storage) : null;
+}
+
+/**
+ * Use the catalog endpoint named in the page's catalog-url meta tag, or the bundled catalog if there is none
+ */
+function createCatalogProvider(): CatalogProvider {
+    const url = document.querySelector('meta[name="catalog-url"]')?.getAttribute('content');
+    return url ? new HttpCatalogProvider(url) : new StaticCatalogProvider(dessertsData);
+}
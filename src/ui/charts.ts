@@ -0,0 +1,74 @@
+// Plain SVG bar charts for the admin dashboard, drawn with html`` so labels are escaped
+import { html, SafeHtml } from '../utils/html.js';
+
+export interface ChartBar {
+    label: string;
+    value: number;
+    // Shown in the tooltip and next to horizontal bars, e.g. a formatted amount
+    display: string;
+}
+
+const COLUMN_CHART = { width: 640, height: 220, gap: 2, axis: 20 };
+const BAR_CHART = { width: 640, row: 28, label: 160, value: 96 };
+
+function scale(bars: ChartBar[]): number {
+    return Math.max(...bars.map((bar) => bar.value), 0) || 1;
+}
+
+/**
+ * Vertical columns over time, labelling only the first and last so any number of bars fits
+ */
+export function columnChart(bars: ChartBar[], title: string): SafeHtml {
+    const { width, height, gap, axis } = COLUMN_CHART;
+    const max = scale(bars);
+    const columnWidth = bars.length > 0 ? width / bars.length : width;
+    const plot = height - axis;
+
+    const columns = bars.map((bar, i) => {
+        const barHeight = (Math.max(bar.value, 0) / max) * plot;
+        return html`
+            <rect class="chart-bar" x="${(i * columnWidth + gap / 2).toFixed(2)}" y="${(plot - barHeight).toFixed(2)}"
+                width="${Math.max(columnWidth - gap, 1).toFixed(2)}" height="${barHeight.toFixed(2)}">
+                <title>${bar.label}: ${bar.display}</title>
+            </rect>
+        `;
+    });
+    const first = bars[0];
+    const last = bars[bars.length - 1];
+
+    return html`
+        <svg class="chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="${title}">
+            <line class="chart-axis" x1="0" y1="${plot}" x2="${width}" y2="${plot}"/>
+            ${columns}
+            ${first ? html`<text class="chart-label" x="0" y="${height - 4}">${first.label}</text>` : null}
+            ${last && last !== first ? html`<text class="chart-label" x="${width}" y="${height - 4}" text-anchor="end">${last.label}</text>` : null}
+        </svg>
+    `;
+}
+
+/**
+ * One labelled horizontal bar per row, for rankings
+ */
+export function barChart(bars: ChartBar[], title: string): SafeHtml {
+    const { width, row, label, value } = BAR_CHART;
+    const max = scale(bars);
+    const track = width - label - value;
+
+    const rows = bars.map((bar, i) => {
+        const y = i * row;
+        return html`
+            <g>
+                <title>${bar.label}: ${bar.display}</title>
+                <text class="chart-label" x="0" y="${y + row / 2}" dominant-baseline="middle">${bar.label}</text>
+                <rect class="chart-bar" x="${label}" y="${y + 4}" width="${((Math.max(bar.value, 0) / max) * track).toFixed(2)}" height="${row - 8}"/>
+                <text class="chart-value" x="${width}" y="${y + row / 2}" text-anchor="end" dominant-baseline="middle">${bar.display}</text>
+            </g>
+        `;
+    });
+
+    return html`
+        <svg class="chart" viewBox="0 0 ${width} ${Math.max(bars.length, 1) * row}" role="img" aria-label="${title}">
+            ${rows}
+        </svg>
+    `;
+}
@@ -0,0 +1,86 @@
+// Keyed DOM patching and batched renders for templates built with html``
+import { SafeHtml } from '../utils/html.js';
+
+/**
+ * Build the single element a template describes
+ */
+export function createElement<T extends Element = HTMLElement>(markup: SafeHtml): T {
+    const template = document.createElement('template');
+    template.innerHTML = markup.value.trim();
+    const element = template.content.firstElementChild;
+    if (!element || template.content.childElementCount !== 1) throw new Error('Template must describe exactly one element');
+    return element as T;
+}
+
+// Setters that leave the DOM alone when nothing changed, so patches don't disturb focus, selection or images
+
+export function setText(element: Element | null, text: string): void {
+    if (element && element.textContent !== text) element.textContent = text;
+}
+
+export function setAttribute(element: Element | null, name: string, value: string): void {
+    if (element && element.getAttribute(name) !== value) element.setAttribute(name, value);
+}
+
+/**
+ * Make a container's children match `items`, keyed by `data-key`: elements whose key is still present
+ * are updated in place (and only moved when out of order), new keys are created and missing ones removed.
+ * Missing ones go first, so taking out a row doesn't move, and unfocus, the rows after it.
+ */
+export function patchKeyedChildren<T>(
+    container: HTMLElement,
+    items: T[],
+    key: (item: T) => string,
+    create: (item: T) => HTMLElement,
+    update: (element: HTMLElement, item: T) => void
+): void {
+    const wanted = new Set(items.map(key));
+    const existing: Map<string, HTMLElement> = new Map();
+    Array.from(container.children).forEach((child) => {
+        const childKey = (child as HTMLElement).dataset.key;
+        if (childKey === undefined || existing.has(childKey) || !wanted.has(childKey)) child.remove();
+        else existing.set(childKey, child as HTMLElement);
+    });
+
+    let cursor: Element | null = container.firstElementChild;
+    items.forEach((item) => {
+        const itemKey = key(item);
+        let element = existing.get(itemKey);
+        if (element) {
+            existing.delete(itemKey);
+            update(element, item);
+        } else {
+            element = create(item);
+            element.dataset.key = itemKey;
+        }
+
+        if (element === cursor) cursor = cursor.nextElementSibling;
+        else container.insertBefore(element, cursor);
+    });
+}
+
+/**
+ * Coalesces render work requested in the same tick: each named task runs once, in the order first
+ * requested, in a microtask after the current event handling finishes
+ */
+export class RenderScheduler {
+    private pending: Map<string, () => void> = new Map();
+    private queued = false;
+
+    schedule(name: string, task: () => void): void {
+        this.pending.set(name, task);
+        if (this.queued) return;
+        this.queued = true;
+        queueMicrotask(() => this.flush());
+    }
+
+    /**
+     * Run pending work now, e.g. before focusing an element it is about to create
+     */
+    flush(): void {
+        this.queued = false;
+        const tasks = Array.from(this.pending.values());
+        this.pending.clear();
+        tasks.forEach((task) => task());
+    }
+}
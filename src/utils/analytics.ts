@@ -0,0 +1,179 @@
+// Sales analytics over order history and cart sessions. Amounts are converted into one report currency.
+import {
+    AbandonmentStats,
+    CartSession,
+    CartSessionOutcome,
+    CurrencyCode,
+    DessertCategory,
+    DessertId,
+    Order,
+    OrderLine,
+    ProductPair,
+    RevenuePoint,
+    SalesLine,
+    SalesPeriod,
+    SalesReport,
+    SalesReportOptions
+} from '../types/index.js';
+import { Money } from './money.js';
+import { PricingContext } from '../components/PricingContext.js';
+import { SOLD_ORDER_STATUSES } from '../components/OrderManager.js';
+import { Translator } from '../components/Translator.js';
+import { i18nConfig } from '../data/config.js';
+
+export const ABANDON_AFTER_MS = 30 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isSoldOrder(order: Order): boolean {
+    return SOLD_ORDER_STATUSES.includes(order.status);
+}
+
+/**
+ * What an order brought in, after refunds
+ */
+function orderRevenue(order: Order, pricing: PricingContext, currency: CurrencyCode): Money {
+    return pricing.convert(order.details.total.subtract(order.refundedAmount), currency);
+}
+
+/**
+ * The calendar day a moment falls on in `timeZone`, as YYYY-MM-DD
+ */
+function dayKey(date: Date, timeZone: string): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+function parseDayKey(key: string): Date {
+    return new Date(`${key}T00:00:00Z`);
+}
+
+/**
+ * The Monday starting the ISO week that a YYYY-MM-DD day belongs to
+ */
+function weekKey(day: string): string {
+    const date = parseDayKey(day);
+    const sinceMonday = (date.getUTCDay() + 6) % 7;
+    return new Date(date.getTime() - sinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Revenue and order count per day or week, oldest first, with empty periods between the first
+ * and last sale filled in so the series can be charted directly
+ */
+export function revenueByPeriod(orders: Order[], period: SalesPeriod, pricing: PricingContext, currency: CurrencyCode, timeZone: string = 'UTC'): RevenuePoint[] {
+    const buckets: Map<string, RevenuePoint> = new Map();
+    orders.filter(isSoldOrder).forEach((order) => {
+        const day = dayKey(order.details.createdAt, timeZone);
+        const key = period === 'day' ? day : weekKey(day);
+        const point = buckets.get(key) ?? { period: key, orders: 0, revenue: Money.zero(currency) };
+        buckets.set(key, { ...point, orders: point.orders + 1, revenue: point.revenue.add(orderRevenue(order, pricing, currency)) });
+    });
+    if (buckets.size === 0) return [];
+
+    const keys = Array.from(buckets.keys()).sort();
+    const step = period === 'day' ? DAY_MS : 7 * DAY_MS;
+    const points: RevenuePoint[] = [];
+    for (let time = parseDayKey(keys[0]).getTime(); time <= parseDayKey(keys[keys.length - 1]).getTime(); time += step) {
+        const key = new Date(time).toISOString().slice(0, 10);
+        points.push(buckets.get(key) ?? { period: key, orders: 0, revenue: Money.zero(currency) });
+    }
+    return points;
+}
+
+/**
+ * Units and line revenue (before order-level discounts, tax and delivery) grouped by `keyOf`,
+ * best sellers by revenue first
+ */
+function salesBy<K extends string>(
+    orders: Order[],
+    pricing: PricingContext,
+    currency: CurrencyCode,
+    keyOf: (line: OrderLine) => { key: K; label: string }
+): SalesLine<K>[] {
+    const lines: Map<K, SalesLine<K>> = new Map();
+    orders.filter(isSoldOrder).forEach((order) => {
+        order.details.items.forEach((item) => {
+            const { key, label } = keyOf(item);
+            const line = lines.get(key) ?? { key, label, units: 0, revenue: Money.zero(currency) };
+            lines.set(key, { ...line, units: line.units + item.quantity, revenue: line.revenue.add(pricing.convert(item.lineTotal, currency)) });
+        });
+    });
+    return Array.from(lines.values()).sort((a, b) => b.revenue.minor - a.revenue.minor || b.units - a.units || a.label.localeCompare(b.label));
+}
+
+/**
+ * Revenue per category, labelled in the translator's language; the dashboard reports in English
+ */
+export function salesByCategory(orders: Order[], pricing: PricingContext, currency: CurrencyCode, translator: Translator = new Translator(i18nConfig)): SalesLine<DessertCategory>[] {
+    return salesBy(orders, pricing, currency, (item) => ({ key: item.dessert.category, label: translator.category(item.dessert.category) }));
+}
+
+export function salesByDessert(orders: Order[], pricing: PricingContext, currency: CurrencyCode): SalesLine<DessertId>[] {
+    return salesBy(orders, pricing, currency, (item) => ({ key: item.dessert.id, label: item.dessert.name }));
+}
+
+export function averageOrderValue(orders: Order[], pricing: PricingContext, currency: CurrencyCode): Money {
+    const sold = orders.filter(isSoldOrder);
+    if (sold.length === 0) return Money.zero(currency);
+    const revenue = Money.sum(sold.map((order) => orderRevenue(order, pricing, currency)), currency);
+    return Money.fromMinor(Math.round(revenue.minor / sold.length), currency);
+}
+
+/**
+ * Pairs of desserts most often ordered together, by number of orders containing both
+ */
+export function frequentPairs(orders: Order[], limit: number = 5): ProductPair[] {
+    const sold = orders.filter(isSoldOrder);
+    const pairs: Map<string, ProductPair> = new Map();
+    sold.forEach((order) => {
+        const desserts = Array.from(new Map(order.details.items.map((item) => [item.dessert.id, item.dessert.name])).entries())
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        desserts.forEach(([firstId, firstName], i) => {
+            desserts.slice(i + 1).forEach(([secondId, secondName]) => {
+                const key = `${firstId}\u0000${secondId}`;
+                const pair = pairs.get(key) ?? { dessertIds: [firstId, secondId], names: [firstName, secondName], orders: 0, share: 0 };
+                pairs.set(key, { ...pair, orders: pair.orders + 1 });
+            });
+        });
+    });
+    return Array.from(pairs.values())
+        .map((pair) => ({ ...pair, share: pair.orders / sold.length }))
+        .sort((a, b) => b.orders - a.orders || a.names.join().localeCompare(b.names.join()))
+        .slice(0, limit);
+}
+
+export function classifyCartSession(session: CartSession, now: Date, abandonAfterMs: number = ABANDON_AFTER_MS): CartSessionOutcome {
+    if (session.orderId !== undefined) return 'ordered';
+    return now.getTime() - session.lastActivityAt.getTime() >= abandonAfterMs ? 'abandoned' : 'active';
+}
+
+export function abandonmentStats(sessions: CartSession[], now: Date, abandonAfterMs: number = ABANDON_AFTER_MS): AbandonmentStats {
+    const counts: Record<CartSessionOutcome, number> = { ordered: 0, abandoned: 0, active: 0 };
+    sessions.forEach((session) => counts[classifyCartSession(session, now, abandonAfterMs)]++);
+    const finished = counts.ordered + counts.abandoned;
+    return { sessions: sessions.length, ...counts, rate: finished === 0 ? 0 : counts.abandoned / finished };
+}
+
+export function buildSalesReport(orders: Order[], sessions: CartSession[], pricing: PricingContext, options: Partial<SalesReportOptions> = {}): SalesReport {
+    const { currency, timeZone, now, abandonAfterMs, pairLimit }: SalesReportOptions = {
+        currency: pricing.currency,
+        timeZone: 'UTC',
+        now: new Date(),
+        abandonAfterMs: ABANDON_AFTER_MS,
+        pairLimit: 5,
+        ...options
+    };
+    const sold = orders.filter(isSoldOrder);
+    return {
+        currency,
+        orderCount: sold.length,
+        revenue: Money.sum(sold.map((order) => orderRevenue(order, pricing, currency)), currency),
+        averageOrderValue: averageOrderValue(sold, pricing, currency),
+        revenueByDay: revenueByPeriod(sold, 'day', pricing, currency, timeZone),
+        revenueByWeek: revenueByPeriod(sold, 'week', pricing, currency, timeZone),
+        byCategory: salesByCategory(sold, pricing, currency),
+        byDessert: salesByDessert(sold, pricing, currency),
+        frequentPairs: frequentPairs(sold, pairLimit),
+        abandonment: abandonmentStats(sessions, now, abandonAfterMs)
+    };
+}
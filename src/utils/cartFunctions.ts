@@ -0,0 +1,143 @@
+// Immutable cart operations. Each returns a new array and never mutates the cart or items it was given;
+// ShoppingCart replays its logged events through applyCartMutation so both stay in step.
+import { CartEvent, CartItem, CartLineId, CartMutation, Dessert, DiscountResult, FulfilmentMethod, GroupOrder, PriceTotals, SelectedOptions } from '../types/index.js';
+import { Money } from './money.js';
+import { InvalidOptionsError, lineIdOf, normalizeOptions, validateOptions } from './options.js';
+import { pricingConfig } from '../data/config.js';
+import { PricingContext } from '../components/PricingContext.js';
+
+export const CART_MUTATIONS: readonly CartMutation['type'][] = ['item-added', 'item-removed', 'quantity-updated', 'cart-cleared', 'items-replaced', 'promo-applied', 'promo-removed', 'group-changed'];
+
+export function copyCartItem(item: CartItem): CartItem {
+    const copy: CartItem = { dessert: item.dessert, options: copyOptions(item.options), quantity: item.quantity, addedAt: new Date(item.addedAt) };
+    if (item.participantId !== undefined) copy.participantId = item.participantId;
+    return copy;
+}
+
+export function copyGroupOrder(group: GroupOrder | null): GroupOrder | null {
+    return group ? { participants: group.participants.map((participant) => ({ ...participant })), split: group.split } : null;
+}
+
+export function copyOptions(options: SelectedOptions): SelectedOptions {
+    return Object.fromEntries(Object.entries(options).map(([groupId, ids]) => [groupId, [...ids]]));
+}
+
+export function isCartMutation(event: CartEvent): event is CartMutation {
+    return (CART_MUTATIONS as readonly string[]).includes(event.type);
+}
+
+/**
+ * The mutation that reverses `event`
+ */
+export function invertCartEvent(event: CartMutation): CartMutation {
+    switch (event.type) {
+        case 'item-added':
+            return { type: 'item-removed', lineId: lineIdOf(event.item), item: event.item, position: event.position };
+        case 'item-removed':
+            return { type: 'item-added', item: event.item, position: event.position };
+        case 'quantity-updated':
+            return { type: 'quantity-updated', lineId: event.lineId, newQuantity: event.previousQuantity, previousQuantity: event.newQuantity };
+        case 'cart-cleared':
+            return { type: 'items-replaced', items: event.items, promoCodes: event.promoCodes, previousItems: [], previousPromoCodes: [] };
+        case 'items-replaced':
+            return { type: 'items-replaced', items: event.previousItems, promoCodes: event.previousPromoCodes, previousItems: event.items, previousPromoCodes: event.promoCodes };
+        case 'promo-applied':
+            return { type: 'promo-removed', code: event.code };
+        case 'promo-removed':
+            return { type: 'promo-applied', code: event.code };
+        case 'group-changed':
+            return { type: 'group-changed', group: event.previous, previous: event.group };
+    }
+}
+
+export function findItem(cart: readonly CartItem[], lineId: CartLineId): CartItem | undefined {
+    return cart.find((item) => lineIdOf(item) === lineId);
+}
+
+/**
+ * Add `quantity` of a dessert with the given options, merging into the line with the same selection
+ */
+export function addToCart(cart: readonly CartItem[], dessert: Dessert, quantity: number = 1, addedAt: Date = new Date(), options: SelectedOptions = {}): CartItem[] {
+    if (quantity <= 0) throw new Error('Quantity must be greater than 0');
+    if (!dessert.inStock) throw new Error('Dessert is not in stock');
+    const errors = validateOptions(dessert, options);
+    if (Object.keys(errors).length > 0) throw new InvalidOptionsError(dessert.id, errors);
+    const item: CartItem = { dessert, options: normalizeOptions(dessert, options), quantity, addedAt };
+    const lineId = lineIdOf(item);
+    if (!findItem(cart, lineId)) return [...cart, item];
+    return cart.map((line) => (lineIdOf(line) === lineId ? { ...line, quantity: line.quantity + quantity } : line));
+}
+
+export function removeFromCart(cart: readonly CartItem[], lineId: CartLineId): CartItem[] {
+    return cart.filter((item) => lineIdOf(item) !== lineId);
+}
+
+/**
+ * Set a line's quantity; zero or less removes it, and lines not in the cart are ignored
+ */
+export function updateQuantity(cart: readonly CartItem[], lineId: CartLineId, newQuantity: number): CartItem[] {
+    if (newQuantity <= 0) return removeFromCart(cart, lineId);
+    const existing = findItem(cart, lineId);
+    if (existing && newQuantity > existing.quantity && !existing.dessert.inStock) throw new Error('Dessert is not in stock');
+    return cart.map((item) => (lineIdOf(item) === lineId ? { ...item, quantity: newQuantity } : item));
+}
+
+export function incrementItem(cart: readonly CartItem[], lineId: CartLineId): CartItem[] {
+    const item = findItem(cart, lineId);
+    return item ? updateQuantity(cart, lineId, item.quantity + 1) : [...cart];
+}
+
+export function decrementItem(cart: readonly CartItem[], lineId: CartLineId): CartItem[] {
+    const item = findItem(cart, lineId);
+    return item ? updateQuantity(cart, lineId, item.quantity - 1) : [...cart];
+}
+
+export function getItemCount(cart: readonly CartItem[]): number {
+    return cart.reduce((count, item) => count + item.quantity, 0);
+}
+
+/**
+ * Subtotal, tax and total for the cart in the pricing context's region, optionally after discounts
+ */
+export function calculateTotal(
+    cart: readonly CartItem[],
+    pricing: PricingContext = new PricingContext(pricingConfig),
+    discounts?: DiscountResult,
+    method?: FulfilmentMethod
+): PriceTotals {
+    const none: DiscountResult = { discounts: [], discountTotal: Money.zero(pricing.currency), rejected: [], netLines: {} };
+    return pricing.totals([...cart], discounts ?? none, method);
+}
+
+/**
+ * The cart after a logged mutation; promo code and group events leave the lines as they are
+ */
+export function applyCartMutation(cart: readonly CartItem[], event: CartMutation): CartItem[] {
+    switch (event.type) {
+        case 'item-added': {
+            const next = removeFromCart(cart, lineIdOf(event.item));
+            next.splice(event.position, 0, copyCartItem(event.item));
+            return next;
+        }
+        case 'item-removed':
+            return removeFromCart(cart, event.lineId);
+        case 'quantity-updated':
+            if (!findItem(cart, event.lineId)) throw new Error(`Cannot update ${event.lineId}: it is not in the cart`);
+            return cart.map((item) => (lineIdOf(item) === event.lineId ? { ...item, quantity: event.newQuantity } : item));
+        case 'cart-cleared':
+            return [];
+        case 'items-replaced':
+            return event.items.map(copyCartItem);
+        case 'promo-applied':
+        case 'promo-removed':
+        case 'group-changed':
+            return [...cart];
+    }
+}
+
+/**
+ * Rebuild cart lines by replaying an event log from an empty cart
+ */
+export function replayCartEvents(events: readonly CartMutation[]): CartItem[] {
+    return events.reduce<CartItem[]>((cart, event) => applyCartMutation(cart, event), []);
+}
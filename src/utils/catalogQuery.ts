@@ -0,0 +1,132 @@
+// Catalog search, filtering and sorting, and its URL form
+import { CatalogQuery, CatalogQueryContext, CatalogSort, Dessert, DessertCategory, DessertText } from '../types/index.js';
+import { Money } from './money.js';
+
+export const DEFAULT_CATALOG_QUERY: CatalogQuery = { search: '', categories: [], inStockOnly: false, sort: 'featured' };
+
+const CATALOG_SORTS: CatalogSort[] = ['featured', 'price-asc', 'price-desc', 'name-asc', 'name-desc', 'popularity'];
+
+/**
+ * Lowercase and strip diacritics so "Crème Brûlée" and "creme brulee" compare equal
+ */
+function normalizeText(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
+
+/**
+ * Score how well one search term matches a text: 3 for a word prefix, 2 for a substring,
+ * 1 for a near miss (one typo, two for long terms), 0 for no match
+ */
+function termScore(term: string, text: string): number {
+    const words = text.split(/[^a-z0-9]+/).filter(Boolean);
+    if (words.some((word) => word.startsWith(term))) return 3;
+    if (text.includes(term)) return 2;
+    if (term.length < 4) return 0;
+    const tolerance = term.length >= 8 ? 2 : 1;
+    return words.some((word) => editDistance(term, word.slice(0, term.length + 1)) <= tolerance || editDistance(term, word) <= tolerance) ? 1 : 0;
+}
+
+/**
+ * Relevance of a dessert for a search string; every term has to match the name or description.
+ * Name matches weigh double. Returns 0 when the dessert doesn't match.
+ */
+function searchScore(text: DessertText, search: string): number {
+    const terms = normalizeText(search).split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return 1;
+
+    const name = normalizeText(text.name);
+    const description = normalizeText(`${text.category} ${text.description ?? ''}`);
+    let score = 0;
+    for (const term of terms) {
+        const termTotal = termScore(term, name) * 2 + termScore(term, description);
+        if (termTotal === 0) return 0;
+        score += termTotal;
+    }
+    return score;
+}
+
+/**
+ * Filter and sort the catalog. Price bounds are in major units of the currency
+ * the context prices in; 'featured' keeps catalog order unless a search ranks by relevance.
+ */
+export function queryCatalog(desserts: Dessert[], query: CatalogQuery, context: CatalogQueryContext): Dessert[] {
+    const describe = context.text ?? ((dessert: Dessert): DessertText => dessert);
+    const scored = desserts
+        .map((dessert, index) => {
+            const text = describe(dessert);
+            return { dessert, index, name: text.name, price: context.price(dessert), score: searchScore(text, query.search) };
+        })
+        .filter(({ dessert, price, score }) => {
+            if (score === 0) return false;
+            if (query.categories.length > 0 && !query.categories.includes(dessert.category)) return false;
+            if (query.minPrice !== undefined && price.lessThan(Money.of(query.minPrice, price.currency))) return false;
+            if (query.maxPrice !== undefined && price.greaterThan(Money.of(query.maxPrice, price.currency))) return false;
+            if (query.inStockOnly && !context.isAvailable(dessert)) return false;
+            return true;
+        });
+
+    const compare: Record<CatalogSort, (a: (typeof scored)[number], b: (typeof scored)[number]) => number> = {
+        featured: (a, b) => b.score - a.score,
+        'price-asc': (a, b) => a.price.minor - b.price.minor,
+        'price-desc': (a, b) => b.price.minor - a.price.minor,
+        'name-asc': (a, b) => a.name.localeCompare(b.name),
+        'name-desc': (a, b) => b.name.localeCompare(a.name),
+        popularity: (a, b) => context.popularity(b.dessert.id) - context.popularity(a.dessert.id)
+    };
+    return scored.sort((a, b) => compare[query.sort](a, b) || a.index - b.index).map(({ dessert }) => dessert);
+}
+
+/**
+ * Read a catalog query from a URL query string such as "?q=creme&category=cake,pie&sort=price-asc"
+ */
+export function parseCatalogQuery(search: string): CatalogQuery {
+    const params = new URLSearchParams(search);
+    const slugs = (params.get('category') ?? '').split(',').filter(Boolean);
+    const price = (key: string): number | undefined => {
+        const raw = params.get(key);
+        const value = raw === null || raw === '' ? NaN : Number(raw);
+        return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+    const sort = params.get('sort') as CatalogSort | null;
+
+    const query: CatalogQuery = {
+        search: params.get('q') ?? '',
+        categories: Object.values(DessertCategory).filter((category) => slugs.includes(category)),
+        inStockOnly: params.get('instock') === '1',
+        sort: sort && CATALOG_SORTS.includes(sort) ? sort : 'featured'
+    };
+    const minPrice = price('min');
+    const maxPrice = price('max');
+    if (minPrice !== undefined) query.minPrice = minPrice;
+    if (maxPrice !== undefined) query.maxPrice = maxPrice;
+    return query;
+}
+
+/**
+ * Write a catalog query as a URL query string, leaving out defaults; '' when nothing is set
+ */
+export function serializeCatalogQuery(query: CatalogQuery): string {
+    const params = new URLSearchParams();
+    if (query.search.trim()) params.set('q', query.search.trim());
+    if (query.categories.length > 0) params.set('category', query.categories.join(','));
+    if (query.minPrice !== undefined) params.set('min', String(query.minPrice));
+    if (query.maxPrice !== undefined) params.set('max', String(query.maxPrice));
+    if (query.inStockOnly) params.set('instock', '1');
+    if (query.sort !== DEFAULT_CATALOG_QUERY.sort) params.set('sort', query.sort);
+    const serialized = params.toString();
+    return serialized ? `?${serialized}` : '';
+}
@@ -0,0 +1,98 @@
+// Checkout form validation and pickup slot scheduling
+import { CheckoutDetails, CheckoutErrors, CheckoutForm, CheckoutStep, ContactDetails, DeliveryAddress, PickupConfig, PickupSlot } from '../types/index.js';
+import { i18nConfig } from '../data/config.js';
+import { Translator } from '../components/Translator.js';
+
+export const CHECKOUT_STEPS: CheckoutStep[] = ['contact', 'fulfilment', 'review'];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const POSTCODE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 -]{1,9}$/;
+
+export class CheckoutValidationError extends Error {
+    constructor(public readonly step: CheckoutStep, public readonly errors: CheckoutErrors) {
+        super(`Checkout details are incomplete: ${Object.keys(errors).join(', ')}`);
+        this.name = 'CheckoutValidationError';
+    }
+}
+
+export function isValidEmail(email: string): boolean {
+    return EMAIL_PATTERN.test(email.trim());
+}
+
+export function emptyCheckoutForm(): CheckoutForm {
+    return { name: '', email: '', phone: '', method: 'pickup', pickupSlot: '', line1: '', line2: '', city: '', postcode: '', instructions: '' };
+}
+
+/**
+ * Pickup slots that can still be booked, from `now` plus the lead time up to closing on the last day offered
+ */
+export function getPickupSlots(config: PickupConfig, now: Date = new Date()): PickupSlot[] {
+    const slots: PickupSlot[] = [];
+    const earliest = now.getTime() + config.leadMinutes * 60 * 1000;
+    for (let day = 0; day < config.daysAhead; day++) {
+        const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() + day, config.opensAt);
+        const close = new Date(now.getFullYear(), now.getMonth(), now.getDate() + day, config.closesAt);
+        while (start.getTime() + config.slotMinutes * 60 * 1000 <= close.getTime()) {
+            const end = new Date(start.getTime() + config.slotMinutes * 60 * 1000);
+            if (start.getTime() >= earliest) slots.push({ start: new Date(start), end });
+            start.setTime(end.getTime());
+        }
+    }
+    return slots;
+}
+
+/**
+ * Field errors for one checkout step, in the translator's language; the review step re-checks
+ * everything before the order is placed
+ */
+export function validateCheckoutStep(
+    step: CheckoutStep,
+    form: CheckoutForm,
+    slots: PickupSlot[],
+    translator: Translator = new Translator(i18nConfig)
+): CheckoutErrors {
+    if (step === 'review') {
+        return { ...validateCheckoutStep('contact', form, slots, translator), ...validateCheckoutStep('fulfilment', form, slots, translator) };
+    }
+
+    const t = translator.t.bind(translator);
+    const errors: CheckoutErrors = {};
+    if (step === 'contact') {
+        const digits = form.phone.replace(/[\s().-]/g, '');
+        if (form.name.trim() === '') errors.name = t('checkout.error.name');
+        if (form.email.trim() === '') errors.email = t('checkout.error.emailRequired');
+        else if (!isValidEmail(form.email)) errors.email = t('checkout.error.emailInvalid');
+        if (digits === '') errors.phone = t('checkout.error.phoneRequired');
+        else if (!/^\+?\d{7,15}$/.test(digits)) errors.phone = t('checkout.error.phoneInvalid');
+    } else if (form.method === 'pickup') {
+        if (form.pickupSlot === '') errors.pickupSlot = t('checkout.error.pickupSlotRequired');
+        else if (!slots.some((slot) => slot.start.toISOString() === form.pickupSlot)) errors.pickupSlot = t('checkout.error.pickupSlotUnavailable');
+    } else {
+        if (form.line1.trim() === '') errors.line1 = t('checkout.error.line1');
+        if (form.city.trim() === '') errors.city = t('checkout.error.city');
+        if (form.postcode.trim() === '') errors.postcode = t('checkout.error.postcodeRequired');
+        else if (!POSTCODE_PATTERN.test(form.postcode.trim())) errors.postcode = t('checkout.error.postcodeInvalid');
+    }
+    return errors;
+}
+
+/**
+ * Turn a completed checkout form into order details.
+ * Throws CheckoutValidationError naming the first step with a problem.
+ */
+export function buildCheckoutDetails(form: CheckoutForm, slots: PickupSlot[], translator: Translator = new Translator(i18nConfig)): CheckoutDetails {
+    for (const step of CHECKOUT_STEPS) {
+        const errors = validateCheckoutStep(step, form, slots, translator);
+        if (Object.keys(errors).length > 0) throw new CheckoutValidationError(step, errors);
+    }
+
+    const contact: ContactDetails = { name: form.name.trim(), email: form.email.trim(), phone: form.phone.trim() };
+    if (form.method === 'pickup') {
+        const slot = slots.find((s) => s.start.toISOString() === form.pickupSlot) as PickupSlot;
+        return { contact, fulfilment: { method: 'pickup', slot: { start: new Date(slot.start), end: new Date(slot.end) } } };
+    }
+
+    const address: DeliveryAddress = { line1: form.line1.trim(), city: form.city.trim(), postcode: form.postcode.trim().toUpperCase() };
+    if (form.line2.trim() !== '') address.line2 = form.line2.trim();
+    if (form.instructions.trim() !== '') address.instructions = form.instructions.trim();
+    return { contact, fulfilment: { method: 'delivery', address } };
+}
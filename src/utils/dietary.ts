@@ -0,0 +1,89 @@
+// Allergens and diets: what a dessert line contains and whether it suits a customer's dietary profile
+import { Allergen, CartItem, Dessert, DietaryConflict, DietaryConflictLine, DietaryProfile, DietaryTag, SelectedOptions } from '../types/index.js';
+import { describeOptions } from './options.js';
+import { i18nConfig } from '../data/config.js';
+import { Translator } from '../components/Translator.js';
+
+// Allergens that rule a diet out, so an option adding one takes the tag off the line
+const DIET_EXCLUDES: Record<DietaryTag, Allergen[]> = {
+    [DietaryTag.Vegetarian]: [],
+    [DietaryTag.Vegan]: [Allergen.Dairy, Allergen.Egg],
+    [DietaryTag.GlutenFree]: [Allergen.Gluten]
+};
+
+export function emptyDietaryProfile(): DietaryProfile {
+    return { avoid: [], diets: [], hideConflicts: false };
+}
+
+export function hasDietaryNeeds(profile: DietaryProfile): boolean {
+    return profile.avoid.length > 0 || profile.diets.length > 0;
+}
+
+/**
+ * Everything a dessert contains with the picked options, in catalog order; undefined when the
+ * dessert's allergens aren't declared
+ */
+export function lineAllergens(dessert: Dessert, options: SelectedOptions = {}): Allergen[] | undefined {
+    if (!dessert.allergens) return undefined;
+    const found = new Set(dessert.allergens);
+    (dessert.optionGroups ?? []).forEach((group) => {
+        group.options
+            .filter((option) => (options[group.id] ?? []).includes(option.id))
+            .forEach((option) => option.allergens?.forEach((allergen) => found.add(allergen)));
+    });
+    return Object.values(Allergen).filter((allergen) => found.has(allergen));
+}
+
+/**
+ * The diets a dessert suits with the picked options, e.g. a vegan dessert stops being vegan with a dairy topping
+ */
+export function lineDiets(dessert: Dessert, options: SelectedOptions = {}): DietaryTag[] {
+    const allergens = lineAllergens(dessert, options) ?? [];
+    return (dessert.dietary ?? []).filter((diet) => !DIET_EXCLUDES[diet].some((allergen) => allergens.includes(allergen)));
+}
+
+/**
+ * Why a dessert with the picked options doesn't suit the profile, or null when it does
+ */
+export function dietaryConflict(dessert: Dessert, profile: DietaryProfile, options: SelectedOptions = {}): DietaryConflict | null {
+    const allergens = lineAllergens(dessert, options);
+    const diets = lineDiets(dessert, options);
+    const conflict: DietaryConflict = {
+        allergens: profile.avoid.filter((allergen) => allergens?.includes(allergen)),
+        diets: profile.diets.filter((diet) => !diets.includes(diet)),
+        undeclared: allergens === undefined && profile.avoid.length > 0
+    };
+    return conflict.allergens.length > 0 || conflict.diets.length > 0 || conflict.undeclared ? conflict : null;
+}
+
+/**
+ * Every cart line that doesn't suit the profile, with the catalog's own names so staff can read them
+ */
+export function findDietaryConflicts(items: readonly CartItem[], profile: DietaryProfile): DietaryConflictLine[] {
+    return items.flatMap((item) => {
+        const conflict = dietaryConflict(item.dessert, profile, item.options);
+        if (!conflict) return [];
+        return [{
+            dessertId: item.dessert.id,
+            name: item.dessert.name,
+            options: describeOptions(item.dessert, item.options),
+            quantity: item.quantity,
+            ...conflict
+        }];
+    });
+}
+
+/**
+ * A conflict as the customer reads it, e.g. "Contains nuts, egg · Not vegan"
+ */
+export function describeDietaryConflict(conflict: DietaryConflict, translator: Translator = new Translator(i18nConfig)): string {
+    const parts: string[] = [];
+    if (conflict.allergens.length > 0) {
+        parts.push(translator.t('dietary.contains', { allergens: conflict.allergens.map((allergen) => translator.allergen(allergen)).join(', ') }));
+    }
+    if (conflict.diets.length > 0) {
+        parts.push(translator.t('dietary.notDiet', { diets: conflict.diets.map((diet) => translator.diet(diet)).join(', ') }));
+    }
+    if (conflict.undeclared) parts.push(translator.t('dietary.undeclared'));
+    return parts.join(' · ');
+}
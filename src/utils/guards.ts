@@ -0,0 +1,36 @@
+// Runtime checks for untyped JSON
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isOneOf<T extends string>(value: unknown, values: readonly T[]): value is T {
+    return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+// The as* checks throw, naming the field, so a reviver can give up on the whole value at the first bad one
+
+export function asArray(value: unknown, field: string): unknown[] {
+    if (!Array.isArray(value)) throw new Error(`Expected "${field}" to be an array`);
+    return value;
+}
+
+export function asRecord(value: unknown, field: string): Record<string, unknown> {
+    if (!isRecord(value)) throw new Error(`Expected "${field}" to be an object`);
+    return value;
+}
+
+export function asString(value: unknown, field: string): string {
+    if (typeof value !== 'string') throw new Error(`Expected "${field}" to be a string`);
+    return value;
+}
+
+export function asNumber(value: unknown, field: string): number {
+    if (typeof value !== 'number') throw new Error(`Expected "${field}" to be a number`);
+    return value;
+}
+
+export function asOneOf<T extends string>(value: unknown, values: readonly T[], field: string): T {
+    if (!isOneOf(value, values)) throw new Error(`Unknown value ${JSON.stringify(value)} in "${field}"`);
+    return value;
+}
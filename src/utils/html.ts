@@ -0,0 +1,44 @@
+// Auto-escaping HTML templates; DOM-free, so receipts can be rendered outside the browser
+
+const HTML_ESCAPES: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+    '`': '&#96;'
+};
+
+/**
+ * Markup produced by html``; only this is inserted unescaped into another template
+ */
+export class SafeHtml {
+    constructor(readonly value: string) {}
+
+    toString(): string {
+        return this.value;
+    }
+}
+
+type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"'`]/g, (char) => HTML_ESCAPES[char]);
+}
+
+function renderHtmlValue(value: HtmlValue): string {
+    if (value instanceof SafeHtml) return value.value;
+    if (Array.isArray(value)) return value.map(renderHtmlValue).join('');
+    if (value === null || value === undefined || value === false) return '';
+    return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes every interpolation. Nested html`` results (or arrays of them)
+ * are kept as markup; null, undefined and false render nothing.
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+    let markup = strings[0];
+    values.forEach((value, i) => (markup += renderHtmlValue(value) + strings[i + 1]));
+    return new SafeHtml(markup);
+}
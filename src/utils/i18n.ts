@@ -0,0 +1,126 @@
+// ICU-style message formatting and locale negotiation; DOM-free
+import { LocaleCode } from '../types/index.js';
+
+const pluralRules: Map<string, Intl.PluralRules> = new Map();
+const numberFormats: Map<string, Intl.NumberFormat> = new Map();
+
+function pluralCategory(count: number, locale: string): string {
+    let rules = pluralRules.get(locale);
+    if (!rules) {
+        rules = new Intl.PluralRules(locale);
+        pluralRules.set(locale, rules);
+    }
+    return rules.select(count);
+}
+
+function formatNumber(value: number, locale: string): string {
+    let format = numberFormats.get(locale);
+    if (!format) {
+        format = new Intl.NumberFormat(locale);
+        numberFormats.set(locale, format);
+    }
+    return format.format(value);
+}
+
+/**
+ * Index of the brace that closes the one opened at `start`
+ */
+function closingBrace(template: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < template.length; i++) {
+        if (template[i] === '{') depth++;
+        else if (template[i] === '}' && --depth === 0) return i;
+    }
+    throw new Error(`Unclosed placeholder in message "${template}"`);
+}
+
+/**
+ * The branches of a plural argument such as "=0 {none} one {# item} other {# items}", by selector
+ */
+function pluralBranches(source: string): Map<string, string> {
+    const branches: Map<string, string> = new Map();
+    let index = 0;
+    let open = source.indexOf('{', index);
+    while (open !== -1) {
+        const close = closingBrace(source, open);
+        branches.set(source.slice(index, open).trim(), source.slice(open + 1, close));
+        index = close + 1;
+        open = source.indexOf('{', index);
+    }
+    return branches;
+}
+
+/**
+ * Fill in a message's placeholders, keeping the pieces apart so values that aren't text (such as markup)
+ * can be placed between them. Supports the ICU subset the catalogs use: `{name}` and
+ * `{count, plural, =0 {...} one {...} other {...}}`, where `#` in a branch is the formatted count.
+ * Exact `=n` branches win over the locale's plural category, and `other` is the fallback.
+ * ICU apostrophe quoting isn't supported, so apostrophes are always literal.
+ */
+export function formatMessageParts<T = never>(template: string, params: Record<string, string | number | T>, locale: string, count?: number): (string | T)[] {
+    const parts: (string | T)[] = [];
+    let text = '';
+    let index = 0;
+    while (index < template.length) {
+        const char = template[index];
+        if (char === '#' && count !== undefined) {
+            text += formatNumber(count, locale);
+            index++;
+            continue;
+        }
+        if (char !== '{') {
+            text += char;
+            index++;
+            continue;
+        }
+
+        const close = closingBrace(template, index);
+        const body = template.slice(index + 1, close);
+        index = close + 1;
+        const [name, type] = body.split(',', 2).map((part) => part.trim());
+        const value = params[name];
+
+        if (type === 'plural') {
+            const amount = Number(value);
+            const branches = pluralBranches(body.slice(body.indexOf(',', body.indexOf(',') + 1) + 1));
+            const branch = branches.get(`=${amount}`) ?? branches.get(pluralCategory(amount, locale)) ?? branches.get('other') ?? '';
+            formatMessageParts(branch, params, locale, amount).forEach((part) => {
+                if (typeof part === 'string') text += part;
+                else {
+                    parts.push(text, part);
+                    text = '';
+                }
+            });
+        } else if (type !== undefined) {
+            throw new Error(`Unsupported "${type}" argument in message "${template}"`);
+        } else if (value === undefined) {
+            // Left as written, so a missing parameter shows up rather than vanishing
+            text += `{${name}}`;
+        } else if (typeof value === 'number') {
+            text += formatNumber(value, locale);
+        } else if (typeof value === 'string') {
+            text += value;
+        } else {
+            parts.push(text, value);
+            text = '';
+        }
+    }
+    parts.push(text);
+    return parts.filter((part) => part !== '');
+}
+
+export function formatMessage(template: string, params: Record<string, string | number>, locale: string): string {
+    return formatMessageParts(template, params, locale).join('');
+}
+
+/**
+ * The first supported locale among the shopper's preferences, matching "fr-CA" to "fr"
+ */
+export function negotiateLocale(preferred: readonly string[], available: readonly LocaleCode[]): LocaleCode | undefined {
+    for (const tag of preferred) {
+        const language = tag.toLowerCase().split('-')[0];
+        const match = available.find((code) => code === language);
+        if (match) return match;
+    }
+    return undefined;
+}
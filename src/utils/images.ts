@@ -0,0 +1,14 @@
+// Responsive image sets for dessert photos
+import { DessertImageSet } from '../types/index.js';
+
+export const IMAGE_VARIANTS: (keyof DessertImageSet)[] = ['thumbnail', 'mobile', 'tablet', 'desktop'];
+
+/**
+ * Expand one photo path into the full image set, relying on the
+ * images/image-<name>-<variant>.jpg naming. Paths that don't follow it are used for every size.
+ */
+export function imageSetFromPath(path: string): DessertImageSet {
+    const match = /-(thumbnail|mobile|tablet|desktop)(\.\w+)$/.exec(path);
+    const variant = (size: keyof DessertImageSet) => (match ? `${path.slice(0, match.index)}-${size}${match[2]}` : path);
+    return { thumbnail: variant('thumbnail'), mobile: variant('mobile'), tablet: variant('tablet'), desktop: variant('desktop') };
+}
@@ -0,0 +1,10 @@
+// Logging for components that carry on after a failure
+import { Logger } from '../types/index.js';
+
+/**
+ * Drops everything; the default wherever no logger is passed in, e.g. in tests
+ */
+export const silentLogger: Logger = {
+    warn: () => undefined,
+    error: () => undefined
+};
@@ -0,0 +1,34 @@
+// Loyalty points: what an order earns, what points are worth, and how many can go towards a total
+import { LoyaltyConfig, OrderDetails } from '../types/index.js';
+import { Money } from './money.js';
+import { PricingContext } from '../components/PricingContext.js';
+
+/**
+ * Points for an order total, counted in the base currency so every region earns at the same rate
+ */
+export function pointsEarned(total: Money, pricing: PricingContext, config: LoyaltyConfig): number {
+    return Math.max(0, Math.floor(pricing.convert(total, 'USD').toMajor() * config.pointsPerUnit));
+}
+
+/**
+ * What `points` take off a total in the active currency
+ */
+export function pointsValue(points: number, pricing: PricingContext, config: LoyaltyConfig): Money {
+    return pricing.fromBase(config.pointValue.multiply(points));
+}
+
+/**
+ * The most points, in whole redeem steps, that a balance can put towards `total` without going over it
+ */
+export function redeemablePoints(balance: number, total: Money, pricing: PricingContext, config: LoyaltyConfig): number {
+    let points = Math.floor(Math.max(0, balance) / config.redeemStep) * config.redeemStep;
+    while (points > 0 && pointsValue(points, pricing, config).greaterThan(total)) points -= config.redeemStep;
+    return points;
+}
+
+/**
+ * What is left to pay once points have been put towards the total
+ */
+export function amountDue(details: Pick<OrderDetails, 'total' | 'pointsPayment'>): Money {
+    return details.pointsPayment ? details.total.subtract(details.pointsPayment.amount) : details.total;
+}
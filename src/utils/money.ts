@@ -0,0 +1,154 @@
+// Money in integer minor units with explicit rounding
+import { CurrencyCode, RoundingMode } from '../types/index.js';
+
+// Digits after the decimal point for each currency (ISO 4217)
+export const CURRENCY_MINOR_UNITS: Record<CurrencyCode, number> = { USD: 2, EUR: 2, GBP: 2, JPY: 0 };
+
+// Tolerance for float noise when deciding whether a product sits exactly on .5
+const HALF_EPSILON = 1e-9;
+
+/**
+ * Round a value expressed in minor units to a whole number.
+ * 'half-even' (banker's rounding) sends exact halves to the nearest even number;
+ * 'half-up' sends them away from zero. Everything else rounds to nearest.
+ */
+export function roundMinor(value: number, mode: RoundingMode): number {
+    const sign = value < 0 ? -1 : 1;
+    const magnitude = Math.abs(value);
+    const floor = Math.floor(magnitude);
+    const fraction = magnitude - floor;
+
+    let rounded: number;
+    if (Math.abs(fraction - 0.5) > HALF_EPSILON) rounded = fraction < 0.5 ? floor : floor + 1;
+    else if (mode === 'half-up') rounded = floor + 1;
+    else rounded = floor % 2 === 0 ? floor : floor + 1;
+
+    return sign * rounded || 0;
+}
+
+export class CurrencyMismatchError extends Error {
+    constructor(public readonly expected: CurrencyCode, public readonly actual: CurrencyCode) {
+        super(`Cannot combine ${actual} with ${expected}`);
+        this.name = 'CurrencyMismatchError';
+    }
+}
+
+/**
+ * Immutable amount of money stored as an integer number of minor units (cents).
+ * Arithmetic never leaves the integers; only multiply() rounds, using an explicit mode.
+ */
+export class Money<C extends CurrencyCode = CurrencyCode> {
+    private constructor(readonly minor: number, readonly currency: C) {}
+
+    static fromMinor<C extends CurrencyCode>(minor: number, currency: C): Money<C> {
+        if (!Number.isSafeInteger(minor)) throw new RangeError(`Minor units must be a safe integer, got ${minor}`);
+        return new Money(minor, currency);
+    }
+
+    /**
+     * Create from a major-unit amount such as 6.5; sub-minor digits are rounded half-up
+     */
+    static of<C extends CurrencyCode>(major: number, currency: C): Money<C> {
+        return Money.fromMinor(roundMinor(major * Math.pow(10, CURRENCY_MINOR_UNITS[currency]), 'half-up'), currency);
+    }
+
+    static zero<C extends CurrencyCode>(currency: C): Money<C> {
+        return new Money(0, currency);
+    }
+
+    static sum<C extends CurrencyCode>(amounts: Money<C>[], currency: C): Money<C> {
+        return amounts.reduce((total, amount) => total.add(amount), Money.zero(currency));
+    }
+
+    static min<C extends CurrencyCode>(a: Money<C>, b: Money<C>): Money<C> {
+        return a.lessThan(b) ? a : b;
+    }
+
+    add(other: Money<C>): Money<C> {
+        this.assertSameCurrency(other);
+        return Money.fromMinor(this.minor + other.minor, this.currency);
+    }
+
+    subtract(other: Money<C>): Money<C> {
+        this.assertSameCurrency(other);
+        return Money.fromMinor(this.minor - other.minor, this.currency);
+    }
+
+    multiply(factor: number, mode: RoundingMode = 'half-even'): Money<C> {
+        return Money.fromMinor(roundMinor(this.minor * factor, mode), this.currency);
+    }
+
+    /**
+     * Split into parts proportional to the given ratios without losing or creating a minor unit.
+     * Leftover units go to the parts with the largest remainders, earlier parts winning ties.
+     */
+    allocate(ratios: number[]): Money<C>[] {
+        const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+        if (ratios.length === 0 || totalRatio <= 0 || ratios.some((ratio) => ratio < 0)) {
+            throw new RangeError('Allocation ratios must be non-negative and sum to more than 0');
+        }
+
+        const sign = this.minor < 0 ? -1 : 1;
+        const magnitude = Math.abs(this.minor);
+        const exact = ratios.map((ratio) => (magnitude * ratio) / totalRatio);
+        const parts = exact.map((value) => Math.floor(value));
+        let leftover = magnitude - parts.reduce((sum, part) => sum + part, 0);
+
+        const byRemainder = exact
+            .map((value, index) => ({ index, remainder: value - parts[index] }))
+            .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+        for (let i = 0; leftover > 0; i++, leftover--) {
+            parts[byRemainder[i % byRemainder.length].index] += 1;
+        }
+
+        return parts.map((part) => Money.fromMinor(sign * part || 0, this.currency));
+    }
+
+    isZero(): boolean {
+        return this.minor === 0;
+    }
+
+    isPositive(): boolean {
+        return this.minor > 0;
+    }
+
+    equals(other: Money<C>): boolean {
+        return this.currency === other.currency && this.minor === other.minor;
+    }
+
+    lessThan(other: Money<C>): boolean {
+        this.assertSameCurrency(other);
+        return this.minor < other.minor;
+    }
+
+    greaterThan(other: Money<C>): boolean {
+        this.assertSameCurrency(other);
+        return this.minor > other.minor;
+    }
+
+    toMajor(): number {
+        return this.minor / Math.pow(10, CURRENCY_MINOR_UNITS[this.currency]);
+    }
+
+    /**
+     * Plain decimal with the currency's minor digits ("6.50", "-1.00", "750"); exact, unlike toMajor()
+     */
+    toDecimalString(): string {
+        const digits = CURRENCY_MINOR_UNITS[this.currency];
+        const units = String(Math.abs(this.minor)).padStart(digits + 1, '0');
+        const decimal = digits === 0 ? units : `${units.slice(0, -digits)}.${units.slice(-digits)}`;
+        return this.minor < 0 ? `-${decimal}` : decimal;
+    }
+
+    toJSON(): { minor: number; currency: C } {
+        return { minor: this.minor, currency: this.currency };
+    }
+
+    private assertSameCurrency(other: Money<CurrencyCode>): void {
+        if (other.currency !== this.currency) throw new CurrencyMismatchError(this.currency, other.currency);
+    }
+}
+
+export function usd(value: number): Money<'USD'> {
+    return Money.of(value, 'USD');
+}
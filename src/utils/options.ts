@@ -0,0 +1,109 @@
+// Dessert option groups: validating a selection, pricing it, and the cart line it belongs to
+import { CartItem, CartLineId, Dessert, DessertId, DessertOptionGroup, OptionSelectionErrors, ParticipantId, SelectedOptions } from '../types/index.js';
+import { Money } from './money.js';
+import { i18nConfig } from '../data/config.js';
+import { Translator } from '../components/Translator.js';
+
+export class InvalidOptionsError extends Error {
+    constructor(public readonly dessertId: DessertId, public readonly errors: OptionSelectionErrors) {
+        super(`Invalid options for ${dessertId}: ${Object.values(errors).join('; ')}`);
+        this.name = 'InvalidOptionsError';
+    }
+}
+
+export function hasOptions(dessert: Dessert): boolean {
+    return (dessert.optionGroups?.length ?? 0) > 0;
+}
+
+/**
+ * The selection in catalog order, with empty groups left out, so equal selections compare equal
+ */
+export function normalizeOptions(dessert: Dessert, options: SelectedOptions): SelectedOptions {
+    const normalized: SelectedOptions = {};
+    (dessert.optionGroups ?? []).forEach((group) => {
+        const picked = options[group.id] ?? [];
+        const ids = group.options.map((option) => option.id).filter((id) => picked.includes(id));
+        if (ids.length > 0) normalized[group.id] = ids;
+    });
+    return normalized;
+}
+
+/**
+ * The cart line a dessert with this selection goes on. Desserts without options keep their plain id;
+ * in a group order, each person's lines are kept apart with an `@participant` suffix.
+ */
+export function cartLineId(dessertId: DessertId, options: SelectedOptions = {}, participantId?: ParticipantId): CartLineId {
+    const groups = Object.keys(options)
+        .filter((groupId) => options[groupId].length > 0)
+        .sort()
+        .map((groupId) => `${groupId}=${[...options[groupId]].sort().join('+')}`);
+    const lineId = groups.length === 0 ? dessertId : `${dessertId}?${groups.join('&')}`;
+    return participantId === undefined ? lineId : `${lineId}@${participantId}`;
+}
+
+export function lineIdOf(item: Pick<CartItem, 'dessert' | 'options' | 'participantId'>): CartLineId {
+    return cartLineId(item.dessert.id, item.options, item.participantId);
+}
+
+/**
+ * How many options a group takes, e.g. "choose up to 3"
+ */
+export function selectionLimits(group: DessertOptionGroup, translator: Translator = new Translator(i18nConfig)): string {
+    if (group.minSelections === group.maxSelections) return translator.t('options.limit.exactly', { count: group.minSelections });
+    return group.minSelections > 0
+        ? translator.t('options.limit.range', { min: group.minSelections, max: group.maxSelections })
+        : translator.t('options.limit.upTo', { max: group.maxSelections });
+}
+
+/**
+ * Check a selection against the dessert's option groups; an empty result means it is valid.
+ * Messages are in the translator's language.
+ */
+export function validateOptions(dessert: Dessert, options: SelectedOptions, translator: Translator = new Translator(i18nConfig)): OptionSelectionErrors {
+    const errors: OptionSelectionErrors = {};
+    const groups = dessert.optionGroups ?? [];
+    Object.keys(options).forEach((groupId) => {
+        if (options[groupId].length > 0 && !groups.some((group) => group.id === groupId)) {
+            errors[groupId] = translator.t('options.error.unknownGroup', { dessert: translator.dessertName(dessert), group: groupId });
+        }
+    });
+
+    groups.forEach((group) => {
+        const picked = options[group.id] ?? [];
+        const unknown = picked.filter((id) => !group.options.some((option) => option.id === id));
+        if (unknown.length > 0) {
+            errors[group.id] = translator.t('options.error.unknownOption', { group: group.name, option: unknown[0] });
+        } else if (new Set(picked).size !== picked.length) {
+            errors[group.id] = translator.t('options.error.duplicate', { group: group.name });
+        } else if (picked.length === 0 ? group.required : picked.length < group.minSelections || picked.length > group.maxSelections) {
+            errors[group.id] = group.maxSelections === 1
+                ? translator.t('options.error.chooseOne', { group: group.name })
+                : translator.t('options.error.limits', { group: group.name, limits: selectionLimits(group, translator) });
+        }
+    });
+    return errors;
+}
+
+/**
+ * What the selected options add to the dessert's base price, in the catalog currency
+ */
+export function optionsPrice(dessert: Dessert, options: SelectedOptions): Money<'USD'> {
+    const deltas = (dessert.optionGroups ?? []).flatMap((group) =>
+        group.options.filter((option) => (options[group.id] ?? []).includes(option.id)).map((option) => option.priceDelta)
+    );
+    return Money.sum(deltas, 'USD');
+}
+
+/**
+ * A selection as the customer reads it, e.g. "Flavor box: Chocolate · Toppings: Banana, Whipped cream";
+ * empty when nothing is selected
+ */
+export function describeOptions(dessert: Dessert, options: SelectedOptions): string {
+    return (dessert.optionGroups ?? [])
+        .map((group) => {
+            const names = group.options.filter((option) => (options[group.id] ?? []).includes(option.id)).map((option) => option.name);
+            return names.length > 0 ? `${group.name}: ${names.join(', ')}` : '';
+        })
+        .filter((part) => part !== '')
+        .join(' · ');
+}
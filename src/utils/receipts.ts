@@ -0,0 +1,323 @@
+// Printable receipts and JSON/CSV order exports. Output depends only on the orders and options passed in,
+// never on the clock or the machine's locale, so the same order always produces the same bytes.
+import { BillSplit, DietaryCheck, Fulfilment, Order, OrderExport, OrderExportFormat, ReceiptOptions } from '../types/index.js';
+import { Money } from './money.js';
+import { html, SafeHtml } from './html.js';
+import { describeOptions } from './options.js';
+import { describeDietaryConflict } from './dietary.js';
+import { amountDue } from './loyalty.js';
+import { PricingContext } from '../components/PricingContext.js';
+import { Translator } from '../components/Translator.js';
+import { i18nConfig } from '../data/config.js';
+
+const DEFAULT_RECEIPT_OPTIONS: ReceiptOptions = { shopName: 'Desserts', locale: 'en-US', timeZone: 'UTC' };
+
+const CSV_COLUMNS = [
+    'order_id',
+    'status',
+    'created_at',
+    'confirmed_at',
+    'currency',
+    'dessert_id',
+    'dessert_name',
+    'options',
+    'participant',
+    'quantity',
+    'unit_price',
+    'line_total',
+    'order_subtotal',
+    'order_discount',
+    'order_tax',
+    'order_delivery_fee',
+    'order_total',
+    'order_points_amount',
+    'order_amount_due',
+    'order_refunded'
+];
+
+// Print-only stylesheet kept inline so the receipt is a single self-contained document
+const RECEIPT_STYLES = `
+    * { box-sizing: border-box; }
+    body { margin: 0; font: 14px/1.5 "Red Hat Text", system-ui, sans-serif; color: #260f08; }
+    .receipt { max-width: 28rem; margin: 2rem auto; padding: 0 1rem; }
+    h1 { margin: 0; font-size: 1.5rem; }
+    .receipt-meta { display: grid; grid-template-columns: auto 1fr; gap: 0.125rem 1rem; margin: 1rem 0; }
+    .receipt-meta dt { font-weight: 600; }
+    .receipt-meta dd { margin: 0; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 0.375rem 0; text-align: left; vertical-align: top; }
+    thead th { border-bottom: 1px solid #260f08; }
+    tbody tr { border-bottom: 1px solid #cbc4c4; }
+    .num { text-align: right; white-space: nowrap; }
+    .receipt-options { display: block; color: #87635a; font-size: 0.875em; }
+    tfoot th { font-weight: 400; }
+    tfoot .receipt-total th, tfoot .receipt-total td { padding-top: 0.75rem; font-size: 1.125rem; font-weight: 700; }
+    .receipt-fulfilment { margin-top: 1.5rem; }
+    .receipt-fulfilment h2 { margin: 0 0 0.25rem; font-size: 1rem; }
+    .receipt-fulfilment p { margin: 0; }
+    .receipt-dietary { margin-top: 1.5rem; padding: 0.5rem 0.75rem; border: 2px solid #260f08; }
+    .receipt-dietary h2 { margin: 0 0 0.25rem; font-size: 1rem; }
+    .receipt-dietary ul { margin: 0; padding-left: 1.25rem; }
+    .receipt-split { margin-top: 1.5rem; }
+    .receipt-split h2 { margin: 0 0 0.25rem; font-size: 1rem; }
+    @page { margin: 12mm; }
+    @media print {
+        body { font-size: 11pt; }
+        .receipt { margin: 0; max-width: none; padding: 0; }
+        tr { break-inside: avoid; }
+    }
+`;
+
+/**
+ * The customer's declared needs and the lines they ordered despite the warning, for whoever makes the order
+ */
+function describeDietaryCheck(check: DietaryCheck, translator: Translator): SafeHtml {
+    const needs = [
+        check.avoid.length > 0 ? `avoids ${check.avoid.map((allergen) => translator.allergen(allergen)).join(', ')}` : '',
+        check.diets.length > 0 ? `only eats ${check.diets.map((diet) => translator.diet(diet)).join(', ')}` : ''
+    ].filter((part) => part !== '').join('; ');
+    return html`
+        <h2>Dietary needs: ${needs}</h2>
+        ${check.conflicts.length === 0
+            ? html`<p>Every item suits them.</p>`
+            : html`<p>Ordered anyway:</p><ul>${check.conflicts.map((line) => html`
+                <li>${line.quantity} × ${line.name}${line.options ? ` (${line.options})` : ''}: ${describeDietaryConflict(line, translator)}</li>
+            `)}</ul>`}
+    `;
+}
+
+/**
+ * Who pays what in a group order, each share with the discount, tax and delivery it carries
+ */
+function describeSplit(split: BillSplit, amount: (value: Money) => string): SafeHtml {
+    return html`
+        <h2>${split.mode === 'equal' ? 'Split equally' : 'Split by item'}</h2>
+        <table>
+            <thead>
+                <tr><th scope="col">Person</th><th scope="col" class="num">Items</th><th scope="col" class="num">Discount</th><th scope="col" class="num">Tax</th><th scope="col" class="num">Pays</th></tr>
+            </thead>
+            <tbody>${split.shares.map((share) => html`
+                <tr>
+                    <td>${share.name}</td>
+                    <td class="num">${amount(share.subtotal)}</td>
+                    <td class="num">${share.discount.isZero() ? '' : `-${amount(share.discount)}`}</td>
+                    <td class="num">${amount(share.tax)}</td>
+                    <td class="num">${amount(share.total)}</td>
+                </tr>
+            `)}</tbody>
+        </table>
+    `;
+}
+
+function participantName(order: Order, participantId: string | undefined): string | null {
+    return order.details.split?.shares.find((share) => share.participantId === participantId)?.name ?? null;
+}
+
+function formatDateTime(date: Date, options: ReceiptOptions): string {
+    return new Intl.DateTimeFormat(options.locale, { dateStyle: 'medium', timeStyle: 'short', timeZone: options.timeZone }).format(date);
+}
+
+function describeFulfilment(fulfilment: Fulfilment, options: ReceiptOptions): SafeHtml {
+    if (fulfilment.method === 'pickup') {
+        const end = new Intl.DateTimeFormat(options.locale, { timeStyle: 'short', timeZone: options.timeZone }).format(fulfilment.slot.end);
+        return html`<h2>Pickup</h2><p>${formatDateTime(fulfilment.slot.start, options)} – ${end}</p>`;
+    }
+    const { address } = fulfilment;
+    return html`
+        <h2>Delivery</h2>
+        <p>${address.line1}</p>
+        ${address.line2 ? html`<p>${address.line2}</p>` : null}
+        <p>${address.city} ${address.postcode}</p>
+    `;
+}
+
+/**
+ * A complete, print-ready HTML document for an order: itemized lines, discounts, tax, delivery,
+ * total, and the order number and confirmation time
+ */
+export function renderReceiptHtml(order: Order, pricing: PricingContext, options: Partial<ReceiptOptions> = {}): string {
+    const settings: ReceiptOptions = { ...DEFAULT_RECEIPT_OPTIONS, ...options };
+    const { details } = order;
+    const amount = (value: Money) => pricing.format(value);
+
+    const lines = details.items.map((item) => {
+        const selection = describeOptions(item.dessert, item.options);
+        const name = participantName(order, item.participantId);
+        const participant = details.split?.mode === 'by-item' ? (name ? `For ${name}` : 'Shared') : null;
+        return html`
+            <tr>
+                <td>${item.dessert.name}${selection ? html`<span class="receipt-options">${selection}</span>` : null}${participant ? html`<span class="receipt-options">${participant}</span>` : null}</td>
+                <td class="num">${item.quantity}</td>
+                <td class="num">${amount(item.unitPrice)}</td>
+                <td class="num">${amount(item.lineTotal)}</td>
+            </tr>
+        `;
+    });
+    const discounts = details.discounts.map((discount) => html`
+        <tr><th scope="row" colspan="3">${discount.description} (${discount.code})</th><td class="num">-${amount(discount.amount)}</td></tr>
+    `);
+    const delivery = details.fulfilment?.method === 'delivery'
+        ? html`<tr><th scope="row" colspan="3">Delivery</th><td class="num">${details.deliveryFee.isZero() ? 'Free' : amount(details.deliveryFee)}</td></tr>`
+        : null;
+    const points = details.pointsPayment
+        ? html`
+            <tr><th scope="row" colspan="3">Paid with ${details.pointsPayment.points} points</th><td class="num">-${amount(details.pointsPayment.amount)}</td></tr>
+            <tr><th scope="row" colspan="3">Amount due</th><td class="num">${amount(amountDue(details))}</td></tr>
+        `
+        : null;
+    const refunded = order.refundedAmount.isPositive()
+        ? html`<tr><th scope="row" colspan="3">Refunded</th><td class="num">-${amount(order.refundedAmount)}</td></tr>`
+        : null;
+
+    const receipt = html`<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Receipt ${order.id}</title>
+    <style>${new SafeHtml(RECEIPT_STYLES)}</style>
+</head>
+<body>
+    <main class="receipt">
+        <h1>${settings.shopName}</h1>
+        <dl class="receipt-meta">
+            <dt>Order</dt><dd>${order.id}</dd>
+            <dt>Placed</dt><dd>${formatDateTime(details.createdAt, settings)}</dd>
+            ${order.confirmedAt ? html`<dt>Confirmed</dt><dd>${formatDateTime(order.confirmedAt, settings)}</dd>` : null}
+            <dt>Status</dt><dd>${order.status}</dd>
+            ${details.contact ? html`<dt>Customer</dt><dd>${details.contact.name}</dd>` : null}
+        </dl>
+        <table>
+            <thead>
+                <tr><th scope="col">Item</th><th scope="col" class="num">Qty</th><th scope="col" class="num">Price</th><th scope="col" class="num">Total</th></tr>
+            </thead>
+            <tbody>${lines}</tbody>
+            <tfoot>
+                <tr><th scope="row" colspan="3">Subtotal</th><td class="num">${amount(details.subtotal)}</td></tr>
+                ${discounts}
+                <tr><th scope="row" colspan="3">${pricing.describeTax(details)}</th><td class="num">${amount(details.tax)}</td></tr>
+                ${delivery}
+                <tr class="receipt-total"><th scope="row" colspan="3">Total</th><td class="num">${amount(details.total)}</td></tr>
+                ${points}
+                ${refunded}
+            </tfoot>
+        </table>
+        ${details.fulfilment ? html`<section class="receipt-fulfilment">${describeFulfilment(details.fulfilment, settings)}</section>` : null}
+        ${details.split ? html`<section class="receipt-split">${describeSplit(details.split, amount)}</section>` : null}
+        ${details.dietaryCheck ? html`<section class="receipt-dietary">${describeDietaryCheck(details.dietaryCheck, new Translator(i18nConfig))}</section>` : null}
+    </main>
+</body>
+</html>
+`;
+    return receipt.value;
+}
+
+/**
+ * Flatten an order into plain JSON values: ISO dates and exact decimal amounts
+ */
+export function toOrderExport(order: Order): OrderExport {
+    const { details } = order;
+    return {
+        id: order.id,
+        status: order.status,
+        createdAt: details.createdAt.toISOString(),
+        confirmedAt: order.confirmedAt ? order.confirmedAt.toISOString() : null,
+        currency: details.currency,
+        region: details.region,
+        items: details.items.map((item) => ({
+            dessertId: item.dessert.id,
+            name: item.dessert.name,
+            options: describeOptions(item.dessert, item.options),
+            participant: participantName(order, item.participantId),
+            quantity: item.quantity,
+            unitPrice: item.unitPrice.toDecimalString(),
+            lineTotal: item.lineTotal.toDecimalString()
+        })),
+        discounts: details.discounts.map((discount) => ({
+            code: discount.code,
+            description: discount.description,
+            amount: discount.amount.toDecimalString()
+        })),
+        subtotal: details.subtotal.toDecimalString(),
+        discountTotal: details.discountTotal.toDecimalString(),
+        tax: details.tax.toDecimalString(),
+        taxLabel: details.taxLabel,
+        taxRate: details.taxRate,
+        taxInclusive: details.taxInclusive,
+        deliveryFee: details.deliveryFee.toDecimalString(),
+        total: details.total.toDecimalString(),
+        refundedAmount: order.refundedAmount.toDecimalString(),
+        fulfilment: details.fulfilment?.method ?? null,
+        dietaryCheck: details.dietaryCheck ?? null,
+        pointsRedeemed: details.pointsPayment?.points ?? 0,
+        pointsAmount: (details.pointsPayment?.amount ?? Money.zero(details.currency)).toDecimalString(),
+        amountDue: amountDue(details).toDecimalString(),
+        split: details.split
+            ? {
+                mode: details.split.mode,
+                shares: details.split.shares.map((share) => ({
+                    participant: share.name,
+                    subtotal: share.subtotal.toDecimalString(),
+                    discount: share.discount.toDecimalString(),
+                    tax: share.tax.toDecimalString(),
+                    deliveryFee: share.deliveryFee.toDecimalString(),
+                    total: share.total.toDecimalString()
+                }))
+            }
+            : null
+    };
+}
+
+export function exportOrdersJson(orders: Order[]): string {
+    return `${JSON.stringify({ orders: orders.map(toOrderExport) }, null, 2)}\n`;
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Free text from the catalog, defused so a spreadsheet won't run it as a formula
+ */
+function csvText(value: string): string {
+    return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * One row per order line, with the order's totals repeated on each of its rows
+ */
+export function exportOrdersCsv(orders: Order[]): string {
+    const rows = orders.flatMap((order) => {
+        const exported = toOrderExport(order);
+        return exported.items.map((item) => [
+            exported.id,
+            exported.status,
+            exported.createdAt,
+            exported.confirmedAt ?? '',
+            exported.currency,
+            item.dessertId,
+            csvText(item.name),
+            csvText(item.options),
+            csvText(item.participant ?? ''),
+            item.quantity,
+            item.unitPrice,
+            item.lineTotal,
+            exported.subtotal,
+            exported.discountTotal,
+            exported.tax,
+            exported.deliveryFee,
+            exported.total,
+            exported.pointsAmount,
+            exported.amountDue,
+            exported.refundedAmount
+        ]);
+    });
+    return [CSV_COLUMNS, ...rows].map((row) => `${row.map(csvField).join(',')}\r\n`).join('');
+}
+
+export function exportOrders(orders: Order[], format: OrderExportFormat): string {
+    return format === 'csv' ? exportOrdersCsv(orders) : exportOrdersJson(orders);
+}
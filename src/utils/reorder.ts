@@ -0,0 +1,76 @@
+// Rebuilding a cart from a past order against today's catalog and stock
+import { CartSnapshotEntry, Dessert, DessertId, DroppedCartItemReason, Order, ReorderChange, ReorderPlan } from '../types/index.js';
+import { normalizeOptions, optionsPrice, validateOptions } from './options.js';
+
+// How far a substitute from another category may be from the original's base price
+const SUBSTITUTE_PRICE_TOLERANCE = 0.25;
+
+/**
+ * The closest alternative that can be added as it is (no required options): the same category first,
+ * then anything within SUBSTITUTE_PRICE_TOLERANCE of the price, nearest price first
+ */
+export function findSubstitute(
+    dessert: Dessert,
+    catalog: Dessert[],
+    available: (candidate: Dessert) => number,
+    accept: (candidate: Dessert) => boolean = () => true
+): Dessert | undefined {
+    const gap = (candidate: Dessert) => Math.abs(candidate.price.minor - dessert.price.minor);
+    return catalog
+        .filter((candidate) => candidate.id !== dessert.id && candidate.inStock && available(candidate) > 0 && accept(candidate))
+        .filter((candidate) => Object.keys(validateOptions(candidate, {})).length === 0)
+        .filter((candidate) => candidate.category === dessert.category || gap(candidate) <= dessert.price.minor * SUBSTITUTE_PRICE_TOLERANCE)
+        .sort((a, b) => Number(b.category === dessert.category) - Number(a.category === dessert.category) || gap(a) - gap(b))[0];
+}
+
+/**
+ * The cart lines a past order comes to today. A line whose dessert is gone, sold out or no longer offers
+ * its options is swapped for a substitute (which `accept` may veto) or skipped; a line short of stock is
+ * cut down; a line that now costs something else is added as it is. Each difference is reported.
+ * `available` is how many of a dessert the cart could hold in total.
+ */
+export function planReorder(
+    order: Order,
+    catalog: Dessert[],
+    available: (dessertId: DessertId) => number,
+    accept?: (candidate: Dessert) => boolean
+): ReorderPlan {
+    const entries: CartSnapshotEntry[] = [];
+    const changes: ReorderChange[] = [];
+    const planned: Record<DessertId, number> = {};
+    const remaining = (dessert: Dessert) => available(dessert.id) - (planned[dessert.id] ?? 0);
+    const add = (dessert: Dessert, options: CartSnapshotEntry['options'], quantity: number) => {
+        entries.push({ dessertId: dessert.id, options, quantity, addedAt: new Date() });
+        planned[dessert.id] = (planned[dessert.id] ?? 0) + quantity;
+    };
+
+    order.details.items.forEach((item) => {
+        const current = catalog.find((d) => d.id === item.dessert.id);
+        const reason: DroppedCartItemReason | null = !current
+            ? 'not-found'
+            : !current.inStock || remaining(current) <= 0
+                ? 'out-of-stock'
+                : Object.keys(validateOptions(current, item.options)).length > 0 ? 'options-unavailable' : null;
+
+        if (!current || reason) {
+            const substitute = findSubstitute(item.dessert, catalog, remaining, accept);
+            if (!substitute) {
+                changes.push({ kind: 'skipped', dessert: item.dessert, quantity: item.quantity, reason: reason ?? 'not-found' });
+                return;
+            }
+            const quantity = Math.min(item.quantity, remaining(substitute));
+            add(substitute, {}, quantity);
+            changes.push({ kind: 'substituted', dessert: item.dessert, substitute, quantity, reason: reason ?? 'not-found' });
+            return;
+        }
+
+        const options = normalizeOptions(current, item.options);
+        const quantity = Math.min(item.quantity, remaining(current));
+        add(current, options, quantity);
+        if (quantity < item.quantity) changes.push({ kind: 'reduced', dessert: current, requested: item.quantity, quantity });
+        const previous = item.dessert.price.add(optionsPrice(item.dessert, item.options));
+        const now = current.price.add(optionsPrice(current, options));
+        if (!previous.equals(now)) changes.push({ kind: 'price-changed', dessert: current, previous, current: now });
+    });
+    return { entries, changes };
+}
@@ -0,0 +1,100 @@
+// Splitting a group order's bill between its participants without losing or adding a minor unit
+import { BillShare, BillSplit, CartItem, DiscountResult, GroupOrder, Participant, PriceTotals } from '../types/index.js';
+import { Money } from './money.js';
+import { lineIdOf } from './options.js';
+import { PricingContext } from '../components/PricingContext.js';
+
+export class UnknownParticipantError extends Error {
+    constructor(public readonly participantId: string) {
+        super(`${participantId} is not part of the group order`);
+        this.name = 'UnknownParticipantError';
+    }
+}
+
+export function createParticipant(name: string): Participant {
+    return { id: `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name: name.trim() };
+}
+
+/**
+ * `amount` in parts proportional to `weights`, or evenly when every weight is zero
+ */
+function allocate(amount: Money, weights: number[]): Money[] {
+    if (amount.isZero()) return weights.map(() => Money.zero(amount.currency));
+    return amount.allocate(weights.some((weight) => weight > 0) ? weights : weights.map(() => 1));
+}
+
+/**
+ * Each participant's part of the totals. By item, people pay for the lines they added and lines
+ * nobody claimed (or claimed by someone who left) are shared evenly; discounts follow the lines
+ * they came off, tax follows each person's taxable amount and delivery is shared evenly.
+ * Split equally, everyone's total is within a minor unit of everyone else's.
+ * Every amount is allocated by largest remainder, so the shares always add up to the totals exactly.
+ */
+export function splitBill(
+    items: CartItem[],
+    totals: PriceTotals,
+    netLines: DiscountResult['netLines'],
+    group: GroupOrder,
+    pricing: PricingContext
+): BillSplit {
+    const { participants } = group;
+    const even = participants.map(() => 1);
+    const zero = Money.zero(totals.currency);
+    const deliveryFees = allocate(totals.deliveryFee, even);
+    const share = (participant: Participant, index: number, amounts: Omit<BillShare, 'participantId' | 'name' | 'deliveryFee'>): BillShare =>
+        ({ participantId: participant.id, name: participant.name, ...amounts, deliveryFee: deliveryFees[index] });
+
+    if (group.split === 'equal') {
+        const shareTotals = allocate(totals.total, even);
+        const discounts = allocate(totals.discountTotal, even);
+        const taxes = allocate(totals.tax, even);
+        // The subtotal takes up the rounding, so the totals stay even
+        return {
+            mode: 'equal',
+            shares: participants.map((participant, i) => share(participant, i, {
+                subtotal: shareTotals[i].subtract(totals.taxInclusive ? zero : taxes[i]).subtract(deliveryFees[i]).add(discounts[i]),
+                discount: discounts[i],
+                tax: taxes[i],
+                total: shareTotals[i]
+            }))
+        };
+    }
+
+    const exempt = pricing.taxRule.exemptCategories;
+    const gross = participants.map(() => zero);
+    const net = participants.map(() => zero);
+    const taxable = participants.map(() => zero);
+    let shared = { gross: zero, net: zero, taxable: zero };
+    items.forEach((item) => {
+        const lineGross = pricing.lineTotal(item);
+        const lineNet = netLines[lineIdOf(item)] ?? lineGross;
+        const lineTaxable = exempt.includes(item.dessert.category) ? zero : lineNet;
+        const index = participants.findIndex((participant) => participant.id === item.participantId);
+        if (index < 0) {
+            shared = { gross: shared.gross.add(lineGross), net: shared.net.add(lineNet), taxable: shared.taxable.add(lineTaxable) };
+            return;
+        }
+        gross[index] = gross[index].add(lineGross);
+        net[index] = net[index].add(lineNet);
+        taxable[index] = taxable[index].add(lineTaxable);
+    });
+    // Shared lines are split by amount and by discount, so nobody's share of a discount is negative
+    const sharedGross = allocate(shared.gross, even);
+    const sharedDiscount = allocate(shared.gross.subtract(shared.net), even);
+    sharedGross.forEach((part, i) => {
+        gross[i] = gross[i].add(part);
+        net[i] = net[i].add(part.subtract(sharedDiscount[i]));
+    });
+    allocate(shared.taxable, even).forEach((part, i) => (taxable[i] = taxable[i].add(part)));
+    const taxes = allocate(totals.tax, taxable.map((amount) => amount.minor));
+
+    return {
+        mode: 'by-item',
+        shares: participants.map((participant, i) => share(participant, i, {
+            subtotal: gross[i],
+            discount: gross[i].subtract(net[i]),
+            tax: taxes[i],
+            total: (totals.taxInclusive ? net[i] : net[i].add(taxes[i])).add(deliveryFees[i])
+        }))
+    };
+}
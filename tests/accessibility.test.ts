@@ -0,0 +1,144 @@
+// @vitest-environment jsdom
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { byId, card, click, placeOrder, press, settle, startShop, stopShop } from './support/dom.js';
+
+// jsdom paints nothing, so contrast can't be measured here
+const AXE_OPTIONS: axe.RunOptions = { rules: { 'color-contrast': { enabled: false } } };
+
+async function violations(context: Element): Promise<string[]> {
+    const results = await axe.run(context, AXE_OPTIONS);
+    return results.violations.map((violation) => `${violation.id}: ${violation.nodes.map((node) => node.target.join(' ')).join(', ')}`);
+}
+
+function focusable(modal: HTMLElement): HTMLElement[] {
+    return Array.from(modal.querySelectorAll<HTMLElement>('button:not(:disabled), input:not(:disabled), select:not(:disabled), textarea:not(:disabled), a[href]'))
+        .filter((element) => !element.closest('.hidden'));
+}
+
+async function addTiramisu(): Promise<void> {
+    click(card('tiramisu').querySelector('.add-to-cart-btn'));
+    await settle();
+}
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+});
+
+afterEach(() => {
+    stopShop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('axe checks', () => {
+    it('finds nothing wrong with the cart', async () => {
+        await startShop();
+        await addTiramisu();
+        click(card('creme-brulee').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        expect(await violations(document.querySelector('.cart-section') as Element)).toEqual([]);
+    });
+
+    it('finds nothing wrong with the quantity controls', async () => {
+        await startShop();
+        await addTiramisu();
+
+        const controls = card('tiramisu').querySelector('.quantity-control') as HTMLElement;
+        expect(controls.classList.contains('hidden')).toBe(false);
+        expect(await violations(card('tiramisu'))).toEqual([]);
+        expect(Array.from(controls.querySelectorAll('button')).map((button) => button.getAttribute('aria-label'))).toEqual([
+            'Remove one Classic Tiramisu',
+            'Add one more Classic Tiramisu'
+        ]);
+    });
+
+    it('finds nothing wrong with the open checkout dialog', async () => {
+        await startShop();
+        await addTiramisu();
+
+        click(byId('confirmOrderBtn'));
+
+        expect(await violations(byId('checkoutModal'))).toEqual([]);
+    });
+
+    it('finds nothing wrong with the order confirmation dialog', async () => {
+        await startShop();
+        await addTiramisu();
+
+        await placeOrder();
+
+        expect(byId('orderModal').classList.contains('hidden')).toBe(false);
+        expect(await violations(byId('orderModal'))).toEqual([]);
+    });
+});
+
+describe('dialog keyboard handling', () => {
+    it('moves focus into checkout and makes the page behind inert', async () => {
+        await startShop();
+        await addTiramisu();
+
+        click(byId('confirmOrderBtn'));
+
+        expect(byId('checkoutModal').contains(document.activeElement)).toBe(true);
+        expect(document.querySelector('.container')?.hasAttribute('inert')).toBe(true);
+    });
+
+    it('closes checkout on Escape and gives focus back to the opener', async () => {
+        await startShop();
+        await addTiramisu();
+        const opener = byId('confirmOrderBtn');
+        opener.focus();
+        click(opener);
+
+        press('Escape');
+
+        expect(byId('checkoutModal').classList.contains('hidden')).toBe(true);
+        expect(document.querySelector('.container')?.hasAttribute('inert')).toBe(false);
+        expect(document.activeElement).toBe(opener);
+    });
+
+    it('keeps Tab inside the open dialog', async () => {
+        await startShop();
+        await addTiramisu();
+        click(byId('confirmOrderBtn'));
+        const controls = focusable(byId('checkoutModal'));
+        const first = controls[0];
+        const last = controls[controls.length - 1];
+
+        last.focus();
+        press('Tab');
+        expect(document.activeElement).toBe(first);
+
+        press('Tab', { shiftKey: true });
+        expect(document.activeElement).toBe(last);
+    });
+
+    it('pulls focus back into the dialog when it has escaped', async () => {
+        await startShop();
+        await addTiramisu();
+        click(byId('confirmOrderBtn'));
+
+        byId('cartTitle').focus();
+        press('Tab');
+
+        expect(document.activeElement).toBe(focusable(byId('checkoutModal'))[0]);
+    });
+
+    it('leaves the confirmation on Escape and puts focus on the cart heading', async () => {
+        await startShop();
+        await addTiramisu();
+        await placeOrder();
+        expect(document.activeElement).toBe(byId('orderModalTitle'));
+
+        press('Escape');
+        await settle();
+
+        expect(byId('orderModal').classList.contains('hidden')).toBe(true);
+        expect(byId('cartTitle').textContent).toBe('Your Cart (0)');
+        // Confirm Order went away with the cart, so focus lands on the cart heading
+        expect(document.activeElement).toBe(byId('cartTitle'));
+    });
+});
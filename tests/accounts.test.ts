@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { Order, OrderStatus } from '../src/types/index.js';
+import { loyaltyConfig, pricingConfig } from '../src/data/config.js';
+import { Money, usd } from '../src/utils/money.js';
+import { pointsEarned, pointsValue, redeemablePoints } from '../src/utils/loyalty.js';
+import { MemoryStorageAdapter } from '../src/components/StatePersistence.js';
+import { PricingContext } from '../src/components/PricingContext.js';
+import { CustomerAccounts } from '../src/components/CustomerAccounts.js';
+import { fixedOrder } from './support/fixtures.js';
+
+function signedIn(): CustomerAccounts {
+    const accounts = new CustomerAccounts(new MemoryStorageAdapter(), new PricingContext(pricingConfig, 'US'));
+    accounts.signIn('ada@example.com', 'Ada Lovelace');
+    return accounts;
+}
+
+/**
+ * The fixed order ($22.03) placed by the signed-in account, confirmed
+ */
+function confirm(accounts: CustomerAccounts, change: (order: Order) => void = () => undefined): Order {
+    const order = fixedOrder();
+    order.details.accountId = accounts.active?.id;
+    change(order);
+    accounts.handleOrderEvent({ type: 'order-status-changed', order, change: order.history[1] });
+    return order;
+}
+
+/**
+ * Confirm `count` more copies of the fixed order, 22 points each
+ */
+function earn(accounts: CustomerAccounts, count: number): Order[] {
+    return Array.from({ length: count }, (_, i) => confirm(accounts, (order) => (order.id = `ORD-EARN-${i + 1}`)));
+}
+
+function moveTo(accounts: CustomerAccounts, order: Order, status: OrderStatus): void {
+    const change = { from: order.status, to: status, at: new Date('2026-03-15T10:00:00Z') };
+    order.status = status;
+    order.history.push(change);
+    accounts.handleOrderEvent({ type: 'order-status-changed', order, change });
+}
+
+function ledger(accounts: CustomerAccounts): [string, number][] {
+    return accounts.active?.pointsLedger.map((entry) => [entry.reason, entry.points]) ?? [];
+}
+
+describe('what points are worth', () => {
+    const pricing = (region: string) => new PricingContext(pricingConfig, region);
+
+    it('is the same in every currency, at the exchange rate', () => {
+        expect(pointsValue(100, pricing('US'), loyaltyConfig).toDecimalString()).toBe('5.00');
+        expect(pointsValue(100, pricing('EU'), loyaltyConfig).toDecimalString()).toBe('4.60');
+        expect(pointsValue(100, pricing('JP'), loyaltyConfig).toDecimalString()).toBe('750');
+    });
+
+    it('earns a point per whole dollar, whatever the currency paid in', () => {
+        expect(pointsEarned(usd(22.99), pricing('US'), loyaltyConfig)).toBe(22);
+        expect(pointsEarned(Money.of(3300, 'JPY'), pricing('JP'), loyaltyConfig)).toBe(22);
+        expect(pointsEarned(usd(0.99), pricing('US'), loyaltyConfig)).toBe(0);
+    });
+
+    it('lets whole steps of points go towards a total, never more than it', () => {
+        expect(redeemablePoints(250, usd(22.03), pricing('US'), loyaltyConfig)).toBe(200);
+        expect(redeemablePoints(450, usd(12), pricing('US'), loyaltyConfig)).toBe(200);
+        expect(redeemablePoints(450, usd(4.99), pricing('US'), loyaltyConfig)).toBe(0);
+        expect(redeemablePoints(99, usd(22.03), pricing('US'), loyaltyConfig)).toBe(0);
+        expect(redeemablePoints(-120, usd(22.03), pricing('US'), loyaltyConfig)).toBe(0);
+        expect(redeemablePoints(300, Money.of(1600, 'JPY'), pricing('JP'), loyaltyConfig)).toBe(200);
+    });
+});
+
+describe('loyalty points', () => {
+    it('are earned on the amount due, not on what points paid for', () => {
+        const accounts = signedIn();
+
+        confirm(accounts, (order) => (order.details.pointsPayment = { points: 100, amount: usd(5) }));
+
+        expect(accounts.active?.pointsLedger.map((entry) => [entry.reason, entry.points])).toEqual([['redeemed', -100], ['earned', 17]]);
+        expect(accounts.getBalance()).toBe(-83);
+    });
+
+    it('are earned on the whole total when no points were spent', () => {
+        const accounts = signedIn();
+
+        confirm(accounts);
+
+        expect(accounts.getBalance()).toBe(22);
+    });
+
+    it('go towards an order only from a balance that covers them', () => {
+        const accounts = signedIn();
+        confirm(accounts);
+        expect(accounts.getRedeemablePoints(usd(22.03))).toBe(0);
+
+        earn(accounts, 4);
+
+        expect(accounts.getBalance()).toBe(110);
+        expect(accounts.getRedeemablePoints(usd(22.03))).toBe(100);
+    });
+
+    it('come back when the order is cancelled, and those it earned go, once', () => {
+        const accounts = signedIn();
+        earn(accounts, 5);
+        const order = confirm(accounts, (o) => (o.details.pointsPayment = { points: 100, amount: usd(5) }));
+
+        moveTo(accounts, order, 'cancelled');
+        moveTo(accounts, order, 'refunded');
+
+        expect(ledger(accounts).slice(5)).toEqual([['redeemed', -100], ['earned', 17], ['returned', 100], ['reversed', -17]]);
+        expect(accounts.getBalance()).toBe(110);
+    });
+
+    it('are taken back on a full refund even once spent, leaving the balance below zero', () => {
+        const accounts = signedIn();
+        const [first, second] = earn(accounts, 5);
+        confirm(accounts, (o) => (o.details.pointsPayment = { points: 100, amount: usd(5) }));
+
+        moveTo(accounts, first, 'refunded');
+        moveTo(accounts, second, 'refunded');
+
+        expect(ledger(accounts).slice(-2)).toEqual([['reversed', -22], ['reversed', -22]]);
+        expect(accounts.getBalance()).toBe(-17);
+    });
+
+    it('count each order once, and only for the account that placed it', () => {
+        const accounts = signedIn();
+        confirm(accounts, (o) => (o.details.accountId = 'account-someone-else'));
+        const order = confirm(accounts);
+
+        confirm(accounts);
+        moveTo(accounts, order, 'partially-refunded');
+
+        expect(ledger(accounts)).toEqual([['earned', 22]]);
+        expect(accounts.active?.orders.map((o) => o.status)).toEqual(['partially-refunded']);
+    });
+});
@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import { CartSession, DessertId, Order, OrderStatus } from '../src/types/index.js';
+import { pricingConfig } from '../src/data/config.js';
+import { Money, usd } from '../src/utils/money.js';
+import { abandonmentStats, buildSalesReport, classifyCartSession, frequentPairs, revenueByPeriod, salesByCategory } from '../src/utils/analytics.js';
+import { MemoryStorageAdapter } from '../src/components/StatePersistence.js';
+import { PricingContext } from '../src/components/PricingContext.js';
+import { CartSessionTracker } from '../src/components/CartSessionTracker.js';
+import { createShop, dessert, fixedOrder } from './support/fixtures.js';
+
+const pricing = new PricingContext(pricingConfig, 'US');
+const MINUTE = 60 * 1000;
+
+/**
+ * An order for `lines` at catalog prices, placed at `createdAt`; the total is the subtotal so revenue is easy to follow
+ */
+function sale(id: string, createdAt: string, lines: [DessertId, number][], status: OrderStatus = 'confirmed', refunded: number = 0): Order {
+    const base = fixedOrder();
+    const items = lines.map(([dessertId, quantity]) => {
+        const d = dessert(dessertId);
+        return { dessert: d, options: {}, quantity, addedAt: new Date(createdAt), unitPrice: d.price, lineTotal: d.price.multiply(quantity) };
+    });
+    const subtotal = Money.sum(items.map((item) => item.lineTotal), 'USD');
+    return {
+        ...base,
+        id,
+        status,
+        refundedAmount: usd(refunded),
+        details: { ...base.details, items, subtotal, discounts: [], discountTotal: usd(0), tax: usd(0), total: subtotal, createdAt: new Date(createdAt) }
+    };
+}
+
+// A week and a bit of orders: Monday 9 March 2026 to Monday 16 March, with one late-evening sale
+const orders: Order[] = [
+    sale('ORD-1', '2026-03-09T12:00:00Z', [['tiramisu', 2], ['baklava', 1]]),
+    sale('ORD-2', '2026-03-11T23:30:00Z', [['creme-brulee', 1], ['tiramisu', 1]], 'completed'),
+    sale('ORD-3', '2026-03-11T10:00:00Z', [['cake-red-velvet', 2]], 'partially-refunded', 4.5),
+    sale('ORD-4', '2026-03-12T10:00:00Z', [['macaron-mix', 1]], 'refunded', 8),
+    sale('ORD-5', '2026-03-13T10:00:00Z', [['pie-lemon', 3]], 'cancelled'),
+    sale('ORD-6', '2026-03-16T09:00:00Z', [['baklava', 2], ['tiramisu', 1], ['baklava', 1]]),
+    sale('ORD-7', '2026-03-16T09:30:00Z', [['pie-lemon', 1]], 'pending')
+];
+
+function points(period: 'day' | 'week', timeZone?: string) {
+    return revenueByPeriod(orders, period, pricing, 'USD', timeZone).map((point) => [point.period, point.orders, point.revenue.toDecimalString()]);
+}
+
+describe('revenue over time', () => {
+    it('buckets sold orders by day, net of refunds, with quiet days filled in', () => {
+        expect(points('day')).toEqual([
+            ['2026-03-09', 1, '15.00'],
+            ['2026-03-10', 0, '0.00'],
+            ['2026-03-11', 2, '17.00'],
+            ['2026-03-12', 0, '0.00'],
+            ['2026-03-13', 0, '0.00'],
+            ['2026-03-14', 0, '0.00'],
+            ['2026-03-15', 0, '0.00'],
+            ['2026-03-16', 1, '17.50']
+        ]);
+    });
+
+    it('buckets by ISO week, starting on Monday', () => {
+        expect(points('week')).toEqual([
+            ['2026-03-09', 3, '32.00'],
+            ['2026-03-16', 1, '17.50']
+        ]);
+    });
+
+    it('counts each sale on the day it was where the shop is', () => {
+        const tokyo = points('day', 'Asia/Tokyo');
+
+        expect(tokyo.find(([period]) => period === '2026-03-11')).toEqual(['2026-03-11', 1, '4.50']);
+        expect(tokyo.find(([period]) => period === '2026-03-12')).toEqual(['2026-03-12', 1, '12.50']);
+    });
+
+    it('is empty without sales', () => {
+        expect(revenueByPeriod(orders.filter((order) => order.status === 'pending'), 'day', pricing, 'USD')).toEqual([]);
+    });
+});
+
+describe('sales breakdowns', () => {
+    it('leave out refunded, cancelled and pending orders but keep partly refunded ones', () => {
+        const byCategory = salesByCategory(orders, pricing, 'USD');
+
+        expect(byCategory.map((line) => [line.key, line.units, line.revenue.toDecimalString()])).toEqual([
+            ['tiramisu', 4, '22.00'],
+            ['baklava', 4, '16.00'],
+            ['cake', 2, '9.00'],
+            ['creme-brulee', 1, '7.00']
+        ]);
+        expect(byCategory[0].label).toBe('Tiramisu');
+    });
+
+    it('report in another currency at the configured rates', () => {
+        const report = buildSalesReport(orders, [], pricing, { currency: 'EUR', now: new Date('2026-03-17T00:00:00Z') });
+
+        expect(report.orderCount).toBe(4);
+        expect(report.revenue.toDecimalString()).toBe('45.54');
+        expect(report.averageOrderValue.toDecimalString()).toBe('11.39');
+    });
+});
+
+describe('frequent pairs', () => {
+    it('count the orders containing both desserts, once per order however many lines', () => {
+        const pairs = frequentPairs(orders);
+
+        expect(pairs.map((pair) => [pair.dessertIds, pair.orders, pair.share])).toEqual([
+            [['baklava', 'tiramisu'], 2, 0.5],
+            [['creme-brulee', 'tiramisu'], 1, 0.25]
+        ]);
+        expect(pairs[0].names).toEqual(['Pistachio Baklava', 'Classic Tiramisu']);
+    });
+
+    it('stop at the limit', () => {
+        expect(frequentPairs(orders, 1)).toHaveLength(1);
+        expect(frequentPairs([])).toEqual([]);
+    });
+});
+
+describe('cart abandonment', () => {
+    const now = new Date('2026-03-14T12:00:00Z');
+    const session = (id: string, idleMinutes: number, orderId?: string): CartSession => ({
+        id,
+        startedAt: new Date(now.getTime() - (idleMinutes + 5) * MINUTE),
+        lastActivityAt: new Date(now.getTime() - idleMinutes * MINUTE),
+        ...(orderId ? { orderId } : {})
+    });
+
+    it('counts a session as abandoned once it has been idle for half an hour without an order', () => {
+        expect(classifyCartSession(session('s1', 29), now)).toBe('active');
+        expect(classifyCartSession(session('s2', 30), now)).toBe('abandoned');
+        expect(classifyCartSession(session('s3', 300, 'ORD-1'), now)).toBe('ordered');
+        expect(classifyCartSession(session('s4', 10), now, 10 * MINUTE)).toBe('abandoned');
+    });
+
+    it('rates abandonment over finished sessions only', () => {
+        const sessions = [session('s1', 5), session('s2', 45), session('s3', 60), session('s4', 90, 'ORD-1')];
+
+        expect(abandonmentStats(sessions, now)).toEqual({ sessions: 4, ordered: 1, abandoned: 2, active: 1, rate: 2 / 3 });
+        expect(abandonmentStats([session('s1', 5)], now).rate).toBe(0);
+    });
+});
+
+describe('CartSessionTracker', () => {
+    function track() {
+        const clock = { now: new Date('2026-03-14T10:00:00Z') };
+        const storage = new MemoryStorageAdapter();
+        const tracker = new CartSessionTracker(storage, 30 * MINUTE, () => clock.now);
+        const { cart } = createShop();
+        cart.subscribe((event) => tracker.record(event));
+        const wait = (minutes: number) => (clock.now = new Date(clock.now.getTime() + minutes * MINUTE));
+        return { tracker, cart, storage, wait };
+    }
+
+    it('starts a session on the first item and ends it with the order', () => {
+        const { tracker, cart, wait } = track();
+
+        cart.addItem(dessert('tiramisu'));
+        wait(10);
+        cart.incrementItem('tiramisu');
+        wait(5);
+        tracker.recordOrder('ORD-1');
+
+        expect(tracker.getSessions()).toEqual([
+            { id: expect.any(String), startedAt: new Date('2026-03-14T10:00:00Z'), lastActivityAt: new Date('2026-03-14T10:15:00Z'), orderId: 'ORD-1' }
+        ]);
+    });
+
+    it('starts a new session after the cart sat idle, and only when something is added', () => {
+        const { tracker, cart, wait } = track();
+
+        cart.addItem(dessert('tiramisu'));
+        wait(45);
+        cart.removeItem('tiramisu');
+        cart.addItem(dessert('baklava'));
+        wait(1);
+        cart.clear();
+
+        const sessions = tracker.getSessions();
+        expect(sessions.map((s) => [s.startedAt.toISOString(), s.lastActivityAt.toISOString()])).toEqual([
+            ['2026-03-14T10:00:00.000Z', '2026-03-14T10:00:00.000Z'],
+            ['2026-03-14T10:45:00.000Z', '2026-03-14T10:46:00.000Z']
+        ]);
+        expect(abandonmentStats(sessions, new Date('2026-03-14T11:30:00Z'))).toMatchObject({ abandoned: 2, rate: 1 });
+    });
+
+    it('ignores changes the customer didn\'t make', () => {
+        const { tracker, cart } = track();
+
+        cart.restore([{ dessertId: 'tiramisu', options: {}, quantity: 1, addedAt: new Date() }], [dessert('tiramisu')]);
+
+        expect(tracker.getSessions()).toEqual([]);
+    });
+
+    it('shares sessions with the other tabs through storage', () => {
+        const { tracker, cart, storage } = track();
+        cart.addItem(dessert('tiramisu'));
+
+        const otherTab = new CartSessionTracker(storage, 30 * MINUTE, () => new Date('2026-03-14T10:05:00Z'));
+        otherTab.recordOrder('ORD-2');
+
+        expect(tracker.getSessions().map((s) => s.orderId)).toEqual(['ORD-2']);
+    });
+});
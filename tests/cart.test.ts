@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { CartEvent } from '../src/types/index.js';
+import { addToCart, calculateTotal, decrementItem, getItemCount, removeFromCart, updateQuantity } from '../src/utils/cartFunctions.js';
+import { lineIdOf } from '../src/utils/options.js';
+import { usd } from '../src/utils/money.js';
+import { InsufficientStockError } from '../src/components/InventoryService.js';
+import { PromoCodeError } from '../src/components/DiscountEngine.js';
+import { ShoppingCart } from '../src/components/ShoppingCart.js';
+import { CartHistory } from '../src/components/CartHistory.js';
+import { catalog, createShop, dessert } from './support/fixtures.js';
+
+function recordEvents(cart: ShoppingCart): CartEvent['type'][] {
+    const types: CartEvent['type'][] = [];
+    cart.subscribe((event) => types.push(event.type));
+    return types;
+}
+
+describe('cart arithmetic', () => {
+    it('adds 10% sales tax on the subtotal in the US', () => {
+        const { cart } = createShop();
+        cart.addItem(dessert('creme-brulee'), 2);
+        cart.addItem(dessert('tiramisu'));
+
+        const summary = cart.getSummary();
+        expect(summary.itemCount).toBe(3);
+        expect(summary.subtotal).toEqual(usd(19.5));
+        expect(summary.tax).toEqual(usd(1.95));
+        expect(summary.total).toEqual(usd(21.45));
+    });
+
+    it('prices options into the line and keeps each selection on its own line', () => {
+        const { cart, pricing } = createShop();
+        const waffle = dessert('waffle-berries');
+        cart.addItem(waffle, 2, { toppings: ['whipped-cream'] });
+        cart.addItem(waffle, 1);
+
+        expect(cart.size).toBe(2);
+        expect(cart.getDessertQuantity('waffle-berries')).toBe(3);
+        expect(pricing.lineTotal(cart.getItems()[0])).toEqual(usd(14.5));
+        expect(cart.getTotal()).toEqual(usd(21));
+    });
+
+    it('takes promo discounts off before tax', () => {
+        const { cart } = createShop();
+        cart.addItem(dessert('creme-brulee'), 3);
+        cart.applyPromoCode('sweet10');
+
+        const summary = cart.getSummary();
+        expect(cart.getPromoCodes()).toEqual(['SWEET10']);
+        expect(summary.discountTotal).toEqual(usd(2.1));
+        expect(summary.tax).toEqual(usd(1.89));
+        expect(summary.total).toEqual(usd(20.79));
+    });
+
+    it('rejects a promo code below its minimum spend', () => {
+        const { cart } = createShop();
+        cart.addItem(dessert('baklava'));
+
+        expect(() => cart.applyPromoCode('SWEET10')).toThrow(PromoCodeError);
+        expect(cart.getPromoCodes()).toEqual([]);
+    });
+
+    it('extracts VAT from tax-inclusive prices in the eurozone', () => {
+        const { cart } = createShop('EU');
+        cart.addItem(dessert('creme-brulee'), 2);
+
+        const summary = cart.getSummary();
+        expect(summary.currency).toBe('EUR');
+        expect(summary.subtotal.minor).toBe(1288);
+        expect(summary.tax.minor).toBe(215);
+        expect(summary.total).toEqual(summary.subtotal);
+    });
+
+    it('holds stock for the cart and refuses more than is left', () => {
+        const { cart, inventory } = createShop();
+        cart.addItem(dessert('baklava'), 2);
+
+        expect(inventory.getAvailable('baklava')).toBe(1);
+        expect(() => cart.addItem(dessert('baklava'), 2)).toThrow(InsufficientStockError);
+        expect(cart.getDessertQuantity('baklava')).toBe(2);
+
+        cart.clear();
+        expect(inventory.getAvailable('baklava')).toBe(3);
+    });
+});
+
+describe('cart events', () => {
+    it('follows each change with the new total', () => {
+        const { cart } = createShop();
+        const events = recordEvents(cart);
+        const tiramisu = dessert('tiramisu');
+
+        cart.addItem(tiramisu);
+        cart.incrementItem(lineIdOf({ dessert: tiramisu, options: {} }));
+        cart.removeItem('tiramisu');
+
+        expect(events).toEqual(['item-added', 'cart-total-changed', 'quantity-updated', 'cart-total-changed', 'item-removed', 'cart-total-changed']);
+    });
+
+    it('reports the quantity before and after an update', () => {
+        const { cart } = createShop();
+        const updates: CartEvent[] = [];
+        cart.addItem(dessert('tiramisu'), 2);
+        cart.subscribe((event) => event.type === 'quantity-updated' && updates.push(event));
+
+        cart.updateQuantity('tiramisu', 5);
+
+        expect(updates).toEqual([{ type: 'quantity-updated', lineId: 'tiramisu', newQuantity: 5, previousQuantity: 2 }]);
+    });
+
+    it('carries what was cleared so it can be put back', () => {
+        const { cart } = createShop();
+        cart.addItem(dessert('creme-brulee'), 3);
+        cart.applyPromoCode('SWEET10');
+        const events: CartEvent[] = [];
+        cart.subscribe((event) => events.push(event));
+
+        cart.clear();
+
+        expect(events.map((event) => event.type)).toEqual(['cart-cleared', 'cart-total-changed']);
+        const [cleared] = events;
+        expect(cleared.type === 'cart-cleared' && cleared.items.map((item) => item.quantity)).toEqual([3]);
+        expect(cleared.type === 'cart-cleared' && cleared.promoCodes).toEqual(['SWEET10']);
+    });
+
+    it('stays silent when nothing changes', () => {
+        const { cart } = createShop();
+        const events = recordEvents(cart);
+
+        cart.removeItem('tiramisu');
+        cart.removePromoCode('SWEET10');
+
+        expect(events).toEqual([]);
+    });
+
+    it('reconciles against an unchanged catalog without a word', () => {
+        const { cart } = createShop();
+        const history = new CartHistory(cart);
+        cart.addItem(dessert('tiramisu'));
+        const events = recordEvents(cart);
+
+        cart.reconcile(catalog.map((d) => ({ ...d })));
+
+        expect(events).toEqual([]);
+        expect(history.canUndo).toBe(true);
+    });
+
+    it('replaces the lines when the catalog changes them', () => {
+        const { cart } = createShop();
+        cart.addItem(dessert('tiramisu'));
+        cart.addItem(dessert('baklava'));
+        const events = recordEvents(cart);
+
+        const cheaper = catalog.filter((d) => d.id !== 'baklava').map((d) => (d.id === 'tiramisu' ? { ...d, price: usd(6) } : d));
+        cart.reconcile(cheaper);
+
+        expect(events).toEqual(['items-replaced', 'stale-items-dropped', 'prices-changed', 'cart-total-changed']);
+        expect(cart.getTotal()).toEqual(usd(6));
+
+        events.length = 0;
+        cart.reconcile(cheaper.map((d) => ({ ...d, description: 'New recipe' })));
+        expect(events).toEqual(['items-replaced']);
+    });
+
+    it('emits nothing for a rejected change', () => {
+        const { cart } = createShop();
+        const events = recordEvents(cart);
+
+        expect(() => cart.addItem(dessert('tiramisu'), 0)).toThrow('Quantity must be greater than 0');
+        expect(() => cart.addItem(dessert('baklava'), 4)).toThrow(InsufficientStockError);
+        expect(events).toEqual([]);
+    });
+});
+
+describe('functional cart operations', () => {
+    it('never change the cart they are given', () => {
+        const tiramisu = dessert('tiramisu');
+        const start = addToCart([], tiramisu, 2);
+        const snapshot = structuredClone(start);
+
+        const added = addToCart(start, tiramisu);
+        const updated = updateQuantity(added, 'tiramisu', 5);
+        const removed = removeFromCart(updated, 'tiramisu');
+
+        expect(start).toEqual(snapshot);
+        expect(getItemCount(added)).toBe(3);
+        expect(getItemCount(updated)).toBe(5);
+        expect(removed).toEqual([]);
+    });
+
+    it('drop a line whose quantity reaches zero', () => {
+        const cart = addToCart([], dessert('baklava'));
+
+        expect(decrementItem(cart, 'baklava')).toEqual([]);
+        expect(updateQuantity(cart, 'baklava', 0)).toEqual([]);
+    });
+
+    it('total the same as the cart class', () => {
+        const { cart, pricing } = createShop();
+        cart.addItem(dessert('pie-lemon'), 3);
+        cart.addItem(dessert('panna-cotta'));
+
+        const lines = addToCart(addToCart([], dessert('pie-lemon'), 3), dessert('panna-cotta'));
+        expect(calculateTotal(lines, pricing).total).toEqual(cart.getSummary().total);
+    });
+});
@@ -0,0 +1,196 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CatalogLoadResult } from '../src/types/index.js';
+import { dessertsData } from '../src/data/desserts.js';
+import { MemoryStorageAdapter } from '../src/components/StatePersistence.js';
+import { CatalogLoadError, CatalogService, formatCatalogIssue, HttpCatalogProvider, StaticCatalogProvider } from '../src/components/CatalogService.js';
+
+const CATALOG_CACHE_KEY = 'dessert-shop:catalog';
+
+interface Reply {
+    status: number;
+    body?: string;
+    etag?: string;
+}
+
+// A catalog endpoint on localhost; each test says what it answers
+let server: Server;
+let url: string;
+let reply: (headers: IncomingHttpHeaders) => Reply;
+let requests: IncomingHttpHeaders[];
+
+beforeAll(async () => {
+    server = createServer((request, response) => {
+        requests.push(request.headers);
+        const { status, body, etag } = reply(request.headers);
+        response.writeHead(status, { 'Content-Type': 'application/json', ...(etag ? { ETag: etag } : {}) });
+        response.end(body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/catalog.json`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+    requests = [];
+    reply = () => ({ status: 200, body: JSON.stringify(dessertsData), etag: '"v1"' });
+});
+
+/**
+ * Answer like a server with ETags: 304 when the client already has `etag`
+ */
+function serve(records: unknown, etag: string): void {
+    reply = (headers) => (headers['if-none-match'] === etag ? { status: 304 } : { status: 200, body: JSON.stringify(records), etag });
+}
+
+describe('HttpCatalogProvider', () => {
+    it('returns the records with their ETag', async () => {
+        const result = await new HttpCatalogProvider(url).fetchCatalog();
+
+        expect(result).toEqual({ records: JSON.parse(JSON.stringify(dessertsData)), etag: '"v1"' });
+        expect(requests[0].accept).toBe('application/json');
+        expect(requests[0]['if-none-match']).toBeUndefined();
+    });
+
+    it('asks with If-None-Match and reports a 304 as not modified', async () => {
+        serve(dessertsData, '"v1"');
+
+        expect(await new HttpCatalogProvider(url).fetchCatalog('"v1"')).toEqual({ notModified: true });
+        expect(requests[0]['if-none-match']).toBe('"v1"');
+    });
+
+    it('fails on an error status and on a body that is not JSON', async () => {
+        const provider = new HttpCatalogProvider(url);
+
+        reply = () => ({ status: 503 });
+        await expect(provider.fetchCatalog()).rejects.toThrow(new CatalogLoadError('Catalog request failed: 503 Service Unavailable'));
+
+        reply = () => ({ status: 200, body: '<html>' });
+        await expect(provider.fetchCatalog()).rejects.toThrow(new CatalogLoadError('Catalog response is not valid JSON'));
+    });
+});
+
+describe('CatalogService', () => {
+    it('revalidates a stale cache with its ETag and keeps it on a 304', async () => {
+        serve(dessertsData, '"v1"');
+        const storage = new MemoryStorageAdapter();
+        const service = new CatalogService(new HttpCatalogProvider(url), storage, undefined, 1000);
+        const changed: CatalogLoadResult[] = [];
+        service.subscribe((result) => changed.push(result));
+
+        expect((await service.load(new Date(0))).source).toBe('network');
+        const fetchedAt = JSON.parse(storage.getItem(CATALOG_CACHE_KEY) as string).fetchedAt;
+        const cached = await service.load(new Date(fetchedAt + 5000));
+        await service.revalidate();
+
+        expect(cached.source).toBe('cache');
+        expect(requests.map((headers) => headers['if-none-match'])).toEqual([undefined, '"v1"']);
+        expect(changed).toEqual([]);
+        expect(JSON.parse(storage.getItem(CATALOG_CACHE_KEY) as string)).toMatchObject({ etag: '"v1"', records: JSON.parse(JSON.stringify(dessertsData)) });
+    });
+
+    it('tells subscribers when revalidation finds a new catalog', async () => {
+        serve(dessertsData, '"v1"');
+        const storage = new MemoryStorageAdapter();
+        const service = new CatalogService(new HttpCatalogProvider(url), storage);
+        await service.load();
+        const changed: CatalogLoadResult[] = [];
+        service.subscribe((result) => changed.push(result));
+
+        serve(dessertsData.slice(0, 3), '"v2"');
+        await service.revalidate();
+
+        expect(changed.map((result) => result.desserts.length)).toEqual([3]);
+        expect(JSON.parse(storage.getItem(CATALOG_CACHE_KEY) as string).etag).toBe('"v2"');
+    });
+
+    it('falls back to the bundled catalog when the endpoint fails, without caching it', async () => {
+        reply = () => ({ status: 500 });
+        const storage = new MemoryStorageAdapter();
+        const logger = { warn: vi.fn(), error: vi.fn() };
+
+        const result = await new CatalogService(new HttpCatalogProvider(url), storage, new StaticCatalogProvider(dessertsData), undefined, logger).load();
+
+        expect(result.source).toBe('fallback');
+        expect(logger.warn).toHaveBeenCalledWith('Falling back to the bundled catalog', expect.any(CatalogLoadError));
+        expect(result.desserts).toHaveLength(dessertsData.length);
+        expect(storage.getItem(CATALOG_CACHE_KEY)).toBeNull();
+        await expect(new CatalogService(new HttpCatalogProvider(url), storage).load()).rejects.toThrow(CatalogLoadError);
+    });
+
+    it('skips bad rows and says what is wrong with each', async () => {
+        const [good] = dessertsData;
+        serve([good, { ...good, id: 'no-price', price: 'free' }, { ...good, id: good.id }, 'tiramisu'], '"v1"');
+
+        const result = await new CatalogService(new HttpCatalogProvider(url), new MemoryStorageAdapter()).load();
+
+        expect(result.desserts.map((d) => d.id)).toEqual([good.id]);
+        expect(result.issues.map(formatCatalogIssue)).toEqual([
+            'rows[1] (no-price).price: expected a non-negative number, got "free"',
+            `rows[2] (${good.id}).id: duplicate id "${good.id}"`,
+            'rows[3]: expected an object, got "tiramisu"'
+        ]);
+    });
+
+    it('refuses a catalog with no usable rows, listing the problems', async () => {
+        serve([{ id: 'mystery' }], '"v1"');
+
+        const error = await new CatalogService(new HttpCatalogProvider(url), new MemoryStorageAdapter()).load().catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(CatalogLoadError);
+        expect((error as CatalogLoadError).issues.map((issue) => issue.field)).toEqual(['name', 'category', 'price', 'image', 'inStock']);
+    });
+});
+
+describe('the catalog cache', () => {
+    it('is ignored when it has no fetch time', async () => {
+        const storage = new MemoryStorageAdapter();
+        storage.setItem(CATALOG_CACHE_KEY, JSON.stringify({ records: [], fetchedAt: 'yesterday' }));
+
+        const result = await new CatalogService(new StaticCatalogProvider(dessertsData), storage).load();
+
+        expect(result.source).toBe('network');
+        expect(result.desserts).toHaveLength(dessertsData.length);
+    });
+
+    it.each([
+        ['records that are not a list', { desserts: dessertsData }],
+        ['no usable rows', [{ id: 'mystery' }, 'tiramisu']]
+    ])('is ignored when it has %s', async (_, records) => {
+        const storage = new MemoryStorageAdapter();
+        storage.setItem(CATALOG_CACHE_KEY, JSON.stringify({ records, etag: '"v0"', fetchedAt: Date.now() }));
+        const logger = { warn: vi.fn(), error: vi.fn() };
+
+        const result = await new CatalogService(new HttpCatalogProvider(url), storage, undefined, undefined, logger).load();
+
+        expect(result.source).toBe('network');
+        expect(result.desserts).toHaveLength(dessertsData.length);
+        expect(requests.map((headers) => headers['if-none-match'])).toEqual([undefined]);
+        expect(logger.warn).toHaveBeenCalledWith('Ignoring the cached catalog', expect.any(CatalogLoadError));
+        expect(JSON.parse(storage.getItem(CATALOG_CACHE_KEY) as string).etag).toBe('"v1"');
+    });
+
+    it('gives way to the bundled catalog when it is bad and the endpoint is down', async () => {
+        reply = () => ({ status: 503 });
+        const storage = new MemoryStorageAdapter();
+        storage.setItem(CATALOG_CACHE_KEY, JSON.stringify({ records: 'tiramisu', fetchedAt: Date.now() }));
+
+        const result = await new CatalogService(new HttpCatalogProvider(url), storage, new StaticCatalogProvider(dessertsData)).load();
+
+        expect(result.source).toBe('fallback');
+        expect(result.desserts).toHaveLength(dessertsData.length);
+    });
+
+    it('keeps only a string ETag', async () => {
+        const storage = new MemoryStorageAdapter();
+        storage.setItem(CATALOG_CACHE_KEY, JSON.stringify({ records: dessertsData, etag: 7, fetchedAt: 0 }));
+
+        await new CatalogService(new HttpCatalogProvider(url), storage).revalidate();
+
+        expect(requests.map((headers) => headers['if-none-match'])).toEqual([undefined]);
+    });
+});
@@ -0,0 +1,119 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { CatalogQuery, CatalogQueryContext, CatalogSort, Dessert, DessertCategory } from '../src/types/index.js';
+import { DEFAULT_CATALOG_QUERY, parseCatalogQuery, queryCatalog, serializeCatalogQuery } from '../src/utils/catalogQuery.js';
+import { catalog } from './support/fixtures.js';
+
+// Everything in stock and nothing more popular than anything else, unless a test says otherwise
+const context: CatalogQueryContext = { price: (d) => d.price, isAvailable: () => true, popularity: () => 0 };
+
+function ids(query: Partial<CatalogQuery>, desserts: Dessert[] = catalog, overrides: Partial<CatalogQueryContext> = {}): string[] {
+    return queryCatalog(desserts, { ...DEFAULT_CATALOG_QUERY, ...query }, { ...context, ...overrides }).map((d) => d.id);
+}
+
+describe('searching the catalog', () => {
+    it('ignores accents and case', () => {
+        for (const search of ['Crème Brûlée', 'creme brulee', 'CRÈME BRULEE', 'brûlée']) {
+            expect(ids({ search })).toEqual(['creme-brulee']);
+        }
+    });
+
+    it('forgives a typo in a longer word, two in a long one, and none in a short one', () => {
+        expect(ids({ search: 'tiramsu' })).toEqual(['tiramisu']);
+        expect(ids({ search: 'lemn' })).toEqual(['pie-lemon']);
+        expect(ids({ search: 'pistashio' })).toEqual(['baklava']);
+        expect(ids({ search: 'pei' })).toEqual([]);
+        expect(ids({ search: 'xyzzy' })).toEqual([]);
+    });
+
+    it('needs every word to match and ranks name matches above description matches', () => {
+        expect(ids({ search: 'caramel' })).toEqual(['brownie-salted-caramel', 'creme-brulee']);
+        expect(ids({ search: 'salted caramel' })).toEqual(['brownie-salted-caramel']);
+        expect(ids({ search: 'salted tiramisu' })).toEqual([]);
+    });
+
+    it('searches the shopper\'s language when given one', () => {
+        const text = (d: Dessert) => ({ name: d.id === 'tiramisu' ? 'Tiramisú clásico' : d.name, category: d.category });
+
+        expect(ids({ search: 'clasico' }, catalog, { text })).toEqual(['tiramisu']);
+    });
+});
+
+describe('filtering the catalog', () => {
+    it('keeps the categories, price range and stock asked for', () => {
+        const isAvailable = (d: Dessert) => d.id !== 'cake-red-velvet';
+
+        expect(ids({ categories: [DessertCategory.Cake, DessertCategory.Pie] })).toEqual(['pie-lemon', 'cake-red-velvet']);
+        expect(ids({ minPrice: 5.5, maxPrice: 6.5 })).toEqual(['waffle-berries', 'tiramisu', 'brownie-salted-caramel', 'panna-cotta']);
+        expect(ids({ maxPrice: 5, inStockOnly: true }, catalog, { isAvailable })).toEqual(['baklava', 'pie-lemon']);
+    });
+});
+
+describe('sorting the catalog', () => {
+    it('keeps catalog order between equals, whichever way the catalog is listed', () => {
+        const reversed = catalog.slice().reverse();
+
+        expect(ids({ sort: 'price-asc' })).toEqual(['baklava', 'cake-red-velvet', 'pie-lemon', 'tiramisu', 'brownie-salted-caramel', 'waffle-berries', 'panna-cotta', 'creme-brulee', 'macaron-mix']);
+        expect(ids({ sort: 'price-asc' }, reversed)).toEqual(['baklava', 'cake-red-velvet', 'pie-lemon', 'brownie-salted-caramel', 'tiramisu', 'panna-cotta', 'waffle-berries', 'creme-brulee', 'macaron-mix']);
+        expect(ids({ sort: 'popularity' })).toEqual(catalog.map((d) => d.id));
+        expect(ids({ sort: 'featured' }, reversed)).toEqual(reversed.map((d) => d.id));
+    });
+
+    it('is stable for every sort when everything ties', () => {
+        const sorts: CatalogSort[] = ['featured', 'price-asc', 'price-desc', 'name-asc', 'name-desc', 'popularity'];
+        const same = (d: Dessert) => ({ name: 'Dessert', category: d.category });
+        fc.assert(
+            fc.property(fc.shuffledSubarray(catalog), fc.constantFrom(...sorts), (desserts, sort) => {
+                const flat = desserts.map((d) => ({ ...d, price: catalog[0].price }));
+
+                expect(ids({ sort }, flat, { text: same })).toEqual(flat.map((d) => d.id));
+            })
+        );
+    });
+
+    it('puts the most popular first', () => {
+        const sold: Record<string, number> = { tiramisu: 4, baklava: 9, 'pie-lemon': 4 };
+
+        expect(ids({ sort: 'popularity' }, catalog, { popularity: (id) => sold[id] ?? 0 }).slice(0, 3)).toEqual(['baklava', 'tiramisu', 'pie-lemon']);
+    });
+});
+
+describe('catalog queries in the URL', () => {
+    const query: fc.Arbitrary<CatalogQuery> = fc
+        .record({
+            search: fc.string().map((search) => search.trim()),
+            categories: fc.subarray(Object.values(DessertCategory)),
+            minPrice: fc.option(fc.double({ min: 0, max: 1000, noNaN: true }), { nil: undefined }),
+            maxPrice: fc.option(fc.double({ min: 0, max: 1000, noNaN: true }), { nil: undefined }),
+            inStockOnly: fc.boolean(),
+            sort: fc.constantFrom<CatalogSort>('featured', 'price-asc', 'price-desc', 'name-asc', 'name-desc', 'popularity')
+        })
+        .map(({ minPrice, maxPrice, ...rest }) => ({
+            ...rest,
+            ...(minPrice === undefined ? {} : { minPrice }),
+            ...(maxPrice === undefined ? {} : { maxPrice })
+        }));
+
+    it('read back as the query that was written', () => {
+        fc.assert(
+            fc.property(query, (written) => {
+                expect(parseCatalogQuery(serializeCatalogQuery(written))).toEqual(written);
+            })
+        );
+    });
+
+    it('leave defaults out', () => {
+        expect(serializeCatalogQuery(DEFAULT_CATALOG_QUERY)).toBe('');
+        expect(serializeCatalogQuery({ ...DEFAULT_CATALOG_QUERY, search: '  ', sort: 'price-asc' })).toBe('?sort=price-asc');
+        expect(parseCatalogQuery('')).toEqual(DEFAULT_CATALOG_QUERY);
+    });
+
+    it('drop a sort, price or category they don\'t know', () => {
+        expect(parseCatalogQuery('?sort=cheapest&min=-3&max=abc&category=cake,soup,CAKE,,pie&instock=yes')).toEqual({
+            ...DEFAULT_CATALOG_QUERY,
+            categories: [DessertCategory.Pie, DessertCategory.Cake]
+        });
+        expect(parseCatalogQuery('?min=&max=Infinity&sort=')).toEqual(DEFAULT_CATALOG_QUERY);
+        expect(parseCatalogQuery('?q=+tiramisu+&min=0&max=4.5')).toEqual({ ...DEFAULT_CATALOG_QUERY, search: ' tiramisu ', minPrice: 0, maxPrice: 4.5 });
+    });
+});
@@ -0,0 +1,163 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Allergen, CartItem, Dessert, DietaryProfile, DietaryTag } from '../src/types/index.js';
+import { i18nConfig } from '../src/data/config.js';
+import { describeDietaryConflict, dietaryConflict, emptyDietaryProfile, findDietaryConflicts, lineAllergens, lineDiets } from '../src/utils/dietary.js';
+import { MemoryStorageAdapter, StatePersistence } from '../src/components/StatePersistence.js';
+import { Translator } from '../src/components/Translator.js';
+import { dessert } from './support/fixtures.js';
+import { byId, card, click, placeOrder, settle, startShop, stopShop } from './support/dom.js';
+
+function profile(change: Partial<DietaryProfile>): DietaryProfile {
+    return { ...emptyDietaryProfile(), ...change };
+}
+
+describe('what a line contains', () => {
+    it('adds the allergens of the picked options, in the catalog\'s order', () => {
+        expect(lineAllergens(dessert('waffle-berries'))).toEqual([Allergen.Gluten, Allergen.Dairy, Allergen.Egg]);
+        expect(lineAllergens(dessert('macaron-mix'), { box: ['chocolate'] })).toEqual([Allergen.Dairy, Allergen.Egg, Allergen.Nuts, Allergen.Soy]);
+        expect(lineAllergens(dessert('macaron-mix'), { box: ['fruity'] })).toEqual([Allergen.Egg, Allergen.Nuts]);
+    });
+
+    it('is unknown when the dessert declares no allergens', () => {
+        const { allergens: _, ...undeclared } = dessert('tiramisu');
+
+        expect(lineAllergens(undeclared as Dessert)).toBeUndefined();
+    });
+
+    it('loses a diet when an option brings in what the diet rules out', () => {
+        const vegan: Dessert = { ...dessert('waffle-berries'), allergens: [], dietary: [DietaryTag.Vegan, DietaryTag.Vegetarian] };
+
+        expect(lineDiets(vegan, { toppings: ['banana'] })).toEqual([DietaryTag.Vegan, DietaryTag.Vegetarian]);
+        expect(lineDiets(vegan, { toppings: ['banana', 'whipped-cream'] })).toEqual([DietaryTag.Vegetarian]);
+    });
+});
+
+describe('matching a dessert against a profile', () => {
+    it('suits an empty profile, whatever it contains', () => {
+        expect(dietaryConflict(dessert('baklava'), emptyDietaryProfile())).toBeNull();
+    });
+
+    it('names the allergens to avoid that it contains', () => {
+        expect(dietaryConflict(dessert('baklava'), profile({ avoid: [Allergen.Nuts, Allergen.Sesame] }))).toEqual({ allergens: [Allergen.Nuts], diets: [], undeclared: false });
+        expect(dietaryConflict(dessert('panna-cotta'), profile({ avoid: [Allergen.Nuts] }))).toBeNull();
+    });
+
+    it('names the diets it isn\'t marked for', () => {
+        const glutenFreeVegetarian = profile({ diets: [DietaryTag.Vegetarian, DietaryTag.GlutenFree] });
+
+        expect(dietaryConflict(dessert('creme-brulee'), glutenFreeVegetarian)).toBeNull();
+        expect(dietaryConflict(dessert('panna-cotta'), glutenFreeVegetarian)?.diets).toEqual([DietaryTag.Vegetarian]);
+        expect(dietaryConflict(dessert('tiramisu'), glutenFreeVegetarian)?.diets).toEqual([DietaryTag.GlutenFree]);
+    });
+
+    it('takes the picked options into account', () => {
+        const noSoy = profile({ avoid: [Allergen.Soy] });
+
+        expect(dietaryConflict(dessert('macaron-mix'), noSoy, { box: ['classic'] })).toBeNull();
+        expect(dietaryConflict(dessert('macaron-mix'), noSoy, { box: ['chocolate'] })?.allergens).toEqual([Allergen.Soy]);
+    });
+
+    it('flags undeclared allergens only to someone avoiding something', () => {
+        const { allergens: _, ...undeclared } = dessert('tiramisu');
+
+        expect(dietaryConflict(undeclared as Dessert, profile({ diets: [DietaryTag.Vegetarian] }))).toBeNull();
+        expect(dietaryConflict(undeclared as Dessert, profile({ avoid: [Allergen.Peanuts] }))).toEqual({ allergens: [], diets: [], undeclared: true });
+    });
+
+    it('reads as a sentence in the shopper\'s language', () => {
+        const conflict = { allergens: [Allergen.Nuts, Allergen.Egg], diets: [DietaryTag.Vegan], undeclared: false };
+
+        expect(describeDietaryConflict(conflict)).toBe('Contains: Tree nuts, Egg · Not marked as: Vegan');
+        expect(describeDietaryConflict({ allergens: [], diets: [], undeclared: true }, new Translator(i18nConfig, 'fr'))).toBe('Allergènes non indiqués');
+    });
+});
+
+describe('checking the cart', () => {
+    it('lists each line that doesn\'t suit, with its options and quantity', () => {
+        const items: CartItem[] = [
+            { dessert: dessert('macaron-mix'), options: { box: ['chocolate'] }, quantity: 2, addedAt: new Date() },
+            { dessert: dessert('macaron-mix'), options: { box: ['fruity'] }, quantity: 1, addedAt: new Date() },
+            { dessert: dessert('creme-brulee'), options: {}, quantity: 1, addedAt: new Date() }
+        ];
+
+        expect(findDietaryConflicts(items, profile({ avoid: [Allergen.Soy, Allergen.Dairy] }))).toEqual([
+            { dessertId: 'macaron-mix', name: 'Macaron Mix of Five', options: 'Flavor box: Chocolate lovers', quantity: 2, allergens: [Allergen.Soy, Allergen.Dairy], diets: [], undeclared: false },
+            { dessertId: 'creme-brulee', name: 'Vanilla Bean Crème Brûlée', options: '', quantity: 1, allergens: [Allergen.Dairy], diets: [], undeclared: false }
+        ]);
+    });
+});
+
+describe('checkout with a dietary profile', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    });
+
+    afterEach(() => {
+        stopShop();
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    async function avoidNuts(): Promise<MemoryStorageAdapter> {
+        const storage = new MemoryStorageAdapter();
+        await startShop(storage);
+        click(byId('dietaryAvoid').querySelector('input[value="nuts"]'));
+        await settle();
+        return storage;
+    }
+
+    it('holds the order until the customer accepts the lines that don\'t suit them', async () => {
+        const storage = await avoidNuts();
+        click(card('baklava').querySelector('.add-to-cart-btn'));
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        await placeOrder();
+
+        expect(byId('orderModal').classList.contains('hidden')).toBe(true);
+        expect(byId('dietaryWarning').classList.contains('hidden')).toBe(false);
+        expect(Array.from(byId('dietaryWarningLines').children, (line) => line.textContent)).toEqual(['1 × Pistachio Baklava: Contains: Tree nuts']);
+        expect(byId('dietaryAcknowledgeError').textContent).toBe('Tick the box to order these items, or go back and change your cart');
+        expect(document.activeElement).toBe(byId('dietaryAcknowledge'));
+
+        click(byId('dietaryAcknowledge'));
+        click(byId('checkoutNextBtn'));
+        await settle();
+
+        expect(byId('orderModal').classList.contains('hidden')).toBe(false);
+        const [order] = new StatePersistence(storage).load()?.orders ?? [];
+        expect(order.details.dietaryCheck).toMatchObject({ avoid: ['nuts'], diets: [], conflicts: [{ dessertId: 'baklava', allergens: ['nuts'] }] });
+    });
+
+    it('asks again when the cart changes after the customer accepted', async () => {
+        await avoidNuts();
+        click(card('baklava').querySelector('.add-to-cart-btn'));
+        await settle();
+        await placeOrder();
+        click(byId('dietaryAcknowledge'));
+
+        // Another tab, or the grid behind the dialog, adds another baklava
+        click(card('baklava').querySelector('.quantity-btn.increment'));
+        await settle();
+        click(byId('checkoutNextBtn'));
+        await settle();
+
+        expect(byId('orderModal').classList.contains('hidden')).toBe(true);
+        expect(byId<HTMLInputElement>('dietaryAcknowledge').checked).toBe(false);
+        expect(byId('dietaryWarningLines').textContent).toBe('2 × Pistachio Baklava: Contains: Tree nuts');
+    });
+
+    it('lets an order that suits the profile straight through', async () => {
+        const storage = await avoidNuts();
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        await placeOrder();
+
+        expect(byId('orderModal').classList.contains('hidden')).toBe(false);
+        const [order] = new StatePersistence(storage).load()?.orders ?? [];
+        expect(order.details.dietaryCheck).toEqual({ avoid: ['nuts'], diets: [], conflicts: [] });
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { CartItem, DessertId, PromoCode, SelectedOptions } from '../src/types/index.js';
+import { pricingConfig, promoCodesData } from '../src/data/config.js';
+import { usd } from '../src/utils/money.js';
+import { PricingContext } from '../src/components/PricingContext.js';
+import { DiscountEngine } from '../src/components/DiscountEngine.js';
+import { dessert } from './support/fixtures.js';
+
+const NOW = new Date('2026-03-14T12:00:00Z');
+
+// Stackable versions of each kind of rule, to check the order they are applied in
+const stackable: PromoCode[] = [
+    { code: 'HALF', description: '50% off', rule: { kind: 'percentage', percent: 50 }, stackable: true },
+    { code: 'FIVE', description: '$5 off', rule: { kind: 'fixed', amount: usd(5) }, stackable: true },
+    { code: 'HUNDRED', description: '$100 off', rule: { kind: 'fixed', amount: usd(100) }, stackable: true },
+    { code: 'LATER', description: 'Not yet', rule: { kind: 'percentage', percent: 5 }, startsAt: new Date('2026-04-01T00:00:00Z'), stackable: true }
+];
+
+function engine(region: string = 'US'): DiscountEngine {
+    return new DiscountEngine([...promoCodesData, ...stackable], new PricingContext(pricingConfig, region));
+}
+
+function line(id: DessertId, quantity: number, options: SelectedOptions = {}): CartItem {
+    return { dessert: dessert(id), options, quantity, addedAt: NOW };
+}
+
+function amounts(items: CartItem[], codes: string[], discounts: DiscountEngine = engine()) {
+    const result = discounts.calculate(items, codes, NOW);
+    return {
+        discounts: result.discounts.map((d) => [d.code, d.amount.toDecimalString()]),
+        total: result.discountTotal.toDecimalString(),
+        net: Object.fromEntries(Object.entries(result.netLines).map(([id, money]) => [id, money.toDecimalString()])),
+        rejected: result.rejected
+    };
+}
+
+describe('buy X get Y free', () => {
+    it('gives the cheapest units free, counting every variant of the dessert', () => {
+        const items = [line('macaron-mix', 2, { box: ['chocolate'] }), line('macaron-mix', 1, { box: ['classic'] })];
+
+        expect(amounts(items, ['MACARON3'])).toMatchObject({
+            discounts: [['MACARON3', '8.00']],
+            net: { 'macaron-mix?box=chocolate': '18.00', 'macaron-mix?box=classic': '0.00' }
+        });
+    });
+
+    it('gives one free unit per full set bought', () => {
+        expect(amounts([line('macaron-mix', 5, { box: ['classic'] })], ['MACARON3']).total).toBe('8.00');
+        expect(amounts([line('macaron-mix', 6, { box: ['classic'] })], ['MACARON3']).total).toBe('16.00');
+    });
+
+    it('doesn\'t apply until a full set is in the cart', () => {
+        expect(amounts([line('macaron-mix', 2, { box: ['classic'] })], ['MACARON3'])).toMatchObject({
+            discounts: [],
+            rejected: [{ code: 'MACARON3', reason: 'not-applicable' }]
+        });
+    });
+});
+
+describe('category percentage', () => {
+    it('takes the percentage off that category\'s lines only', () => {
+        expect(amounts([line('cake-red-velvet', 2), line('tiramisu', 1)], ['CAKEDAY'])).toMatchObject({
+            discounts: [['CAKEDAY', '1.80']],
+            net: { 'cake-red-velvet': '7.20', tiramisu: '5.50' }
+        });
+    });
+
+    it('doesn\'t apply without anything from the category', () => {
+        expect(amounts([line('tiramisu', 1)], ['cakeday']).rejected).toEqual([{ code: 'CAKEDAY', reason: 'not-applicable' }]);
+    });
+});
+
+describe('order percentage', () => {
+    it('takes the percentage off the whole order once its minimum spend is met', () => {
+        expect(amounts([line('tiramisu', 3)], ['SWEET10']).rejected).toEqual([{ code: 'SWEET10', reason: 'min-spend-not-met' }]);
+        expect(amounts([line('tiramisu', 4)], ['SWEET10'])).toMatchObject({ discounts: [['SWEET10', '2.20']], net: { tiramisu: '19.80' } });
+    });
+
+    it('is spread over the lines in proportion to what each costs', () => {
+        expect(amounts([line('tiramisu', 1), line('baklava', 1)], ['HALF']).net).toEqual({ tiramisu: '2.75', baklava: '2.00' });
+    });
+});
+
+describe('fixed amount', () => {
+    it('takes its amount off, converted into the shopper\'s currency', () => {
+        const items = [line('tiramisu', 4), line('creme-brulee', 2)];
+
+        expect(amounts(items, ['TREAT5']).discounts).toEqual([['TREAT5', '5.00']]);
+        expect(amounts(items, ['TREAT5'], engine('EU')).discounts).toEqual([['TREAT5', '4.60']]);
+    });
+
+    it('never takes off more than the order costs', () => {
+        expect(amounts([line('tiramisu', 1)], ['HUNDRED'])).toMatchObject({ total: '5.50', net: { tiramisu: '0.00' } });
+    });
+});
+
+describe('stacked codes', () => {
+    const items = [line('macaron-mix', 3, { box: ['classic'] }), line('cake-red-velvet', 2)];
+
+    it('apply free items, then category, then order percentages, then fixed amounts, each on what is left', () => {
+        const expected = {
+            discounts: [['MACARON3', '8.00'], ['CAKEDAY', '1.80'], ['HALF', '11.60'], ['FIVE', '5.00']],
+            total: '26.40'
+        };
+
+        expect(amounts(items, ['FIVE', 'HALF', 'CAKEDAY', 'MACARON3'])).toMatchObject(expected);
+        expect(amounts(items, ['MACARON3', 'CAKEDAY', 'HALF', 'FIVE'])).toMatchObject(expected);
+    });
+
+    it('stop at zero however much they add up to', () => {
+        const result = amounts(items, ['HALF', 'HUNDRED', 'FIVE']);
+
+        expect(result.total).toBe('33.00');
+        expect(result.discounts).toEqual([['HALF', '16.50'], ['HUNDRED', '16.50']]);
+        expect(Object.values(result.net)).toEqual(['0.00', '0.00']);
+    });
+});
+
+describe('adding a code', () => {
+    const items = [line('tiramisu', 4)];
+
+    it('says why a code can\'t go on', () => {
+        const discounts = engine();
+
+        expect(discounts.validate('NOPE', items, [], NOW)).toBe('unknown-code');
+        expect(discounts.validate(' sweet10 ', items, ['SWEET10'], NOW)).toBe('already-applied');
+        expect(discounts.validate('SWEET10', items, ['HALF'], NOW)).toBe('not-stackable');
+        expect(discounts.validate('HALF', items, ['SWEET10'], NOW)).toBe('not-stackable');
+        expect(discounts.validate('SUMMER24', items, [], NOW)).toBe('expired');
+        expect(discounts.validate('LATER', items, [], NOW)).toBe('not-yet-active');
+        expect(discounts.validate('HALF', items, ['FIVE'], NOW)).toBeNull();
+    });
+
+    it('stops taking a code once it has been used up, and takes it again when an order gives it back', () => {
+        const discounts = engine();
+        const limited = promoCodesData.find((promo) => promo.code === 'TREAT5');
+        const big = [line('tiramisu', 6)];
+
+        for (let i = 0; i < (limited?.usageLimit ?? 0); i++) discounts.recordUsage(['treat5']);
+        expect(discounts.validate('TREAT5', big, [], NOW)).toBe('usage-limit-reached');
+
+        discounts.releaseUsage(['TREAT5']);
+        expect(discounts.validate('TREAT5', big, [], NOW)).toBeNull();
+    });
+});
@@ -0,0 +1,170 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { DessertId } from '../src/types/index.js';
+import { copyCartItem } from '../src/utils/cartFunctions.js';
+import { InsufficientStockError } from '../src/components/InventoryService.js';
+import { PromoCodeError } from '../src/components/DiscountEngine.js';
+import { CartHistory } from '../src/components/CartHistory.js';
+import { ShoppingCart } from '../src/components/ShoppingCart.js';
+import { createShop, dessert, Shop } from './support/fixtures.js';
+
+function expectReplayMatches({ cart, pricing, discounts }: Shop, history: CartHistory): void {
+    const replayed = ShoppingCart.fromEvents(history.getLog(), pricing, discounts, cart.id);
+
+    expect(replayed.getItems()).toEqual(cart.getItems());
+    expect(replayed.getPromoCodes()).toEqual(cart.getPromoCodes());
+    expect(replayed.getGroup()).toEqual(cart.getGroup());
+}
+
+describe('CartHistory', () => {
+    it('rebuilds the live cart from its log after a mix of changes, undos and redos', () => {
+        const shop = createShop();
+        const { cart } = shop;
+        const history = new CartHistory(cart);
+
+        cart.addItem(dessert('creme-brulee'), 3);
+        cart.addItem(dessert('waffle-berries'), 1, { toppings: ['whipped-cream'] });
+        cart.applyPromoCode('SWEET10');
+        cart.updateQuantity('creme-brulee', 5);
+        cart.removeItem('creme-brulee');
+        history.undo();
+        cart.startGroupOrder();
+        const ada = cart.addParticipant('Ada');
+        cart.assignItem('creme-brulee', ada.id);
+        cart.clear();
+        history.undo();
+        cart.removePromoCode('SWEET10');
+        history.undo();
+        history.undo();
+        history.redo();
+        cart.addItem(dessert('tiramisu'));
+
+        expect(cart.getDessertQuantity('creme-brulee')).toBe(5);
+        expect(cart.getPromoCodes()).toEqual(['SWEET10']);
+        expectReplayMatches(shop, history);
+    });
+
+    it('rebuilds the live cart whatever order the changes come in', () => {
+        const ids: DessertId[] = ['creme-brulee', 'tiramisu', 'baklava', 'cake-red-velvet', 'pie-lemon'];
+        const step = fc.oneof(
+            fc.record({ kind: fc.constant('add' as const), id: fc.constantFrom(...ids), quantity: fc.integer({ min: 1, max: 3 }) }),
+            fc.record({ kind: fc.constant('update' as const), id: fc.constantFrom(...ids), quantity: fc.integer({ min: 0, max: 4 }) }),
+            fc.record({ kind: fc.constant('remove' as const), id: fc.constantFrom(...ids) }),
+            fc.record({ kind: fc.constant('promo' as const), code: fc.constantFrom('SWEET10', 'TREAT5', 'CAKEDAY') }),
+            fc.record({ kind: fc.constant('unpromo' as const), code: fc.constantFrom('SWEET10', 'TREAT5', 'CAKEDAY') }),
+            fc.record({ kind: fc.constantFrom('clear' as const, 'undo' as const, 'redo' as const) })
+        );
+
+        fc.assert(
+            fc.property(fc.array(step, { maxLength: 40 }), fc.integer({ min: 2, max: 60 }), (steps, limit) => {
+                const shop = createShop();
+                const { cart } = shop;
+                const history = new CartHistory(cart, undefined, limit);
+
+                for (const s of steps) {
+                    try {
+                        if (s.kind === 'add') cart.addItem(dessert(s.id), s.quantity);
+                        else if (s.kind === 'update') cart.updateQuantity(s.id, s.quantity);
+                        else if (s.kind === 'remove') cart.removeItem(s.id);
+                        else if (s.kind === 'promo') cart.applyPromoCode(s.code);
+                        else if (s.kind === 'unpromo') cart.removePromoCode(s.code);
+                        else if (s.kind === 'clear') cart.clear();
+                        else if (s.kind === 'undo') history.undo();
+                        else history.redo();
+                    } catch (error) {
+                        if (!(error instanceof InsufficientStockError || error instanceof PromoCodeError)) throw error;
+                    }
+                }
+
+                expectReplayMatches(shop, history);
+                expect(history.getLog().length).toBeLessThanOrEqual(limit);
+            })
+        );
+    });
+
+    it('folds a full log into a snapshot of the cart and keeps undoing', () => {
+        const shop = createShop();
+        const { cart } = shop;
+        const history = new CartHistory(cart, undefined, 4);
+        cart.startGroupOrder();
+        const ada = cart.addParticipant('Ada');
+        cart.addItem(dessert('creme-brulee'), 3, {}, ada.id);
+        cart.applyPromoCode('SWEET10');
+        cart.addItem(dessert('tiramisu'));
+
+        expect(history.getLog().map((event) => event.type)).toEqual(['group-changed', 'items-replaced']);
+        expectReplayMatches(shop, history);
+
+        history.undo();
+        expect(cart.getItems().map((item) => item.dessert.id)).toEqual(['creme-brulee']);
+        expectReplayMatches(shop, history);
+    });
+
+    describe('group orders', () => {
+        function groupShop() {
+            const shop = createShop();
+            const history = new CartHistory(shop.cart);
+            shop.cart.addItem(dessert('creme-brulee'), 2);
+            shop.cart.addItem(dessert('tiramisu'));
+            shop.cart.startGroupOrder();
+            const ada = shop.cart.addParticipant('Ada');
+            return { ...shop, history, ada };
+        }
+
+        it('undoes an assignment in one step', () => {
+            const { cart, history, ada } = groupShop();
+            const before = cart.getItems().map(copyCartItem);
+
+            cart.assignItem('creme-brulee', ada.id);
+            expect(cart.getItems().map((item) => item.participantId)).toEqual([ada.id, undefined]);
+
+            expect(history.undo()?.map((event) => event.type)).toEqual(['item-removed', 'item-added']);
+            expect(cart.getItems()).toEqual(before);
+
+            history.redo();
+            expect(cart.getItems().map((item) => [item.dessert.id, item.quantity, item.participantId])).toEqual([
+                ['creme-brulee', 2, ada.id],
+                ['tiramisu', 1, undefined]
+            ]);
+        });
+
+        it('undoes an assignment that merged into someone else\'s line in one step', () => {
+            const { cart, history, ada } = groupShop();
+            cart.addItem(dessert('tiramisu'), 2, {}, ada.id);
+            const before = cart.getItems().map(copyCartItem);
+
+            cart.assignItem('tiramisu', ada.id);
+            expect(cart.getItems().find((item) => item.participantId === ada.id && item.dessert.id === 'tiramisu')?.quantity).toBe(3);
+
+            history.undo();
+            expect(cart.getItems()).toEqual(before);
+        });
+
+        it('puts a removed participant and their lines back in one step', () => {
+            const { cart, history, ada } = groupShop();
+            cart.assignItem('creme-brulee', ada.id);
+            cart.assignItem('tiramisu', ada.id);
+            const before = { items: cart.getItems().map(copyCartItem), group: cart.getGroup() };
+
+            cart.removeParticipant(ada.id);
+            expect(cart.getItems().every((item) => item.participantId === undefined)).toBe(true);
+
+            history.undo();
+            expect({ items: cart.getItems(), group: cart.getGroup() }).toEqual(before);
+        });
+
+        it('reopens an ended group order in one step', () => {
+            const { cart, history, ada } = groupShop();
+            cart.assignItem('creme-brulee', ada.id);
+            const before = { items: cart.getItems().map(copyCartItem), group: cart.getGroup() };
+
+            cart.endGroupOrder();
+            expect(cart.getGroup()).toBeNull();
+
+            history.undo();
+            expect({ items: cart.getItems(), group: cart.getGroup() }).toEqual(before);
+            history.undo();
+            expect(cart.getItems().every((item) => item.participantId === undefined)).toBe(true);
+        });
+    });
+});
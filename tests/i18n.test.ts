@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocaleCode, MessageKey } from '../src/types/index.js';
+import { i18nConfig } from '../src/data/config.js';
+import { formatMessage, negotiateLocale } from '../src/utils/i18n.js';
+import { MemoryStorageAdapter, StatePersistence } from '../src/components/StatePersistence.js';
+import { Translator } from '../src/components/Translator.js';
+import { byId, card, click, settle, startShop, stopShop } from './support/dom.js';
+
+const COUNTS = [0, 1, 2, 5];
+
+function plurals(locale: LocaleCode, key: MessageKey): string[] {
+    const translator = new Translator(i18nConfig, locale);
+    return COUNTS.map((count) => translator.t(key, { count, name: 'Ada', date: '14 Mar', total: '$22.03' }));
+}
+
+/**
+ * The parameter names a message uses, including those inside plural branches
+ */
+function placeholders(message: string): string[] {
+    return [...new Set(Array.from(message.matchAll(/\{(\w+)\s*[,}]/g), (match) => match[1]))].sort();
+}
+
+describe('message formatting', () => {
+    it('picks an exact branch over the plural category, and falls back to other', () => {
+        const message = '{count, plural, =0 {none} =5 {a handful} one {# thing} other {# things}}';
+
+        expect(COUNTS.map((count) => formatMessage(message, { count }, 'en'))).toEqual(['none', '1 thing', '2 things', 'a handful']);
+        expect(formatMessage('{count, plural, one {# thing}}', { count: 3 }, 'en')).toBe('');
+        expect(formatMessage('{count, plural, other {# things}}', { count: 1 }, 'en')).toBe('1 things');
+    });
+
+    it('writes counts and numbers the way the language does', () => {
+        expect(formatMessage('{count, plural, other {# points}}', { count: 1500 }, 'en')).toBe('1,500 points');
+        expect(formatMessage('{count, plural, other {# points}}', { count: 1500 }, 'fr')).toBe('1\u202f500 points');
+        expect(formatMessage('{count} left', { count: 12000 }, 'es')).toBe('12.000 left');
+    });
+
+    it('leaves a missing parameter in view', () => {
+        expect(formatMessage('Hello {name}', {}, 'en')).toBe('Hello {name}');
+    });
+});
+
+describe('plurals in each language', () => {
+    it('use English\'s one and other, with "no" for zero where the message says so', () => {
+        expect(plurals('en', 'cart.titleLabel')).toEqual(['Your Cart, no items', 'Your Cart, 1 item', 'Your Cart, 2 items', 'Your Cart, 5 items']);
+        expect(plurals('en', 'account.summary')).toEqual(['Ada · 0 points', 'Ada · 1 point', 'Ada · 2 points', 'Ada · 5 points']);
+        expect(plurals('en', 'group.summary')).toEqual(['Group order: add who is ordering', 'Group order for 1 person', 'Group order for 2 people', 'Group order for 5 people']);
+    });
+
+    it('treat zero as singular in French', () => {
+        expect(plurals('fr', 'cart.titleLabel')).toEqual(['Votre panier, aucun article', 'Votre panier, 1 article', 'Votre panier, 2 articles', 'Votre panier, 5 articles']);
+        expect(plurals('fr', 'account.summary')).toEqual(['Ada · 0 point', 'Ada · 1 point', 'Ada · 2 points', 'Ada · 5 points']);
+        expect(plurals('fr', 'account.orderSummary')).toEqual(['14 Mar · 0 article · $22.03', '14 Mar · 1 article · $22.03', '14 Mar · 2 articles · $22.03', '14 Mar · 5 articles · $22.03']);
+    });
+
+    it('treat zero as plural in Spanish, verbs included', () => {
+        expect(plurals('es', 'cart.titleLabel')).toEqual(['Tu carrito, sin artículos', 'Tu carrito, 1 artículo', 'Tu carrito, 2 artículos', 'Tu carrito, 5 artículos']);
+        expect(plurals('es', 'account.summary')).toEqual(['Ada · 0 puntos', 'Ada · 1 punto', 'Ada · 2 puntos', 'Ada · 5 puntos']);
+        expect(plurals('es', 'card.lowStock')).toEqual(['Solo quedan 0', 'Solo queda 1', 'Solo quedan 2', 'Solo quedan 5']);
+    });
+
+    it('give every translation the same parameters as the English message, and an other branch', () => {
+        const [en, ...others] = i18nConfig.locales;
+        const keys = Object.keys(en.messages) as MessageKey[];
+
+        for (const locale of others) {
+            expect(Object.keys(locale.messages).sort()).toEqual([...keys].sort());
+            for (const key of keys) {
+                const message = locale.messages[key];
+                expect({ key, params: placeholders(message) }).toEqual({ key, params: placeholders(en.messages[key]) });
+                if (message.includes(', plural,')) expect(message, `${locale.code} ${key}`).toMatch(/\bother \{/);
+            }
+        }
+    });
+});
+
+describe('choosing a language', () => {
+    it('matches the shopper\'s preferences to a shop language by its first part', () => {
+        expect(negotiateLocale(['de-DE', 'fr-CA', 'es'], ['en', 'fr', 'es'])).toBe('fr');
+        expect(negotiateLocale(['ES-mx'], ['en', 'fr', 'es'])).toBe('es');
+        expect(negotiateLocale(['de', 'it'], ['en', 'fr', 'es'])).toBeUndefined();
+    });
+});
+
+describe('switching the shop\'s language', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    });
+
+    afterEach(() => {
+        stopShop();
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    function switchTo(locale: string): void {
+        const select = byId<HTMLSelectElement>('localeSelect');
+        select.value = locale;
+        select.dispatchEvent(new Event('change', { bubbles: true }));
+    }
+
+    it('redraws the page in place, counts included', async () => {
+        const storage = new MemoryStorageAdapter();
+        await startShop(storage);
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        switchTo('fr');
+        await settle();
+
+        expect(document.documentElement.lang).toBe('fr');
+        expect(document.title).toBe('Desserts - Panier');
+        expect(card('tiramisu').querySelector('.dessert-name')?.textContent).toBe('Tiramisu classique');
+        expect(byId('cartTitle').getAttribute('aria-label')).toBe('Votre panier, 1 article');
+
+        click(card('tiramisu').querySelector('.quantity-btn.increment'));
+        await settle();
+        expect(byId('cartTitle').getAttribute('aria-label')).toBe('Votre panier, 2 articles');
+
+        switchTo('es');
+        await settle();
+        expect(byId('cartTitle').getAttribute('aria-label')).toBe('Tu carrito, 2 artículos');
+        expect(new StatePersistence(storage).load()?.locale).toBe('es');
+    });
+
+    it('starts in the saved language, or else the browser\'s', async () => {
+        vi.spyOn(navigator, 'languages', 'get').mockReturnValue(['fr-CA', 'en']);
+        await startShop();
+        expect(document.documentElement.lang).toBe('fr');
+        expect(byId<HTMLSelectElement>('localeSelect').value).toBe('fr');
+        stopShop();
+
+        const storage = new MemoryStorageAdapter();
+        await startShop(storage);
+        switchTo('es');
+        await settle();
+        stopShop();
+        await startShop(storage);
+
+        expect(document.documentElement.lang).toBe('es');
+        expect(byId('cartTitle').getAttribute('aria-label')).toBe('Tu carrito, sin artículos');
+    });
+
+    it('ignores a language the shop doesn\'t have', async () => {
+        await startShop();
+        const select = byId<HTMLSelectElement>('localeSelect');
+        select.append(new Option('Deutsch', 'de'));
+
+        switchTo('de');
+        await settle();
+
+        expect(document.documentElement.lang).toBe('en');
+        expect(byId('cartTitle').getAttribute('aria-label')).toBe('Your Cart, no items');
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { OrderEvent } from '../src/types/index.js';
+import { usd } from '../src/utils/money.js';
+import { OrderNotFulfillableError } from '../src/components/InventoryService.js';
+import { InvalidOrderTransitionError, InvalidRefundError, OrderNotFoundError } from '../src/components/OrderManager.js';
+import { createShop, dessert } from './support/fixtures.js';
+
+describe('creating orders', () => {
+    it('refuses an empty cart', () => {
+        const { orders } = createShop();
+
+        expect(() => orders.createOrder([])).toThrow('Cannot create order with empty cart');
+        expect(orders.getAllOrders()).toEqual([]);
+    });
+
+    it('prices the order like the cart and starts it pending', () => {
+        const { cart, orders } = createShop();
+        cart.addItem(dessert('creme-brulee'), 2);
+        cart.addItem(dessert('tiramisu'));
+
+        const order = orders.createOrder(cart.getItems(), cart.getPromoCodes(), cart.id);
+
+        expect(order.status).toBe('pending');
+        expect(order.details.total).toEqual(cart.getSummary().total);
+        expect(order.details.items.map((item) => [item.dessert.id, item.unitPrice, item.lineTotal])).toEqual([
+            ['creme-brulee', usd(7), usd(14)],
+            ['tiramisu', usd(5.5), usd(5.5)]
+        ]);
+        expect(order.history).toEqual([{ from: null, to: 'pending', at: order.details.createdAt }]);
+    });
+
+    it('announces the new order', () => {
+        const { cart, orders } = createShop();
+        const events: OrderEvent[] = [];
+        orders.subscribe((event) => events.push(event));
+        cart.addItem(dessert('baklava'));
+
+        const order = orders.createOrder(cart.getItems());
+
+        expect(events).toEqual([{ type: 'order-created', order }]);
+    });
+});
+
+describe('confirming orders', () => {
+    it('takes the items out of stock and records promo usage', () => {
+        const { cart, orders, inventory, discounts } = createShop();
+        cart.addItem(dessert('creme-brulee'), 3);
+        cart.applyPromoCode('SWEET10');
+        const order = orders.createOrder(cart.getItems(), cart.getPromoCodes(), cart.id);
+
+        orders.confirmOrder(order.id);
+
+        expect(order.status).toBe('confirmed');
+        expect(order.confirmedAt).toBeInstanceOf(Date);
+        expect(inventory.getOnHand('creme-brulee')).toBe(9);
+        expect(discounts.getUsage()).toEqual({ SWEET10: 1 });
+    });
+
+    it('throws for an unknown order', () => {
+        const { orders } = createShop();
+
+        expect(() => orders.confirmOrder('ORD-missing')).toThrow(OrderNotFoundError);
+    });
+
+    it('only confirms a pending order once', () => {
+        const { cart, orders } = createShop();
+        cart.addItem(dessert('tiramisu'));
+        const order = orders.createOrder(cart.getItems(), [], cart.id);
+        orders.confirmOrder(order.id);
+
+        expect(() => orders.confirmOrder(order.id)).toThrow(InvalidOrderTransitionError);
+        expect(order.history.map((change) => change.to)).toEqual(['pending', 'confirmed']);
+    });
+
+    it('leaves the order pending when stock ran out', () => {
+        const { cart, orders, inventory } = createShop();
+        cart.addItem(dessert('baklava'), 3);
+        const order = orders.createOrder(cart.getItems());
+        // Sold elsewhere after the order was created, without this cart's reservation to fall back on
+        inventory.releaseAll(cart.id);
+        inventory.commit([{ dessertId: 'baklava', quantity: 2 }]);
+
+        let error: unknown;
+        try {
+            orders.confirmOrder(order.id);
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(OrderNotFulfillableError);
+        expect((error as OrderNotFulfillableError).shortages).toEqual([{ dessertId: 'baklava', requested: 3, available: 1 }]);
+        expect(order.status).toBe('pending');
+        expect(inventory.getOnHand('baklava')).toBe(1);
+    });
+
+    it('cannot confirm a cancelled order', () => {
+        const { cart, orders } = createShop();
+        cart.addItem(dessert('tiramisu'));
+        const order = orders.createOrder(cart.getItems());
+        orders.cancelOrder(order.id, 'Changed my mind');
+
+        expect(() => orders.confirmOrder(order.id)).toThrow(InvalidOrderTransitionError);
+    });
+
+    it('puts stock back when a confirmed order is cancelled', () => {
+        const { cart, orders, inventory } = createShop();
+        cart.addItem(dessert('panna-cotta'), 2);
+        const order = orders.createOrder(cart.getItems(), [], cart.id);
+        orders.confirmOrder(order.id);
+
+        orders.cancelOrder(order.id);
+
+        expect(inventory.getOnHand('panna-cotta')).toBe(4);
+    });
+});
+
+describe('refunding orders', () => {
+    it('refuses more than was paid', () => {
+        const { cart, orders } = createShop();
+        cart.addItem(dessert('tiramisu'));
+        const order = orders.createOrder(cart.getItems(), [], cart.id);
+        orders.confirmOrder(order.id);
+        orders.completeOrder(order.id);
+
+        expect(() => orders.refundOrder(order.id, usd(100))).toThrow(InvalidRefundError);
+        orders.refundOrder(order.id, usd(1));
+        expect(order.status).toBe('partially-refunded');
+        orders.refundOrder(order.id);
+        expect(order.status).toBe('refunded');
+        expect(order.refundedAmount).toEqual(order.details.total);
+    });
+});
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Order, OutboxEvent } from '../src/types/index.js';
+import { MemoryStorageAdapter } from '../src/components/StatePersistence.js';
+import { HttpOrderSubmitter, OrderOutbox, retryDelay, toOrderSubmission } from '../src/components/OrderOutbox.js';
+import { fixedOrder } from './support/fixtures.js';
+import { OrderStub, recordedOrders, startOrderStub, stopOrderStubs } from './support/orderStub.js';
+
+afterEach(stopOrderStubs);
+
+/**
+ * An outbox on a clock the test moves, with the Idempotency-Key of every request it makes
+ */
+function createOutbox(stub: OrderStub, storage = new MemoryStorageAdapter()) {
+    const clock = { now: new Date('2026-03-14T10:00:00Z') };
+    const keys: string[] = [];
+    const submitter = new HttpOrderSubmitter(stub.url, (input, init) => {
+        keys.push(new Headers(init?.headers).get('Idempotency-Key') ?? '');
+        return fetch(input, init);
+    });
+    const outbox = new OrderOutbox(submitter, storage, () => clock.now);
+    const events: OutboxEvent['type'][] = [];
+    outbox.subscribe((event) => events.push(event.type));
+    const advance = (ms: number) => (clock.now = new Date(clock.now.getTime() + ms));
+    return { outbox, storage, clock, keys, events, advance };
+}
+
+function order(id: string = 'ORD-1'): Order {
+    return { ...fixedOrder(), id };
+}
+
+describe('retryDelay', () => {
+    it('doubles from five seconds up to five minutes', () => {
+        expect([1, 2, 3, 4, 6, 7, 20].map(retryDelay)).toEqual([5000, 10000, 20000, 40000, 160000, 300000, 300000]);
+    });
+});
+
+describe('OrderOutbox against the order stub', () => {
+    it('sends a queued order once and forgets it', async () => {
+        const stub = await startOrderStub();
+        const { outbox, events } = createOutbox(stub);
+
+        outbox.enqueue(order());
+        await outbox.flush();
+
+        expect(events).toEqual(['order-queued', 'order-submitted']);
+        expect(outbox.size).toBe(0);
+        expect(await recordedOrders(stub)).toEqual(['ORD-1']);
+    });
+
+    it('backs off between failed attempts and waits until the retry is due', async () => {
+        const stub = await startOrderStub(2);
+        const { outbox, events, advance, clock, keys } = createOutbox(stub);
+        outbox.enqueue(order());
+
+        await outbox.flush();
+        const [first] = outbox.getEntries();
+        expect(first).toMatchObject({ attempts: 1, lastError: 'Order endpoint refused the order: 503 Service Unavailable' });
+        expect(first.nextAttemptAt).toEqual(new Date(clock.now.getTime() + 5000));
+
+        advance(4999);
+        await outbox.flush();
+        expect(keys).toHaveLength(1);
+
+        advance(1);
+        await outbox.flush();
+        const [second] = outbox.getEntries();
+        expect(second.attempts).toBe(2);
+        expect(second.nextAttemptAt).toEqual(new Date(clock.now.getTime() + 10000));
+
+        advance(10000);
+        await outbox.flush();
+        expect(events).toEqual(['order-queued', 'order-retry-scheduled', 'order-retry-scheduled', 'order-submitted']);
+        expect((await stub.logged(3)).map((line) => line.split(' ')[0])).toEqual(['503', '503', '201']);
+        expect(await recordedOrders(stub)).toEqual(['ORD-1']);
+    });
+
+    it('sends every attempt of an order under the key it was queued with', async () => {
+        const stub = await startOrderStub(1);
+        const { outbox, keys } = createOutbox(stub);
+        const entry = outbox.enqueue(order());
+
+        expect(outbox.enqueue(order()).idempotencyKey).toBe(entry.idempotencyKey);
+        await outbox.flush();
+        await outbox.flush(true);
+
+        expect(keys).toEqual([entry.idempotencyKey, entry.idempotencyKey]);
+        expect((await stub.logged(2))[1]).toBe(`201 ORD-1 (${entry.idempotencyKey})`);
+    });
+
+    it('lets the endpoint keep one copy when the same entry is sent twice', async () => {
+        const stub = await startOrderStub();
+        const { outbox } = createOutbox(stub);
+        const entry = outbox.enqueue(order());
+        const submitter = new HttpOrderSubmitter(stub.url);
+
+        await submitter.submit(entry.submission, entry.idempotencyKey);
+        await submitter.submit(entry.submission, entry.idempotencyKey);
+
+        expect(await stub.logged(2)).toEqual([`201 ORD-1 (${entry.idempotencyKey})`, `200 ORD-1 (${entry.idempotencyKey}) replayed`]);
+        expect(await recordedOrders(stub)).toEqual(['ORD-1']);
+    });
+
+    it('picks up where it left off after a reload, with the same key and body', async () => {
+        const stub = await startOrderStub(1);
+        const before = createOutbox(stub);
+        const entry = before.outbox.enqueue(order());
+        await before.outbox.flush();
+
+        const after = createOutbox(stub, before.storage);
+        const [revived] = after.outbox.getEntries();
+        expect(revived).toEqual({ ...entry, attempts: 1, nextAttemptAt: revived.nextAttemptAt, lastError: revived.lastError });
+        expect(revived.submission).toEqual(toOrderSubmission(order()));
+
+        await after.outbox.flush(true);
+
+        expect(after.keys).toEqual([entry.idempotencyKey]);
+        expect(after.events).toEqual(['order-submitted']);
+        expect(await recordedOrders(stub)).toEqual(['ORD-1']);
+    });
+
+    it('drops an order the endpoint refuses for good and carries on with the next', async () => {
+        const stub = await startOrderStub();
+        // Another device already sent ORD-1 under its own key
+        const other = createOutbox(stub);
+        other.outbox.enqueue(order());
+        await other.outbox.flush();
+
+        const { outbox, events } = createOutbox(stub);
+        outbox.enqueue(order());
+        outbox.enqueue(order('ORD-2'));
+        await outbox.flush();
+
+        expect(events).toEqual(['order-queued', 'order-queued', 'order-rejected', 'order-submitted']);
+        expect(outbox.size).toBe(0);
+        expect(await recordedOrders(stub)).toEqual(['ORD-1', 'ORD-2']);
+    });
+
+    it('keeps the queue when the endpoint is out of reach', async () => {
+        const stub = await startOrderStub();
+        await stub.stop();
+        const { outbox, events } = createOutbox(stub);
+
+        outbox.enqueue(order());
+        outbox.enqueue(order('ORD-2'));
+        await outbox.flush();
+
+        expect(events).toEqual(['order-queued', 'order-queued', 'order-retry-scheduled']);
+        expect(outbox.getEntries().map((entry) => [entry.orderId, entry.attempts])).toEqual([['ORD-1', 1], ['ORD-2', 0]]);
+        expect(outbox.getEntries()[0].lastError).toMatch(/^Order endpoint unreachable/);
+    });
+});
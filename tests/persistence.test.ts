@@ -0,0 +1,178 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CheckoutDetails, Order } from '../src/types/index.js';
+import { emptyDietaryProfile } from '../src/utils/dietary.js';
+import { usd } from '../src/utils/money.js';
+import { MemoryStorageAdapter, SCHEMA_VERSION, StatePersistence, STORAGE_KEY } from '../src/components/StatePersistence.js';
+import { OrderOutbox, toOrderSubmission } from '../src/components/OrderOutbox.js';
+import { createShop, dessert } from './support/fixtures.js';
+
+const OUTBOX_KEY = 'dessert-shop:order-outbox';
+
+const address = { line1: '12 Analytical Row', city: 'London', postcode: 'N1 9GU', instructions: 'Ring twice' };
+const delivery: CheckoutDetails = {
+    contact: { name: 'Ada Lovelace', email: 'ada@example.com', phone: '+44 20 7946 0000' },
+    fulfilment: { method: 'delivery', address }
+};
+
+function confirmedOrder(): Order {
+    const { cart, orders } = createShop();
+    cart.addItem(dessert('waffle-berries'), 2, { toppings: ['whipped-cream'] });
+    cart.addItem(dessert('creme-brulee'));
+    const order = orders.createOrder(cart.getItems(), [], cart.id, delivery);
+    orders.confirmOrder(order.id);
+    return order;
+}
+
+function save(storage: MemoryStorageAdapter, orders: Order[]): void {
+    new StatePersistence(storage).save({
+        cart: [],
+        promoCodes: [],
+        promoUsage: {},
+        region: 'US',
+        locale: 'en',
+        dietaryProfile: emptyDietaryProfile(),
+        group: null,
+        stock: {},
+        orders,
+        orderCounter: orders.length
+    });
+}
+
+/**
+ * Change the first saved order the way a bad write or another build might have left it
+ */
+function tamper(storage: MemoryStorageAdapter, change: (order: Record<string, unknown>) => void): void {
+    const state = JSON.parse(storage.getItem(STORAGE_KEY) as string);
+    change(state.orders[0]);
+    storage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+describe('saved orders', () => {
+    it('come back exactly as they were saved', () => {
+        const storage = new MemoryStorageAdapter();
+        const order = confirmedOrder();
+        save(storage, [order]);
+
+        const [loaded] = new StatePersistence(storage).load()?.orders ?? [];
+
+        expect(loaded).toEqual(order);
+        expect(loaded.details.fulfilment).toEqual(delivery.fulfilment);
+        expect(loaded.details.total.minor).toBe(order.details.total.minor);
+    });
+
+    it.each([
+        ['an unknown status', (order: Record<string, unknown>) => (order.status = 'lost')],
+        ['an id that is not a string', (order: Record<string, unknown>) => (order.id = 42)],
+        ['an unknown status in its history', (order: Record<string, unknown>) => ((order.history as Record<string, unknown>[])[0].to = 'shipped')],
+        ['a delivery without an address', (order: Record<string, unknown>) => delete ((order.details as Record<string, Record<string, unknown>>).fulfilment).address],
+        ['an unknown fulfilment method', (order: Record<string, unknown>) => (((order.details as Record<string, Record<string, unknown>>).fulfilment).method = 'drone')]
+    ])('are left out one by one with %s', (_, change) => {
+        const storage = new MemoryStorageAdapter();
+        const [bad, good] = [confirmedOrder(), confirmedOrder()];
+        good.id = 'ORD-2';
+        save(storage, [bad, good]);
+        tamper(storage, change);
+        const saved = storage.getItem(STORAGE_KEY);
+        const logger = { warn: vi.fn(), error: vi.fn() };
+
+        expect(new StatePersistence(storage, logger).load()?.orders).toEqual([good]);
+        expect(logger.warn).toHaveBeenCalledWith('Leaving out saved orders[0]', expect.any(Error));
+        expect(storage.getItem(STORAGE_KEY)).toBe(saved);
+    });
+});
+
+describe('saved state', () => {
+    it('keeps the cart lines that revive when others don\'t', () => {
+        const storage = new MemoryStorageAdapter();
+        const line = { dessertId: 'tiramisu', options: {}, quantity: 2, addedAt: '2026-03-14T09:15:00.000Z' };
+        storage.setItem(STORAGE_KEY, JSON.stringify({
+            version: SCHEMA_VERSION,
+            cart: [line, { ...line, dessertId: 7 }, { ...line, addedAt: 'soon' }],
+            promoCodes: ['SWEET10', null],
+            promoUsage: 'lots',
+            region: 'US',
+            locale: 'en',
+            dietaryProfile: emptyDietaryProfile(),
+            group: { participants: 'everyone' },
+            stock: {},
+            orders: 'none',
+            orderCounter: 3
+        }));
+
+        const state = new StatePersistence(storage).load();
+
+        expect(state?.cart).toEqual([{ ...line, addedAt: new Date(line.addedAt) }]);
+        expect(state).toMatchObject({ promoCodes: ['SWEET10'], promoUsage: {}, group: null, orders: [], orderCounter: 3 });
+    });
+
+    it('is left in storage when it can\'t be read or comes from a newer build', () => {
+        const storage = new MemoryStorageAdapter();
+
+        for (const saved of ['{"version": 2, "cart": [', JSON.stringify({ version: SCHEMA_VERSION + 1 }), '[]']) {
+            storage.setItem(STORAGE_KEY, saved);
+            expect(new StatePersistence(storage).load()).toBeNull();
+            expect(storage.getItem(STORAGE_KEY)).toBe(saved);
+        }
+    });
+
+    it('upgrades the first saved format straight to the current one', () => {
+        const storage = new MemoryStorageAdapter();
+        const createdAt = '2026-03-14T09:30:00.000Z';
+        const confirmedAt = '2026-03-14T09:31:00.000Z';
+        const addedAt = '2026-03-14T09:15:00.000Z';
+        const dessert = { id: 'creme-brulee', name: 'Vanilla Bean Crème Brûlée', category: 'Crème Brûlée', price: 7, image: './images/image-creme-brulee-desktop.jpg', inStock: true };
+        storage.setItem(STORAGE_KEY, JSON.stringify({
+            version: 1,
+            cart: [{ dessertId: 'tiramisu', quantity: 2, addedAt }],
+            orders: [{
+                id: 'ORD-1',
+                status: 'confirmed',
+                confirmedAt,
+                details: { items: [{ dessert, quantity: 3, addedAt }], subtotal: 21, tax: 2.1, total: 23.1, createdAt }
+            }],
+            orderCounter: 1
+        }));
+
+        const state = new StatePersistence(storage).load();
+
+        expect(state?.cart).toEqual([{ dessertId: 'tiramisu', options: {}, quantity: 2, addedAt: new Date(addedAt) }]);
+        expect(state).toMatchObject({ promoCodes: [], region: 'US', locale: 'en', group: null, stock: {}, orderCounter: 1 });
+        const [order] = state?.orders ?? [];
+        expect(order.history).toEqual([
+            { from: null, to: 'pending', at: new Date(createdAt) },
+            { from: 'pending', to: 'confirmed', at: new Date(confirmedAt) }
+        ]);
+        expect(order.refundedAmount).toEqual(usd(0));
+        expect(order.details).toMatchObject({ currency: 'USD', taxRate: 0.1, subtotal: usd(21), tax: usd(2.1), total: usd(23.1), deliveryFee: usd(0), discounts: [] });
+        expect(order.details.items[0]).toMatchObject({ options: {}, unitPrice: usd(7), lineTotal: usd(21) });
+        expect(order.details.items[0].dessert).toMatchObject({ category: 'creme-brulee', price: usd(7), image: { desktop: './images/image-creme-brulee-desktop.jpg' } });
+    });
+});
+
+describe('queued order submissions', () => {
+    function queue(order: Order): MemoryStorageAdapter {
+        const storage = new MemoryStorageAdapter();
+        new OrderOutbox({ submit: async () => undefined }, storage).enqueue(order);
+        return storage;
+    }
+
+    it('come back from storage unchanged', () => {
+        const order = confirmedOrder();
+        const storage = queue(order);
+
+        const [entry] = new OrderOutbox({ submit: async () => undefined }, storage).getEntries();
+
+        expect(entry.orderId).toBe(order.id);
+        expect(entry.submission).toEqual(toOrderSubmission(order));
+        expect(entry.submission.delivery).toEqual(address);
+    });
+
+    it('are dropped when the saved body is not an order submission', () => {
+        const storage = queue(confirmedOrder());
+        const [entry] = JSON.parse(storage.getItem(OUTBOX_KEY) as string);
+        entry.submission.order.status = 'lost';
+        storage.setItem(OUTBOX_KEY, JSON.stringify([entry, { ...entry, orderId: 'ORD-2', submission: { ...entry.submission, order: 'ORD-2' } }]));
+
+        expect(new OrderOutbox({ submit: async () => undefined }, storage).getEntries()).toEqual([]);
+    });
+});
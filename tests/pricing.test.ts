@@ -0,0 +1,120 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { CurrencyCode, Dessert, SelectedOptions } from '../src/types/index.js';
+import { pricingConfig, promoCodesData } from '../src/data/config.js';
+import { Money } from '../src/utils/money.js';
+import { PromoCodeError } from '../src/components/DiscountEngine.js';
+import { catalog, createShop } from './support/fixtures.js';
+
+// Enough of everything that stock never gets in the way of the cart being generated
+const PLENTY = Object.fromEntries(catalog.map((d) => [d.id, 1000]));
+
+const REGIONS = pricingConfig.regions.map((region) => region.id);
+const PROMO_CODES = promoCodesData.map((promo) => promo.code);
+
+// A selection the dessert accepts: required groups always filled, optional ones sometimes
+function selectionFor(dessert: Dessert): fc.Arbitrary<SelectedOptions> {
+    const groups = (dessert.optionGroups ?? []).map((group) => {
+        const picks = fc.subarray(group.options.map((option) => option.id), { minLength: group.minSelections, maxLength: group.maxSelections });
+        return group.required ? picks : fc.option(picks, { nil: undefined });
+    });
+    return fc.tuple(...groups).map((picked) => {
+        const options: SelectedOptions = {};
+        picked.forEach((ids, index) => {
+            if (ids) options[dessert.optionGroups![index].id] = ids;
+        });
+        return options;
+    });
+}
+
+const line = fc.constantFrom(...catalog).chain((dessert) =>
+    fc.record({ dessert: fc.constant(dessert), quantity: fc.integer({ min: 1, max: 6 }), options: selectionFor(dessert) })
+);
+
+interface Shopping {
+    region: string;
+    lines: { dessert: Dessert; quantity: number; options: SelectedOptions }[];
+    codes: string[];
+}
+
+const shopping: fc.Arbitrary<Shopping> = fc.record({
+    region: fc.constantFrom(...REGIONS),
+    lines: fc.array(line, { minLength: 1, maxLength: 8 }),
+    codes: fc.subarray(PROMO_CODES)
+});
+
+/**
+ * Fill a cart in the given region, applying whichever of the codes it accepts
+ */
+function fillCart({ region, lines, codes }: Shopping) {
+    const shop = createShop(region, PLENTY);
+    lines.forEach(({ dessert, quantity, options }) => shop.cart.addItem(dessert, quantity, options));
+    for (const code of codes) {
+        try {
+            shop.cart.applyPromoCode(code);
+        } catch (error) {
+            if (!(error instanceof PromoCodeError)) throw error;
+        }
+    }
+    return shop;
+}
+
+describe('cart and order pricing', () => {
+    it('charges for the order exactly what the cart showed', () => {
+        fc.assert(
+            fc.property(shopping, (input) => {
+                const { cart, orders } = fillCart(input);
+                const summary = cart.getSummary();
+
+                const order = orders.createOrder(cart.getItems(), cart.getPromoCodes(), cart.id);
+
+                expect(order.details.total).toEqual(summary.total);
+                expect(order.details.tax).toEqual(summary.tax);
+                expect(order.details.discountTotal).toEqual(summary.discountTotal);
+            })
+        );
+    });
+
+    it('adds the line totals up to the subtotal', () => {
+        fc.assert(
+            fc.property(shopping, (input) => {
+                const { cart, orders, pricing } = fillCart(input);
+                const summary = cart.getSummary();
+                const order = orders.createOrder(cart.getItems(), cart.getPromoCodes(), cart.id);
+
+                expect(Money.sum(cart.getItems().map((item) => pricing.lineTotal(item)), summary.currency)).toEqual(summary.subtotal);
+                expect(Money.sum(order.details.items.map((item) => item.lineTotal), order.details.currency)).toEqual(order.details.subtotal);
+            })
+        );
+    });
+});
+
+describe('Money.allocate', () => {
+    const currency = fc.constantFrom<CurrencyCode>('USD', 'EUR', 'GBP', 'JPY');
+    const ratios = fc.array(fc.integer({ min: 0, max: 100 }), { minLength: 1, maxLength: 8 }).filter((values) => values.some((value) => value > 0));
+
+    it('neither loses nor creates a minor unit', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: -10_000_000, max: 10_000_000 }), currency, ratios, (minor, code, weights) => {
+                const amount = Money.fromMinor(minor, code);
+
+                const parts = amount.allocate(weights);
+
+                expect(parts).toHaveLength(weights.length);
+                expect(Money.sum(parts, code)).toEqual(amount);
+            })
+        );
+    });
+
+    it('keeps each part within a minor unit of its exact share', () => {
+        fc.assert(
+            fc.property(fc.integer({ min: -10_000_000, max: 10_000_000 }), ratios, (minor, weights) => {
+                const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+                const parts = Money.fromMinor(minor, 'USD').allocate(weights);
+
+                parts.forEach((part, index) => expect(Math.abs(part.minor - (minor * weights[index]) / total)).toBeLessThan(1));
+            })
+        );
+    });
+});
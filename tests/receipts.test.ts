@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Order } from '../src/types/index.js';
+import { pricingConfig } from '../src/data/config.js';
+import { usd } from '../src/utils/money.js';
+import { exportOrdersCsv, exportOrdersJson, renderReceiptHtml } from '../src/utils/receipts.js';
+import { PricingContext } from '../src/components/PricingContext.js';
+import { fixedOrder } from './support/fixtures.js';
+
+/**
+ * The fixed order with text a spreadsheet would mangle: a formula for a name, quotes and commas, and a
+ * participant whose name starts with @
+ */
+function awkwardOrder(): Order {
+    const order = fixedOrder();
+    const [brulee, waffle] = order.details.items;
+    brulee.dessert = { ...brulee.dessert, name: '=HYPERLINK("http://evil.example","Click")' };
+    waffle.dessert = { ...waffle.dessert, name: 'Waffle, "Belgian" style' };
+    waffle.participantId = 'p-grace';
+    order.details.split = {
+        mode: 'by-item',
+        shares: [{ participantId: 'p-grace', name: '@Grace', subtotal: usd(8.25), discount: usd(0.83), tax: usd(0.74), deliveryFee: usd(0), total: usd(8.16) }]
+    };
+    return order;
+}
+
+describe('receipts', () => {
+    it('renders the HTML receipt', () => {
+        expect(renderReceiptHtml(fixedOrder(), new PricingContext(pricingConfig, 'US'))).toMatchSnapshot();
+    });
+
+    it('escapes markup in names on the HTML receipt', () => {
+        const html = renderReceiptHtml(awkwardOrder(), new PricingContext(pricingConfig, 'US'));
+
+        expect(html).toContain('Waffle, &quot;Belgian&quot; style');
+        expect(html).toContain('For @Grace');
+    });
+});
+
+describe('order exports', () => {
+    it('exports JSON', () => {
+        expect(exportOrdersJson([fixedOrder()])).toMatchSnapshot();
+    });
+
+    it('exports CSV', () => {
+        expect(exportOrdersCsv([fixedOrder()])).toMatchSnapshot();
+    });
+
+    it('quotes CSV fields and defuses formulas', () => {
+        const csv = exportOrdersCsv([awkwardOrder()]);
+        const [, first, second] = csv.split('\r\n');
+
+        expect(first).toContain(`,"'=HYPERLINK(""http://evil.example"",""Click"")",`);
+        expect(second).toContain(`,"Waffle, ""Belgian"" style","Extra toppings: Whipped cream, Banana slices",'@Grace,`);
+        expect(csv).toMatchSnapshot();
+    });
+});
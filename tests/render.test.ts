@@ -0,0 +1,228 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { html, SafeHtml } from '../src/utils/html.js';
+import { createElement, patchKeyedChildren, RenderScheduler, setAttribute, setText } from '../src/ui/render.js';
+import { byId, card, click, settle, startShop, stopShop } from './support/dom.js';
+
+afterEach(() => {
+    stopShop();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+});
+
+/**
+ * Every mutation made to `target` and below while `change` runs
+ */
+function mutations(target: Node, change: () => void): MutationRecord[] {
+    const observer = new MutationObserver(() => undefined);
+    observer.observe(target, { subtree: true, childList: true, attributes: true, characterData: true });
+    change();
+    const records = observer.takeRecords();
+    observer.disconnect();
+    return records;
+}
+
+describe('html``', () => {
+    it('escapes every interpolation, in text and in attributes', () => {
+        const name = `<img src=x onerror="alert('hi')">` + '`';
+
+        expect(html`<p title="${name}">${name}</p>`.value).toBe(
+            '<p title="&lt;img src=x onerror=&quot;alert(&#39;hi&#39;)&quot;&gt;&#96;">&lt;img src=x onerror=&quot;alert(&#39;hi&#39;)&quot;&gt;&#96;</p>'
+        );
+    });
+
+    it('keeps nested templates and lists of them as markup', () => {
+        const items = ['a & b', 'c'].map((item) => html`<li>${item}</li>`);
+
+        expect(html`<ul>${items}</ul>`.value).toBe('<ul><li>a &amp; b</li><li>c</li></ul>');
+        expect(String(html`<b>${new SafeHtml('<i>ok</i>')}</b>`)).toBe('<b><i>ok</i></b>');
+    });
+
+    it('renders nothing for null, undefined and false, but keeps 0 and true', () => {
+        expect(html`[${null}${undefined}${false}|${0}|${true}]`.value).toBe('[|0|true]');
+    });
+});
+
+describe('createElement', () => {
+    it('builds the one element a template describes', () => {
+        const element = createElement<HTMLButtonElement>(html`
+            <button type="button" data-id="${'"x"'}">Add</button>
+        `);
+
+        expect(element.tagName).toBe('BUTTON');
+        expect(element.dataset.id).toBe('"x"');
+    });
+
+    it('refuses a template with no element or several', () => {
+        expect(() => createElement(html`just text`)).toThrow('Template must describe exactly one element');
+        expect(() => createElement(html`<p></p><p></p>`)).toThrow('Template must describe exactly one element');
+    });
+});
+
+describe('setText and setAttribute', () => {
+    it('leave the DOM alone when nothing changed', () => {
+        const element = createElement(html`<span title="a">x</span>`);
+        document.body.append(element);
+
+        expect(mutations(element, () => {
+            setText(element, 'x');
+            setAttribute(element, 'title', 'a');
+            setText(null, 'y');
+        })).toEqual([]);
+        expect(mutations(element, () => {
+            setText(element, 'y');
+            setAttribute(element, 'title', 'b');
+        })).toHaveLength(2);
+    });
+});
+
+describe('patchKeyedChildren', () => {
+    interface Row {
+        id: string;
+        label: string;
+    }
+
+    function patch(container: HTMLElement, rows: Row[]) {
+        const created: string[] = [];
+        const updated: string[] = [];
+        patchKeyedChildren(
+            container,
+            rows,
+            (row) => row.id,
+            (row) => {
+                created.push(row.id);
+                return createElement(html`<li><span>${row.label}</span><input aria-label="${row.label}"></li>`);
+            },
+            (element, row) => {
+                updated.push(row.id);
+                setText(element.querySelector('span'), row.label);
+            }
+        );
+        return { created, updated, keys: Array.from(container.children, (child) => (child as HTMLElement).dataset.key) };
+    }
+
+    function list(rows: Row[]): HTMLElement {
+        const container = document.createElement('ul');
+        document.body.append(container);
+        patch(container, rows);
+        return container;
+    }
+
+    const rows = (...ids: string[]) => ids.map((id) => ({ id, label: id.toUpperCase() }));
+
+    it('updates elements whose key is still there and creates and removes the rest', () => {
+        const container = list(rows('a', 'b', 'c'));
+        const [, b, c] = Array.from(container.children);
+
+        const { created, updated, keys } = patch(container, rows('c', 'd', 'b'));
+
+        expect(keys).toEqual(['c', 'd', 'b']);
+        expect(created).toEqual(['d']);
+        expect(updated).toEqual(['c', 'b']);
+        expect(container.children[0]).toBe(c);
+        expect(container.children[2]).toBe(b);
+    });
+
+    it('only touches what changed', () => {
+        const container = list(rows('a', 'b', 'c'));
+
+        expect(mutations(container, () => patch(container, rows('a', 'b', 'c')))).toEqual([]);
+
+        const records = mutations(container, () => patch(container, [...rows('a', 'b'), { id: 'c', label: 'new' }]));
+        expect(records.map((record) => record.type)).toEqual(['childList']);
+        expect(records[0].target).toBe(container.children[2].querySelector('span'));
+    });
+
+    it('keeps focus and typed text in a row when the rows before it go', () => {
+        const container = list(rows('a', 'b', 'c'));
+        const input = container.children[1].querySelector('input') as HTMLInputElement;
+        input.focus();
+        input.value = 'half-typed';
+
+        patch(container, [{ id: 'b', label: 'Renamed' }, ...rows('c', 'e')]);
+
+        expect(document.activeElement).toBe(input);
+        expect(input.value).toBe('half-typed');
+        expect(container.children[0].querySelector('span')?.textContent).toBe('Renamed');
+    });
+
+    it('drops children without a key and repeated keys', () => {
+        const container = list(rows('a'));
+        container.append(document.createElement('li'), createElement(html`<li data-key="a">copy</li>`));
+
+        expect(patch(container, rows('a', 'b')).keys).toEqual(['a', 'b']);
+        expect(container.children[0].querySelector('span')?.textContent).toBe('A');
+    });
+});
+
+describe('RenderScheduler', () => {
+    it('runs each named task once per tick, the latest version, in the order first asked for', async () => {
+        const scheduler = new RenderScheduler();
+        const ran: string[] = [];
+
+        scheduler.schedule('cart', () => ran.push('cart 1'));
+        scheduler.schedule('cards', () => ran.push('cards'));
+        scheduler.schedule('cart', () => ran.push('cart 2'));
+        expect(ran).toEqual([]);
+        await Promise.resolve();
+
+        expect(ran).toEqual(['cart 2', 'cards']);
+    });
+
+    it('runs now when flushed, and leaves work asked for during a flush to the next one', async () => {
+        const scheduler = new RenderScheduler();
+        const ran: string[] = [];
+        scheduler.schedule('cart', () => {
+            ran.push('cart');
+            scheduler.schedule('save', () => ran.push('save'));
+        });
+
+        scheduler.flush();
+        expect(ran).toEqual(['cart']);
+        await Promise.resolve();
+
+        expect(ran).toEqual(['cart', 'save']);
+    });
+});
+
+describe('the shop\'s renders', () => {
+    it('draw several changes made in one tick once', async () => {
+        await startShop();
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+        const flush = vi.spyOn(RenderScheduler.prototype, 'flush');
+
+        const increment = card('tiramisu').querySelector('.quantity-btn.increment');
+        click(increment);
+        click(increment);
+        click(increment);
+        await settle();
+
+        expect(flush).toHaveBeenCalledTimes(1);
+        expect(card('tiramisu').querySelector('.quantity-value')?.textContent).toBe('4');
+    });
+
+    it('keep the cart line and the focused button across updates', async () => {
+        await startShop();
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+        const line = byId('cartItems').firstElementChild;
+        const increment = card('tiramisu').querySelector<HTMLButtonElement>('.quantity-btn.increment');
+        increment?.focus();
+
+        click(increment);
+        await settle();
+        click(card('baklava').querySelector('.add-to-cart-btn'));
+        await settle();
+        increment?.focus();
+        click(increment);
+        await settle();
+
+        expect(byId('cartItems').firstElementChild).toBe(line);
+        expect(byId('cartItems').children).toHaveLength(2);
+        expect(card('tiramisu').querySelector('.quantity-btn.increment')).toBe(increment);
+        expect(document.activeElement).toBe(increment);
+        expect(line?.querySelector('.cart-item-total')?.textContent).toBe('$16.50');
+    });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Dessert, DessertId, ReorderChange } from '../src/types/index.js';
+import { inventoryData } from '../src/data/desserts.js';
+import { usd } from '../src/utils/money.js';
+import { catalog, createShop, fixedOrder } from './support/fixtures.js';
+
+// The fixed order is two crème brûlées and a waffle with whipped cream and banana
+
+/**
+ * Today's catalog, with `change` made to one dessert (or the dessert left out when it returns null)
+ */
+function today(id: DessertId, change: (d: Dessert) => Dessert | null): Dessert[] {
+    return catalog.flatMap((d) => (d.id === id ? change(d) ?? [] : [d]));
+}
+
+function reorder(desserts: Dessert[] = catalog, stock: Record<DessertId, number> = inventoryData, accept?: (d: Dessert) => boolean) {
+    const { cart } = createShop('US', stock);
+    const changes = cart.reorder(fixedOrder(), desserts, accept);
+    return {
+        changes: changes.map(summary),
+        lines: cart.getItems().map((item) => [item.dessert.id, item.options, item.quantity])
+    };
+}
+
+function summary(change: ReorderChange): unknown[] {
+    switch (change.kind) {
+        case 'substituted': return [change.kind, change.dessert.id, change.substitute.id, change.quantity, change.reason];
+        case 'skipped': return [change.kind, change.dessert.id, change.quantity, change.reason];
+        case 'reduced': return [change.kind, change.dessert.id, change.requested, change.quantity];
+        case 'price-changed': return [change.kind, change.dessert.id, change.previous.toDecimalString(), change.current.toDecimalString()];
+    }
+}
+
+describe('ordering again', () => {
+    it('puts the order back in the cart as it was when nothing changed', () => {
+        expect(reorder()).toEqual({
+            changes: [],
+            lines: [
+                ['creme-brulee', {}, 2],
+                ['waffle-berries', { toppings: ['whipped-cream', 'banana'] }, 1]
+            ]
+        });
+    });
+
+    it('swaps a dessert that is gone or sold out for the nearest in price, and says why', () => {
+        const soldOut = reorder(today('creme-brulee', (d) => ({ ...d, inStock: false })));
+
+        expect(soldOut.changes).toEqual([['substituted', 'creme-brulee', 'waffle-berries', 2, 'out-of-stock']]);
+        expect(soldOut.lines).toEqual([
+            ['waffle-berries', {}, 2],
+            ['waffle-berries', { toppings: ['whipped-cream', 'banana'] }, 1]
+        ]);
+        expect(reorder(today('creme-brulee', () => null)).changes).toEqual([['substituted', 'creme-brulee', 'waffle-berries', 2, 'not-found']]);
+    });
+
+    it('swaps a line whose options are no longer offered', () => {
+        const noBanana = today('waffle-berries', (d) => ({
+            ...d,
+            optionGroups: d.optionGroups?.map((group) => ({ ...group, options: group.options.filter((option) => option.id !== 'banana') }))
+        }));
+
+        expect(reorder(noBanana).changes).toEqual([['substituted', 'waffle-berries', 'panna-cotta', 1, 'options-unavailable']]);
+    });
+
+    it('offers the next substitute when the customer turns one down, and skips the line when none is left', () => {
+        const result = reorder(today('creme-brulee', (d) => ({ ...d, inStock: false })), inventoryData, (d) => d.id !== 'waffle-berries' && d.id !== 'panna-cotta');
+
+        expect(result.changes).toEqual([['substituted', 'creme-brulee', 'tiramisu', 2, 'out-of-stock']]);
+        expect(reorder(today('creme-brulee', () => null), inventoryData, () => false)).toEqual({
+            changes: [['skipped', 'creme-brulee', 2, 'not-found']],
+            lines: [['waffle-berries', { toppings: ['whipped-cream', 'banana'] }, 1]]
+        });
+    });
+
+    it('cuts a line down to the stock left, counting what earlier lines took', () => {
+        expect(reorder(catalog, { ...inventoryData, 'creme-brulee': 1 }).changes).toEqual([['reduced', 'creme-brulee', 2, 1]]);
+
+        const result = reorder(today('creme-brulee', (d) => ({ ...d, inStock: false })), { ...inventoryData, 'waffle-berries': 2 });
+        expect(result.changes).toEqual([
+            ['substituted', 'creme-brulee', 'waffle-berries', 2, 'out-of-stock'],
+            ['substituted', 'waffle-berries', 'panna-cotta', 1, 'out-of-stock']
+        ]);
+    });
+
+    it('adds a line at today\'s price, options included, and reports the difference', () => {
+        const dearer = today('waffle-berries', (d) => ({
+            ...d,
+            price: usd(7),
+            optionGroups: d.optionGroups?.map((group) => ({
+                ...group,
+                options: group.options.map((option) => (option.id === 'banana' ? { ...option, priceDelta: usd(1.25) } : option))
+            }))
+        }));
+
+        const result = reorder(dearer);
+
+        expect(result.changes).toEqual([['price-changed', 'waffle-berries', '8.25', '9.00']]);
+        expect(result.lines).toHaveLength(2);
+    });
+});
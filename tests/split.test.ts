@@ -0,0 +1,100 @@
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import { BillShare, PriceTotals } from '../src/types/index.js';
+import { pricingConfig, promoCodesData } from '../src/data/config.js';
+import { Money } from '../src/utils/money.js';
+import { splitBill } from '../src/utils/split.js';
+import { PricingContext } from '../src/components/PricingContext.js';
+import { PromoCodeError } from '../src/components/DiscountEngine.js';
+import { catalog, createShop } from './support/fixtures.js';
+
+const PLENTY = Object.fromEntries(catalog.map((d) => [d.id, 1000]));
+const AMOUNTS: (keyof Omit<BillShare, 'participantId' | 'name'>)[] = ['subtotal', 'discount', 'tax', 'deliveryFee', 'total'];
+
+// Desserts that can go in the cart without choosing options
+const PLAIN = catalog.filter((d) => !(d.optionGroups ?? []).some((group) => group.required));
+
+function sum(shares: BillShare[], amount: (typeof AMOUNTS)[number]): number {
+    return shares.reduce((total, share) => total + share[amount].minor, 0);
+}
+
+/**
+ * Totals that add up the way the pricing makes them: any subtotal, a discount no bigger than it, any tax and delivery fee
+ */
+const totals: fc.Arbitrary<PriceTotals> = fc
+    .record({
+        subtotal: fc.integer({ min: 0, max: 10_000_000 }),
+        discountShare: fc.double({ min: 0, max: 1, noNaN: true }),
+        tax: fc.integer({ min: 0, max: 1_000_000 }),
+        deliveryFee: fc.integer({ min: 0, max: 5_000 }),
+        taxInclusive: fc.boolean()
+    })
+    .map(({ subtotal, discountShare, tax, deliveryFee, taxInclusive }) => {
+        const discount = Math.floor(subtotal * discountShare);
+        const usd = (minor: number) => Money.fromMinor(minor, 'USD');
+        return {
+            currency: 'USD',
+            region: 'US',
+            subtotal: usd(subtotal),
+            discountTotal: usd(discount),
+            taxLabel: 'Sales tax',
+            taxRate: 0.1,
+            taxInclusive,
+            tax: usd(taxInclusive ? Math.min(tax, subtotal - discount) : tax),
+            deliveryFee: usd(deliveryFee),
+            total: usd(subtotal - discount + (taxInclusive ? 0 : tax) + deliveryFee)
+        };
+    });
+
+describe('splitting the bill', () => {
+    it('shares every amount out exactly when split equally, whatever the totals and head count', () => {
+        const pricing = new PricingContext(pricingConfig, 'US');
+        fc.assert(
+            fc.property(totals, fc.integer({ min: 1, max: 25 }), (bill, headCount) => {
+                const participants = Array.from({ length: headCount }, (_, i) => ({ id: `p-${i}`, name: `Guest ${i}` }));
+
+                const { shares } = splitBill([], bill, {}, { participants, split: 'equal' }, pricing);
+
+                expect(shares).toHaveLength(headCount);
+                expect(AMOUNTS.map((amount) => sum(shares, amount))).toEqual(
+                    [bill.subtotal, bill.discountTotal, bill.tax, bill.deliveryFee, bill.total].map((money) => money.minor)
+                );
+                const shareTotals = shares.map((share) => share.total.minor);
+                expect(Math.max(...shareTotals) - Math.min(...shareTotals)).toBeLessThanOrEqual(1);
+            })
+        );
+    });
+
+    it('adds the shares up to the cart\'s totals when split by item, in every region', () => {
+        const order = fc.record({
+            region: fc.constantFrom(...pricingConfig.regions.map((region) => region.id)),
+            headCount: fc.integer({ min: 1, max: 8 }),
+            // Each line goes to the participant at `owner`, or is shared when there is nobody there
+            lines: fc.array(fc.record({ dessert: fc.constantFrom(...PLAIN), quantity: fc.integer({ min: 1, max: 6 }), owner: fc.nat(9) }), { minLength: 1, maxLength: 10 }),
+            codes: fc.subarray(promoCodesData.map((promo) => promo.code))
+        });
+        fc.assert(
+            fc.property(order, ({ region, headCount, lines, codes }) => {
+                const { cart } = createShop(region, PLENTY);
+                cart.startGroupOrder('by-item');
+                const participants = Array.from({ length: headCount }, (_, i) => cart.addParticipant(`Guest ${i}`));
+                lines.forEach(({ dessert, quantity, owner }) => cart.addItem(dessert, quantity, {}, participants[owner]?.id));
+                for (const code of codes) {
+                    try {
+                        cart.applyPromoCode(code);
+                    } catch (error) {
+                        if (!(error instanceof PromoCodeError)) throw error;
+                    }
+                }
+
+                const summary = cart.getSummary();
+                const shares = summary.split?.shares ?? [];
+
+                expect(shares).toHaveLength(headCount);
+                expect(AMOUNTS.map((amount) => sum(shares, amount))).toEqual(
+                    [summary.subtotal, summary.discountTotal, summary.tax, summary.deliveryFee, summary.total].map((money) => money.minor)
+                );
+            })
+        );
+    });
+});
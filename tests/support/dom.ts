@@ -0,0 +1,113 @@
+// Loads the shop page into jsdom and drives the UI the way a customer would
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { vi } from 'vitest';
+import { StorageAdapter } from '../../src/types/index.js';
+import { dessertsData } from '../../src/data/desserts.js';
+import { MemoryStorageAdapter } from '../../src/components/StatePersistence.js';
+import { StaticCatalogProvider } from '../../src/components/CatalogService.js';
+import { UIController } from '../../src/ui/UIController.js';
+
+// jsdom doesn't fetch stylesheets, so the page's styles go in inline; without them nothing marked .hidden is hidden
+const PAGE = readFileSync(join(__dirname, '../../index.html'), 'utf8').replace(
+    '<link rel="stylesheet" href="styles/styles.css">',
+    () => `<style>${readFileSync(join(__dirname, '../../styles/styles.css'), 'utf8')}</style>`
+);
+
+// The document outlives each test, so listeners a shop puts on it or on window are taken off again by stopShop
+const teardown: (() => void)[] = [];
+
+/**
+ * Put a fresh copy of index.html in the document and start the shop on the bundled catalog.
+ * jsdom does no layout, so elements report a box unless they sit inside something hidden;
+ * the shop's focus handling skips elements without one.
+ */
+export async function startShop(storage: StorageAdapter = new MemoryStorageAdapter()): Promise<UIController> {
+    for (const target of [document, window] as EventTarget[]) {
+        const add = target.addEventListener.bind(target);
+        vi.spyOn(target, 'addEventListener').mockImplementation((type, listener, options) => {
+            teardown.push(() => target.removeEventListener(type, listener, options));
+            add(type, listener, options);
+        });
+    }
+    document.documentElement.innerHTML = PAGE.replace(/^<!DOCTYPE html>\s*<html[^>]*>|<\/html>\s*$/gi, '');
+    vi.spyOn(Element.prototype, 'getClientRects').mockImplementation(function (this: Element) {
+        const rects = this.closest('.hidden') ? [] : [new DOMRect(0, 0, 10, 10)];
+        return Object.assign(rects, { item: (index: number) => rects[index] ?? null }) as unknown as DOMRectList;
+    });
+    // Tabs are covered by the CartSync tests; here each test's shop stays on its own
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const controller = new UIController(storage, new StaticCatalogProvider(dessertsData));
+    await settle();
+    return controller;
+}
+
+/**
+ * Detach the last shop from the document so it can't answer a later test's keys and clicks
+ */
+export function stopShop(): void {
+    teardown.splice(0).forEach((remove) => remove());
+}
+
+/**
+ * Let the catalog load and the batched renders run
+ */
+export async function settle(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+export function byId<T extends HTMLElement = HTMLElement>(id: string): T {
+    const element = document.getElementById(id);
+    if (!element) throw new Error(`No #${id} on the page`);
+    return element as T;
+}
+
+export function card(dessertId: string): HTMLElement {
+    const element = document.querySelector(`#dessertsGrid [data-dessert-id="${dessertId}"].dessert-card`);
+    if (!element) throw new Error(`No card for ${dessertId}`);
+    return element as HTMLElement;
+}
+
+export function click(element: Element | null): void {
+    if (!element) throw new Error('Nothing to click');
+    (element as HTMLElement).click();
+}
+
+export function press(key: string, init: KeyboardEventInit = {}, target: EventTarget = document.activeElement ?? document.body): void {
+    target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }));
+}
+
+/**
+ * Type into a named checkout field, firing the events the form listens for
+ */
+export function fill(form: HTMLFormElement, name: string, value: string): void {
+    const field = form.elements.namedItem(name);
+    if (field instanceof RadioNodeList) {
+        const radio = Array.from(field).find((input) => (input as HTMLInputElement).value === value) as HTMLInputElement;
+        radio.checked = true;
+        radio.dispatchEvent(new Event('change', { bubbles: true }));
+        return;
+    }
+    const input = field as HTMLInputElement;
+    input.value = value;
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+/**
+ * Go through checkout with delivery, which unlike pickup slots doesn't depend on the time of day
+ */
+export async function placeOrder(): Promise<void> {
+    click(byId('confirmOrderBtn'));
+    const form = byId<HTMLFormElement>('checkoutForm');
+    fill(form, 'name', 'Ada Lovelace');
+    fill(form, 'email', 'ada@example.com');
+    fill(form, 'phone', '+44 20 7946 0000');
+    click(byId('checkoutNextBtn'));
+    fill(form, 'method', 'delivery');
+    fill(form, 'line1', '12 Analytical Row');
+    fill(form, 'city', 'London');
+    fill(form, 'postcode', 'N1 9GU');
+    click(byId('checkoutNextBtn'));
+    click(byId('checkoutNextBtn'));
+    await settle();
+}
@@ -0,0 +1,84 @@
+// Shared catalog, carts and orders for the test suites
+import { CartItem, Dessert, DessertId, Order, OrderLine } from '../../src/types/index.js';
+import { dessertsData, inventoryData } from '../../src/data/desserts.js';
+import { pricingConfig, promoCodesData } from '../../src/data/config.js';
+import { validateCatalog } from '../../src/components/CatalogService.js';
+import { PricingContext } from '../../src/components/PricingContext.js';
+import { DiscountEngine } from '../../src/components/DiscountEngine.js';
+import { InventoryService } from '../../src/components/InventoryService.js';
+import { ShoppingCart } from '../../src/components/ShoppingCart.js';
+import { OrderManager } from '../../src/components/OrderManager.js';
+import { Money, usd } from '../../src/utils/money.js';
+
+// The bundled catalog, validated the way the shop loads it
+export const catalog: Dessert[] = validateCatalog(dessertsData).desserts;
+
+export function dessert(id: DessertId): Dessert {
+    const found = catalog.find((d) => d.id === id);
+    if (!found) throw new Error(`No dessert ${id} in the bundled catalog`);
+    return found;
+}
+
+export interface Shop {
+    pricing: PricingContext;
+    discounts: DiscountEngine;
+    inventory: InventoryService;
+    cart: ShoppingCart;
+    orders: OrderManager;
+}
+
+/**
+ * A cart and order manager sharing pricing, promo codes and stock, as in the shop
+ */
+export function createShop(regionId: string = pricingConfig.defaultRegion, stock: Record<DessertId, number> = inventoryData): Shop {
+    const pricing = new PricingContext(pricingConfig, regionId);
+    const discounts = new DiscountEngine(promoCodesData, pricing);
+    const inventory = new InventoryService({ ...stock });
+    return {
+        pricing,
+        discounts,
+        inventory,
+        cart: new ShoppingCart(pricing, discounts, inventory, 'cart-test'),
+        orders: new OrderManager(pricing, discounts, inventory)
+    };
+}
+
+/**
+ * A confirmed order with fixed ids and dates, so anything rendered from it is the same on every run
+ */
+export function fixedOrder(): Order {
+    const addedAt = new Date('2026-03-14T09:15:00Z');
+    const line = (item: CartItem, unitPrice: Money<'USD'>): OrderLine => ({ ...item, unitPrice, lineTotal: unitPrice.multiply(item.quantity) });
+    const createdAt = new Date('2026-03-14T09:30:00Z');
+    const confirmedAt = new Date('2026-03-14T09:31:00Z');
+    return {
+        id: 'ORD-1773480600000-1',
+        status: 'confirmed',
+        confirmedAt,
+        refundedAmount: Money.zero('USD'),
+        history: [
+            { from: null, to: 'pending', at: createdAt },
+            { from: 'pending', to: 'confirmed', at: confirmedAt }
+        ],
+        details: {
+            currency: 'USD',
+            region: 'US',
+            items: [
+                line({ dessert: dessert('creme-brulee'), options: {}, quantity: 2, addedAt }, usd(7)),
+                line({ dessert: dessert('waffle-berries'), options: { toppings: ['whipped-cream', 'banana'] }, quantity: 1, addedAt }, usd(8.25))
+            ],
+            subtotal: usd(22.25),
+            discounts: [{ code: 'SWEET10', description: '10% off your order', amount: usd(2.22) }],
+            discountTotal: usd(2.22),
+            taxLabel: 'Sales tax',
+            taxRate: 0.1,
+            taxInclusive: false,
+            tax: usd(2),
+            deliveryFee: usd(0),
+            total: usd(22.03),
+            createdAt,
+            contact: { name: 'Ada Lovelace', email: 'ada@example.com', phone: '+44 20 7946 0000' },
+            fulfilment: { method: 'pickup', slot: { start: new Date('2026-03-14T14:00:00Z'), end: new Date('2026-03-14T14:30:00Z') } }
+        }
+    };
+}
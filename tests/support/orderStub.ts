@@ -0,0 +1,70 @@
+// Runs scripts/order-stub.mjs, as `npm run stub:orders` would, on a free port
+import { ChildProcess, spawn } from 'node:child_process';
+import { join } from 'node:path';
+
+const STUB = join(__dirname, '../../scripts/order-stub.mjs');
+
+export interface OrderStub {
+    url: string;
+    // The first `count` lines the stub logged, one per submission it answered. Its output can trail
+    // the HTTP response, so this waits for them.
+    logged(count: number): Promise<string[]>;
+    stop(): Promise<void>;
+}
+
+const running: ChildProcess[] = [];
+
+/**
+ * Start the stub; `failFirst` submissions are answered with 503 before it starts taking orders
+ */
+export function startOrderStub(failFirst: number = 0): Promise<OrderStub> {
+    const child = spawn(process.execPath, [STUB], { env: { ...process.env, PORT: '0', FAIL_FIRST: String(failFirst) } });
+    running.push(child);
+    const log: string[] = [];
+    let waiting: (() => void)[] = [];
+    const logged = (count: number) => new Promise<string[]>((resolve) => {
+        const check = () => (log.length >= count ? resolve(log.slice(0, count)) : waiting.push(check));
+        check();
+    });
+    const stop = () => stopProcess(child);
+    return new Promise((resolve, reject) => {
+        child.once('error', reject);
+        child.stdout?.setEncoding('utf8').on('data', (chunk: string) => {
+            chunk.split('\n').filter(Boolean).forEach((line) => {
+                const listening = /listening on (\S+)/.exec(line);
+                if (listening) resolve({ url: listening[1], logged, stop });
+                else log.push(line);
+            });
+            const checks = waiting;
+            waiting = [];
+            checks.forEach((check) => check());
+        });
+    });
+}
+
+/**
+ * Stop every stub a test started
+ */
+export async function stopOrderStubs(): Promise<void> {
+    await Promise.all(running.slice().map(stopProcess));
+}
+
+function stopProcess(child: ChildProcess): Promise<void> {
+    const index = running.indexOf(child);
+    if (index === -1) return Promise.resolve();
+    running.splice(index, 1);
+    return new Promise((resolve) => {
+        if (child.exitCode !== null || child.signalCode !== null) return resolve();
+        child.once('exit', () => resolve());
+        child.kill();
+    });
+}
+
+/**
+ * The ids of the orders the stub has recorded, in the order they arrived
+ */
+export async function recordedOrders(stub: OrderStub): Promise<string[]> {
+    const response = await fetch(stub.url);
+    const { orders } = (await response.json()) as { orders: { order: { id: string } }[] };
+    return orders.map((submission) => submission.order.id);
+}
@@ -0,0 +1,265 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OrderStub, recordedOrders, startOrderStub, stopOrderStubs } from './support/orderStub.js';
+
+// Loaded by path so the tests' program, which has no WebWorker types, doesn't take in src/sw.ts
+const WORKER = join(__dirname, '../src/sw.ts');
+
+// The site the worker is installed from, served on localhost under /shop/; each test can change a file
+let server: Server;
+let scope: string;
+let site: Map<string, string>;
+let requested: string[];
+
+function defaultSite(): Map<string, string> {
+    return new Map([
+        ['/shop/', '<!DOCTYPE html><title>Shop</title>'],
+        ['/shop/index.html', '<!DOCTYPE html><title>Shop</title>'],
+        ['/shop/manifest.webmanifest', '{}'],
+        ['/shop/styles/styles.css', 'body {}'],
+        ['/shop/data/catalog.json', JSON.stringify([
+            { id: 'tiramisu', image: { thumbnail: './images/tiramisu-thumb.jpg', desktop: './images/tiramisu.jpg' } },
+            { id: 'baklava', image: { thumbnail: './images/baklava-thumb.jpg', desktop: 7 } },
+            'not a row'
+        ])],
+        ['/shop/images/favicon-32x32.png', 'png'],
+        ['/shop/images/icon-app.svg', '<svg/>'],
+        ['/shop/images/illustration-empty-cart.svg', '<svg/>'],
+        ['/shop/images/tiramisu-thumb.jpg', 'jpg'],
+        ['/shop/images/tiramisu.jpg', 'jpg'],
+        ['/shop/images/baklava-thumb.jpg', 'jpg'],
+        ['/shop/dist/index.js', "import { UIController } from './ui/UIController.js';\nexport { usd } from './utils/money.js';"],
+        ['/shop/dist/ui/UIController.js', "import {\n    usd\n} from '../utils/money.js';\nimport { html } from './html.js';"],
+        ['/shop/dist/ui/html.js', 'export const html = 1;'],
+        ['/shop/dist/utils/money.js', 'export const usd = 1;']
+    ]);
+}
+
+beforeAll(async () => {
+    server = createServer((request, response) => {
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+        requested.push(`${request.method} ${path}`);
+        const body = site.get(path);
+        response.writeHead(body === undefined ? 404 : 200);
+        response.end(body ?? 'not found');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    scope = `http://127.0.0.1:${(server.address() as AddressInfo).port}/shop/`;
+});
+
+afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Just enough of Cache for the worker: entries keyed by absolute URL
+ */
+class MemoryCache {
+    readonly entries: Map<string, Response> = new Map();
+
+    async match(request: RequestInfo): Promise<Response | undefined> {
+        return this.entries.get(absolute(request))?.clone();
+    }
+
+    async put(request: RequestInfo, response: Response): Promise<void> {
+        this.entries.set(absolute(request), response);
+    }
+
+    async addAll(requests: RequestInfo[]): Promise<void> {
+        const responses = await Promise.all(requests.map(async (request) => {
+            const response = await fetch(request);
+            if (!response.ok) throw new TypeError(`Could not add ${absolute(request)}: ${response.status}`);
+            return response;
+        }));
+        responses.forEach((response, index) => this.entries.set(absolute(requests[index]), response));
+    }
+
+    paths(): string[] {
+        return Array.from(this.entries.keys(), (url) => new URL(url).pathname).sort();
+    }
+}
+
+function absolute(request: RequestInfo): string {
+    return new URL(typeof request === 'string' ? request : request.url, scope).href;
+}
+
+type Listener = (event: unknown) => void;
+
+interface Worker {
+    caches: Map<string, MemoryCache>;
+    skipWaiting: ReturnType<typeof vi.fn>;
+    claim: ReturnType<typeof vi.fn>;
+    // Whether the worker's fetches reach the network
+    online: boolean;
+    dispatch(type: 'install' | 'activate'): Promise<void>;
+    // The worker's answer to a request, or undefined when it lets the page's own fetch through
+    fetch(request: Pick<Request, 'url' | 'method' | 'mode'>): Promise<{ response?: Response; background: Promise<unknown>[] }>;
+}
+
+const realFetch = globalThis.fetch;
+
+/**
+ * Load src/sw.ts into a fresh service worker scope: `self`, `caches` and `fetch` are stand-ins,
+ * with fetch going to the local site until the test takes the worker offline
+ */
+async function installWorker(): Promise<Worker> {
+    const listeners = new Map<string, Listener>();
+    const caches = new Map<string, MemoryCache>();
+    const worker: Worker = {
+        caches,
+        skipWaiting: vi.fn(async () => undefined),
+        claim: vi.fn(async () => undefined),
+        online: true,
+        async dispatch(type) {
+            const pending: Promise<unknown>[] = [];
+            listeners.get(type)?.({ waitUntil: (promise: Promise<unknown>) => pending.push(promise) });
+            await Promise.all(pending);
+        },
+        async fetch(request) {
+            let answer: Promise<Response> | undefined;
+            const background: Promise<unknown>[] = [];
+            listeners.get('fetch')?.({
+                request,
+                respondWith: (response: Promise<Response>) => (answer = response),
+                waitUntil: (promise: Promise<unknown>) => background.push(promise)
+            });
+            return { response: await answer, background };
+        }
+    };
+    vi.stubGlobal('self', {
+        registration: { scope },
+        location: { origin: new URL(scope).origin },
+        clients: { claim: worker.claim },
+        skipWaiting: worker.skipWaiting,
+        addEventListener: (type: string, listener: Listener) => listeners.set(type, listener)
+    });
+    vi.stubGlobal('caches', {
+        open: async (name: string) => caches.get(name) ?? caches.set(name, new MemoryCache()).get(name),
+        keys: async () => Array.from(caches.keys()),
+        delete: async (name: string) => caches.delete(name)
+    });
+    vi.stubGlobal('fetch', async (input: RequestInfo | URL, init?: RequestInit) => {
+        if (!worker.online) throw new TypeError('fetch failed');
+        const url = new URL(input instanceof URL ? input.href : absolute(input), scope);
+        return realFetch(url, typeof input === 'string' || input instanceof URL ? init : { method: input.method });
+    });
+    vi.resetModules();
+    await import(WORKER);
+    return worker;
+}
+
+function navigation(path: string): Pick<Request, 'url' | 'method' | 'mode'> {
+    // undici won't build a Request in navigate mode, so a navigation is the three fields the worker reads
+    return { url: new URL(path, scope).href, method: 'GET', mode: 'navigate' };
+}
+
+function get(path: string): Request {
+    return new Request(new URL(path, scope));
+}
+
+beforeEach(() => {
+    site = defaultSite();
+    requested = [];
+});
+
+afterEach(async () => {
+    vi.unstubAllGlobals();
+    await stopOrderStubs();
+});
+
+describe('installing the service worker', () => {
+    it('precaches the shell, every module the entry point reaches and the catalog images', async () => {
+        const worker = await installWorker();
+
+        await worker.dispatch('install');
+
+        expect(Array.from(worker.caches.keys())).toEqual(['dessert-shop-shell-v1']);
+        expect(worker.caches.get('dessert-shop-shell-v1')?.paths()).toEqual(Array.from(site.keys()).sort());
+        // Two modules import it: read once while following imports, then once more into the cache
+        expect(requested.filter((line) => line.endsWith('/money.js'))).toHaveLength(2);
+        expect(worker.skipWaiting).toHaveBeenCalled();
+    });
+
+    it('fails when a module can\'t be fetched, so the old worker stays in charge', async () => {
+        site.delete('/shop/dist/ui/html.js');
+        const worker = await installWorker();
+
+        await expect(worker.dispatch('install')).rejects.toThrow(`Could not precache ${scope}dist/ui/html.js: 404`);
+        expect(worker.skipWaiting).not.toHaveBeenCalled();
+    });
+
+    it('drops the shop\'s older caches on activation and leaves other caches alone', async () => {
+        const worker = await installWorker();
+        await worker.dispatch('install');
+        worker.caches.set('dessert-shop-shell-v0', new MemoryCache());
+        worker.caches.set('someone-else', new MemoryCache());
+
+        await worker.dispatch('activate');
+
+        expect(Array.from(worker.caches.keys())).toEqual(['dessert-shop-shell-v1', 'someone-else']);
+        expect(worker.claim).toHaveBeenCalled();
+    });
+});
+
+describe('answering requests', () => {
+    it('opens any page from the cached shell when offline', async () => {
+        const worker = await installWorker();
+        await worker.dispatch('install');
+
+        const online = await worker.fetch(navigation('admin'));
+        worker.online = false;
+        const offline = await worker.fetch(navigation('admin'));
+
+        expect(online.response?.status).toBe(404);
+        expect(worker.caches.get('dessert-shop-shell-v1')?.entries.has(`${scope}admin`)).toBe(false);
+        expect(await offline.response?.text()).toBe(site.get('/shop/index.html'));
+    });
+
+    it('fetches the catalog fresh, keeping it for when the network is gone', async () => {
+        const worker = await installWorker();
+        await worker.dispatch('install');
+        site.set('/shop/data/catalog.json', '[]');
+
+        const fresh = await worker.fetch(get('data/catalog.json'));
+        worker.online = false;
+        const cached = await worker.fetch(get('data/catalog.json'));
+
+        expect(await fresh.response?.text()).toBe('[]');
+        expect(await cached.response?.text()).toBe('[]');
+    });
+
+    it('answers other files from the cache and refreshes them for the next visit', async () => {
+        const worker = await installWorker();
+        await worker.dispatch('install');
+        site.set('/shop/styles/styles.css', 'body { color: red }');
+
+        const first = await worker.fetch(get('styles/styles.css'));
+        await Promise.all(first.background);
+        const second = await worker.fetch(get('styles/styles.css'));
+
+        expect(await first.response?.text()).toBe('body {}');
+        expect(await second.response?.text()).toBe('body { color: red }');
+    });
+
+    it('leaves order submissions to the page, so they reach the order endpoint once', async () => {
+        const stub: OrderStub = await startOrderStub();
+        const worker = await installWorker();
+        await worker.dispatch('install');
+        const submission = (key: string) => new Request(stub.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+            body: JSON.stringify({ order: { id: 'ORD-1' } })
+        });
+
+        expect((await worker.fetch(submission('key-1'))).response).toBeUndefined();
+        expect((await worker.fetch(new Request(stub.url))).response).toBeUndefined();
+        expect((await worker.fetch(new Request(`${scope}orders`, { method: 'POST', body: '{}' }))).response).toBeUndefined();
+
+        await realFetch(submission('key-1'));
+        expect(await recordedOrders(stub)).toEqual(['ORD-1']);
+        expect(await stub.logged(1)).toEqual(['201 ORD-1 (key-1)']);
+        expect(requested.filter((line) => line.startsWith('POST'))).toEqual([]);
+    });
+});
@@ -0,0 +1,237 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SyncTransport } from '../src/types/index.js';
+import { CartHistory } from '../src/components/CartHistory.js';
+import { CartSync, createSyncTransport, StorageEventTransport } from '../src/components/CartSync.js';
+import { lineIdOf } from '../src/utils/options.js';
+import { catalog, createShop, dessert } from './support/fixtures.js';
+
+const SYNC_KEY = 'dessert-shop:sync';
+
+/**
+ * Tabs joined by a channel that holds on to every message until the test delivers it,
+ * so messages can cross or arrive out of order. Like BroadcastChannel, a message reaches every tab but its sender.
+ */
+class TestChannel {
+    readonly pending: { from: number; message: string }[] = [];
+    private listeners: Map<number, (message: string) => void> = new Map();
+
+    connect(): SyncTransport {
+        const id = this.listeners.size;
+        return {
+            post: (message) => this.pending.push({ from: id, message }),
+            subscribe: (listener) => {
+                this.listeners.set(id, listener);
+                return () => this.listeners.delete(id);
+            },
+            close: () => undefined
+        };
+    }
+
+    /**
+     * Deliver the held messages, in the order given by their positions in the queue (queue order by default)
+     */
+    deliver(order: number[] = this.pending.map((_, index) => index)): void {
+        const messages = order.map((index) => this.pending[index]);
+        this.pending.length = 0;
+        messages.forEach(({ from, message }) => this.listeners.forEach((listener, id) => id !== from && listener(message)));
+    }
+
+    /**
+     * Hand a raw message to every tab, as if some other tab had sent it
+     */
+    inject(message: string): void {
+        this.listeners.forEach((listener) => listener(message));
+    }
+}
+
+function openTab(transport: SyncTransport) {
+    const shop = createShop();
+    const logger = { warn: vi.fn(), error: vi.fn() };
+    const sync = new CartSync(shop.cart, transport, (id) => catalog.find((d) => d.id === id), logger);
+    const history = new CartHistory(shop.cart, () => sync.isApplyingRemote);
+    return { ...shop, sync, history, logger };
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    window.localStorage.clear();
+});
+
+describe('CartSync', () => {
+    it('mirrors lines, promo codes and clearing in the other tab', () => {
+        const channel = new TestChannel();
+        const a = openTab(channel.connect());
+        const b = openTab(channel.connect());
+
+        a.cart.addItem(dessert('creme-brulee'), 2);
+        a.cart.addItem(dessert('waffle-berries'), 1, { toppings: ['banana'] });
+        a.cart.applyPromoCode('SWEET10');
+        channel.deliver();
+
+        expect(b.cart.getItems()).toEqual(a.cart.getItems());
+        expect(b.cart.getPromoCodes()).toEqual(['SWEET10']);
+
+        a.cart.clear();
+        channel.deliver();
+
+        expect(b.cart.getItems()).toEqual([]);
+        expect(b.cart.getPromoCodes()).toEqual([]);
+    });
+
+    it('settles concurrent edits of a line on the later write, whatever order they arrive in', () => {
+        for (const order of [[0, 1, 2], [2, 1, 0], [1, 2, 0], [2, 0, 1]]) {
+            const channel = new TestChannel();
+            const a = openTab(channel.connect());
+            const b = openTab(channel.connect());
+            a.cart.addItem(dessert('creme-brulee'));
+            channel.deliver();
+
+            // Both tabs are on clock 1, so the first two writes cross; A's second one is the latest
+            a.cart.updateQuantity('creme-brulee', 2);
+            b.cart.updateQuantity('creme-brulee', 4);
+            a.cart.updateQuantity('creme-brulee', 3);
+            channel.deliver(order);
+
+            expect(a.cart.getDessertQuantity('creme-brulee')).toBe(3);
+            expect(b.cart.getDessertQuantity('creme-brulee')).toBe(3);
+        }
+    });
+
+    it('breaks a tie between equal clocks by tab id, the same way in both tabs', () => {
+        const channel = new TestChannel();
+        const a = openTab(channel.connect());
+        const b = openTab(channel.connect());
+        a.cart.addItem(dessert('tiramisu'));
+        channel.deliver();
+
+        a.cart.updateQuantity('tiramisu', 2);
+        b.cart.updateQuantity('tiramisu', 5);
+        channel.deliver();
+
+        const winner = a.sync.tabId > b.sync.tabId ? 2 : 5;
+        expect(a.cart.getDessertQuantity('tiramisu')).toBe(winner);
+        expect(b.cart.getDessertQuantity('tiramisu')).toBe(winner);
+    });
+
+    it('ignores its own messages and never sends a change it received', () => {
+        const posted: string[] = [];
+        const listeners: ((message: string) => void)[] = [];
+        // A transport that hands every message straight back to the tab that sent it
+        const echo: SyncTransport = {
+            post: (message) => {
+                posted.push(message);
+                listeners.forEach((listener) => listener(message));
+            },
+            subscribe: (listener) => {
+                listeners.push(listener);
+                return () => undefined;
+            },
+            close: () => undefined
+        };
+        const tab = openTab(echo);
+
+        tab.cart.addItem(dessert('baklava'), 2);
+        tab.cart.removeItem('baklava');
+
+        expect(posted).toHaveLength(2);
+        expect(tab.cart.getItems()).toEqual([]);
+        expect(tab.history.undo()?.map((event) => event.type)).toEqual(['item-removed']);
+    });
+
+    it('keeps remote changes out of the tab\'s own undo history', () => {
+        const channel = new TestChannel();
+        const a = openTab(channel.connect());
+        const b = openTab(channel.connect());
+
+        b.cart.addItem(dessert('creme-brulee'));
+        a.cart.addItem(dessert('tiramisu'), 2);
+        channel.deliver();
+        expect(channel.pending).toEqual([]);
+
+        expect(a.history.undo()?.map((event) => event.type)).toEqual(['item-added']);
+        expect(a.cart.getItems().map((item) => item.dessert.id)).toEqual(['creme-brulee']);
+        expect(a.history.canUndo).toBe(false);
+        expect(b.history.undo()?.map((event) => event.type)).toEqual(['item-added']);
+    });
+
+    it('drops an undo step that another tab has made impossible', () => {
+        const channel = new TestChannel();
+        const a = openTab(channel.connect());
+        const b = openTab(channel.connect());
+        a.cart.addItem(dessert('pie-lemon'));
+        channel.deliver();
+
+        a.cart.updateQuantity('pie-lemon', 3);
+        // B's removal comes after a write of its own, so it is the latest whichever tab wins ties
+        b.cart.updateQuantity('pie-lemon', 2);
+        b.cart.removeItem('pie-lemon');
+        channel.deliver();
+
+        expect(a.cart.getItems()).toEqual([]);
+        expect(a.history.undo()).toBeUndefined();
+        expect(a.cart.getItems()).toEqual([]);
+    });
+
+    it('drops messages that are not a sync message, leaving the cart alone', () => {
+        const channel = new TestChannel();
+        const tab = openTab(channel.connect());
+        tab.cart.addItem(dessert('creme-brulee'));
+        const line = { dessertId: 'creme-brulee', options: {}, quantity: 9, addedAt: new Date().toISOString() };
+        const message = { type: 'cart-changed', clock: 99, origin: 'tab-other', cause: 'quantity-updated', lines: [line], promoCodes: [] };
+
+        channel.inject('not json');
+        channel.inject(JSON.stringify({ ...message, lines: [{ ...line, quantity: '9' }] }));
+        channel.inject(JSON.stringify({ ...message, lines: [{ ...line, options: { toppings: 'banana' } }] }));
+        channel.inject(JSON.stringify({ ...message, promoCodes: [{ code: 'SWEET10' }] }));
+        channel.inject(JSON.stringify({ ...message, cause: 'reset' }));
+        channel.inject(JSON.stringify({ ...message, group: { participants: 'everyone' } }));
+        channel.inject(JSON.stringify({ ...message, type: 'cart-emptied' }));
+        channel.inject(JSON.stringify({ type: 'order-confirmed', clock: 99, origin: 'tab-other' }));
+
+        expect(tab.cart.getDessertQuantity('creme-brulee')).toBe(1);
+        expect(tab.logger.warn).toHaveBeenCalledTimes(8);
+
+        channel.inject(JSON.stringify(message));
+        expect(tab.cart.getDessertQuantity('creme-brulee')).toBe(9);
+    });
+});
+
+describe('the storage event fallback', () => {
+    it('is used when the browser has no BroadcastChannel', () => {
+        vi.stubGlobal('BroadcastChannel', undefined);
+
+        expect(createSyncTransport()).toBeInstanceOf(StorageEventTransport);
+    });
+
+    it('carries changes through localStorage to the other tabs', () => {
+        // Another tab's write shows up in this one as a storage event; jsdom only fires them across windows
+        const dispatch = () => window.dispatchEvent(new StorageEvent('storage', { key: SYNC_KEY, newValue: window.localStorage.getItem(SYNC_KEY) }));
+        const a = openTab(new StorageEventTransport());
+        const b = openTab(new StorageEventTransport());
+
+        a.cart.addItem(dessert('baklava'), 2);
+        dispatch();
+
+        expect(b.cart.getItems().map((item) => [lineIdOf(item), item.quantity])).toEqual([['baklava', 2]]);
+        // A hears its own write too and leaves its cart as it was
+        expect(a.cart.getDessertQuantity('baklava')).toBe(2);
+
+        b.cart.removeItem('baklava');
+        dispatch();
+
+        expect(a.cart.getItems()).toEqual([]);
+        expect(b.history.canUndo).toBe(true);
+        expect(a.history.undo()?.map((event) => event.type)).toEqual(['item-added']);
+    });
+
+    it('ignores storage events for other keys', () => {
+        const tab = openTab(new StorageEventTransport());
+        const message = { type: 'order-confirmed', clock: 1, origin: 'tab-other', orderId: 'ORD-1' };
+        tab.cart.addItem(dessert('tiramisu'));
+
+        window.dispatchEvent(new StorageEvent('storage', { key: 'dessert-shop:state', newValue: JSON.stringify(message) }));
+
+        expect(tab.cart.getDessertQuantity('tiramisu')).toBe(1);
+    });
+});
@@ -0,0 +1,141 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryStorageAdapter, StatePersistence } from '../src/components/StatePersistence.js';
+import { byId, card, click, placeOrder, press, settle, startShop, stopShop } from './support/dom.js';
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+});
+
+afterEach(() => {
+    stopShop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('UIController', () => {
+    it('renders a card for every dessert in the catalog', async () => {
+        await startShop();
+
+        expect(document.querySelectorAll('#dessertsGrid .dessert-card')).toHaveLength(9);
+        expect(card('tiramisu').querySelector('.dessert-price')?.textContent).toBe('$5.50');
+        expect(byId('cartContent').classList.contains('hidden')).toBe(false);
+    });
+
+    it('swaps Add to Cart for quantity controls and keeps the cart panel in step', async () => {
+        await startShop();
+
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+        click(card('tiramisu').querySelector('.quantity-btn.increment'));
+        await settle();
+
+        expect(card('tiramisu').querySelector('.add-to-cart-btn')?.classList.contains('hidden')).toBe(true);
+        expect(card('tiramisu').querySelector('.quantity-value')?.textContent).toBe('2');
+        expect(byId('cartTitle').textContent).toBe('Your Cart (2)');
+        expect(byId('cartItems').querySelector('.cart-item-total')?.textContent).toBe('$11.00');
+        expect(byId('totalAmount').textContent).toBe('$12.10');
+    });
+
+    it('empties the cart again when the last unit is taken off', async () => {
+        await startShop();
+        click(card('baklava').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        click(card('baklava').querySelector('.quantity-btn.decrement'));
+        await settle();
+
+        expect(byId('cartItems').children).toHaveLength(0);
+        expect(byId('cartContent').classList.contains('hidden')).toBe(false);
+        expect(document.activeElement).toBe(card('baklava').querySelector('.add-to-cart-btn'));
+    });
+
+    it('offers to undo a removed line', async () => {
+        await startShop();
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        click(byId('cartItems').querySelector('.remove-item-btn'));
+        await settle();
+        expect(byId('undoToast').classList.contains('hidden')).toBe(false);
+        expect(byId('undoToastText').textContent).toBe('Classic Tiramisu removed');
+
+        click(byId('undoToastBtn'));
+        await settle();
+        expect(byId('cartTitle').textContent).toBe('Your Cart (1)');
+        expect(byId('undoToast').classList.contains('hidden')).toBe(true);
+    });
+
+    it('undoes and redoes with keyboard shortcuts', async () => {
+        await startShop();
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        press('z', { ctrlKey: true }, document.body);
+        await settle();
+        expect(byId('cartTitle').textContent).toBe('Your Cart (0)');
+
+        press('z', { ctrlKey: true, shiftKey: true }, document.body);
+        await settle();
+        expect(byId('cartTitle').textContent).toBe('Your Cart (1)');
+    });
+
+    it('shows a promo code error without applying it', async () => {
+        await startShop();
+        click(card('baklava').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        byId<HTMLInputElement>('promoInput').value = 'SWEET10';
+        byId<HTMLFormElement>('promoForm').requestSubmit();
+        await settle();
+
+        expect(byId('promoError').classList.contains('hidden')).toBe(false);
+        expect(byId('cartBreakdown').querySelector('.promo-line')).toBeNull();
+    });
+
+    it('places an order through checkout and shows the confirmation', async () => {
+        const storage = new MemoryStorageAdapter();
+        await startShop(storage);
+        click(card('creme-brulee').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        await placeOrder();
+
+        expect(byId('checkoutModal').classList.contains('hidden')).toBe(true);
+        expect(byId('orderModal').classList.contains('hidden')).toBe(false);
+        expect(byId('modalOrderNumber').textContent).toMatch(/^Order ORD-\d+-1$/);
+        expect(byId('modalTotalAmount').textContent).toBe('$12.69');
+        const saved = new StatePersistence(storage).load();
+        expect(saved?.orders.map((order) => order.status)).toEqual(['confirmed']);
+        expect(saved?.cart).toEqual([]);
+    });
+
+    it('comes back to an empty cart when reloaded on the confirmation', async () => {
+        const storage = new MemoryStorageAdapter();
+        await startShop(storage);
+        click(card('baklava').querySelector('.add-to-cart-btn'));
+        await settle();
+        await placeOrder();
+        stopShop();
+
+        await startShop(storage);
+
+        expect(byId('cartTitle').textContent).toBe('Your Cart (0)');
+        expect(card('baklava').querySelector('.add-to-cart-btn')?.classList.contains('hidden')).toBe(false);
+    });
+
+    it('keeps checkout on the step with a missing field', async () => {
+        await startShop();
+        click(card('tiramisu').querySelector('.add-to-cart-btn'));
+        await settle();
+
+        click(byId('confirmOrderBtn'));
+        click(byId('checkoutNextBtn'));
+
+        const name = byId('checkoutForm').querySelector('[name="name"]');
+        expect(name?.getAttribute('aria-invalid')).toBe('true');
+        expect(byId('error-name').textContent).not.toBe('');
+        expect(document.activeElement).toBe(name);
+    });
+});